@@ -0,0 +1,239 @@
+#!/usr/bin/env node
+// Reference WebSocket relay for collaboration sessions. It has no dependencies so a workshop host can run it with
+// plain Node: `npm run collab:relay -- --port 8787 --host 0.0.0.0`.
+//
+// The relay knows nothing about slices. Per room it numbers every durable message, keeps them so later joiners can
+// replay the room, and forwards presence without keeping it beyond the sender's last update. It follows the same
+// rules as createInProcessCollabRelay in src/collab/collabTransport.ts.
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+const WEB_SOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Splits buffered bytes into complete client frames. Returns null when a frame breaks the protocol.
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    const masked = (second & 0x80) !== 0;
+    let length = second & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length - cursor < 2) {
+        break;
+      }
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length - cursor < 8) {
+        break;
+      }
+      const longLength = buffer.readBigUInt64BE(cursor);
+      if (longLength > BigInt(MAX_MESSAGE_BYTES)) {
+        return null;
+      }
+      length = Number(longLength);
+      cursor += 8;
+    }
+    if (!masked || length > MAX_MESSAGE_BYTES) {
+      return null;
+    }
+    if (buffer.length - cursor < 4 + length) {
+      break;
+    }
+    const mask = buffer.subarray(cursor, cursor + 4);
+    cursor += 4;
+    const payload = Buffer.alloc(length);
+    for (let index = 0; index < length; index += 1) {
+      payload[index] = buffer[cursor + index] ^ mask[index % 4];
+    }
+    frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function isMessage(value) {
+  return Boolean(value) && typeof value === 'object' && typeof value.kind === 'string' && typeof value.clientId === 'string';
+}
+
+function isSequenced(message) {
+  return message.kind !== 'presence' && message.kind !== 'leave';
+}
+
+export function startCollabRelay({ port = 8787, host = 'localhost' } = {}) {
+  const rooms = new Map();
+
+  const roomFor = (name) => {
+    let room = rooms.get(name);
+    if (!room) {
+      room = { seq: 0, history: [], presence: new Map(), members: new Set() };
+      rooms.set(name, room);
+    }
+    return room;
+  };
+
+  const server = createServer((_request, response) => {
+    response.writeHead(426, { 'content-type': 'text/plain' });
+    response.end('Slicr collaboration relay: connect with a WebSocket and ?room=<name>.\n');
+  });
+
+  server.on('upgrade', (request, socket) => {
+    const key = request.headers['sec-websocket-key'];
+    if (typeof key !== 'string' || String(request.headers.upgrade).toLowerCase() !== 'websocket') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    const accept = createHash('sha1').update(key + WEB_SOCKET_GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n'
+        + `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    socket.setNoDelay(true);
+
+    const roomName = new URL(request.url ?? '/', 'http://relay').searchParams.get('room') || 'default';
+    const room = roomFor(roomName);
+    const member = {
+      clientId: null,
+      send: (message) => {
+        if (!socket.destroyed) {
+          socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+        }
+      }
+    };
+    room.members.add(member);
+    for (const message of room.history) {
+      member.send(message);
+    }
+    member.send({ kind: 'synced', seq: room.seq });
+    for (const presence of room.presence.values()) {
+      member.send(presence);
+    }
+
+    const leave = () => {
+      if (!room.members.delete(member)) {
+        return;
+      }
+      if (member.clientId !== null) {
+        room.presence.delete(member.clientId);
+        for (const other of room.members) {
+          other.send({ kind: 'leave', clientId: member.clientId });
+        }
+      }
+      if (room.members.size === 0) {
+        rooms.delete(roomName);
+      }
+    };
+
+    const receive = (text) => {
+      let message;
+      try {
+        message = JSON.parse(text);
+      } catch {
+        return;
+      }
+      if (!isMessage(message)) {
+        return;
+      }
+      member.clientId = message.clientId;
+      if (message.kind === 'leave') {
+        return;
+      }
+      if (!isSequenced(message)) {
+        room.presence.set(message.clientId, message);
+        for (const other of room.members) {
+          if (other !== member) {
+            other.send(message);
+          }
+        }
+        return;
+      }
+      room.seq += 1;
+      const sequenced = { ...message, seq: room.seq };
+      room.history.push(sequenced);
+      for (const other of room.members) {
+        other.send(sequenced);
+      }
+    };
+
+    let pending = Buffer.alloc(0);
+    let fragments = [];
+    socket.on('data', (chunk) => {
+      const decoded = decodeFrames(Buffer.concat([pending, chunk]));
+      if (!decoded) {
+        socket.destroy();
+        return;
+      }
+      pending = decoded.rest;
+      for (const frame of decoded.frames) {
+        if (frame.opcode === OPCODE_CLOSE) {
+          socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+          return;
+        }
+        if (frame.opcode === OPCODE_PING) {
+          socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+          continue;
+        }
+        if (frame.opcode !== OPCODE_TEXT && frame.opcode !== OPCODE_CONTINUATION) {
+          continue;
+        }
+        fragments.push(frame.payload);
+        if (frame.fin) {
+          const text = Buffer.concat(fragments).toString('utf8');
+          fragments = [];
+          receive(text);
+        }
+      }
+    });
+    socket.on('close', leave);
+    socket.on('error', leave);
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, host, () => resolve(server));
+  });
+}
+
+function readOption(args, name, fallback) {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  const args = process.argv.slice(2);
+  const port = Number(readOption(args, 'port', process.env.PORT ?? '8787'));
+  const host = readOption(args, 'host', process.env.HOST ?? 'localhost');
+  startCollabRelay({ port, host }).then((server) => {
+    const address = server.address();
+    const shownPort = typeof address === 'object' && address ? address.port : port;
+    console.log(`Collaboration relay listening on ws://${host}:${shownPort}`);
+  });
+}
@@ -136,7 +136,7 @@ describe('App event compaction interactions', () => {
 
     expect(document.querySelector('.compact-events-dialog')).toBeNull();
     expect(localStorage.getItem('slicr.es.v1.snapshot.slice-a')).toBeNull();
-    const summary = document.querySelector('.compact-events-summary');
+    const summary = document.querySelector('.app-status-message');
     expect(summary?.textContent).toContain('Reclaimed');
   });
 
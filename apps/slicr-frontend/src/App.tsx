@@ -1,9 +1,31 @@
+import { useState } from 'react';
 import { useAppState } from './application/useAppState';
+import { isSliceShareFragment } from './sliceShareLink';
 import { AppShell } from './ui/AppShell';
+import { SharedSliceView } from './ui/SharedSliceView';
 
-function App() {
+function ProjectApp() {
   const vm = useAppState();
   return <AppShell {...vm} />;
 }
 
+function App() {
+  const [shareFragment, setShareFragment] = useState(() => (
+    isSliceShareFragment(window.location.hash) ? window.location.hash : null
+  ));
+
+  if (shareFragment) {
+    return (
+      <SharedSliceView
+        fragment={shareFragment}
+        onOpenApp={() => {
+          window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+          setShareFragment(null);
+        }}
+      />
+    );
+  }
+  return <ProjectApp />;
+}
+
 export default App;
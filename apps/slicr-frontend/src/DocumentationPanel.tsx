@@ -1,4 +1,4 @@
-import { Dispatch, SetStateAction, useEffect, useRef, useState } from 'react';
+import { Dispatch, RefObject, SetStateAction, useEffect, useRef, useState } from 'react';
 import { DOCUMENTATION_GROUPS, DocumentationFeature } from './documentationCatalog';
 import { buildRenderedEdges, computeDiagramLayout, computeProvisionalDiagramLayout } from './domain/diagramEngine';
 import { parseDsl } from './domain/parseDsl';
@@ -11,6 +11,7 @@ const DOC_PREVIEW_MARGIN = 64;
 const DOC_PREVIEW_VIEWPORT_WIDTH = 560;
 const DOC_PREVIEW_VIEWPORT_HEIGHT = 560;
 const DOC_PREVIEW_ZOOM_BOOST = 1.2;
+const DOC_EXAMPLE_ROOT_MARGIN = '400px 0px';
 
 type PreviewData =
   | {
@@ -82,7 +83,38 @@ function buildPreviewData(feature: DocumentationFeature, preferAsync = false): P
   }
 }
 
-function FeatureCard({ feature, diagramRendererId }: { feature: DocumentationFeature; diagramRendererId: DiagramRendererId }) {
+function useNearViewport<T extends Element>(ref: RefObject<T | null>) {
+  const [near, setNear] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (near || !element || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        setNear(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: DOC_EXAMPLE_ROOT_MARGIN });
+    observer.observe(element);
+    return () => {
+      observer.disconnect();
+    };
+  }, [near, ref]);
+
+  return near;
+}
+
+function FeatureExample({
+  feature,
+  diagramRendererId,
+  onReadyChange
+}: {
+  feature: DocumentationFeature;
+  diagramRendererId: DiagramRendererId;
+  onReadyChange: (ready: boolean) => void;
+}) {
   const [previewState, setPreviewState] = useState<PreviewState>(() => ({
     featureDsl: feature.dsl,
     preview: buildPreviewData(feature),
@@ -96,6 +128,10 @@ function FeatureCard({ feature, diagramRendererId }: { feature: DocumentationFea
   const preview = previewState.featureDsl === feature.dsl ? previewState.preview : buildPreviewData(feature);
   const previewReady = previewState.featureDsl === feature.dsl ? previewState.ready : false;
 
+  useEffect(() => {
+    onReadyChange(previewReady);
+  }, [onReadyChange, previewReady]);
+
   useEffect(() => {
     let active = true;
 
@@ -159,7 +195,56 @@ function FeatureCard({ feature, diagramRendererId }: { feature: DocumentationFea
   }, [feature]);
 
   return (
-    <article className="doc-feature-card" data-doc-preview-ready={previewReady ? 'true' : 'false'}>
+    <div className="doc-feature-content">
+      <ReadOnlyDslEditor className="doc-dsl" value={feature.dsl} copyAriaLabel={`Copy example for ${feature.title}`} />
+
+      {'sceneModel' in preview && preview.error === '' ? (
+        <div className="doc-diagram-shell">
+          <div
+            className="doc-diagram"
+            style={{
+              width: `${DOC_PREVIEW_VIEWPORT_WIDTH}px`,
+              height: `${DOC_PREVIEW_VIEWPORT_HEIGHT}px`
+            }}
+          >
+            <DiagramRenderer
+              diagramMode="slice"
+              sceneModel={preview.sceneModel}
+              overviewNodeDataVisible
+              canvasPanelRef={canvasPanelRef}
+              isPanning={false}
+              docsOpen={false}
+              dragTooltip={null}
+              dragAndDropEnabled={false}
+              beginCanvasPan={() => {}}
+              beginNodeDrag={() => {}}
+              beginEdgeSegmentDrag={() => {}}
+              onNodeHoverRange={() => {}}
+              onNodeSelect={() => {}}
+              onNodeOpenInEditor={() => {}}
+              onEdgeHover={noopEdgeHover}
+              onToggleOverviewNodeDataVisibility={() => {}}
+              rendererId={diagramRendererId}
+              cameraControlsEnabled={false}
+              initialCamera={preview.initialCamera}
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="doc-render-error">⚠ {preview.error}</div>
+      )}
+    </div>
+  );
+}
+
+// Each example mounts an editor and a diagram, so cards only build them once they scroll near the viewport.
+function FeatureCard({ feature, diagramRendererId }: { feature: DocumentationFeature; diagramRendererId: DiagramRendererId }) {
+  const cardRef = useRef<HTMLElement>(null);
+  const nearViewport = useNearViewport(cardRef);
+  const [previewReady, setPreviewReady] = useState(false);
+
+  return (
+    <article ref={cardRef} className="doc-feature-card" data-doc-preview-ready={previewReady ? 'true' : 'false'}>
       <div className="doc-feature-header">
         <div>
           <h4>{feature.title}</h4>
@@ -167,45 +252,11 @@ function FeatureCard({ feature, diagramRendererId }: { feature: DocumentationFea
         </div>
       </div>
 
-      <div className="doc-feature-content">
-        <ReadOnlyDslEditor className="doc-dsl" value={feature.dsl} copyAriaLabel={`Copy example for ${feature.title}`} />
-
-        {'sceneModel' in preview && preview.error === '' ? (
-          <div className="doc-diagram-shell">
-            <div
-              className="doc-diagram"
-              style={{
-                width: `${DOC_PREVIEW_VIEWPORT_WIDTH}px`,
-                height: `${DOC_PREVIEW_VIEWPORT_HEIGHT}px`
-              }}
-            >
-              <DiagramRenderer
-                diagramMode="slice"
-                sceneModel={preview.sceneModel}
-                overviewNodeDataVisible
-                canvasPanelRef={canvasPanelRef}
-                isPanning={false}
-                docsOpen={false}
-                dragTooltip={null}
-                dragAndDropEnabled={false}
-                beginCanvasPan={() => {}}
-                beginNodeDrag={() => {}}
-                beginEdgeSegmentDrag={() => {}}
-                onNodeHoverRange={() => {}}
-                onNodeSelect={() => {}}
-                onNodeOpenInEditor={() => {}}
-                onEdgeHover={noopEdgeHover}
-                onToggleOverviewNodeDataVisibility={() => {}}
-                rendererId={diagramRendererId}
-                cameraControlsEnabled={false}
-                initialCamera={preview.initialCamera}
-              />
-            </div>
-          </div>
-        ) : (
-          <div className="doc-render-error">⚠ {preview.error}</div>
-        )}
-      </div>
+      {nearViewport ? (
+        <FeatureExample feature={feature} diagramRendererId={diagramRendererId} onReadyChange={setPreviewReady} />
+      ) : (
+        <div className="doc-feature-content doc-feature-content-pending" />
+      )}
     </article>
   );
 }
@@ -9,6 +9,7 @@ describe('buildAddNodeDsl', () => {
       ['read-model', 'rm'],
       ['ui', 'ui'],
       ['command', 'cmd'],
+      ['query', 'qry'],
       ['exception', 'exc'],
       ['automation', 'aut'],
       ['external', 'ext']
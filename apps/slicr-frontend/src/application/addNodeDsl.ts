@@ -4,6 +4,7 @@ export type AddNodeType =
   | 'read-model'
   | 'ui'
   | 'command'
+  | 'query'
   | 'exception'
   | 'automation'
   | 'external';
@@ -23,6 +24,7 @@ const TYPE_PREFIX: Record<AddNodeType, string> = {
   'read-model': 'rm',
   ui: 'ui',
   command: 'cmd',
+  query: 'qry',
   exception: 'exc',
   automation: 'aut',
   external: 'ext'
@@ -8,6 +8,7 @@ export type ParseResult =
 export const TYPE_LABEL: Record<string, string> = {
   rm: 'rm',
   cmd: 'cmd',
+  qry: 'qry',
   evt: 'evt',
   exc: 'exc',
   ui: 'ui',
@@ -1,5 +1,7 @@
 import type { PointerEvent as ReactPointerEvent, RefObject } from 'react';
+import type { DiagramEngineId } from '../domain/diagramEngine';
 import type { DiagramPoint } from '../domain/diagramRouting';
+import type { NodeAlignment, NodeDistribution, SelectionRect } from '../domain/nodeSelection';
 import type { DiagramRendererComponent } from '../diagram/rendererRegistry';
 import type { DiagramSceneModel, DiagramScenarioGroup } from '../diagram/rendererContract';
 import type { DiagramRendererId } from '../domain/runtimeFlags';
@@ -11,11 +13,20 @@ import type { Parsed, VisualNode } from '../domain/types';
 import type { ParsedSliceProjection } from '../domain/parsedSliceProjection';
 import type { FormattedNodeField } from '../domain/formatNodeData';
 import type { DataIssue } from '../domain/dataIssues';
+import type { DataTraceHop } from '../domain/dataTrace';
 import type { CrossSliceUsageRef } from '../domain/crossSliceUsage';
 import type { CompactionPlan } from '../eventCompaction';
+import type { ProjectBundle } from '../projectBundle';
+import type { SliceEvent, SliceEventConflict } from '../sliceEventStore';
+import type { NodeRenamePlan } from '../domain/nodeRename';
+import type { ProjectProblem, ProjectProblemGroup } from '../domain/projectProblems';
+import type { ModelLintLevel, ModelLintRuleId, ModelLintSettings } from '../domain/modelLint';
+import type { CollabPresence } from '../collab/collabProtocol';
+import type { JoinCollabSessionArgs } from './hooks/useCollabSession';
+import type { NodeVersion } from '../domain/nodeVersionHistory';
 
 export type ThemeMode = 'dark' | 'light';
-export type NodePanelTab = 'usage' | 'crossSliceData' | 'trace';
+export type NodePanelTab = 'usage' | 'crossSliceData' | 'trace' | 'versions';
 export type DiagramMode = 'slice' | 'overview';
 
 export type CrossSliceUsageEntry = {
@@ -34,8 +45,8 @@ export type TraceResult = {
   nodeKey: string;
   result: NonNullable<{
     source: unknown;
-    hops: Array<{ nodeKey: string; key: string }>;
-    contributors?: Array<{ label: string; hops: Array<{ nodeKey: string; key: string }> }>;
+    hops: DataTraceHop[];
+    contributors?: Array<{ label: string; hops: DataTraceHop[] }>;
   }>;
 };
 
@@ -56,6 +67,7 @@ export type HeaderSection = {
   theme: ThemeMode;
   docsOpen: boolean;
   showDevDiagramControls: boolean;
+  diagramEngineId: DiagramEngineId | null;
   hasManualLayoutOverrides: boolean;
   sliceMenuOpen: boolean;
   mobileMenuOpen: boolean;
@@ -73,6 +85,9 @@ export type EditorSection = {
   collapseAllDataRegions: () => void;
   collapseAllRegions: () => void;
   expandAllRegions: () => void;
+  formatDocument: () => void;
+  formatOnSave: boolean;
+  toggleFormatOnSave: () => void;
 };
 
 export type DiagramSection = {
@@ -95,6 +110,11 @@ export type DiagramSection = {
   beginCanvasPan: (event: ReactPointerEvent<HTMLDivElement>) => void;
   beginNodeDrag: (event: ReactPointerEvent, nodeKey: string) => void;
   beginEdgeSegmentDrag: (event: ReactPointerEvent, edgeKey: string, segmentIndex: number, points: DiagramPoint[]) => void;
+  selectedNodeKeys: string[];
+  marquee: SelectionRect | null;
+  beginMarqueeSelection: (event: ReactPointerEvent, toWorldPoint: (clientX: number, clientY: number) => DiagramPoint) => void;
+  remotePresence?: CollabPresence[];
+  onWorldPointerMove?: (point: DiagramPoint | null) => void;
 };
 
 export type AnalysisPanelSection = {
@@ -112,21 +132,52 @@ export type AnalysisPanelSection = {
   crossSliceUsageGroups: CrossSliceUsageGroup[];
   crossSliceDataEnabled: boolean;
   showDataTraceTab: boolean;
+  selectedNodeVersions: NodeVersion[];
+  showVersionsTab: boolean;
   crossSliceDataExpandedKeys: Record<string, boolean>;
   crossSliceTraceExpandedKeys: Record<string, boolean>;
   sourceOverrides: Record<string, string>;
 };
 
+export type SliceConflictNotice = SliceEventConflict & {
+  sliceId: string;
+  sliceName: string;
+};
+
+export type CollabSessionNotice = {
+  room: string;
+  sliceName: string;
+  participants: CollabPresence[];
+  error: string | null;
+};
+
 export type AuxPanelsSection = {
   docsOpen: boolean;
   hasOpenedDocs: boolean;
   commandPaletteOpen: boolean;
   createProjectDialogOpen: boolean;
   compactEventsDialogOpen: boolean;
-  compactEventsSummary: string | null;
+  statusMessage: string | null;
+  sliceConflict: SliceConflictNotice | null;
+  storageWriteError: string | null;
+  collabDialogOpen: boolean;
+  collabSession: CollabSessionNotice | null;
   addNodeDialogOpen: boolean;
   importNodeDialogOpen: boolean;
   createSliceTemplateDialogOpen: boolean;
+  exportBundleDialogOpen: boolean;
+  importBundleDialogOpen: boolean;
+  codeStubsDialogOpen: boolean;
+  scenarioTestsDialogOpen: boolean;
+  exportImageDialogOpen: boolean;
+  historyPanelOpen: boolean;
+  renameNodeDialogOpen: boolean;
+  problemsPanelOpen: boolean;
+  projectProblemGroups: ProjectProblemGroup[];
+  modelRulesDialogOpen: boolean;
+  modelLintSettings: ModelLintSettings;
+  sliceHistoryEvents: SliceEvent[];
+  historyPreviewVersion: number | null;
 };
 
 export type ConstantsSection = {
@@ -152,9 +203,16 @@ export type ActionsSection = {
   onSwitchProject: (projectId: string) => void;
   onCreateProject: (name: string) => void;
   onResetManualLayout: () => void;
+  onSelectDiagramEngine: (engineId: DiagramEngineId | null) => void;
+  onUndo: () => void;
+  onRedo: () => void;
   onPrintGeometry: () => Promise<void>;
   onNodeOpenInEditor: (nodeKey: string, range: Range) => void;
   onNodeSelect: NodeSelectionHandler;
+  onNodeToggleSelect: (nodeKey: string) => void;
+  onAlignSelectedNodes: (alignment: NodeAlignment) => void;
+  onDistributeSelectedNodes: (distribution: NodeDistribution) => void;
+  onDeleteSelectedNodes: () => void;
   onNodeHoverRange: RangeHoverHandler;
   onEdgeHover: EdgeHoverHandler;
   onSelectedNodePanelTabChange: (tab: NodePanelTab) => void;
@@ -169,6 +227,39 @@ export type ActionsSection = {
   onOpenCompactEventsDialog: () => void;
   onCloseCompactEventsDialog: () => void;
   onRunEventCompaction: (plan: CompactionPlan) => void;
+  onOpenProjectFolder: () => void;
+  onDismissSliceConflict: () => void;
+  onDismissStorageWriteError: () => void;
+  onOpenCollabDialog: () => void;
+  onCloseCollabDialog: () => void;
+  onJoinCollabSession: (args: JoinCollabSessionArgs) => void;
+  onLeaveCollabSession: () => void;
+  onOpenExportBundleDialog: () => void;
+  onCloseExportBundleDialog: () => void;
+  onExportProjectBundle: (args: { includeHistory: boolean }) => void;
+  onOpenImportBundleDialog: () => void;
+  onCloseImportBundleDialog: () => void;
+  onImportProjectBundle: (bundle: ProjectBundle) => void;
+  onOpenCodeStubsDialog: () => void;
+  onCloseCodeStubsDialog: () => void;
+  onOpenScenarioTestsDialog: () => void;
+  onCloseScenarioTestsDialog: () => void;
+  onOpenExportImageDialog: () => void;
+  onCloseExportImageDialog: () => void;
+  onOpenHistoryPanel: () => void;
+  onCloseHistoryPanel: () => void;
+  onPreviewSliceVersion: (version: number | null) => void;
+  onRestoreSliceVersion: (version: number) => void;
+  onOpenRenameNodeDialog: () => void;
+  onCloseRenameNodeDialog: () => void;
+  onRenameNode: (plan: NodeRenamePlan) => void;
+  onCopySliceShareLink: () => void;
+  onOpenProblemsPanel: () => void;
+  onCloseProblemsPanel: () => void;
+  onOpenModelRulesDialog: () => void;
+  onCloseModelRulesDialog: () => void;
+  onSetModelLintRuleLevel: (ruleId: ModelLintRuleId, level: ModelLintLevel) => void;
+  onJumpToProblem: (problem: ProjectProblem) => void;
   onOpenAddNodeDialog: () => void;
   onCloseAddNodeDialog: () => void;
   onCreateNodeFromDialog: (args: { dslBlock: string; insertionHint?: { preferCursor: boolean } }) => void;
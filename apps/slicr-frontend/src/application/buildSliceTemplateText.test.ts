@@ -81,4 +81,27 @@ describe('buildSliceTemplateText', () => {
     );
     expect(result.includes('slice "')).toBe(false);
   });
+
+  it('emits a query slice that reads the projection and feeds the screen', () => {
+    const result = buildSliceTemplateText({
+      targetMode: 'add-current',
+      sliceName: 'Ignored',
+      templateId: 'query',
+      includeReadModelInStateChange: true,
+      nodes: {}
+    });
+
+    expect(result).toBe(
+      'evt:payment-updated "Payment Updated"\n'
+      + '\n'
+      + 'rm:payment-history "Payment History"\n'
+      + '<- evt:payment-updated\n'
+      + '\n'
+      + 'qry:find-payments "Find Payments"\n'
+      + '<- rm:payment-history\n'
+      + '\n'
+      + 'ui:payment-search "Payment Search"\n'
+      + '<- qry:find-payments'
+    );
+  });
 });
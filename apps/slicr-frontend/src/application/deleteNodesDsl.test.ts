@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { parseDsl } from '../domain/parseDsl';
+import { deleteNodesFromDsl } from './deleteNodesDsl';
+
+const DSL = `slice "Booking"
+
+evt:room-opened
+  data:
+    room: 101
+
+rm:rooms <- evt:room-opened
+  data:
+    room: 101
+
+cmd:book-room
+  <- rm:rooms
+  -> evt:room-booked, evt:room-noted # outcomes
+  data:
+    room: 101
+
+evt:room-booked
+
+evt:room-noted
+
+scenario "books"
+given:
+  evt:room-opened
+when:
+  cmd:book-room
+then:
+  evt:room-booked`;
+
+function deleteNodes(nodeKeys: string[], dsl = DSL) {
+  return deleteNodesFromDsl(dsl, parseDsl(dsl), nodeKeys);
+}
+
+describe('deleteNodesFromDsl', () => {
+  it('removes the node block and every arrow pointing at it', () => {
+    const result = deleteNodes(['room-opened']);
+
+    expect(result).not.toContain('evt:room-opened\n  data:');
+    expect(result).toContain('rm:rooms\n  data:\n    room: 101');
+    expect(result).toContain('given:\n  evt:room-opened');
+    expect(parseDsl(result).nodes.has('room-opened')).toBe(false);
+  });
+
+  it('keeps the remaining refs of a clause and drops emptied clause lines', () => {
+    const result = deleteNodes(['room-booked', 'rooms']);
+
+    expect(result).toContain('cmd:book-room\n  -> evt:room-noted # outcomes\n  data:');
+    expect(result).not.toContain('rm:rooms');
+    expect(result).not.toContain('\nevt:room-booked\n');
+    expect(parseDsl(result).edges).toEqual([{ from: 'book-room', to: 'room-noted', label: null }]);
+  });
+
+  it('does not leave double blank lines behind', () => {
+    const result = deleteNodes(['room-noted']);
+
+    expect(result).not.toContain('\n\n\n');
+    expect(result).toContain('evt:room-booked\n\nscenario "books"');
+  });
+
+  it('matches generic and versioned node refs', () => {
+    const dsl = `slice "Generic"
+
+start
+
+evt:opened@2 <- start
+
+rm:view <- evt:opened@2, start`;
+
+    expect(deleteNodes(['start'], dsl)).toBe(`slice "Generic"
+
+evt:opened@2
+
+rm:view <- evt:opened@2`);
+    expect(deleteNodes(['opened@2'], dsl)).toBe(`slice "Generic"
+
+start
+
+rm:view <- start`);
+  });
+
+  describe('chains', () => {
+    const CHAIN = `slice "Chain"
+
+ui:a -> cmd:b -> evt:c
+  data:
+    room: 101
+
+rm:d <- evt:c`;
+
+    it('keeps the implicit nodes of a chain when its head is deleted', () => {
+      const result = deleteNodes(['a'], CHAIN);
+
+      expect(result).toBe(`slice "Chain"
+
+cmd:b -> evt:c
+
+rm:d <- evt:c`);
+      expect(parseDsl(result).edges).toEqual([
+        { from: 'b', to: 'c', label: null },
+        { from: 'c', to: 'd', label: null }
+      ]);
+    });
+
+    it('splits a chain where a middle node was deleted without linking the two sides', () => {
+      const result = deleteNodes(['b'], CHAIN);
+
+      expect(result).toBe(`slice "Chain"
+
+ui:a
+  data:
+    room: 101
+evt:c
+
+rm:d <- evt:c`);
+      const parsed = parseDsl(result);
+      expect([...parsed.nodes.keys()]).toEqual(['a', 'c', 'd']);
+      expect(parsed.nodes.get('a')?.data).toEqual({ room: 101 });
+      expect(parsed.edges).toEqual([{ from: 'c', to: 'd', label: null }]);
+    });
+
+    it('drops the last step of a chain when its tail is deleted', () => {
+      const result = deleteNodes(['c'], CHAIN);
+
+      expect(result).toContain('ui:a -> cmd:b\n  data:');
+      expect(result).not.toContain('rm:d <-');
+      expect(parseDsl(result).edges).toEqual([{ from: 'a', to: 'b', label: null }]);
+    });
+
+    it('keeps the chain after a gap on a continuation line', () => {
+      const dsl = `slice "Chain"
+
+cmd:book-room
+  -> evt:room-booked -> rm:bookings -> ui:booking-list`;
+
+      const result = deleteNodes(['room-booked'], dsl);
+
+      expect(result).toBe(`slice "Chain"
+
+cmd:book-room
+rm:bookings -> ui:booking-list`);
+      expect(parseDsl(result).edges).toEqual([{ from: 'bookings', to: 'booking-list', label: null }]);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import type { Parsed } from '../domain/types';
+
+const SCENARIO_LINE = /^(scenario\b|given:|when:|then:)/;
+const NODE_BLOCK_LINE = /^(<-|->|data:|uses:|stream:|lane:)/;
+const CHAIN_CONTINUATION_LINE = /^\s*->.*->/;
+const TRAILING_COMMENT = /\s+(?:#|\/\/).*$/;
+
+function nodeRef(node: { type: string; name: string }): string {
+  return node.type === 'generic' ? node.name : `${node.type}:${node.name}`;
+}
+
+function firstArrowIndex(code: string): number {
+  let inQuote = false;
+  for (let index = 0; index < code.length - 1; index += 1) {
+    const char = code[index];
+    if (char === '"' && code[index - 1] !== '\\') {
+      inQuote = !inQuote;
+    }
+    if (!inQuote && (code.startsWith('<-', index) || code.startsWith('->', index))) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+type EdgeLineEdit = {
+  line: string | null;
+  splitLines: string[];
+};
+
+// A `->` step that loses all its refs splits the chain: the steps after the gap move to
+// their own lines, so implicit nodes survive and the two sides are never linked.
+function removeEdgeRefs(line: string, refs: Set<string>, headDeleted = false): EdgeLineEdit {
+  const comment = line.match(TRAILING_COMMENT)?.[0] ?? '';
+  const code = line.slice(0, line.length - comment.length);
+  const arrowIndex = firstArrowIndex(code);
+  if (arrowIndex < 0) {
+    return { line: headDeleted ? null : line, splitLines: [] };
+  }
+
+  const head = code.slice(0, arrowIndex).trimEnd();
+  const parts = code.slice(arrowIndex).split(/(<-|->)/);
+  const clauses: string[] = [];
+  const splitLines: string[] = [];
+  let split: { heads: string[]; steps: string[] } | null = null;
+  let broken = headDeleted;
+  let removed = headDeleted;
+  const flushSplit = () => {
+    if (!split) {
+      return;
+    }
+    const { heads: [first, ...others], steps } = split;
+    splitLines.push([first, ...steps].join(' '));
+    splitLines.push(...others.map((ref) => [ref, ...steps.slice(0, 1)].join(' ')));
+    split = null;
+  };
+  for (let index = 1; index < parts.length; index += 2) {
+    const arrow = parts[index];
+    const items = parts[index + 1].split(',').map((item) => item.trim()).filter(Boolean);
+    const kept = items.filter((item) => !refs.has(item));
+    removed = removed || kept.length !== items.length;
+    if (arrow === '->' && kept.length === 0) {
+      broken = true;
+      flushSplit();
+    } else if (arrow === '<-' || !broken) {
+      if (kept.length > 0 && !headDeleted) {
+        clauses.push(`${arrow} ${kept.join(', ')}`);
+      }
+    } else if (split) {
+      split.steps.push(`-> ${kept.join(', ')}`);
+    } else {
+      split = { heads: kept, steps: [] };
+    }
+  }
+  flushSplit();
+  if (!removed) {
+    return { line, splitLines };
+  }
+  if (headDeleted) {
+    return { line: null, splitLines };
+  }
+
+  if (head.length === 0) {
+    const indent = code.match(/^\s*/)?.[0] ?? '';
+    return { line: clauses.length > 0 ? `${indent}${clauses.join(' ')}${comment}` : null, splitLines };
+  }
+  return { line: [head, ...clauses].join(' ') + comment, splitLines };
+}
+
+export function deleteNodesFromDsl(dsl: string, parsed: Parsed, nodeKeys: string[]): string {
+  const refs = new Set(
+    nodeKeys
+      .map((key) => parsed.nodes.get(key))
+      .filter((node): node is NonNullable<typeof node> => Boolean(node))
+      .map(nodeRef)
+  );
+  if (refs.size === 0) {
+    return dsl;
+  }
+
+  const lines = dsl.split('\n');
+  const kept: string[] = [];
+  let pendingSplitLines: string[] = [];
+  let inScenario = false;
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    const topLevel = /^\S/.test(line);
+    if (pendingSplitLines.length > 0 && (line.trim() === '' || (topLevel && !NODE_BLOCK_LINE.test(line)))) {
+      kept.push(...pendingSplitLines);
+      pendingSplitLines = [];
+    }
+    if (topLevel && SCENARIO_LINE.test(line)) {
+      inScenario = true;
+    } else if (topLevel && !NODE_BLOCK_LINE.test(line)) {
+      inScenario = false;
+    }
+
+    const declaredRef = topLevel && !inScenario ? line.match(/^[^\s,"]+/)?.[0] ?? null : null;
+    if (declaredRef && refs.has(declaredRef)) {
+      const splitLines = removeEdgeRefs(line, refs, true).splitLines;
+      index += 1;
+      while (index < lines.length && (/^\s+\S/.test(lines[index]) || NODE_BLOCK_LINE.test(lines[index]))) {
+        // Only chains on continuation lines create nodes; a single `-> ref` there does not.
+        if (CHAIN_CONTINUATION_LINE.test(lines[index])) {
+          splitLines.push(...removeEdgeRefs(lines[index], refs, true).splitLines);
+        }
+        index += 1;
+      }
+      kept.push(...splitLines);
+      const previousBlank = kept.length === 0 || kept[kept.length - 1].trim() === '';
+      if (splitLines.length === 0 && previousBlank && index < lines.length && lines[index].trim() === '') {
+        index += 1;
+      }
+      continue;
+    }
+
+    const isEdgeLine = !inScenario && (topLevel || /^\s*(<-|->)/.test(line));
+    const edit = isEdgeLine ? removeEdgeRefs(line, refs) : { line, splitLines: [] };
+    if (edit.line !== null) {
+      kept.push(edit.line);
+    }
+    pendingSplitLines.push(...edit.splitLines);
+    index += 1;
+  }
+
+  return [...kept, ...pendingSplitLines].join('\n');
+}
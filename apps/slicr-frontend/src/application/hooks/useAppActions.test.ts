@@ -1,4 +1,5 @@
 import { describe, expect, it, vi } from 'vitest';
+import { parseDsl } from '../../domain/parseDsl';
 import { useAppActions } from './useAppActions';
 
 describe('useAppActions', () => {
@@ -20,6 +21,10 @@ describe('useAppActions', () => {
       setCommandPaletteOpen: vi.fn(),
       setSelectedNodeKey: vi.fn(),
       setSliceSelectedNodeKey: vi.fn(),
+      selectedNodeKeys: [],
+      selectNodeKeys: vi.fn(),
+      setCurrentDsl: vi.fn(),
+      commitNodePositions: vi.fn(),
       setOverviewSelectedNodeKey: vi.fn(),
       setOverviewReturnState: vi.fn(),
       setHighlightRange,
@@ -29,6 +34,7 @@ describe('useAppActions', () => {
       selectedProjectId: 'project-1',
       applySelectedSliceOverrides: vi.fn(),
       pendingFocusNodeKeyRef: { current: null },
+      pendingFocusRangeRef: { current: null },
       setFocusRequestVersion: vi.fn(),
       editorOpenRef: { current: false },
       sliceSelectedNodeKeyRef: { current: null },
@@ -42,10 +48,27 @@ describe('useAppActions', () => {
       setMobileMenuOpen: vi.fn(),
       setCreateProjectDialogOpen: vi.fn(),
       setCompactEventsDialogOpen: vi.fn(),
-      setCompactEventsSummary: vi.fn(),
+      setStatusMessage: vi.fn(),
+      setSliceConflict: vi.fn(),
+      setStorageWriteError: vi.fn(),
+      setCollabDialogOpen: vi.fn(),
+      joinCollabSession: vi.fn(),
+      leaveCollabSession: vi.fn(),
       setAddNodeDialogOpen: vi.fn(),
       setImportNodeDialogOpen: vi.fn(),
       setCreateSliceTemplateDialogOpen: vi.fn(),
+      setExportBundleDialogOpen: vi.fn(),
+      setImportBundleDialogOpen: vi.fn(),
+      setCodeStubsDialogOpen: vi.fn(),
+      setScenarioTestsDialogOpen: vi.fn(),
+      setExportImageDialogOpen: vi.fn(),
+      setHistoryPanelOpen: vi.fn(),
+      setRenameNodeDialogOpen: vi.fn(),
+      setProblemsPanelOpen: vi.fn(),
+      setDiagramEngineId: vi.fn(),
+      setModelRulesDialogOpen: vi.fn(),
+      setModelLintRuleLevel: vi.fn(),
+      setHistoryPreview: vi.fn(),
       hasFocusedCursor: () => false,
       insertAtCursorOrEnd: () => ({ from: 0, to: 0 }),
       setTheme: vi.fn(),
@@ -54,6 +77,11 @@ describe('useAppActions', () => {
       setSourceOverrides: vi.fn(),
       setCrossSliceDataExpandedKeys: vi.fn(),
       resetManualLayout: vi.fn(),
+      applySliceHistory: vi.fn(),
+      previewSliceVersion: vi.fn(),
+      applySliceVersion: vi.fn(),
+      renameNodeAcrossProject: vi.fn(),
+      copySliceShareLink: vi.fn(),
       toggleDocumentationPanel: vi.fn(),
       currentDiagramSceneModel: null,
       setOverviewPlaceholderSceneModel: vi.fn()
@@ -82,6 +110,10 @@ describe('useAppActions', () => {
       setCommandPaletteOpen: vi.fn(),
       setSelectedNodeKey,
       setSliceSelectedNodeKey: vi.fn(),
+      selectedNodeKeys: [],
+      selectNodeKeys: vi.fn(),
+      setCurrentDsl: vi.fn(),
+      commitNodePositions: vi.fn(),
       setOverviewSelectedNodeKey: vi.fn(),
       setOverviewReturnState: vi.fn(),
       setHighlightRange: vi.fn(),
@@ -91,6 +123,7 @@ describe('useAppActions', () => {
       selectedProjectId: 'project-1',
       applySelectedSliceOverrides: vi.fn(),
       pendingFocusNodeKeyRef: { current: null },
+      pendingFocusRangeRef: { current: null },
       setFocusRequestVersion: vi.fn(),
       editorOpenRef: { current: false },
       sliceSelectedNodeKeyRef: { current: null },
@@ -104,10 +137,27 @@ describe('useAppActions', () => {
       setMobileMenuOpen: vi.fn(),
       setCreateProjectDialogOpen: vi.fn(),
       setCompactEventsDialogOpen: vi.fn(),
-      setCompactEventsSummary: vi.fn(),
+      setStatusMessage: vi.fn(),
+      setSliceConflict: vi.fn(),
+      setStorageWriteError: vi.fn(),
+      setCollabDialogOpen: vi.fn(),
+      joinCollabSession: vi.fn(),
+      leaveCollabSession: vi.fn(),
       setAddNodeDialogOpen: vi.fn(),
       setImportNodeDialogOpen: vi.fn(),
       setCreateSliceTemplateDialogOpen: vi.fn(),
+      setExportBundleDialogOpen: vi.fn(),
+      setImportBundleDialogOpen: vi.fn(),
+      setCodeStubsDialogOpen: vi.fn(),
+      setScenarioTestsDialogOpen: vi.fn(),
+      setExportImageDialogOpen: vi.fn(),
+      setHistoryPanelOpen: vi.fn(),
+      setRenameNodeDialogOpen: vi.fn(),
+      setProblemsPanelOpen: vi.fn(),
+      setDiagramEngineId: vi.fn(),
+      setModelRulesDialogOpen: vi.fn(),
+      setModelLintRuleLevel: vi.fn(),
+      setHistoryPreview: vi.fn(),
       hasFocusedCursor: () => false,
       insertAtCursorOrEnd: () => ({ from: 0, to: 0 }),
       setTheme: vi.fn(),
@@ -116,6 +166,11 @@ describe('useAppActions', () => {
       setSourceOverrides: vi.fn(),
       setCrossSliceDataExpandedKeys: vi.fn(),
       resetManualLayout: vi.fn(),
+      applySliceHistory: vi.fn(),
+      previewSliceVersion: vi.fn(),
+      applySliceVersion: vi.fn(),
+      renameNodeAcrossProject: vi.fn(),
+      copySliceShareLink: vi.fn(),
       toggleDocumentationPanel: vi.fn(),
       currentDiagramSceneModel: null,
       setOverviewPlaceholderSceneModel: vi.fn()
@@ -144,6 +199,10 @@ describe('useAppActions', () => {
       setCommandPaletteOpen: vi.fn(),
       setSelectedNodeKey: vi.fn(),
       setSliceSelectedNodeKey: vi.fn(),
+      selectedNodeKeys: [],
+      selectNodeKeys: vi.fn(),
+      setCurrentDsl: vi.fn(),
+      commitNodePositions: vi.fn(),
       setOverviewSelectedNodeKey: vi.fn(),
       setOverviewReturnState: vi.fn(),
       setHighlightRange,
@@ -153,6 +212,7 @@ describe('useAppActions', () => {
       selectedProjectId: 'project-1',
       applySelectedSliceOverrides: vi.fn(),
       pendingFocusNodeKeyRef: { current: null },
+      pendingFocusRangeRef: { current: null },
       setFocusRequestVersion: vi.fn(),
       editorOpenRef: { current: false },
       sliceSelectedNodeKeyRef: { current: null },
@@ -166,10 +226,27 @@ describe('useAppActions', () => {
       setMobileMenuOpen: vi.fn(),
       setCreateProjectDialogOpen: vi.fn(),
       setCompactEventsDialogOpen: vi.fn(),
-      setCompactEventsSummary: vi.fn(),
+      setStatusMessage: vi.fn(),
+      setSliceConflict: vi.fn(),
+      setStorageWriteError: vi.fn(),
+      setCollabDialogOpen: vi.fn(),
+      joinCollabSession: vi.fn(),
+      leaveCollabSession: vi.fn(),
       setAddNodeDialogOpen: vi.fn(),
       setImportNodeDialogOpen: vi.fn(),
       setCreateSliceTemplateDialogOpen: vi.fn(),
+      setExportBundleDialogOpen: vi.fn(),
+      setImportBundleDialogOpen: vi.fn(),
+      setCodeStubsDialogOpen: vi.fn(),
+      setScenarioTestsDialogOpen: vi.fn(),
+      setExportImageDialogOpen: vi.fn(),
+      setHistoryPanelOpen: vi.fn(),
+      setRenameNodeDialogOpen: vi.fn(),
+      setProblemsPanelOpen: vi.fn(),
+      setDiagramEngineId: vi.fn(),
+      setModelRulesDialogOpen: vi.fn(),
+      setModelLintRuleLevel: vi.fn(),
+      setHistoryPreview: vi.fn(),
       hasFocusedCursor: () => false,
       insertAtCursorOrEnd: () => ({ from: 0, to: 0 }),
       setTheme: vi.fn(),
@@ -178,6 +255,11 @@ describe('useAppActions', () => {
       setSourceOverrides: vi.fn(),
       setCrossSliceDataExpandedKeys: vi.fn(),
       resetManualLayout: vi.fn(),
+      applySliceHistory: vi.fn(),
+      previewSliceVersion: vi.fn(),
+      applySliceVersion: vi.fn(),
+      renameNodeAcrossProject: vi.fn(),
+      copySliceShareLink: vi.fn(),
       toggleDocumentationPanel: vi.fn(),
       currentDiagramSceneModel: null,
       setOverviewPlaceholderSceneModel: vi.fn()
@@ -187,4 +269,195 @@ describe('useAppActions', () => {
 
     expect(setHighlightRange).not.toHaveBeenCalled();
   });
+
+  it('toggles nodes into the selection and deletes the selected nodes from the DSL', () => {
+    const dsl = 'slice "Demo"\n\nevt:opened\n\nrm:view <- evt:opened';
+    const parsed = parseDsl(dsl);
+    const selectNodeKeys = vi.fn();
+    const setCurrentDsl = vi.fn();
+    const actions = useAppActions({
+      diagramMode: 'slice',
+      layoutReady: true,
+      parsed,
+      currentDsl: dsl,
+      activeLayout: null,
+      displayedPos: {},
+      renderedEdges: [],
+      selectedNode: null,
+      showDataTraceTab: false,
+      selectedNodeUsesKeys: [],
+      setCrossSliceTraceExpandedKeys: vi.fn(),
+      setSelectedNodePanelTab: vi.fn(),
+      setCommandPaletteOpen: vi.fn(),
+      setSelectedNodeKey: vi.fn(),
+      setSliceSelectedNodeKey: vi.fn(),
+      selectedNodeKeys: ['opened'],
+      selectNodeKeys,
+      setCurrentDsl,
+      commitNodePositions: vi.fn(),
+      setOverviewSelectedNodeKey: vi.fn(),
+      setOverviewReturnState: vi.fn(),
+      setHighlightRange: vi.fn(),
+      setLibrary: vi.fn(),
+      projectIndex: { projects: [], selectedProjectId: 'project-1' },
+      setProjectIndex: vi.fn(),
+      selectedProjectId: 'project-1',
+      applySelectedSliceOverrides: vi.fn(),
+      pendingFocusNodeKeyRef: { current: null },
+      pendingFocusRangeRef: { current: null },
+      setFocusRequestVersion: vi.fn(),
+      editorOpenRef: { current: false },
+      sliceSelectedNodeKeyRef: { current: null },
+      overviewReturnState: { editorOpen: false, selectedNodeKey: null },
+      setEditorOpen: vi.fn(),
+      setDiagramMode: vi.fn(),
+      setOverviewNodeDataVisible: vi.fn(),
+      focusRange: vi.fn(),
+      setSliceMenuOpen: vi.fn(),
+      setProjectRailOpen: vi.fn(),
+      setMobileMenuOpen: vi.fn(),
+      setCreateProjectDialogOpen: vi.fn(),
+      setCompactEventsDialogOpen: vi.fn(),
+      setStatusMessage: vi.fn(),
+      setSliceConflict: vi.fn(),
+      setStorageWriteError: vi.fn(),
+      setCollabDialogOpen: vi.fn(),
+      joinCollabSession: vi.fn(),
+      leaveCollabSession: vi.fn(),
+      setAddNodeDialogOpen: vi.fn(),
+      setImportNodeDialogOpen: vi.fn(),
+      setCreateSliceTemplateDialogOpen: vi.fn(),
+      setExportBundleDialogOpen: vi.fn(),
+      setImportBundleDialogOpen: vi.fn(),
+      setCodeStubsDialogOpen: vi.fn(),
+      setScenarioTestsDialogOpen: vi.fn(),
+      setExportImageDialogOpen: vi.fn(),
+      setHistoryPanelOpen: vi.fn(),
+      setRenameNodeDialogOpen: vi.fn(),
+      setProblemsPanelOpen: vi.fn(),
+      setDiagramEngineId: vi.fn(),
+      setModelRulesDialogOpen: vi.fn(),
+      setModelLintRuleLevel: vi.fn(),
+      setHistoryPreview: vi.fn(),
+      hasFocusedCursor: () => false,
+      insertAtCursorOrEnd: () => ({ from: 0, to: 0 }),
+      setTheme: vi.fn(),
+      setHoveredEdgeKey: vi.fn(),
+      setHoveredTraceNodeKey: vi.fn(),
+      setSourceOverrides: vi.fn(),
+      setCrossSliceDataExpandedKeys: vi.fn(),
+      resetManualLayout: vi.fn(),
+      applySliceHistory: vi.fn(),
+      previewSliceVersion: vi.fn(),
+      applySliceVersion: vi.fn(),
+      renameNodeAcrossProject: vi.fn(),
+      copySliceShareLink: vi.fn(),
+      toggleDocumentationPanel: vi.fn(),
+      currentDiagramSceneModel: null,
+      setOverviewPlaceholderSceneModel: vi.fn()
+    });
+
+    actions.onNodeToggleSelect('view');
+    expect(selectNodeKeys).toHaveBeenCalledWith(['opened', 'view']);
+
+    actions.onDeleteSelectedNodes();
+    const update = setCurrentDsl.mock.calls[0][0] as (current: string) => string;
+    expect(update(dsl)).toBe('slice "Demo"\n\nrm:view');
+    expect(selectNodeKeys).toHaveBeenLastCalledWith([]);
+  });
+
+  it('shows a notice when the project folder cannot be opened', async () => {
+    const setStorageWriteError = vi.fn();
+    vi.stubGlobal('showDirectoryPicker', () => Promise.reject(new Error('Permission denied.')));
+    const actions = useAppActions({
+      diagramMode: 'overview',
+      layoutReady: true,
+      parsed: null,
+      currentDsl: '',
+      activeLayout: null,
+      displayedPos: {},
+      renderedEdges: [],
+      selectedNode: null,
+      showDataTraceTab: false,
+      selectedNodeUsesKeys: [],
+      setCrossSliceTraceExpandedKeys: vi.fn(),
+      setSelectedNodePanelTab: vi.fn(),
+      setCommandPaletteOpen: vi.fn(),
+      setSelectedNodeKey: vi.fn(),
+      setSliceSelectedNodeKey: vi.fn(),
+      selectedNodeKeys: [],
+      selectNodeKeys: vi.fn(),
+      setCurrentDsl: vi.fn(),
+      commitNodePositions: vi.fn(),
+      setOverviewSelectedNodeKey: vi.fn(),
+      setOverviewReturnState: vi.fn(),
+      setHighlightRange: vi.fn(),
+      setLibrary: vi.fn(),
+      projectIndex: { projects: [], selectedProjectId: 'project-1' },
+      setProjectIndex: vi.fn(),
+      selectedProjectId: 'project-1',
+      applySelectedSliceOverrides: vi.fn(),
+      pendingFocusNodeKeyRef: { current: null },
+      pendingFocusRangeRef: { current: null },
+      setFocusRequestVersion: vi.fn(),
+      editorOpenRef: { current: false },
+      sliceSelectedNodeKeyRef: { current: null },
+      overviewReturnState: { editorOpen: false, selectedNodeKey: null },
+      setEditorOpen: vi.fn(),
+      setDiagramMode: vi.fn(),
+      setOverviewNodeDataVisible: vi.fn(),
+      focusRange: vi.fn(),
+      setSliceMenuOpen: vi.fn(),
+      setProjectRailOpen: vi.fn(),
+      setMobileMenuOpen: vi.fn(),
+      setCreateProjectDialogOpen: vi.fn(),
+      setCompactEventsDialogOpen: vi.fn(),
+      setStatusMessage: vi.fn(),
+      setSliceConflict: vi.fn(),
+      setStorageWriteError,
+      setCollabDialogOpen: vi.fn(),
+      joinCollabSession: vi.fn(),
+      leaveCollabSession: vi.fn(),
+      setAddNodeDialogOpen: vi.fn(),
+      setImportNodeDialogOpen: vi.fn(),
+      setCreateSliceTemplateDialogOpen: vi.fn(),
+      setExportBundleDialogOpen: vi.fn(),
+      setImportBundleDialogOpen: vi.fn(),
+      setCodeStubsDialogOpen: vi.fn(),
+      setScenarioTestsDialogOpen: vi.fn(),
+      setExportImageDialogOpen: vi.fn(),
+      setHistoryPanelOpen: vi.fn(),
+      setRenameNodeDialogOpen: vi.fn(),
+      setProblemsPanelOpen: vi.fn(),
+      setDiagramEngineId: vi.fn(),
+      setModelRulesDialogOpen: vi.fn(),
+      setModelLintRuleLevel: vi.fn(),
+      setHistoryPreview: vi.fn(),
+      hasFocusedCursor: () => false,
+      insertAtCursorOrEnd: () => ({ from: 0, to: 0 }),
+      setTheme: vi.fn(),
+      setHoveredEdgeKey: vi.fn(),
+      setHoveredTraceNodeKey: vi.fn(),
+      setSourceOverrides: vi.fn(),
+      setCrossSliceDataExpandedKeys: vi.fn(),
+      resetManualLayout: vi.fn(),
+      applySliceHistory: vi.fn(),
+      previewSliceVersion: vi.fn(),
+      applySliceVersion: vi.fn(),
+      renameNodeAcrossProject: vi.fn(),
+      copySliceShareLink: vi.fn(),
+      toggleDocumentationPanel: vi.fn(),
+      currentDiagramSceneModel: null,
+      setOverviewPlaceholderSceneModel: vi.fn()
+    });
+
+    actions.onOpenProjectFolder();
+
+    await vi.waitFor(() => {
+      expect(setStorageWriteError).toHaveBeenCalledWith(
+        'The project folder could not be opened: Permission denied. Changes keep being saved in this browser.'
+      );
+    });
+    vi.unstubAllGlobals();
+  });
 });
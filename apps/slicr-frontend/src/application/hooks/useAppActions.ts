@@ -3,11 +3,23 @@ import { addNewSlice, loadSliceLibrary, selectSlice, updateSelectedSliceDsl, typ
 import { appendProjectCreatedEvent, appendProjectSelectedEvent, loadProjectIndex, selectProject, type ProjectIndex } from '../../projectLibrary';
 import { DEFAULT_DSL } from '../../defaultDsl';
 import type { Parsed, Position } from '../../domain/types';
+import type { DiagramEngineId } from '../../domain/diagramEngine';
 import type { DiagramPoint } from '../../domain/diagramRouting';
-import type { ActionsSection, DiagramMode, NodePanelTab } from '../appViewModel';
+import type { ActionsSection, DiagramMode, NodePanelTab, SliceConflictNotice } from '../appViewModel';
+import type { JoinCollabSessionArgs } from './useCollabSession';
 import type { Range } from '../../useDslEditor';
 import { executeEventCompaction, type CompactionPlan } from '../../eventCompaction';
+import { forgetSeenSliceEvents, notifySliceEventsChanged, type SliceHistoryDirection } from '../../sliceEventStore';
+import { getEventStorage } from '../../storage/eventStorage';
+import { openEventStorageFolder, pickEventStorageFolder } from '../../storage/fileSystemEventStorage';
+import type { SliceHistoryPreview } from '../../sliceTimeline';
 import type { DiagramSceneModel } from '../../diagram/rendererContract';
+import { downloadFile } from '../downloadFile';
+import { createProjectBundle, importProjectBundle, projectBundleFileName, serializeProjectBundle } from '../../projectBundle';
+import { alignNodePositions, distributeNodePositions, toggleNodeSelection } from '../../domain/nodeSelection';
+import { deleteNodesFromDsl } from '../deleteNodesDsl';
+import type { NodeRenamePlan } from '../../domain/nodeRename';
+import type { ModelLintLevel, ModelLintRuleId } from '../../domain/modelLint';
 
 type RenderedEdge = { edgeKey: string; edge: { from: string; to: string }; geometry: { d: string; points?: DiagramPoint[] } };
 
@@ -27,6 +39,10 @@ type UseAppActionsArgs = {
   setCommandPaletteOpen: Dispatch<SetStateAction<boolean>>;
   setSelectedNodeKey: Dispatch<SetStateAction<string | null>>;
   setSliceSelectedNodeKey: Dispatch<SetStateAction<string | null>>;
+  selectedNodeKeys: string[];
+  selectNodeKeys: (nodeKeys: string[]) => void;
+  setCurrentDsl: Dispatch<SetStateAction<string>>;
+  commitNodePositions: (nodes: Record<string, DiagramPoint>) => void;
   setOverviewSelectedNodeKey: Dispatch<SetStateAction<string | null>>;
   setOverviewReturnState: Dispatch<SetStateAction<{ editorOpen: boolean; selectedNodeKey: string | null }>>;
   setHighlightRange: Dispatch<SetStateAction<Range | null>>;
@@ -36,6 +52,7 @@ type UseAppActionsArgs = {
   selectedProjectId: string;
   applySelectedSliceOverrides: (sliceId: string, projectId?: string) => void;
   pendingFocusNodeKeyRef: MutableRefObject<string | null>;
+  pendingFocusRangeRef: MutableRefObject<Range | null>;
   setFocusRequestVersion: Dispatch<SetStateAction<number>>;
   editorOpenRef: RefObject<boolean>;
   sliceSelectedNodeKeyRef: RefObject<string | null>;
@@ -49,18 +66,40 @@ type UseAppActionsArgs = {
   setMobileMenuOpen: Dispatch<SetStateAction<boolean>>;
   setCreateProjectDialogOpen: Dispatch<SetStateAction<boolean>>;
   setCompactEventsDialogOpen: Dispatch<SetStateAction<boolean>>;
-  setCompactEventsSummary: Dispatch<SetStateAction<string | null>>;
+  setStatusMessage: Dispatch<SetStateAction<string | null>>;
+  setSliceConflict: Dispatch<SetStateAction<SliceConflictNotice | null>>;
+  setStorageWriteError: Dispatch<SetStateAction<string | null>>;
+  setCollabDialogOpen: Dispatch<SetStateAction<boolean>>;
+  joinCollabSession: (args: JoinCollabSessionArgs) => void;
+  leaveCollabSession: () => void;
   setAddNodeDialogOpen: Dispatch<SetStateAction<boolean>>;
   setImportNodeDialogOpen: Dispatch<SetStateAction<boolean>>;
   setCreateSliceTemplateDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setExportBundleDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setImportBundleDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setCodeStubsDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setScenarioTestsDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setExportImageDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setHistoryPanelOpen: Dispatch<SetStateAction<boolean>>;
+  setRenameNodeDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setProblemsPanelOpen: Dispatch<SetStateAction<boolean>>;
+  setModelRulesDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setModelLintRuleLevel: (ruleId: ModelLintRuleId, level: ModelLintLevel) => void;
+  setHistoryPreview: Dispatch<SetStateAction<SliceHistoryPreview | null>>;
   hasFocusedCursor: () => boolean;
   insertAtCursorOrEnd: (block: string) => { from: number; to: number };
   setTheme: Dispatch<SetStateAction<'dark' | 'light'>>;
+  setDiagramEngineId: (engineId: DiagramEngineId | null) => void;
   setHoveredEdgeKey: Dispatch<SetStateAction<string | null>>;
   setHoveredTraceNodeKey: Dispatch<SetStateAction<string | null>>;
   setSourceOverrides: Dispatch<SetStateAction<Record<string, string>>>;
   setCrossSliceDataExpandedKeys: Dispatch<SetStateAction<Record<string, boolean>>>;
   resetManualLayout: () => void;
+  applySliceHistory: (direction: SliceHistoryDirection) => boolean;
+  previewSliceVersion: (version: number | null) => void;
+  applySliceVersion: (version: number) => void;
+  renameNodeAcrossProject: (plan: NodeRenamePlan) => void;
+  copySliceShareLink: () => Promise<void>;
   toggleDocumentationPanel: () => void;
   currentDiagramSceneModel: DiagramSceneModel | null;
   setOverviewPlaceholderSceneModel: Dispatch<SetStateAction<DiagramSceneModel | null>>;
@@ -83,6 +122,10 @@ export function useAppActions(args: UseAppActionsArgs): ActionsSection {
     setCommandPaletteOpen,
     setSelectedNodeKey,
     setSliceSelectedNodeKey,
+    selectedNodeKeys,
+    selectNodeKeys,
+    setCurrentDsl,
+    commitNodePositions,
     setOverviewSelectedNodeKey,
     setOverviewReturnState,
     setHighlightRange,
@@ -92,6 +135,7 @@ export function useAppActions(args: UseAppActionsArgs): ActionsSection {
     selectedProjectId,
     applySelectedSliceOverrides,
     pendingFocusNodeKeyRef,
+    pendingFocusRangeRef,
     setFocusRequestVersion,
     editorOpenRef,
     sliceSelectedNodeKeyRef,
@@ -105,18 +149,40 @@ export function useAppActions(args: UseAppActionsArgs): ActionsSection {
     setMobileMenuOpen,
     setCreateProjectDialogOpen,
     setCompactEventsDialogOpen,
-    setCompactEventsSummary,
+    setStatusMessage,
+    setSliceConflict,
+    setStorageWriteError,
+    setCollabDialogOpen,
+    joinCollabSession,
+    leaveCollabSession,
     setAddNodeDialogOpen,
     setImportNodeDialogOpen,
     setCreateSliceTemplateDialogOpen,
+    setExportBundleDialogOpen,
+    setImportBundleDialogOpen,
+    setCodeStubsDialogOpen,
+    setScenarioTestsDialogOpen,
+    setExportImageDialogOpen,
+    setHistoryPanelOpen,
+    setRenameNodeDialogOpen,
+    setProblemsPanelOpen,
+    setModelRulesDialogOpen,
+    setModelLintRuleLevel,
+    setHistoryPreview,
     hasFocusedCursor,
     insertAtCursorOrEnd,
     setTheme,
+    setDiagramEngineId,
     setHoveredEdgeKey,
     setHoveredTraceNodeKey,
     setSourceOverrides,
     setCrossSliceDataExpandedKeys,
     resetManualLayout,
+    applySliceHistory,
+    previewSliceVersion,
+    applySliceVersion,
+    renameNodeAcrossProject,
+    copySliceShareLink,
     toggleDocumentationPanel,
     currentDiagramSceneModel,
     setOverviewPlaceholderSceneModel
@@ -158,6 +224,35 @@ export function useAppActions(args: UseAppActionsArgs): ActionsSection {
     setCommandPaletteOpen(false);
   };
 
+  const showCreatedProject = (projectId: string) => {
+    appendProjectSelectedEvent(projectId);
+    const projectedIndex = loadProjectIndex();
+    const nextLibrary = loadSliceLibrary(DEFAULT_DSL, projectId);
+    setProjectIndex(projectedIndex);
+    setLibrary(nextLibrary);
+    setSelectedNodeKey(null);
+    setHighlightRange(null);
+    setHoveredEdgeKey(null);
+    setHoveredTraceNodeKey(null);
+    applySelectedSliceOverrides(nextLibrary.selectedSliceId, projectId);
+  };
+
+  const reloadFromEventStorage = () => {
+    forgetSeenSliceEvents();
+    notifySliceEventsChanged();
+    const projectedIndex = loadProjectIndex();
+    const nextProjectId = projectedIndex.selectedProjectId;
+    const nextLibrary = loadSliceLibrary(DEFAULT_DSL, nextProjectId);
+
+    setProjectIndex(projectedIndex);
+    setLibrary(nextLibrary);
+    setSelectedNodeKey(null);
+    setHighlightRange(null);
+    setHoveredEdgeKey(null);
+    setHoveredTraceNodeKey(null);
+    applySelectedSliceOverrides(nextLibrary.selectedSliceId, nextProjectId);
+  };
+
   const onCreateProject = (name: string) => {
     const trimmed = name.trim();
     if (trimmed.length === 0) {
@@ -167,16 +262,7 @@ export function useAppActions(args: UseAppActionsArgs): ActionsSection {
       ? crypto.randomUUID()
       : `project-${Date.now()}-${Math.random().toString(16).slice(2)}`;
     appendProjectCreatedEvent(id, trimmed);
-    appendProjectSelectedEvent(id);
-    const projectedIndex = loadProjectIndex();
-    const nextLibrary = loadSliceLibrary(DEFAULT_DSL, id);
-    setProjectIndex(projectedIndex);
-    setLibrary(nextLibrary);
-    setSelectedNodeKey(null);
-    setHighlightRange(null);
-    setHoveredEdgeKey(null);
-    setHoveredTraceNodeKey(null);
-    applySelectedSliceOverrides(nextLibrary.selectedSliceId, id);
+    showCreatedProject(id);
     setCreateProjectDialogOpen(false);
   };
 
@@ -263,6 +349,18 @@ export function useAppActions(args: UseAppActionsArgs): ActionsSection {
     setCommandPaletteOpen(false);
   };
 
+  const selectionEditable = () => diagramMode === 'slice' && layoutReady && selectedNodeKeys.length > 0;
+
+  const onDeleteSelectedNodes = () => {
+    setCommandPaletteOpen(false);
+    if (!selectionEditable() || !parsed) {
+      return;
+    }
+    setCurrentDsl((dsl) => deleteNodesFromDsl(dsl, parsed, selectedNodeKeys));
+    selectNodeKeys([]);
+    setHighlightRange(null);
+  };
+
   const onShowUsageCommand = () => {
     setSelectedNodePanelTab('usage');
     setCommandPaletteOpen(false);
@@ -281,6 +379,15 @@ export function useAppActions(args: UseAppActionsArgs): ActionsSection {
     onSwitchProject,
     onCreateProject,
     onResetManualLayout: resetManualLayout,
+    onSelectDiagramEngine: setDiagramEngineId,
+    onUndo: () => {
+      setCommandPaletteOpen(false);
+      applySliceHistory('undo');
+    },
+    onRedo: () => {
+      setCommandPaletteOpen(false);
+      applySliceHistory('redo');
+    },
     onPrintGeometry,
     onNodeOpenInEditor: (nodeKey, range) => {
       setSelectedNodeKey(nodeKey);
@@ -293,6 +400,25 @@ export function useAppActions(args: UseAppActionsArgs): ActionsSection {
       }
       setSelectedNodeKey(nodeKeyOrUpdater);
     },
+    onNodeToggleSelect: (nodeKey) => {
+      if (diagramMode !== 'slice' || !layoutReady) {
+        return;
+      }
+      selectNodeKeys(toggleNodeSelection(selectedNodeKeys, nodeKey));
+    },
+    onAlignSelectedNodes: (alignment) => {
+      setCommandPaletteOpen(false);
+      if (selectionEditable()) {
+        commitNodePositions(alignNodePositions(displayedPos, selectedNodeKeys, alignment));
+      }
+    },
+    onDistributeSelectedNodes: (distribution) => {
+      setCommandPaletteOpen(false);
+      if (selectionEditable()) {
+        commitNodePositions(distributeNodePositions(displayedPos, selectedNodeKeys, distribution));
+      }
+    },
+    onDeleteSelectedNodes,
     onNodeHoverRange: (range) => {
       if (diagramMode === 'overview') {
         setHighlightRange(null);
@@ -324,25 +450,130 @@ export function useAppActions(args: UseAppActionsArgs): ActionsSection {
     onCloseCreateProjectDialog: () => setCreateProjectDialogOpen(false),
     onOpenCompactEventsDialog: () => {
       setCommandPaletteOpen(false);
-      setCompactEventsSummary(null);
+      setStatusMessage(null);
       setCompactEventsDialogOpen(true);
     },
     onCloseCompactEventsDialog: () => setCompactEventsDialogOpen(false),
     onRunEventCompaction: (plan: CompactionPlan) => {
-      const result = executeEventCompaction(localStorage, plan);
-      const projectedIndex = loadProjectIndex();
-      const nextProjectId = projectedIndex.selectedProjectId;
-      const nextLibrary = loadSliceLibrary(DEFAULT_DSL, nextProjectId);
-
-      setProjectIndex(projectedIndex);
-      setLibrary(nextLibrary);
-      setSelectedNodeKey(null);
-      setHighlightRange(null);
-      setHoveredEdgeKey(null);
-      setHoveredTraceNodeKey(null);
-      applySelectedSliceOverrides(nextLibrary.selectedSliceId, nextProjectId);
+      const result = executeEventCompaction(getEventStorage(), plan);
+      reloadFromEventStorage();
       setCompactEventsDialogOpen(false);
-      setCompactEventsSummary(`Reclaimed ${result.reclaimedBytes} bytes.`);
+      setStatusMessage(`Reclaimed ${result.reclaimedBytes} bytes.`);
+    },
+    onOpenProjectFolder: () => {
+      setCommandPaletteOpen(false);
+      void (async () => {
+        try {
+          const directory = await pickEventStorageFolder();
+          if (!directory) {
+            return;
+          }
+          await openEventStorageFolder(directory, getEventStorage());
+        } catch (error) {
+          // Keep working in the current storage when the folder cannot be opened.
+          const reason = error instanceof Error ? error.message : String(error);
+          setStorageWriteError(`The project folder could not be opened: ${reason} Changes keep being saved in this browser.`);
+          return;
+        }
+        reloadFromEventStorage();
+      })();
+    },
+    onDismissSliceConflict: () => setSliceConflict(null),
+    onDismissStorageWriteError: () => setStorageWriteError(null),
+    onOpenCollabDialog: () => {
+      setCommandPaletteOpen(false);
+      setCollabDialogOpen(true);
+    },
+    onCloseCollabDialog: () => setCollabDialogOpen(false),
+    onJoinCollabSession: (args: JoinCollabSessionArgs) => {
+      setCollabDialogOpen(false);
+      joinCollabSession(args);
+    },
+    onLeaveCollabSession: () => {
+      setCommandPaletteOpen(false);
+      leaveCollabSession();
+    },
+    onOpenExportBundleDialog: () => {
+      setCommandPaletteOpen(false);
+      setExportBundleDialogOpen(true);
+    },
+    onCloseExportBundleDialog: () => setExportBundleDialogOpen(false),
+    onExportProjectBundle: ({ includeHistory }) => {
+      const project = projectIndex.projects.find((candidate) => candidate.id === selectedProjectId)
+        ?? { id: selectedProjectId, name: selectedProjectId };
+      const bundle = createProjectBundle(project, { includeHistory });
+      downloadFile(projectBundleFileName(project.name), serializeProjectBundle(bundle), 'application/json');
+      setExportBundleDialogOpen(false);
+    },
+    onOpenImportBundleDialog: () => {
+      setCommandPaletteOpen(false);
+      setImportBundleDialogOpen(true);
+    },
+    onCloseImportBundleDialog: () => setImportBundleDialogOpen(false),
+    onImportProjectBundle: (bundle) => {
+      const result = importProjectBundle(bundle);
+      showCreatedProject(result.projectId);
+      setImportBundleDialogOpen(false);
+    },
+    onOpenCodeStubsDialog: () => {
+      setCommandPaletteOpen(false);
+      setCodeStubsDialogOpen(true);
+    },
+    onCloseCodeStubsDialog: () => setCodeStubsDialogOpen(false),
+    onOpenScenarioTestsDialog: () => {
+      setCommandPaletteOpen(false);
+      setScenarioTestsDialogOpen(true);
+    },
+    onCloseScenarioTestsDialog: () => setScenarioTestsDialogOpen(false),
+    onOpenExportImageDialog: () => {
+      setCommandPaletteOpen(false);
+      setExportImageDialogOpen(true);
+    },
+    onCloseExportImageDialog: () => setExportImageDialogOpen(false),
+    onOpenHistoryPanel: () => {
+      setCommandPaletteOpen(false);
+      setHistoryPreview(null);
+      setHistoryPanelOpen(true);
+    },
+    onCloseHistoryPanel: () => {
+      setHistoryPanelOpen(false);
+      setHistoryPreview(null);
+    },
+    onPreviewSliceVersion: previewSliceVersion,
+    onRestoreSliceVersion: applySliceVersion,
+    onOpenRenameNodeDialog: () => {
+      setCommandPaletteOpen(false);
+      setRenameNodeDialogOpen(true);
+    },
+    onCloseRenameNodeDialog: () => setRenameNodeDialogOpen(false),
+    onRenameNode: (plan) => {
+      renameNodeAcrossProject(plan);
+      setRenameNodeDialogOpen(false);
+    },
+    onCopySliceShareLink: () => {
+      setCommandPaletteOpen(false);
+      void copySliceShareLink();
+    },
+    onOpenProblemsPanel: () => {
+      setCommandPaletteOpen(false);
+      setProblemsPanelOpen(true);
+    },
+    onCloseProblemsPanel: () => setProblemsPanelOpen(false),
+    onOpenModelRulesDialog: () => {
+      setCommandPaletteOpen(false);
+      setModelRulesDialogOpen(true);
+    },
+    onCloseModelRulesDialog: () => setModelRulesDialogOpen(false),
+    onSetModelLintRuleLevel: setModelLintRuleLevel,
+    onJumpToProblem: (problem) => {
+      if (problem.nodeKey) {
+        setSelectedNodeKey(problem.nodeKey);
+        pendingFocusNodeKeyRef.current = problem.nodeKey;
+      }
+      pendingFocusRangeRef.current = problem.range;
+      setFocusRequestVersion((version) => version + 1);
+      setEditorOpen(true);
+      setLibrary((currentLibrary) => switchSliceWithOverrides(currentLibrary, problem.sliceId));
     },
     onOpenAddNodeDialog: () => {
       setCommandPaletteOpen(false);
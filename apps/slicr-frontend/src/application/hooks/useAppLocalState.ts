@@ -1,13 +1,23 @@
 import { useRef, useState } from 'react';
 import { DEFAULT_DSL } from '../../defaultDsl';
+import type { DiagramEngineId } from '../../domain/diagramEngine';
 import type { DiagramPoint } from '../../domain/diagramRouting';
-import { getDiagramRendererId, isCrossSliceDataEnabled, isDragAndDropEnabled, shouldShowDevDiagramControls } from '../../domain/runtimeFlags';
+import {
+  getDiagramEngineId,
+  getDiagramRendererId,
+  isCrossSliceDataEnabled,
+  isDragAndDropEnabled,
+  saveDiagramEngineId,
+  shouldShowDevDiagramControls
+} from '../../domain/runtimeFlags';
 import { getSliceNameFromDsl, loadSliceLayoutOverrides, loadSliceLibrary, type SliceLibrary } from '../../sliceLibrary';
 import { loadProjectIndex } from '../../projectLibrary';
+import type { SliceHistoryPreview } from '../../sliceTimeline';
 import type { Range } from '../../useDslEditor';
-import type { DiagramMode } from '../appViewModel';
+import type { DiagramMode, SliceConflictNotice } from '../appViewModel';
 
 const THEME_STORAGE_KEY = 'slicr.theme';
+const FORMAT_ON_SAVE_STORAGE_KEY = 'slicr.formatOnSave';
 
 export type ThemeMode = 'dark' | 'light';
 
@@ -36,10 +46,18 @@ export function useAppLocalState() {
       return 'dark';
     }
   });
+  const [formatOnSave, setFormatOnSave] = useState(() => {
+    try {
+      return localStorage.getItem(FORMAT_ON_SAVE_STORAGE_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  });
   const [editorOpen, setEditorOpen] = useState(false);
   const [diagramMode, setDiagramMode] = useState<DiagramMode>('slice');
   const [overviewNodeDataVisible, setOverviewNodeDataVisible] = useState(true);
   const [sliceSelectedNodeKey, setSliceSelectedNodeKey] = useState<string | null>(null);
+  const [sliceSelectedNodeKeys, setSliceSelectedNodeKeys] = useState<string[]>([]);
   const [overviewSelectedNodeKey, setOverviewSelectedNodeKey] = useState<string | null>(null);
   const [overviewReturnState, setOverviewReturnState] = useState<{ editorOpen: boolean; selectedNodeKey: string | null }>({
     editorOpen: false,
@@ -55,6 +73,7 @@ export function useAppLocalState() {
   const [hoveredEditorRange, setHoveredEditorRange] = useState<Range | null>(null);
   const [hoveredEdgeKey, setHoveredEdgeKey] = useState<string | null>(null);
   const [diagramRendererId] = useState(() => getDiagramRendererId(window.location.hostname));
+  const [diagramEngineId, setDiagramEngineIdState] = useState(() => getDiagramEngineId());
   const [docsOpen, setDocsOpen] = useState(false);
   const [hasOpenedDocs, setHasOpenedDocs] = useState(false);
   const [sliceMenuOpen, setSliceMenuOpen] = useState(false);
@@ -63,10 +82,23 @@ export function useAppLocalState() {
   const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
   const [createProjectDialogOpen, setCreateProjectDialogOpen] = useState(false);
   const [compactEventsDialogOpen, setCompactEventsDialogOpen] = useState(false);
-  const [compactEventsSummary, setCompactEventsSummary] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [sliceConflict, setSliceConflict] = useState<SliceConflictNotice | null>(null);
+  const [storageWriteError, setStorageWriteError] = useState<string | null>(null);
+  const [collabDialogOpen, setCollabDialogOpen] = useState(false);
   const [addNodeDialogOpen, setAddNodeDialogOpen] = useState(false);
   const [importNodeDialogOpen, setImportNodeDialogOpen] = useState(false);
   const [createSliceTemplateDialogOpen, setCreateSliceTemplateDialogOpen] = useState(false);
+  const [exportBundleDialogOpen, setExportBundleDialogOpen] = useState(false);
+  const [importBundleDialogOpen, setImportBundleDialogOpen] = useState(false);
+  const [codeStubsDialogOpen, setCodeStubsDialogOpen] = useState(false);
+  const [scenarioTestsDialogOpen, setScenarioTestsDialogOpen] = useState(false);
+  const [exportImageDialogOpen, setExportImageDialogOpen] = useState(false);
+  const [historyPanelOpen, setHistoryPanelOpen] = useState(false);
+  const [renameNodeDialogOpen, setRenameNodeDialogOpen] = useState(false);
+  const [problemsPanelOpen, setProblemsPanelOpen] = useState(false);
+  const [modelRulesDialogOpen, setModelRulesDialogOpen] = useState(false);
+  const [historyPreview, setHistoryPreview] = useState<SliceHistoryPreview | null>(null);
   const [manualNodePositions, setManualNodePositions] = useState<Record<string, { x: number; y: number }>>(
     initialSnapshot.overrides.nodes
   );
@@ -75,10 +107,15 @@ export function useAppLocalState() {
   );
   const [focusRequestVersion, setFocusRequestVersion] = useState(0);
   const pendingFocusNodeKeyRef = useRef<string | null>(null);
+  const pendingFocusRangeRef = useRef<Range | null>(null);
 
   const hasManualLayoutOverrides =
     Object.keys(manualNodePositions).length > 0 || Object.keys(manualEdgePoints).length > 0;
   const showDevDiagramControls = shouldShowDevDiagramControls(window.location.hostname);
+  const setDiagramEngineId = (engineId: DiagramEngineId | null) => {
+    saveDiagramEngineId(engineId);
+    setDiagramEngineIdState(engineId);
+  };
   const dragAndDropEnabled = isDragAndDropEnabled(window.location.hostname);
   const crossSliceDataEnabled = isCrossSliceDataEnabled(window.location.hostname);
 
@@ -98,6 +135,8 @@ export function useAppLocalState() {
     setLibrary,
     theme,
     setTheme,
+    formatOnSave,
+    setFormatOnSave,
     editorOpen,
     setEditorOpen,
     diagramMode,
@@ -106,6 +145,8 @@ export function useAppLocalState() {
     setOverviewNodeDataVisible,
     sliceSelectedNodeKey,
     setSliceSelectedNodeKey,
+    sliceSelectedNodeKeys,
+    setSliceSelectedNodeKeys,
     overviewSelectedNodeKey,
     setOverviewSelectedNodeKey,
     overviewReturnState,
@@ -123,6 +164,8 @@ export function useAppLocalState() {
     hoveredEdgeKey,
     setHoveredEdgeKey,
     diagramRendererId,
+    diagramEngineId,
+    setDiagramEngineId,
     docsOpen,
     setDocsOpen,
     hasOpenedDocs,
@@ -139,14 +182,40 @@ export function useAppLocalState() {
     setCreateProjectDialogOpen,
     compactEventsDialogOpen,
     setCompactEventsDialogOpen,
-    compactEventsSummary,
-    setCompactEventsSummary,
+    statusMessage,
+    setStatusMessage,
+    sliceConflict,
+    setSliceConflict,
+    storageWriteError,
+    setStorageWriteError,
+    collabDialogOpen,
+    setCollabDialogOpen,
     addNodeDialogOpen,
     setAddNodeDialogOpen,
     importNodeDialogOpen,
     setImportNodeDialogOpen,
     createSliceTemplateDialogOpen,
+    exportBundleDialogOpen,
+    importBundleDialogOpen,
+    codeStubsDialogOpen,
+    scenarioTestsDialogOpen,
+    exportImageDialogOpen,
+    historyPanelOpen,
+    renameNodeDialogOpen,
+    problemsPanelOpen,
+    modelRulesDialogOpen,
+    historyPreview,
     setCreateSliceTemplateDialogOpen,
+    setExportBundleDialogOpen,
+    setImportBundleDialogOpen,
+    setCodeStubsDialogOpen,
+    setScenarioTestsDialogOpen,
+    setExportImageDialogOpen,
+    setHistoryPanelOpen,
+    setRenameNodeDialogOpen,
+    setProblemsPanelOpen,
+    setModelRulesDialogOpen,
+    setHistoryPreview,
     manualNodePositions,
     setManualNodePositions,
     manualEdgePoints,
@@ -154,6 +223,7 @@ export function useAppLocalState() {
     focusRequestVersion,
     setFocusRequestVersion,
     pendingFocusNodeKeyRef,
+    pendingFocusRangeRef,
     hasManualLayoutOverrides,
     showDevDiagramControls,
     dragAndDropEnabled,
@@ -161,6 +231,7 @@ export function useAppLocalState() {
     currentSlice,
     currentDsl,
     currentSliceName,
-    THEME_STORAGE_KEY
+    THEME_STORAGE_KEY,
+    FORMAT_ON_SAVE_STORAGE_KEY
   };
 }
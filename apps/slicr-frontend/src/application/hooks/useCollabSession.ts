@@ -0,0 +1,223 @@
+import { useEffect, useMemo, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { ChangeSet } from '@codemirror/state';
+import type { CollabPresence } from '../../collab/collabProtocol';
+import { createCollabParticipant, createCollabSession, type CollabSession } from '../../collab/collabSession';
+import { createWebSocketCollabTransport } from '../../collab/collabTransport';
+import type { DiagramPoint } from '../../domain/diagramRouting';
+import { subscribeSliceEventAppends } from '../../sliceEventStore';
+import {
+  appendSliceEdgeMovedEvent,
+  appendSliceNodeMovedEvent,
+  getSliceNameFromDsl,
+  type SliceLibrary
+} from '../../sliceLibrary';
+import type { DslEditorCollab } from '../../useDslEditor';
+import type { CollabSessionNotice, DiagramMode } from '../appViewModel';
+
+export type JoinCollabSessionArgs = {
+  relayUrl: string;
+  room: string;
+  name: string;
+};
+
+type UseCollabSessionArgs = {
+  library: SliceLibrary;
+  setLibrary: Dispatch<SetStateAction<SliceLibrary>>;
+  selectedProjectId: string;
+  diagramMode: DiagramMode;
+  currentDsl: string;
+  selectedNodeKeys: string[];
+  manualNodePositions: Record<string, DiagramPoint>;
+  manualEdgePoints: Record<string, DiagramPoint[]>;
+  setManualNodePositions: Dispatch<SetStateAction<Record<string, DiagramPoint>>>;
+  setManualEdgePoints: Dispatch<SetStateAction<Record<string, DiagramPoint[]>>>;
+};
+
+type ActiveSession = {
+  session: CollabSession;
+  room: string;
+  sliceId: string;
+};
+
+const NO_PRESENCE: CollabPresence[] = [];
+
+// Shares the slice that was open when joining with everyone in the room. Remote edits are stored as this tab's own
+// slice events, so history, versions and other tabs see them like any local edit.
+export function useCollabSession(args: UseCollabSessionArgs) {
+  const {
+    library,
+    setLibrary,
+    selectedProjectId,
+    diagramMode,
+    currentDsl,
+    selectedNodeKeys,
+    manualNodePositions,
+    manualEdgePoints,
+    setManualNodePositions,
+    setManualEdgePoints
+  } = args;
+  const [active, setActive] = useState<ActiveSession | null>(null);
+  const [presence, setPresence] = useState<CollabPresence[]>(NO_PRESENCE);
+  const [error, setError] = useState<string | null>(null);
+  const activeRef = useRef<ActiveSession | null>(null);
+  const remoteTextListenersRef = useRef(new Set<(changes: ChangeSet) => void>());
+  const applyingRemoteRef = useRef(false);
+  const pointerRef = useRef<DiagramPoint | null>(null);
+
+  const bound = Boolean(active && !error && library.selectedSliceId === active.sliceId);
+  const viewing = bound && diagramMode === 'slice';
+
+  const applyRemoteLayout = (append: () => void) => {
+    applyingRemoteRef.current = true;
+    try {
+      append();
+    } catch {
+      // Ignore storage failures.
+    } finally {
+      applyingRemoteRef.current = false;
+    }
+  };
+
+  const handlers = {
+    onTextChanges: (changes: ChangeSet) => {
+      const current = activeRef.current;
+      if (!current) {
+        return;
+      }
+      if (remoteTextListenersRef.current.size > 0) {
+        for (const listener of remoteTextListenersRef.current) {
+          listener(changes);
+        }
+        return;
+      }
+      const dsl = current.session.getDoc();
+      setLibrary((currentLibrary) => ({
+        ...currentLibrary,
+        slices: currentLibrary.slices.map((slice) => (slice.id === current.sliceId ? { ...slice, dsl } : slice))
+      }));
+    },
+    onNodeMoved: (nodeKey: string, point: DiagramPoint) => {
+      const current = activeRef.current;
+      if (!current) {
+        return;
+      }
+      applyRemoteLayout(() => appendSliceNodeMovedEvent(current.sliceId, nodeKey, point, selectedProjectId));
+      if (library.selectedSliceId === current.sliceId) {
+        setManualNodePositions((positions) => ({ ...positions, [nodeKey]: point }));
+      }
+    },
+    onEdgeMoved: (edgeKey: string, points: DiagramPoint[]) => {
+      const current = activeRef.current;
+      if (!current) {
+        return;
+      }
+      applyRemoteLayout(() => appendSliceEdgeMovedEvent(current.sliceId, edgeKey, points, selectedProjectId));
+      if (library.selectedSliceId === current.sliceId) {
+        setManualEdgePoints((edges) => ({ ...edges, [edgeKey]: points }));
+      }
+    }
+  };
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  const leaveCollabSession = () => {
+    activeRef.current?.session.leave();
+    activeRef.current = null;
+    remoteTextListenersRef.current.clear();
+    setActive(null);
+    setPresence(NO_PRESENCE);
+    setError(null);
+  };
+
+  const joinCollabSession = ({ relayUrl, room, name }: JoinCollabSessionArgs) => {
+    leaveCollabSession();
+    const session = createCollabSession({
+      transport: createWebSocketCollabTransport(relayUrl, room),
+      participant: createCollabParticipant(name),
+      initialDoc: currentDsl,
+      initialLayout: { nodes: manualNodePositions, edges: manualEdgePoints },
+      onTextChanges: (changes) => handlersRef.current.onTextChanges(changes),
+      onNodeMoved: (nodeKey, point) => handlersRef.current.onNodeMoved(nodeKey, point),
+      onEdgeMoved: (edgeKey, points) => handlersRef.current.onEdgeMoved(edgeKey, points),
+      onPresenceChange: setPresence,
+      onClosed: (reason) => {
+        if (reason) {
+          setError(reason);
+          setPresence(NO_PRESENCE);
+        }
+      }
+    });
+    const next = { session, room, sliceId: library.selectedSliceId };
+    activeRef.current = next;
+    setActive(next);
+  };
+
+  useEffect(() => () => activeRef.current?.session.leave(), []);
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    return subscribeSliceEventAppends((event) => {
+      if (applyingRemoteRef.current || event.sliceId !== active.sliceId) {
+        return;
+      }
+      if (event.type === 'node-moved') {
+        active.session.publishNodeMoved(event.payload.nodeKey, { x: event.payload.x, y: event.payload.y });
+      } else if (event.type === 'edge-moved') {
+        active.session.publishEdgeMoved(event.payload.edgeKey, event.payload.points);
+      }
+    });
+  }, [active]);
+
+  useEffect(() => {
+    active?.session.updatePresence({
+      pointer: viewing ? pointerRef.current : null,
+      selectedNodeKeys: viewing ? selectedNodeKeys : []
+    });
+  }, [active, viewing, selectedNodeKeys]);
+
+  const onWorldPointerMove = (point: DiagramPoint | null) => {
+    pointerRef.current = point;
+    if (active && viewing) {
+      active.session.updatePresence({ pointer: point, selectedNodeKeys });
+    }
+  };
+
+  const editorCollab = useMemo<DslEditorCollab | null>(() => {
+    if (!active || !bound) {
+      return null;
+    }
+    return {
+      getDoc: active.session.getDoc,
+      applyLocalText: active.session.applyLocalText,
+      subscribeRemoteText: (listener) => {
+        remoteTextListenersRef.current.add(listener);
+        return () => {
+          remoteTextListenersRef.current.delete(listener);
+        };
+      }
+    };
+  }, [active, bound]);
+
+  const sharedSlice = active ? library.slices.find((slice) => slice.id === active.sliceId) : undefined;
+  const collabSession: CollabSessionNotice | null = active
+    ? {
+        room: active.room,
+        sliceName: sharedSlice ? getSliceNameFromDsl(sharedSlice.dsl) : active.room,
+        participants: presence,
+        error
+      }
+    : null;
+
+  return {
+    editorCollab,
+    remotePresence: viewing ? presence : NO_PRESENCE,
+    onWorldPointerMove,
+    collabSession,
+    joinCollabSession,
+    leaveCollabSession
+  };
+}
@@ -44,6 +44,9 @@ let rerenderHarness: ((args: {
   pendingFocusNodeKey: string | null;
 }) => void) | null = null;
 
+const NO_SELECTED_NODE_KEYS: string[] = [];
+const ignoreMarqueeSelect = () => undefined;
+
 function ViewStateHarness({
   dsl,
   parsed,
@@ -74,6 +77,7 @@ function ViewStateHarness({
     currentDsl: dsl,
     theme: 'light',
     diagramRendererId: 'dom-svg',
+    diagramEngineId: null,
     selectedSliceId: 'slice-a',
     dragAndDropEnabled,
     manualNodePositions,
@@ -82,11 +86,13 @@ function ViewStateHarness({
     setManualEdgePoints,
     hoveredEditorRange: null,
     selectedNodeKey: null,
+    selectedNodeKeys: NO_SELECTED_NODE_KEYS,
     hoveredEdgeKey: null,
     hoveredTraceNodeKey: null,
     focusRequestVersion,
     pendingFocusNodeKeyRef,
-    fallbackOverviewSceneModel: null
+    fallbackOverviewSceneModel: null,
+    onMarqueeSelect: ignoreMarqueeSelect
   });
 
   useEffect(() => {
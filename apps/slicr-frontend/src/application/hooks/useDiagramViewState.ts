@@ -5,7 +5,8 @@ import {
   buildRenderedEdges,
   computeDiagramLayout,
   computeOverviewDiagramLayout,
-  computeProvisionalDiagramLayout
+  computeProvisionalDiagramLayout,
+  type DiagramEngineId
 } from '../../domain/diagramEngine';
 import type { DiagramPoint } from '../../domain/diagramRouting';
 import type { NodeDimensions } from '../../domain/nodeSizing';
@@ -15,7 +16,8 @@ import type { Parsed, Position } from '../../domain/types';
 import { measureNodeDimensions, measureScenarioGroupWidths } from '../../nodeMeasurement';
 import { useDiagramInteractions } from '../../useDiagramInteractions';
 import { buildSceneModel } from '../../diagram/sceneModel';
-import { appendSliceEdgeMovedEvent, appendSliceNodeMovedEvent } from '../../sliceLibrary';
+import { moveAttachedEdgePoints } from '../../domain/nodeSelection';
+import { appendSliceEdgeMovedEvent, appendSliceLayoutBatch } from '../../sliceLibrary';
 import type { DiagramMode } from '../appViewModel';
 import type { OverviewCrossSliceLink } from '../../domain/overviewCrossSliceLinks';
 
@@ -34,6 +36,7 @@ export type UseDiagramViewStateArgs = {
   currentDsl: string;
   theme: string;
   diagramRendererId: string;
+  diagramEngineId: DiagramEngineId | null;
   selectedSliceId: string;
   dragAndDropEnabled: boolean;
   manualNodePositions: Record<string, { x: number; y: number }>;
@@ -42,6 +45,8 @@ export type UseDiagramViewStateArgs = {
   setManualEdgePoints: Dispatch<SetStateAction<Record<string, DiagramPoint[]>>>;
   hoveredEditorRange: { from: number; to: number } | null;
   selectedNodeKey: string | null;
+  selectedNodeKeys: string[];
+  onMarqueeSelect: (nodeKeys: string[]) => void;
   hoveredEdgeKey: string | null;
   hoveredTraceNodeKey: string | null;
   focusRequestVersion: number;
@@ -58,6 +63,7 @@ export function useDiagramViewState(args: UseDiagramViewStateArgs) {
     currentDsl,
     theme,
     diagramRendererId,
+    diagramEngineId,
     selectedSliceId,
     dragAndDropEnabled,
     manualNodePositions,
@@ -66,6 +72,8 @@ export function useDiagramViewState(args: UseDiagramViewStateArgs) {
     setManualEdgePoints,
     hoveredEditorRange,
     selectedNodeKey,
+    selectedNodeKeys,
+    onMarqueeSelect,
     hoveredEdgeKey,
     hoveredTraceNodeKey,
     focusRequestVersion,
@@ -94,10 +102,10 @@ export function useDiagramViewState(args: UseDiagramViewStateArgs) {
   const diagramParsed = diagramMode === 'overview' ? overviewGraph?.parsed ?? null : parsed;
   const layoutStateKey = useMemo(() => {
     if (diagramMode === 'overview') {
-      return `overview:${overviewNodeDataVisible ? 'data:on' : 'data:off'}:${activeParsedSliceProjectionList.map((slice) => `${slice.id}:${slice.dsl}`).join('|')}`;
+      return `${diagramEngineId ?? 'default'}:overview:${overviewNodeDataVisible ? 'data:on' : 'data:off'}:${activeParsedSliceProjectionList.map((slice) => `${slice.id}:${slice.dsl}`).join('|')}`;
     }
-    return `slice:${selectedSliceId}:${currentDsl}`;
-  }, [activeParsedSliceProjectionList, currentDsl, diagramMode, overviewNodeDataVisible, selectedSliceId]);
+    return `${diagramEngineId ?? 'default'}:slice:${selectedSliceId}:${currentDsl}`;
+  }, [activeParsedSliceProjectionList, currentDsl, diagramEngineId, diagramMode, overviewNodeDataVisible, selectedSliceId]);
   const [diagramEngineLayoutState, setDiagramEngineLayoutState] = useState<{
     key: string;
     layout: Awaited<ReturnType<typeof computeDiagramLayout>> | Awaited<ReturnType<typeof computeOverviewDiagramLayout>>;
@@ -146,10 +154,11 @@ export function useDiagramViewState(args: UseDiagramViewStateArgs) {
     let active = true;
     const computeLayout = diagramMode === 'overview'
       ? computeOverviewDiagramLayout(activeParsedSliceProjectionList, {
+        engine: diagramEngineId ?? undefined,
         nodeDimensions: measuredNodeDimensions,
         scenarioGroupWidths: measuredScenarioGroupWidths
       })
-      : computeDiagramLayout(diagramParsed, { nodeDimensions: measuredNodeDimensions });
+      : computeDiagramLayout(diagramParsed, { engine: diagramEngineId ?? undefined, nodeDimensions: measuredNodeDimensions });
     computeLayout
       .then((result) => {
         if (!active) {
@@ -166,6 +175,7 @@ export function useDiagramViewState(args: UseDiagramViewStateArgs) {
     };
   }, [
     currentDsl,
+    diagramEngineId,
     diagramMode,
     diagramParsed,
     layoutStateKey,
@@ -262,6 +272,7 @@ export function useDiagramViewState(args: UseDiagramViewStateArgs) {
         engineLayout,
         activeNodeKeyFromEditor,
         selectedNodeKey,
+        selectedNodeKeys,
         hoveredEdgeKey,
         hoveredTraceNodeKey,
         overviewNodeMetadataByKey,
@@ -277,6 +288,7 @@ export function useDiagramViewState(args: UseDiagramViewStateArgs) {
       engineLayout,
       activeNodeKeyFromEditor,
       selectedNodeKey,
+      selectedNodeKeys,
       hoveredEdgeKey,
       hoveredTraceNodeKey,
       overviewNodeMetadataByKey,
@@ -358,25 +370,47 @@ export function useDiagramViewState(args: UseDiagramViewStateArgs) {
     canvasPanelRef,
     dragTooltip,
     isPanning,
+    marquee,
     beginNodeDrag,
     beginEdgeSegmentDrag,
-    beginCanvasPan
+    beginCanvasPan,
+    beginMarqueeSelection
   } = useDiagramInteractions({
     interactionsEnabled: layoutReady,
     dragAndDropEnabled: interactionDragAndDropEnabled,
     displayedPos: visibleDisplayedPos,
     renderedEdges: visibleRenderedEdges,
     manualEdgePoints,
+    selectedNodeKeys,
     setManualNodePositions,
     setManualEdgePoints,
-    onNodeDragCommit: (nodeKey, point) => {
-      appendSliceNodeMovedEvent(selectedSliceId, nodeKey, point);
+    onNodesDragCommit: (overrides) => {
+      appendSliceLayoutBatch(selectedSliceId, overrides);
     },
     onEdgeDragCommit: (edgeKey, points) => {
       appendSliceEdgeMovedEvent(selectedSliceId, edgeKey, points);
-    }
+    },
+    onMarqueeSelect: diagramMode === 'slice' ? onMarqueeSelect : undefined
   });
 
+  const commitNodePositions = (nodes: Record<string, DiagramPoint>) => {
+    if (!interactionDragAndDropEnabled || Object.keys(nodes).length === 0) {
+      return;
+    }
+    const deltas = Object.fromEntries(
+      Object.entries(nodes)
+        .filter(([nodeKey]) => visibleDisplayedPos[nodeKey])
+        .map(([nodeKey, point]) => [
+          nodeKey,
+          { x: point.x - visibleDisplayedPos[nodeKey].x, y: point.y - visibleDisplayedPos[nodeKey].y }
+        ])
+    );
+    const edges = moveAttachedEdgePoints(visibleRenderedEdges, manualEdgePoints, deltas);
+    setManualNodePositions((current) => ({ ...current, ...nodes }));
+    setManualEdgePoints((current) => ({ ...current, ...edges }));
+    appendSliceLayoutBatch(selectedSliceId, { nodes, edges });
+  };
+
   useLayoutEffect(() => {
     if (diagramMode !== 'overview' || !rawSceneModel?.scenarioGroups || rawSceneModel.scenarioGroups.length === 0) {
       queueMicrotask(() => {
@@ -484,9 +518,12 @@ export function useDiagramViewState(args: UseDiagramViewStateArgs) {
     rendererViewportKey,
     dragTooltip,
     isPanning,
+    marquee,
     beginNodeDrag,
     beginEdgeSegmentDrag,
     beginCanvasPan,
+    beginMarqueeSelection,
+    commitNodePositions,
     canvasPanelRef,
     displayedPos: visibleDisplayedPos,
     renderedEdges: visibleRenderedEdges,
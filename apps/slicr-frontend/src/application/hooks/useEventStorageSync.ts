@@ -0,0 +1,103 @@
+import { useEffect, useRef, type Dispatch, type MutableRefObject, type SetStateAction } from 'react';
+import { DEFAULT_DSL } from '../../defaultDsl';
+import type { DiagramPoint } from '../../domain/diagramRouting';
+import { APP_EVENT_STREAM_STORAGE_KEY, loadProjectIndex, type ProjectIndex } from '../../projectLibrary';
+import { hydrateSliceProjection, notifySliceEventsChanged, reconcileSliceEvents } from '../../sliceEventStore';
+import { getSliceNameFromDsl, loadSliceLibrary, type SliceLibrary } from '../../sliceLibrary';
+import { subscribeEventStorageFailures } from '../../storage/eventStorage';
+import { startEventStorageSync } from '../../storage/eventStorageSync';
+import type { SliceConflictNotice } from '../appViewModel';
+
+const SLICE_STREAM_KEY_PREFIX = 'slicr.es.v1.stream.';
+
+type UseEventStorageSyncArgs = {
+  library: SliceLibrary;
+  setLibrary: Dispatch<SetStateAction<SliceLibrary>>;
+  selectedProjectId: string;
+  setProjectIndex: Dispatch<SetStateAction<ProjectIndex>>;
+  setCurrentDsl: Dispatch<SetStateAction<string>>;
+  skipNextLayoutSaveRef: MutableRefObject<boolean>;
+  setManualNodePositions: Dispatch<SetStateAction<Record<string, DiagramPoint>>>;
+  setManualEdgePoints: Dispatch<SetStateAction<Record<string, DiagramPoint[]>>>;
+  setSliceConflict: Dispatch<SetStateAction<SliceConflictNotice | null>>;
+  setStorageWriteError: Dispatch<SetStateAction<string | null>>;
+};
+
+function sameSliceIds(a: SliceLibrary, b: SliceLibrary): boolean {
+  return a.slices.length === b.slices.length && a.slices.every((slice, index) => slice.id === b.slices[index]?.id);
+}
+
+// Re-projects what other tabs append, so this tab never saves a stale DSL over their edits.
+export function useEventStorageSync(args: UseEventStorageSyncArgs): void {
+  const {
+    library,
+    setLibrary,
+    selectedProjectId,
+    setProjectIndex,
+    setCurrentDsl,
+    skipNextLayoutSaveRef,
+    setManualNodePositions,
+    setManualEdgePoints,
+    setSliceConflict,
+    setStorageWriteError
+  } = args;
+
+  const applyAppStreamChange = () => {
+    const projectedIndex = loadProjectIndex();
+    setProjectIndex((current) => ({ ...projectedIndex, selectedProjectId: current.selectedProjectId }));
+    // Selections stay per tab; only slices added or removed elsewhere change this tab's library.
+    const projectedLibrary = loadSliceLibrary(DEFAULT_DSL, selectedProjectId);
+    if (sameSliceIds(projectedLibrary, library)) {
+      return;
+    }
+    const keepsSelection = projectedLibrary.slices.some((slice) => slice.id === library.selectedSliceId);
+    setLibrary({
+      selectedSliceId: keepsSelection ? library.selectedSliceId : projectedLibrary.selectedSliceId,
+      slices: projectedLibrary.slices
+    });
+  };
+
+  const applySliceStreamChange = (sliceId: string) => {
+    const slice = library.slices.find((candidate) => candidate.id === sliceId);
+    const reconciliation = reconcileSliceEvents(sliceId, selectedProjectId);
+    if (!slice || !reconciliation) {
+      return;
+    }
+    const projection = hydrateSliceProjection(sliceId, selectedProjectId);
+    if (sliceId === library.selectedSliceId) {
+      setCurrentDsl(projection.dsl);
+      skipNextLayoutSaveRef.current = true;
+      setManualNodePositions(projection.manualNodePositions);
+      setManualEdgePoints(projection.manualEdgePoints);
+    } else {
+      setLibrary((current) => ({
+        ...current,
+        slices: current.slices.map((candidate) => (candidate.id === sliceId ? { ...candidate, dsl: projection.dsl } : candidate))
+      }));
+    }
+    if (reconciliation.conflict) {
+      setSliceConflict({ sliceId, sliceName: getSliceNameFromDsl(projection.dsl), ...reconciliation.conflict });
+    }
+    notifySliceEventsChanged();
+  };
+
+  const applyChange = (key: string) => {
+    if (key === APP_EVENT_STREAM_STORAGE_KEY) {
+      applyAppStreamChange();
+    } else if (key.startsWith(SLICE_STREAM_KEY_PREFIX)) {
+      applySliceStreamChange(key.slice(SLICE_STREAM_KEY_PREFIX.length));
+    }
+  };
+
+  const applyChangeRef = useRef(applyChange);
+  useEffect(() => {
+    applyChangeRef.current = applyChange;
+  });
+
+  useEffect(() => startEventStorageSync((key) => applyChangeRef.current(key)), []);
+
+  useEffect(() => subscribeEventStorageFailures((error) => {
+    const reason = error instanceof Error ? error.message : String(error);
+    setStorageWriteError(`Recent changes could not be saved: ${reason} They stay in this tab until it is closed.`);
+  }), [setStorageWriteError]);
+}
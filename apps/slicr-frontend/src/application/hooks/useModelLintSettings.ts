@@ -0,0 +1,20 @@
+import { useMemo, useState } from 'react';
+import type { ModelLintLevel, ModelLintRuleId, ModelLintSettings } from '../../domain/modelLint';
+import { loadModelLintSettings, saveModelLintSettings } from '../../modelLintSettings';
+
+// Rule levels of the selected project; switching projects reads that project's choices again.
+export function useModelLintSettings(projectId: string) {
+  const [saved, setSaved] = useState<{ projectId: string; settings: ModelLintSettings } | null>(null);
+  const modelLintSettings = useMemo(
+    () => (saved?.projectId === projectId ? saved.settings : loadModelLintSettings(projectId)),
+    [projectId, saved]
+  );
+
+  const setModelLintRuleLevel = (ruleId: ModelLintRuleId, level: ModelLintLevel) => {
+    const settings = { ...modelLintSettings, [ruleId]: level };
+    saveModelLintSettings(settings, projectId);
+    setSaved({ projectId, settings });
+  };
+
+  return { modelLintSettings, setModelLintRuleLevel };
+}
@@ -5,9 +5,11 @@ import { getCrossSliceDataFromParsed } from '../../domain/crossSliceData';
 import { toNodeAnalysisRef, toNodeAnalysisRefFromNode } from '../../domain/nodeAnalysisKey';
 import { parseUsesBlocks } from '../../domain/dataMapping';
 import { traceData } from '../../domain/dataTrace';
+import { buildNodeVersionHistory } from '../../domain/nodeVersionHistory';
 import type { Parsed } from '../../domain/types';
 import type { ParsedSliceProjection } from '../../domain/parsedSliceProjection';
 import { getSliceNameFromDsl } from '../../sliceLibrary';
+import type { NodePanelTab } from '../appViewModel';
 
 type ParsedProjection = ParsedSliceProjection<Parsed>;
 
@@ -52,7 +54,7 @@ export function useNodeAnalysisState(args: UseNodeAnalysisStateArgs) {
     crossSliceDataEnabled
   } = args;
 
-  const [selectedNodePanelTab, setSelectedNodePanelTab] = useState<'usage' | 'crossSliceData' | 'trace'>('usage');
+  const [selectedNodePanelTab, setSelectedNodePanelTab] = useState<NodePanelTab>('usage');
   const [sourceOverrides, setSourceOverrides] = useState<Record<string, string>>({});
   const [crossSliceDataExpandedKeys, setCrossSliceDataExpandedKeys] = useState<Record<string, boolean>>({});
   const [crossSliceTraceExpandedKeys, setCrossSliceTraceExpandedKeys] = useState<Record<string, boolean>>({});
@@ -120,6 +122,21 @@ export function useNodeAnalysisState(args: UseNodeAnalysisStateArgs) {
     return [...parsed.nodes.values()].filter((node) => toNodeAnalysisRefFromNode(node) === selectedNodeAnalysisRef);
   }, [parsed, selectedNode, selectedNodeAnalysisRef]);
 
+  const selectedNodeVersions = useMemo(() => {
+    if (!selectedNodeAnalysisRef || !selectedNode || isScenarioNodeKey(selectedNode.key)) {
+      return [];
+    }
+    return buildNodeVersionHistory(parsedSliceProjectionList, selectedNodeAnalysisRef, selectedSliceId);
+  }, [parsedSliceProjectionList, selectedNode, selectedNodeAnalysisRef, selectedSliceId]);
+
+  const showVersionsTab = selectedNodeVersions.length > 1;
+
+  useEffect(() => {
+    if (!showVersionsTab && selectedNodePanelTab === 'versions') {
+      setSelectedNodePanelTab('usage');
+    }
+  }, [selectedNodePanelTab, showVersionsTab]);
+
   const usesMappingsByRef = useMemo(() => parseUsesBlocks(currentDsl), [currentDsl]);
 
   const crossSliceUsage = useMemo(() => {
@@ -196,7 +213,17 @@ export function useNodeAnalysisState(args: UseNodeAnalysisStateArgs) {
       byKey[traceKey] = [selectedNode.key]
         .map((nodeKey) => ({
           nodeKey,
-          result: traceData({ dsl: currentDsl, nodes: parsed.nodes, edges: parsed.edges }, nodeKey, traceKey)
+          result: traceData(
+            {
+              dsl: currentDsl,
+              nodes: parsed.nodes,
+              edges: parsed.edges,
+              sliceId: selectedSliceId,
+              slices: parsedSliceProjectionList
+            },
+            nodeKey,
+            traceKey
+          )
         }))
         .filter(
           (entry): entry is { nodeKey: string; result: NonNullable<ReturnType<typeof traceData>> } => entry.result !== null
@@ -204,7 +231,7 @@ export function useNodeAnalysisState(args: UseNodeAnalysisStateArgs) {
     }
 
     return byKey;
-  }, [currentDsl, parsed, selectedNode, selectedNodeUsesKeys]);
+  }, [currentDsl, parsed, parsedSliceProjectionList, selectedNode, selectedNodeUsesKeys, selectedSliceId]);
 
   const crossSliceUsageEntries = useMemo(() => {
     return crossSliceUsage.map((usage) => {
@@ -259,6 +286,8 @@ export function useNodeAnalysisState(args: UseNodeAnalysisStateArgs) {
     selectedNodeCrossSliceData,
     selectedNodeTraceResultsByKey,
     crossSliceUsageGroups,
-    showDataTraceTab
+    showDataTraceTab,
+    selectedNodeVersions,
+    showVersionsTab
   };
 }
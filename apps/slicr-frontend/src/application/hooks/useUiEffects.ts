@@ -3,7 +3,7 @@ import { useEffect } from 'react';
 import type { SliceLibrary } from '../../sliceLibrary';
 import { saveSliceLibrary, saveSliceLayoutOverrides, selectSlice } from '../../sliceLibrary';
 import type { ProjectIndex } from '../../projectLibrary';
-import type { DiagramMode } from '../appViewModel';
+import type { DiagramMode, NodePanelTab } from '../appViewModel';
 
 export type UseUiEffectsArgs = {
   projectIndex: ProjectIndex;
@@ -22,11 +22,21 @@ export type UseUiEffectsArgs = {
   addNodeDialogOpen: boolean;
   importNodeDialogOpen: boolean;
   createSliceTemplateDialogOpen: boolean;
+  exportBundleDialogOpen: boolean;
+  importBundleDialogOpen: boolean;
+  codeStubsDialogOpen: boolean;
+  scenarioTestsDialogOpen: boolean;
+  exportImageDialogOpen: boolean;
+  historyPanelOpen: boolean;
+  renameNodeDialogOpen: boolean;
+  problemsPanelOpen: boolean;
   sliceMenuRef: RefObject<HTMLDivElement | null>;
   mobileMenuRef: RefObject<HTMLDivElement | null>;
   currentSliceName: string;
   theme: string;
   themeStorageKey: string;
+  formatOnSave: boolean;
+  formatOnSaveStorageKey: string;
   selectedNode: { key: string } | null;
   showDataTraceTab: boolean;
   selectedNodeUsesKeys: string[];
@@ -43,13 +53,32 @@ export type UseUiEffectsArgs = {
   setAddNodeDialogOpen: Dispatch<SetStateAction<boolean>>;
   setImportNodeDialogOpen: Dispatch<SetStateAction<boolean>>;
   setCreateSliceTemplateDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setExportBundleDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setImportBundleDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setCodeStubsDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setScenarioTestsDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setExportImageDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setHistoryPanelOpen: Dispatch<SetStateAction<boolean>>;
+  setRenameNodeDialogOpen: Dispatch<SetStateAction<boolean>>;
+  setProblemsPanelOpen: Dispatch<SetStateAction<boolean>>;
   setCrossSliceTraceExpandedKeys: Dispatch<SetStateAction<Record<string, boolean>>>;
-  setSelectedNodePanelTab: Dispatch<SetStateAction<'usage' | 'crossSliceData' | 'trace'>>;
+  setSelectedNodePanelTab: Dispatch<SetStateAction<NodePanelTab>>;
   applySelectedSliceOverrides: (sliceId: string) => void;
   onShowProjectOverview: () => void;
   onHideProjectOverview: () => void;
+  selectedNodeKeys: string[];
+  onDeleteSelectedNodes: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
 };
 
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof Element)) {
+    return false;
+  }
+  return Boolean(target.closest('input, textarea, select, [contenteditable="true"], .cm-editor'));
+}
+
 export function useUiEffects(args: UseUiEffectsArgs) {
   const {
     projectIndex,
@@ -68,11 +97,21 @@ export function useUiEffects(args: UseUiEffectsArgs) {
     addNodeDialogOpen,
     importNodeDialogOpen,
     createSliceTemplateDialogOpen,
+    exportBundleDialogOpen,
+    importBundleDialogOpen,
+    codeStubsDialogOpen,
+    scenarioTestsDialogOpen,
+    exportImageDialogOpen,
+    historyPanelOpen,
+    renameNodeDialogOpen,
+    problemsPanelOpen,
     sliceMenuRef,
     mobileMenuRef,
     currentSliceName,
     theme,
     themeStorageKey,
+    formatOnSave,
+    formatOnSaveStorageKey,
     selectedNode,
     showDataTraceTab,
     selectedNodeUsesKeys,
@@ -89,11 +128,23 @@ export function useUiEffects(args: UseUiEffectsArgs) {
     setAddNodeDialogOpen,
     setImportNodeDialogOpen,
     setCreateSliceTemplateDialogOpen,
+    setExportBundleDialogOpen,
+    setImportBundleDialogOpen,
+    setCodeStubsDialogOpen,
+    setScenarioTestsDialogOpen,
+    setExportImageDialogOpen,
+    setHistoryPanelOpen,
+    setRenameNodeDialogOpen,
+    setProblemsPanelOpen,
     setCrossSliceTraceExpandedKeys,
     setSelectedNodePanelTab,
     applySelectedSliceOverrides,
     onShowProjectOverview,
-    onHideProjectOverview
+    onHideProjectOverview,
+    selectedNodeKeys,
+    onDeleteSelectedNodes,
+    onUndo,
+    onRedo
   } = args;
 
   useEffect(() => {
@@ -230,6 +281,14 @@ export function useUiEffects(args: UseUiEffectsArgs) {
     }
   }, [theme, themeStorageKey]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem(formatOnSaveStorageKey, String(formatOnSave));
+    } catch {
+      // Ignore storage failures.
+    }
+  }, [formatOnSave, formatOnSaveStorageKey]);
+
   useEffect(() => {
     const closeOnOutside = (event: PointerEvent) => {
       if (!sliceMenuOpen) {
@@ -294,6 +353,30 @@ export function useUiEffects(args: UseUiEffectsArgs) {
         if (createSliceTemplateDialogOpen) {
           setCreateSliceTemplateDialogOpen(false);
         }
+        if (exportBundleDialogOpen) {
+          setExportBundleDialogOpen(false);
+        }
+        if (importBundleDialogOpen) {
+          setImportBundleDialogOpen(false);
+        }
+        if (codeStubsDialogOpen) {
+          setCodeStubsDialogOpen(false);
+        }
+        if (scenarioTestsDialogOpen) {
+          setScenarioTestsDialogOpen(false);
+        }
+        if (exportImageDialogOpen) {
+          setExportImageDialogOpen(false);
+        }
+        if (historyPanelOpen) {
+          setHistoryPanelOpen(false);
+        }
+        if (renameNodeDialogOpen) {
+          setRenameNodeDialogOpen(false);
+        }
+        if (problemsPanelOpen) {
+          setProblemsPanelOpen(false);
+        }
         return;
       }
 
@@ -326,6 +409,26 @@ export function useUiEffects(args: UseUiEffectsArgs) {
         return;
       }
 
+      const isUndoShortcut = (event.metaKey || event.ctrlKey) && !event.shiftKey && event.key.toLowerCase() === 'z';
+      const isRedoShortcut = (event.metaKey || event.ctrlKey)
+        && ((event.shiftKey && event.key.toLowerCase() === 'z') || (!event.shiftKey && event.key.toLowerCase() === 'y'));
+      if ((isUndoShortcut || isRedoShortcut) && !isEditableTarget(event.target)) {
+        event.preventDefault();
+        if (isUndoShortcut) {
+          onUndo();
+          return;
+        }
+        onRedo();
+        return;
+      }
+
+      const isDeleteKey = event.key === 'Delete' || event.key === 'Backspace';
+      if (isDeleteKey && diagramMode === 'slice' && selectedNodeKeys.length > 0 && !isEditableTarget(event.target)) {
+        event.preventDefault();
+        onDeleteSelectedNodes();
+        return;
+      }
+
       const isNextSliceShortcut = (event.metaKey || event.ctrlKey) && event.shiftKey && event.key.toLowerCase() === 'j';
       const isPreviousSliceShortcut = (event.metaKey || event.ctrlKey) && event.shiftKey && event.key.toLowerCase() === 'k';
       if (isNextSliceShortcut || isPreviousSliceShortcut) {
@@ -372,6 +475,30 @@ export function useUiEffects(args: UseUiEffectsArgs) {
       if (createSliceTemplateDialogOpen) {
         setCreateSliceTemplateDialogOpen(false);
       }
+      if (exportBundleDialogOpen) {
+        setExportBundleDialogOpen(false);
+      }
+      if (importBundleDialogOpen) {
+        setImportBundleDialogOpen(false);
+      }
+      if (codeStubsDialogOpen) {
+        setCodeStubsDialogOpen(false);
+      }
+      if (scenarioTestsDialogOpen) {
+        setScenarioTestsDialogOpen(false);
+      }
+      if (exportImageDialogOpen) {
+        setExportImageDialogOpen(false);
+      }
+      if (historyPanelOpen) {
+        setHistoryPanelOpen(false);
+      }
+      if (renameNodeDialogOpen) {
+        setRenameNodeDialogOpen(false);
+      }
+      if (problemsPanelOpen) {
+        setProblemsPanelOpen(false);
+      }
     };
 
     window.addEventListener('keydown', onKeyDown);
@@ -390,12 +517,28 @@ export function useUiEffects(args: UseUiEffectsArgs) {
     addNodeDialogOpen,
     importNodeDialogOpen,
     createSliceTemplateDialogOpen,
+    exportBundleDialogOpen,
+    importBundleDialogOpen,
+    codeStubsDialogOpen,
+    scenarioTestsDialogOpen,
+    exportImageDialogOpen,
+    historyPanelOpen,
+    renameNodeDialogOpen,
+    problemsPanelOpen,
     setCommandPaletteOpen,
     setCreateProjectDialogOpen,
     setCompactEventsDialogOpen,
     setAddNodeDialogOpen,
     setImportNodeDialogOpen,
     setCreateSliceTemplateDialogOpen,
+    setExportBundleDialogOpen,
+    setImportBundleDialogOpen,
+    setCodeStubsDialogOpen,
+    setScenarioTestsDialogOpen,
+    setExportImageDialogOpen,
+    setHistoryPanelOpen,
+    setRenameNodeDialogOpen,
+    setProblemsPanelOpen,
     setCrossSliceTraceExpandedKeys,
     setSelectedNodePanelTab,
     setSelectedNodeKey,
@@ -403,6 +546,10 @@ export function useUiEffects(args: UseUiEffectsArgs) {
     setLibrary,
     applySelectedSliceOverrides,
     onShowProjectOverview,
-    onHideProjectOverview
+    onHideProjectOverview,
+    selectedNodeKeys,
+    onDeleteSelectedNodes,
+    onUndo,
+    onRedo
   ]);
 }
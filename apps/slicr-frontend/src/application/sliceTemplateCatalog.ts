@@ -1,6 +1,6 @@
-export type SliceTemplateId = 'state-change' | 'state-view' | 'automation';
+export type SliceTemplateId = 'state-change' | 'state-view' | 'query' | 'automation';
 export type SliceTargetMode = 'create-new' | 'add-current';
-export type SliceNodeType = 'ui' | 'cmd' | 'evt' | 'rm' | 'aut';
+export type SliceNodeType = 'ui' | 'cmd' | 'qry' | 'evt' | 'rm' | 'aut';
 
 export type SliceTemplateNode = {
   slot: string;
@@ -53,6 +53,21 @@ export const SLICE_TEMPLATES: SliceTemplate[] = [
       { fromSlot: 'projection-rm', toSlot: 'consumer-ui' }
     ]
   },
+  {
+    id: 'query',
+    label: 'Query',
+    nodes: [
+      { slot: 'source-evt', type: 'evt', defaultName: 'payment-updated', defaultAlias: 'Payment Updated' },
+      { slot: 'projection-rm', type: 'rm', defaultName: 'payment-history', defaultAlias: 'Payment History' },
+      { slot: 'lookup-qry', type: 'qry', defaultName: 'find-payments', defaultAlias: 'Find Payments' },
+      { slot: 'consumer-ui', type: 'ui', defaultName: 'payment-search', defaultAlias: 'Payment Search' }
+    ],
+    edges: [
+      { fromSlot: 'source-evt', toSlot: 'projection-rm' },
+      { fromSlot: 'projection-rm', toSlot: 'lookup-qry' },
+      { fromSlot: 'lookup-qry', toSlot: 'consumer-ui' }
+    ]
+  },
   {
     id: 'automation',
     label: 'Automation',
@@ -1,8 +1,9 @@
-import { Dispatch, SetStateAction, useEffect, useMemo, useRef, useState } from 'react';
+import { Dispatch, SetStateAction, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import { MISSING_DATA_VALUE } from '../domain/dataMapping';
 import { formatNodeData } from '../domain/formatNodeData';
 import { parseDsl } from '../domain/parseDsl';
 import { getAmbiguousSourceCandidates } from '../domain/dataIssues';
+import { resolveSelectedNodeKeys } from '../domain/nodeSelection';
 import { useParsedSliceProjection } from '../useParsedSliceProjection';
 import {
   appendSliceLayoutResetEvent,
@@ -10,6 +11,15 @@ import {
   loadSliceLayoutOverrides,
   updateSelectedSliceDsl
 } from '../sliceLibrary';
+import { recordEditorHistoryEdit, redoSliceEdit, undoSliceEdit } from '../sliceHistory';
+import { getSliceEventsSnapshot, subscribeSliceEvents, type SliceEvent, type SliceHistoryDirection } from '../sliceEventStore';
+import { projectSliceVersion, restoreSliceVersion } from '../sliceTimeline';
+import { applyNodeRename } from '../projectNodeRename';
+import { createSliceShareFragment, sliceShareUrl } from '../sliceShareLink';
+import { collectModelLintProblems, collectProjectProblems, groupProjectProblems } from '../domain/projectProblems';
+import { lintSliceModel } from '../domain/modelLint';
+import { collectProjectNodeRefs } from '../domain/dslAutocomplete';
+import type { NodeRenamePlan } from '../domain/nodeRename';
 import { EditorWarning, useDslEditor } from '../useDslEditor';
 import { getDiagramRenderer } from '../diagram/rendererRegistry';
 import type { DiagramSceneModel } from '../diagram/rendererContract';
@@ -17,11 +27,16 @@ import type { UseAppStateResult } from './appViewModel';
 import { useAppLocalState } from './hooks/useAppLocalState';
 import { useAppActions } from './hooks/useAppActions';
 import { useDiagramViewState } from './hooks/useDiagramViewState';
+import { useEventStorageSync } from './hooks/useEventStorageSync';
+import { useCollabSession } from './hooks/useCollabSession';
+import { useModelLintSettings } from './hooks/useModelLintSettings';
 import { useNodeAnalysisState } from './hooks/useNodeAnalysisState';
 import { useUiEffects } from './hooks/useUiEffects';
 import { NODE_MEASURE_NODE_CLASS } from '../nodeMeasurement';
 import { formatTraceSource, NODE_VERSION_SUFFIX, ParseResult, TYPE_LABEL } from './appConstants';
 
+const NO_SLICE_EVENTS: SliceEvent[] = [];
+
 export function useAppState(): UseAppStateResult {
   const local = useAppLocalState();
   const {
@@ -33,6 +48,8 @@ export function useAppState(): UseAppStateResult {
     setLibrary,
     theme,
     setTheme,
+    formatOnSave,
+    setFormatOnSave,
     editorOpen,
     setEditorOpen,
     diagramMode,
@@ -41,6 +58,8 @@ export function useAppState(): UseAppStateResult {
     setOverviewNodeDataVisible,
     sliceSelectedNodeKey,
     setSliceSelectedNodeKey,
+    sliceSelectedNodeKeys,
+    setSliceSelectedNodeKeys,
     overviewSelectedNodeKey,
     setOverviewSelectedNodeKey,
     overviewReturnState,
@@ -58,6 +77,8 @@ export function useAppState(): UseAppStateResult {
     hoveredEdgeKey,
     setHoveredEdgeKey,
     diagramRendererId,
+    diagramEngineId,
+    setDiagramEngineId,
     docsOpen,
     setDocsOpen,
     hasOpenedDocs,
@@ -74,14 +95,40 @@ export function useAppState(): UseAppStateResult {
     setCreateProjectDialogOpen,
     compactEventsDialogOpen,
     setCompactEventsDialogOpen,
-    compactEventsSummary,
-    setCompactEventsSummary,
+    statusMessage,
+    setStatusMessage,
+    sliceConflict,
+    setSliceConflict,
+    storageWriteError,
+    setStorageWriteError,
+    collabDialogOpen,
+    setCollabDialogOpen,
     addNodeDialogOpen,
     setAddNodeDialogOpen,
     importNodeDialogOpen,
     setImportNodeDialogOpen,
     createSliceTemplateDialogOpen,
+    exportBundleDialogOpen,
+    importBundleDialogOpen,
+    codeStubsDialogOpen,
+    scenarioTestsDialogOpen,
+    exportImageDialogOpen,
+    historyPanelOpen,
+    renameNodeDialogOpen,
+    problemsPanelOpen,
+    modelRulesDialogOpen,
+    historyPreview,
     setCreateSliceTemplateDialogOpen,
+    setExportBundleDialogOpen,
+    setImportBundleDialogOpen,
+    setCodeStubsDialogOpen,
+    setScenarioTestsDialogOpen,
+    setExportImageDialogOpen,
+    setHistoryPanelOpen,
+    setRenameNodeDialogOpen,
+    setProblemsPanelOpen,
+    setModelRulesDialogOpen,
+    setHistoryPreview,
     manualNodePositions,
     setManualNodePositions,
     manualEdgePoints,
@@ -89,6 +136,7 @@ export function useAppState(): UseAppStateResult {
     focusRequestVersion,
     setFocusRequestVersion,
     pendingFocusNodeKeyRef,
+    pendingFocusRangeRef,
     hasManualLayoutOverrides,
     showDevDiagramControls,
     dragAndDropEnabled,
@@ -96,11 +144,16 @@ export function useAppState(): UseAppStateResult {
     currentSlice,
     currentDsl,
     currentSliceName,
-    THEME_STORAGE_KEY
+    THEME_STORAGE_KEY,
+    FORMAT_ON_SAVE_STORAGE_KEY
   } = local;
 
   const diagramSelectedNodeKey = diagramMode === 'overview' ? overviewSelectedNodeKey : sliceSelectedNodeKey;
   const analysisSelectedNodeKey = diagramMode === 'overview' ? null : sliceSelectedNodeKey;
+  const selectedNodeKeys = useMemo(
+    () => (diagramMode === 'overview' ? [] : resolveSelectedNodeKeys(sliceSelectedNodeKey, sliceSelectedNodeKeys)),
+    [diagramMode, sliceSelectedNodeKey, sliceSelectedNodeKeys]
+  );
   const editorOpenRef = useRef(editorOpen);
   const sliceSelectedNodeKeyRef = useRef(sliceSelectedNodeKey);
   const [overviewPlaceholderSceneModel, setOverviewPlaceholderSceneModel] = useState<DiagramSceneModel | null>(null);
@@ -130,11 +183,17 @@ export function useAppState(): UseAppStateResult {
     setSliceSelectedNodeKey(nextValue);
   };
 
+  const selectNodeKeys = (nodeKeys: string[]) => {
+    setSliceSelectedNodeKeys(nodeKeys);
+    setTrackedSliceSelectedNodeKey(nodeKeys[nodeKeys.length - 1] ?? null);
+  };
+
   const setSelectedNodeKey: Dispatch<SetStateAction<string | null>> = (updater) => {
     if (diagramMode === 'overview') {
       setOverviewSelectedNodeKey(updater);
       return;
     }
+    setSliceSelectedNodeKeys([]);
     setTrackedSliceSelectedNodeKey(updater);
   };
 
@@ -179,37 +238,111 @@ export function useAppState(): UseAppStateResult {
   const parsed = parseResult.parsed;
   const errorText = parseResult.error;
 
-  const { collapseAllDataRegions, collapseAllRegions, expandAllRegions, focusRange, hasFocusedCursor, insertAtCursorOrEnd } = useDslEditor({
+  const { modelLintSettings, setModelLintRuleLevel } = useModelLintSettings(selectedProjectId);
+  const modelLintWarnings = useMemo(() => {
+    if (!parsed) {
+      return [];
+    }
+    const otherSlices = parsedSliceProjectionList
+      .filter((slice) => slice.id !== library.selectedSliceId)
+      .map((slice) => slice.parsed);
+    return lintSliceModel({ parsed, otherSlices, settings: modelLintSettings });
+  }, [library.selectedSliceId, modelLintSettings, parsed, parsedSliceProjectionList]);
+
+  const projectNodeRefs = useMemo(
+    () => collectProjectNodeRefs(parsedSliceProjectionList, library.selectedSliceId),
+    [library.selectedSliceId, parsedSliceProjectionList]
+  );
+
+  const collab = useCollabSession({
+    library,
+    setLibrary,
+    selectedProjectId,
+    diagramMode,
+    currentDsl,
+    selectedNodeKeys,
+    manualNodePositions,
+    manualEdgePoints,
+    setManualNodePositions,
+    setManualEdgePoints
+  });
+
+  const {
+    collapseAllDataRegions,
+    collapseAllRegions,
+    expandAllRegions,
+    focusRange,
+    formatDocument,
+    hasFocusedCursor,
+    insertAtCursorOrEnd
+  } = useDslEditor({
     dsl: currentDsl,
     onDslChange: setCurrentDsl,
     onRangeHover: setHoveredEditorRange,
     editorMountRef,
     highlightRange,
-    warnings: parseResult.warnings.map<EditorWarning>((warning) => ({
+    warnings: [...parseResult.warnings, ...modelLintWarnings].map<EditorWarning>((warning) => ({
       range: warning.range,
       message: warning.message,
       level: warning.level
-    }))
+    })),
+    projectNodeRefs,
+    onHistoryExhausted: (direction) => applySliceHistory(direction),
+    onHistoryDocChanged: (nextDsl, direction) => {
+      recordEditorHistoryEdit(library.selectedSliceId, nextDsl, direction, selectedProjectId);
+    },
+    formatOnSave,
+    collab: collab.editorCollab
   });
 
-  const diagramDragAndDropEnabled = diagramMode === 'slice' ? dragAndDropEnabled : false;
+  useEffect(() => {
+    const pendingFocusRange = pendingFocusRangeRef.current;
+    if (!pendingFocusRange) {
+      return;
+    }
+    pendingFocusRangeRef.current = null;
+    focusRange(pendingFocusRange);
+  }, [currentDsl, focusRange, focusRequestVersion, pendingFocusRangeRef]);
+
+  const sliceHistoryEvents = useSyncExternalStore(
+    subscribeSliceEvents,
+    () => (historyPanelOpen ? getSliceEventsSnapshot(library.selectedSliceId, selectedProjectId) : NO_SLICE_EVENTS)
+  );
+  const activeHistoryPreview = historyPanelOpen && diagramMode === 'slice' && historyPreview?.sliceId === library.selectedSliceId
+    ? historyPreview
+    : null;
+  const historyPreviewParsed = useMemo(() => {
+    if (!activeHistoryPreview) {
+      return null;
+    }
+    try {
+      return parseDsl(activeHistoryPreview.projection.dsl);
+    } catch {
+      return null;
+    }
+  }, [activeHistoryPreview]);
+
+  const diagramDragAndDropEnabled = diagramMode === 'slice' && !activeHistoryPreview ? dragAndDropEnabled : false;
 
   const diagramView = useDiagramViewState({
     diagramMode,
     overviewNodeDataVisible,
-    parsed,
+    parsed: activeHistoryPreview ? historyPreviewParsed : parsed,
     parsedSliceProjectionList,
-    currentDsl,
+    currentDsl: activeHistoryPreview?.projection.dsl ?? currentDsl,
     theme,
     diagramRendererId,
+    diagramEngineId,
     selectedSliceId: library.selectedSliceId,
     dragAndDropEnabled: diagramDragAndDropEnabled,
-    manualNodePositions,
-    manualEdgePoints,
+    manualNodePositions: activeHistoryPreview?.projection.manualNodePositions ?? manualNodePositions,
+    manualEdgePoints: activeHistoryPreview?.projection.manualEdgePoints ?? manualEdgePoints,
     setManualNodePositions,
     setManualEdgePoints,
     hoveredEditorRange,
     selectedNodeKey: diagramSelectedNodeKey,
+    selectedNodeKeys,
+    onMarqueeSelect: selectNodeKeys,
     hoveredEdgeKey,
     hoveredTraceNodeKey,
     focusRequestVersion,
@@ -228,6 +361,18 @@ export function useAppState(): UseAppStateResult {
     crossSliceDataEnabled
   });
 
+  const projectProblemGroups = useMemo(() => {
+    if (!problemsPanelOpen) {
+      return [];
+    }
+    const problems = collectProjectProblems(parsedSliceProjectionList, {
+      sliceId: library.selectedSliceId,
+      sourceOverrides: analysis.sourceOverrides
+    });
+    problems.push(...collectModelLintProblems(parsedSliceProjectionList, modelLintSettings));
+    return groupProjectProblems(parsedSliceProjectionList, problems);
+  }, [analysis.sourceOverrides, library.selectedSliceId, modelLintSettings, parsedSliceProjectionList, problemsPanelOpen]);
+
   const DiagramRenderer = useMemo(() => getDiagramRenderer(diagramRendererId), [diagramRendererId]);
 
   const applySelectedSliceOverrides = (sliceId: string, projectId = selectedProjectId) => {
@@ -247,6 +392,69 @@ export function useAppState(): UseAppStateResult {
     });
   };
 
+  const applySliceHistory = (direction: SliceHistoryDirection): boolean => {
+    const projection = direction === 'undo'
+      ? undoSliceEdit(library.selectedSliceId, selectedProjectId)
+      : redoSliceEdit(library.selectedSliceId, selectedProjectId);
+    if (!projection) {
+      return false;
+    }
+    setCurrentDsl(projection.dsl);
+    skipNextLayoutSaveRef.current = true;
+    setManualNodePositions(projection.manualNodePositions);
+    setManualEdgePoints(projection.manualEdgePoints);
+    return true;
+  };
+
+  const previewSliceVersion = (version: number | null) => {
+    setHistoryPreview(version === null
+      ? null
+      : { sliceId: library.selectedSliceId, version, projection: projectSliceVersion(sliceHistoryEvents, version) });
+  };
+
+  const applySliceVersion = (version: number) => {
+    setHistoryPreview(null);
+    const projection = restoreSliceVersion(library.selectedSliceId, version, selectedProjectId);
+    if (!projection) {
+      return;
+    }
+    setCurrentDsl(projection.dsl);
+    skipNextLayoutSaveRef.current = true;
+    setManualNodePositions(projection.manualNodePositions);
+    setManualEdgePoints(projection.manualEdgePoints);
+  };
+
+  const copySliceShareLink = async () => {
+    try {
+      const fragment = await createSliceShareFragment({ dsl: currentDsl, manualNodePositions, manualEdgePoints });
+      await navigator.clipboard.writeText(sliceShareUrl(window.location, fragment));
+      setStatusMessage('Share link copied.');
+    } catch (error) {
+      // Compression or the clipboard may be unavailable in some browsers.
+      setStatusMessage(`Could not copy share link: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const renameNodeAcrossProject = (plan: NodeRenamePlan) => {
+    const projections = applyNodeRename(plan, selectedProjectId);
+    setLibrary((current) => ({
+      ...current,
+      slices: current.slices.map((slice) => {
+        const projection = projections[slice.id];
+        return projection ? { ...slice, dsl: projection.dsl } : slice;
+      })
+    }));
+    const selected = projections[library.selectedSliceId];
+    if (!selected) {
+      return;
+    }
+    skipNextLayoutSaveRef.current = true;
+    setManualNodePositions(selected.manualNodePositions);
+    setManualEdgePoints(selected.manualEdgePoints);
+    const nodeKeyRenames = plan.slices.find((edit) => edit.sliceId === library.selectedSliceId)?.nodeKeyRenames ?? {};
+    setTrackedSliceSelectedNodeKey((current) => (current ? nodeKeyRenames[current] ?? current : current));
+  };
+
   const resetManualLayout = () => {
     setManualNodePositions({});
     setManualEdgePoints({});
@@ -269,6 +477,10 @@ export function useAppState(): UseAppStateResult {
     setCommandPaletteOpen,
     setSelectedNodeKey,
     setSliceSelectedNodeKey: setTrackedSliceSelectedNodeKey,
+    selectedNodeKeys,
+    selectNodeKeys,
+    setCurrentDsl,
+    commitNodePositions: diagramView.commitNodePositions,
     setOverviewSelectedNodeKey,
     setOverviewReturnState,
     setHighlightRange,
@@ -278,6 +490,7 @@ export function useAppState(): UseAppStateResult {
     selectedProjectId,
     applySelectedSliceOverrides,
     pendingFocusNodeKeyRef,
+    pendingFocusRangeRef,
     setFocusRequestVersion,
     editorOpenRef,
     sliceSelectedNodeKeyRef,
@@ -290,12 +503,29 @@ export function useAppState(): UseAppStateResult {
     setProjectRailOpen,
     setMobileMenuOpen,
     setTheme,
+    setDiagramEngineId,
     setCreateProjectDialogOpen,
     setCompactEventsDialogOpen,
-    setCompactEventsSummary,
+    setStatusMessage,
+    setSliceConflict,
+    setStorageWriteError,
+    setCollabDialogOpen,
+    joinCollabSession: collab.joinCollabSession,
+    leaveCollabSession: collab.leaveCollabSession,
     setAddNodeDialogOpen,
     setImportNodeDialogOpen,
     setCreateSliceTemplateDialogOpen,
+    setExportBundleDialogOpen,
+    setImportBundleDialogOpen,
+    setCodeStubsDialogOpen,
+    setScenarioTestsDialogOpen,
+    setExportImageDialogOpen,
+    setHistoryPanelOpen,
+    setRenameNodeDialogOpen,
+    setProblemsPanelOpen,
+    setModelRulesDialogOpen,
+    setModelLintRuleLevel,
+    setHistoryPreview,
     hasFocusedCursor,
     insertAtCursorOrEnd,
     setHoveredEdgeKey,
@@ -303,11 +533,29 @@ export function useAppState(): UseAppStateResult {
     setSourceOverrides: analysis.setSourceOverrides,
     setCrossSliceDataExpandedKeys: analysis.setCrossSliceDataExpandedKeys,
     resetManualLayout,
+    applySliceHistory,
+    previewSliceVersion,
+    applySliceVersion,
+    renameNodeAcrossProject,
+    copySliceShareLink,
     toggleDocumentationPanel,
     currentDiagramSceneModel: diagramView.sceneModel,
     setOverviewPlaceholderSceneModel
   });
 
+  useEventStorageSync({
+    library,
+    setLibrary,
+    selectedProjectId,
+    setProjectIndex,
+    setCurrentDsl,
+    skipNextLayoutSaveRef,
+    setManualNodePositions,
+    setManualEdgePoints,
+    setSliceConflict,
+    setStorageWriteError
+  });
+
   useUiEffects({
     projectIndex,
     selectedProjectId,
@@ -325,11 +573,21 @@ export function useAppState(): UseAppStateResult {
     addNodeDialogOpen,
     importNodeDialogOpen,
     createSliceTemplateDialogOpen,
+    exportBundleDialogOpen,
+    importBundleDialogOpen,
+    codeStubsDialogOpen,
+    scenarioTestsDialogOpen,
+    exportImageDialogOpen,
+    historyPanelOpen,
+    renameNodeDialogOpen,
+    problemsPanelOpen,
     sliceMenuRef,
     mobileMenuRef,
     currentSliceName,
     theme,
     themeStorageKey: THEME_STORAGE_KEY,
+    formatOnSave,
+    formatOnSaveStorageKey: FORMAT_ON_SAVE_STORAGE_KEY,
     selectedNode: analysis.selectedNode,
     showDataTraceTab: analysis.showDataTraceTab,
     selectedNodeUsesKeys: analysis.selectedNodeUsesKeys,
@@ -346,11 +604,23 @@ export function useAppState(): UseAppStateResult {
     setAddNodeDialogOpen,
     setImportNodeDialogOpen,
     setCreateSliceTemplateDialogOpen,
+    setExportBundleDialogOpen,
+    setImportBundleDialogOpen,
+    setCodeStubsDialogOpen,
+    setScenarioTestsDialogOpen,
+    setExportImageDialogOpen,
+    setHistoryPanelOpen,
+    setRenameNodeDialogOpen,
+    setProblemsPanelOpen,
     setCrossSliceTraceExpandedKeys: analysis.setCrossSliceTraceExpandedKeys,
     setSelectedNodePanelTab: analysis.setSelectedNodePanelTab,
     applySelectedSliceOverrides,
     onShowProjectOverview: actions.onShowProjectOverview,
-    onHideProjectOverview: actions.onHideProjectOverview
+    onHideProjectOverview: actions.onHideProjectOverview,
+    selectedNodeKeys,
+    onDeleteSelectedNodes: actions.onDeleteSelectedNodes,
+    onUndo: actions.onUndo,
+    onRedo: actions.onRedo
   });
 
   return {
@@ -365,6 +635,7 @@ export function useAppState(): UseAppStateResult {
       theme,
       docsOpen,
       showDevDiagramControls,
+      diagramEngineId,
       hasManualLayoutOverrides,
       sliceMenuOpen,
       mobileMenuOpen,
@@ -380,7 +651,10 @@ export function useAppState(): UseAppStateResult {
       editorMountRef,
       collapseAllDataRegions,
       collapseAllRegions,
-      expandAllRegions
+      expandAllRegions,
+      formatDocument,
+      formatOnSave,
+      toggleFormatOnSave: () => setFormatOnSave((current) => !current)
     },
     diagram: {
       diagramMode,
@@ -401,7 +675,12 @@ export function useAppState(): UseAppStateResult {
       canvasPanelRef: diagramView.canvasPanelRef,
       beginCanvasPan: diagramView.beginCanvasPan,
       beginNodeDrag: diagramView.beginNodeDrag,
-      beginEdgeSegmentDrag: diagramView.beginEdgeSegmentDrag
+      beginEdgeSegmentDrag: diagramView.beginEdgeSegmentDrag,
+      selectedNodeKeys,
+      marquee: diagramView.marquee,
+      beginMarqueeSelection: diagramView.beginMarqueeSelection,
+      remotePresence: collab.remotePresence,
+      onWorldPointerMove: collab.onWorldPointerMove
     },
     analysisPanel: {
       selectedNode: analysis.selectedNode,
@@ -418,6 +697,8 @@ export function useAppState(): UseAppStateResult {
       crossSliceUsageGroups: analysis.crossSliceUsageGroups,
       crossSliceDataEnabled,
       showDataTraceTab: analysis.showDataTraceTab,
+      selectedNodeVersions: analysis.selectedNodeVersions,
+      showVersionsTab: analysis.showVersionsTab,
       crossSliceDataExpandedKeys: analysis.crossSliceDataExpandedKeys,
       crossSliceTraceExpandedKeys: analysis.crossSliceTraceExpandedKeys,
       sourceOverrides: analysis.sourceOverrides
@@ -428,10 +709,27 @@ export function useAppState(): UseAppStateResult {
       commandPaletteOpen,
       createProjectDialogOpen,
       compactEventsDialogOpen,
-      compactEventsSummary,
+      statusMessage,
+      sliceConflict,
+      storageWriteError,
+      collabDialogOpen,
+      collabSession: collab.collabSession,
       addNodeDialogOpen,
       importNodeDialogOpen,
-      createSliceTemplateDialogOpen
+      createSliceTemplateDialogOpen,
+      exportBundleDialogOpen,
+      importBundleDialogOpen,
+      codeStubsDialogOpen,
+      scenarioTestsDialogOpen,
+      exportImageDialogOpen,
+      historyPanelOpen,
+      renameNodeDialogOpen,
+      problemsPanelOpen,
+      projectProblemGroups,
+      modelRulesDialogOpen,
+      modelLintSettings,
+      sliceHistoryEvents,
+      historyPreviewVersion: activeHistoryPreview?.version ?? null
     },
     constants: {
       TYPE_LABEL,
@@ -0,0 +1,96 @@
+import type { MappingEntry } from '../domain/dataMapping';
+import type { Parsed, VisualNode } from '../domain/types';
+
+export type CodeStubInput = {
+  parsed: Parsed;
+  mappingsByRef: Map<string, MappingEntry[]>;
+  basePackage: string;
+};
+
+export type GeneratedCodeFile = {
+  path: string;
+  language: string;
+  content: string;
+};
+
+export type CodeStubTarget = {
+  id: string;
+  label: string;
+  generate: (input: CodeStubInput) => GeneratedCodeFile[];
+};
+
+const NODE_VERSION_SUFFIX = /@\d+$/;
+const JAVA_RESERVED_WORDS = new Set([
+  'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue',
+  'default', 'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'goto',
+  'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'null', 'package',
+  'private', 'protected', 'public', 'return', 'short', 'static', 'strictfp', 'super', 'switch', 'synchronized',
+  'this', 'throw', 'throws', 'transient', 'true', 'try', 'void', 'volatile', 'while'
+]);
+
+export function codeStubNodes(parsed: Parsed, type: string): VisualNode[] {
+  const scenarioOnly = new Set(parsed.scenarioOnlyNodeKeys);
+  const seenNames = new Set<string>();
+  const nodes: VisualNode[] = [];
+  for (const node of parsed.nodes.values()) {
+    if (node.type !== type || scenarioOnly.has(node.key)) {
+      continue;
+    }
+    // Versioned nodes (`name@2`) describe the same artifact, so only the first one produces a stub.
+    const baseName = stubBaseName(node);
+    if (seenNames.has(baseName)) {
+      continue;
+    }
+    seenNames.add(baseName);
+    nodes.push(node);
+  }
+  return nodes;
+}
+
+export function stubBaseName(node: Pick<VisualNode, 'name'>): string {
+  return node.name.replace(NODE_VERSION_SUFFIX, '');
+}
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function toPascalCase(value: string): string {
+  const result = words(value)
+    .map((word) => word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+  return /^[0-9]/.test(result) ? `_${result}` : result || 'Unnamed';
+}
+
+export function toCamelCase(value: string): string {
+  const pascal = toPascalCase(value);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+// Reserved words get a trailing underscore, so a `class` data key still compiles as `class_`.
+export function toJavaIdentifier(value: string): string {
+  const identifier = toCamelCase(value);
+  return JAVA_RESERVED_WORDS.has(identifier) ? `${identifier}_` : identifier;
+}
+
+export function toKebabCase(value: string): string {
+  return words(value).map((word) => word.toLowerCase()).join('-') || 'unnamed';
+}
+
+export function toPackageSegment(value: string): string {
+  const segment = words(value).map((word) => word.toLowerCase()).join('');
+  if (JAVA_RESERVED_WORDS.has(segment)) {
+    return `${segment}_`;
+  }
+  return /^[a-z]/.test(segment) ? segment : `app${segment}`;
+}
+
+export function nodeDataEntries(node: VisualNode): Array<[string, unknown]> {
+  if (!node.data || typeof node.data !== 'object') {
+    return [];
+  }
+  return Object.entries(node.data);
+}
@@ -0,0 +1,34 @@
+import { parseUsesBlocks } from '../domain/dataMapping';
+import type { Parsed } from '../domain/types';
+import { toPackageSegment, type CodeStubTarget, type GeneratedCodeFile } from './codeStubTarget';
+import { SPRING_BOOT_TARGET } from './springBootTarget';
+
+// New targets (TypeScript, Kotlin, ...) only need to be registered here.
+const TARGETS: CodeStubTarget[] = [SPRING_BOOT_TARGET];
+
+export const DEFAULT_CODE_STUB_TARGET_ID = SPRING_BOOT_TARGET.id;
+
+export function listCodeStubTargets(): Array<Pick<CodeStubTarget, 'id' | 'label'>> {
+  return TARGETS.map(({ id, label }) => ({ id, label }));
+}
+
+export function getCodeStubTarget(id: string): CodeStubTarget {
+  return TARGETS.find((target) => target.id === id) ?? SPRING_BOOT_TARGET;
+}
+
+export function defaultBasePackage(sliceName: string): string {
+  return `com.example.${toPackageSegment(sliceName)}`;
+}
+
+export function generateCodeStubs(
+  parsed: Parsed,
+  dsl: string,
+  options: { targetId?: string; basePackage?: string } = {}
+): GeneratedCodeFile[] {
+  const target = getCodeStubTarget(options.targetId ?? DEFAULT_CODE_STUB_TARGET_ID);
+  return target.generate({
+    parsed,
+    mappingsByRef: parseUsesBlocks(dsl),
+    basePackage: options.basePackage?.trim() || defaultBasePackage(parsed.sliceName)
+  });
+}
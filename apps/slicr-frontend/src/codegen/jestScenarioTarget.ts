@@ -0,0 +1,86 @@
+import { toCamelCase, toPascalCase } from './codeStubTarget';
+import {
+  expectedException,
+  scenarioFixture,
+  stepLabel,
+  type ScenarioSpec,
+  type ScenarioTestTarget,
+  type SliceScenarioSpecs
+} from './scenarioTestTarget';
+
+const INDENT = '  ';
+const TEST_DIRECTORY = 'test/scenarios';
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function fixtureVariable(scenario: ScenarioSpec): string {
+  return `${toCamelCase(scenario.fileName)}Scenario`;
+}
+
+function renderTest(scenario: ScenarioSpec): string[] {
+  const fixture = fixtureVariable(scenario);
+  const exception = expectedException(scenario);
+  const comments = [
+    `${INDENT}${INDENT}// given: ${scenario.given.map(stepLabel).join(', ') || '(none)'}`,
+    `${INDENT}${INDENT}// when: ${stepLabel(scenario.when)}`,
+    `${INDENT}${INDENT}// then: ${scenario.then.map(stepLabel).join(', ') || '(none)'}`
+  ];
+  const body = exception
+    ? [
+      `${INDENT}${INDENT}const { given, when } = ${fixture};`,
+      `${INDENT}${INDENT}expect(() => execute(given, when)).toThrow(${quote(toPascalCase(exception.name))});`
+    ]
+    : [
+      `${INDENT}${INDENT}const { given, when, then } = ${fixture};`,
+      `${INDENT}${INDENT}expect(execute(given, when)).toEqual(then);`
+    ];
+  return [
+    `${INDENT}it(${quote(scenario.name)}, () => {`,
+    ...comments,
+    ...body,
+    `${INDENT}});`
+  ];
+}
+
+export const JEST_SCENARIO_TARGET: ScenarioTestTarget = {
+  id: 'jest',
+  label: 'Jest (TypeScript)',
+  generate: (slice: SliceScenarioSpecs) => {
+    if (slice.scenarios.length === 0) {
+      return [];
+    }
+    const fixtures = slice.scenarios.map((scenario) => ({
+      path: `${TEST_DIRECTORY}/__fixtures__/${slice.directory}/${scenario.fileName}.json`,
+      language: 'json',
+      content: scenarioFixture(slice, scenario)
+    }));
+    const imports = slice.scenarios.map(
+      (scenario) => `import ${fixtureVariable(scenario)} from './__fixtures__/${slice.directory}/${scenario.fileName}.json';`
+    );
+    const tests = slice.scenarios.flatMap((scenario, index) => [...(index > 0 ? [''] : []), ...renderTest(scenario)]);
+    const content = [
+      "import { describe, expect, it } from '@jest/globals';",
+      ...imports,
+      '',
+      'type ScenarioStep = { type: string; name: string; data: unknown };',
+      '',
+      'function execute(given: ScenarioStep[], when: ScenarioStep | null): ScenarioStep[] {',
+      `${INDENT}// TODO: replay the given events, dispatch the when command and return the emitted events`,
+      `${INDENT}void given;`,
+      `${INDENT}void when;`,
+      `${INDENT}throw new Error('Not implemented');`,
+      '}',
+      '',
+      `describe(${quote(slice.sliceName)}, () => {`,
+      ...tests,
+      '});',
+      ''
+    ].join('\n');
+    return [
+      ...fixtures,
+      { path: `${TEST_DIRECTORY}/${slice.directory}.scenarios.test.ts`, language: 'typescript', content }
+    ];
+  }
+};
@@ -0,0 +1,98 @@
+import { toJavaIdentifier, toPascalCase } from './codeStubTarget';
+import {
+  expectedException,
+  scenarioFixture,
+  stepLabel,
+  type ScenarioSpec,
+  type ScenarioTestTarget,
+  type SliceScenarioSpecs
+} from './scenarioTestTarget';
+
+const INDENT = '    ';
+
+function javaString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function renderTest(slice: SliceScenarioSpecs, scenario: ScenarioSpec): string[] {
+  const exception = expectedException(scenario);
+  const body = exception
+    ? [
+      `${INDENT}${INDENT}RuntimeException error = assertThrows(RuntimeException.class, () -> execute(scenario.get("given"), scenario.get("when")));`,
+      `${INDENT}${INDENT}assertEquals(${javaString(toPascalCase(exception.name))}, error.getClass().getSimpleName());`
+    ]
+    : [
+      `${INDENT}${INDENT}List<JsonNode> events = execute(scenario.get("given"), scenario.get("when"));`,
+      `${INDENT}${INDENT}assertEquals(scenario.get("then"), MAPPER.valueToTree(events));`
+    ];
+  return [
+    `${INDENT}@Test`,
+    `${INDENT}@DisplayName(${javaString(scenario.name)})`,
+    `${INDENT}void ${toJavaIdentifier(scenario.fileName)}() throws IOException {`,
+    `${INDENT}${INDENT}JsonNode scenario = fixture(${javaString(`${slice.directory}/${scenario.fileName}.json`)});`,
+    `${INDENT}${INDENT}// given: ${scenario.given.map(stepLabel).join(', ') || '(none)'}`,
+    `${INDENT}${INDENT}// when: ${stepLabel(scenario.when)}`,
+    `${INDENT}${INDENT}// then: ${scenario.then.map(stepLabel).join(', ') || '(none)'}`,
+    ...body,
+    `${INDENT}}`
+  ];
+}
+
+export const JUNIT_SCENARIO_TARGET: ScenarioTestTarget = {
+  id: 'junit',
+  label: 'JUnit 5 (Java)',
+  generate: (slice: SliceScenarioSpecs) => {
+    if (slice.scenarios.length === 0) {
+      return [];
+    }
+    const className = `${toPascalCase(slice.sliceName)}ScenariosTest`;
+    const fixtures = slice.scenarios.map((scenario) => ({
+      path: `src/test/resources/scenarios/${slice.directory}/${scenario.fileName}.json`,
+      language: 'json',
+      content: scenarioFixture(slice, scenario)
+    }));
+    const usesThrows = slice.scenarios.some((scenario) => expectedException(scenario));
+    const tests = slice.scenarios.flatMap((scenario) => ['', ...renderTest(slice, scenario)]);
+    const content = [
+      `package ${slice.basePackage};`,
+      '',
+      'import static org.junit.jupiter.api.Assertions.assertEquals;',
+      ...(usesThrows ? ['import static org.junit.jupiter.api.Assertions.assertThrows;'] : []),
+      '',
+      'import com.fasterxml.jackson.databind.JsonNode;',
+      'import com.fasterxml.jackson.databind.ObjectMapper;',
+      'import java.io.IOException;',
+      'import java.io.InputStream;',
+      'import java.util.List;',
+      'import org.junit.jupiter.api.DisplayName;',
+      'import org.junit.jupiter.api.Test;',
+      '',
+      `@DisplayName(${javaString(slice.sliceName)})`,
+      `class ${className} {`,
+      '',
+      `${INDENT}private static final ObjectMapper MAPPER = new ObjectMapper();`,
+      ...tests,
+      '',
+      `${INDENT}private List<JsonNode> execute(JsonNode given, JsonNode when) {`,
+      `${INDENT}${INDENT}// TODO: replay the given events, dispatch the when command and return the emitted events`,
+      `${INDENT}${INDENT}throw new UnsupportedOperationException("Not implemented");`,
+      `${INDENT}}`,
+      '',
+      `${INDENT}private static JsonNode fixture(String path) throws IOException {`,
+      `${INDENT}${INDENT}try (InputStream stream = ${className}.class.getResourceAsStream("/scenarios/" + path)) {`,
+      `${INDENT}${INDENT}${INDENT}return MAPPER.readTree(stream);`,
+      `${INDENT}${INDENT}}`,
+      `${INDENT}}`,
+      '}',
+      ''
+    ].join('\n');
+    return [
+      ...fixtures,
+      {
+        path: `src/test/java/${slice.basePackage.replace(/\./g, '/')}/${className}.java`,
+        language: 'java',
+        content
+      }
+    ];
+  }
+};
@@ -0,0 +1,90 @@
+import type { Parsed, ParsedScenarioEntry } from '../domain/types';
+import { stubBaseName, toKebabCase, type GeneratedCodeFile } from './codeStubTarget';
+
+export type ScenarioStep = {
+  type: string;
+  name: string;
+  data: Record<string, unknown>;
+};
+
+export type ScenarioSpec = {
+  name: string;
+  fileName: string;
+  given: ScenarioStep[];
+  when: ScenarioStep | null;
+  then: ScenarioStep[];
+};
+
+export type SliceScenarioSpecs = {
+  sliceName: string;
+  directory: string;
+  basePackage: string;
+  scenarios: ScenarioSpec[];
+};
+
+export type ScenarioTestTarget = {
+  id: string;
+  label: string;
+  generate: (slice: SliceScenarioSpecs) => GeneratedCodeFile[];
+};
+
+function uniqueName(base: string, used: Set<string>): string {
+  let candidate = base;
+  for (let index = 2; used.has(candidate); index += 1) {
+    candidate = `${base}-${index}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+// Scenario entries may carry their own `data`; otherwise the slice's declaration of the same node is the payload.
+function stepData(parsed: Parsed, entry: ParsedScenarioEntry): Record<string, unknown> {
+  const own = parsed.nodes.get(entry.key)?.data;
+  if (own) {
+    return own;
+  }
+  const scenarioOnly = new Set(parsed.scenarioOnlyNodeKeys);
+  for (const node of parsed.nodes.values()) {
+    if (!scenarioOnly.has(node.key) && node.type === entry.type && node.name === entry.name && node.data) {
+      return node.data;
+    }
+  }
+  return {};
+}
+
+function toStep(parsed: Parsed, entry: ParsedScenarioEntry): ScenarioStep {
+  return { type: entry.type, name: stubBaseName(entry), data: stepData(parsed, entry) };
+}
+
+export function buildScenarioSpecs(parsed: Parsed): ScenarioSpec[] {
+  const usedFileNames = new Set<string>();
+  return parsed.scenarios.map((scenario) => ({
+    name: scenario.name,
+    fileName: uniqueName(toKebabCase(scenario.name), usedFileNames),
+    given: scenario.given.map((entry) => toStep(parsed, entry)),
+    when: scenario.when ? toStep(parsed, scenario.when) : null,
+    then: scenario.then.map((entry) => toStep(parsed, entry))
+  }));
+}
+
+export function uniqueSliceDirectory(sliceName: string, used: Set<string>): string {
+  return uniqueName(toKebabCase(sliceName), used);
+}
+
+export function scenarioFixture(slice: SliceScenarioSpecs, scenario: ScenarioSpec): string {
+  return `${JSON.stringify({
+    slice: slice.sliceName,
+    scenario: scenario.name,
+    given: scenario.given,
+    when: scenario.when,
+    then: scenario.then
+  }, null, 2)}\n`;
+}
+
+export function stepLabel(step: ScenarioStep | null): string {
+  return step ? `${step.type}:${step.name}` : '(none)';
+}
+
+export function expectedException(scenario: ScenarioSpec): ScenarioStep | null {
+  return scenario.then.find((step) => step.type === 'exc') ?? null;
+}
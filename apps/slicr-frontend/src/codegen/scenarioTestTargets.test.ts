@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { parseDsl } from '../domain/parseDsl';
+import { generateScenarioTests, listScenarioTestTargets } from './scenarioTestTargets';
+
+const DSL = `slice "Room Booking"
+
+cmd:book-room
+data:
+  room-number: 101
+
+evt:room-booked
+<- cmd:book-room
+data:
+  room-number: 101
+  guest: Ada
+
+scenario "books a room"
+given:
+  evt:room-released
+  data:
+    room-number: 101
+when:
+  cmd:book-room
+then:
+  evt:room-booked
+
+scenario "rejects a booked room"
+given:
+  evt:room-booked
+when:
+  cmd:book-room
+then:
+  exc:room-unavailable`;
+
+function generate(targetId: string, slices = [parseDsl(DSL)]) {
+  return new Map(generateScenarioTests(slices, { targetId }).map((file) => [file.path, file.content]));
+}
+
+describe('scenario test generation', () => {
+  it('lists the jest and junit targets', () => {
+    expect(listScenarioTestTargets()).toEqual([
+      { id: 'jest', label: 'Jest (TypeScript)' },
+      { id: 'junit', label: 'JUnit 5 (Java)' }
+    ]);
+  });
+
+  it('writes one json fixture per scenario with node data as payloads', () => {
+    const fixture = JSON.parse(generate('jest').get('test/scenarios/__fixtures__/room-booking/books-a-room.json') ?? '');
+    expect(fixture).toEqual({
+      slice: 'Room Booking',
+      scenario: 'books a room',
+      given: [{ type: 'evt', name: 'room-released', data: { 'room-number': 101 } }],
+      when: { type: 'cmd', name: 'book-room', data: { 'room-number': 101 } },
+      then: [{ type: 'evt', name: 'room-booked', data: { 'room-number': 101, guest: 'Ada' } }]
+    });
+  });
+
+  it('generates failing jest tests that load the fixtures', () => {
+    const test = generate('jest').get('test/scenarios/room-booking.scenarios.test.ts') ?? '';
+    expect(test).toContain("import booksARoomScenario from './__fixtures__/room-booking/books-a-room.json';");
+    expect(test).toContain("describe('Room Booking', () => {");
+    expect(test).toContain(`  it('books a room', () => {
+    // given: evt:room-released
+    // when: cmd:book-room
+    // then: evt:room-booked
+    const { given, when, then } = booksARoomScenario;
+    expect(execute(given, when)).toEqual(then);
+  });`);
+    expect(test).toContain("expect(() => execute(given, when)).toThrow('RoomUnavailable');");
+    expect(test).toContain("throw new Error('Not implemented');");
+  });
+
+  it('generates junit tests that read fixtures from the classpath', () => {
+    const files = generate('junit');
+    expect([...files.keys()]).toEqual([
+      'src/test/resources/scenarios/room-booking/books-a-room.json',
+      'src/test/resources/scenarios/room-booking/rejects-a-booked-room.json',
+      'src/test/java/com/example/roombooking/RoomBookingScenariosTest.java'
+    ]);
+    const test = files.get('src/test/java/com/example/roombooking/RoomBookingScenariosTest.java') ?? '';
+    expect(test).toContain('class RoomBookingScenariosTest {');
+    expect(test).toContain(`    @Test
+    @DisplayName("books a room")
+    void booksARoom() throws IOException {
+        JsonNode scenario = fixture("room-booking/books-a-room.json");`);
+    expect(test).toContain('assertEquals("RoomUnavailable", error.getClass().getSimpleName());');
+    expect(test).toContain('throw new UnsupportedOperationException("Not implemented");');
+  });
+
+  it('covers every slice of a project and skips slices without scenarios', () => {
+    const other = parseDsl(`slice "Room Booking"
+
+scenario "books again"
+given:
+  evt:room-released
+when:
+  cmd:book-room
+then:
+  evt:room-booked`);
+    const empty = parseDsl('slice "Checkout"\n\ncmd:check-out');
+    const paths = [...generate('jest', [parseDsl(DSL), empty, other]).keys()];
+    expect(paths).toContain('test/scenarios/room-booking.scenarios.test.ts');
+    expect(paths).toContain('test/scenarios/room-booking-2.scenarios.test.ts');
+    expect(paths.some((path) => path.includes('checkout'))).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import type { Parsed } from '../domain/types';
+import type { GeneratedCodeFile } from './codeStubTarget';
+import { defaultBasePackage } from './codeStubTargets';
+import { JEST_SCENARIO_TARGET } from './jestScenarioTarget';
+import { JUNIT_SCENARIO_TARGET } from './junitScenarioTarget';
+import { buildScenarioSpecs, uniqueSliceDirectory, type ScenarioTestTarget } from './scenarioTestTarget';
+
+const TARGETS: ScenarioTestTarget[] = [JEST_SCENARIO_TARGET, JUNIT_SCENARIO_TARGET];
+
+export const DEFAULT_SCENARIO_TEST_TARGET_ID = JEST_SCENARIO_TARGET.id;
+
+export function listScenarioTestTargets(): Array<Pick<ScenarioTestTarget, 'id' | 'label'>> {
+  return TARGETS.map(({ id, label }) => ({ id, label }));
+}
+
+export function getScenarioTestTarget(id: string): ScenarioTestTarget {
+  return TARGETS.find((target) => target.id === id) ?? JEST_SCENARIO_TARGET;
+}
+
+// Accepts one slice or every slice of a project; slices without scenarios produce no files.
+export function generateScenarioTests(
+  slices: Parsed[],
+  options: { targetId?: string; basePackage?: string } = {}
+): GeneratedCodeFile[] {
+  const target = getScenarioTestTarget(options.targetId ?? DEFAULT_SCENARIO_TEST_TARGET_ID);
+  const usedDirectories = new Set<string>();
+  return slices.flatMap((parsed) => {
+    if (parsed.scenarios.length === 0) {
+      return [];
+    }
+    return target.generate({
+      sliceName: parsed.sliceName,
+      directory: uniqueSliceDirectory(parsed.sliceName, usedDirectories),
+      basePackage: options.basePackage?.trim() || defaultBasePackage(parsed.sliceName),
+      scenarios: buildScenarioSpecs(parsed)
+    });
+  });
+}
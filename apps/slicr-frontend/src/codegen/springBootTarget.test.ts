@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { parseDsl } from '../domain/parseDsl';
+import { generateCodeStubs, listCodeStubTargets } from './codeStubTargets';
+
+const DSL = `slice "Room Booking"
+
+rm:available-rooms
+data:
+  rooms:
+    - number: 101
+      rate: 89.5
+
+ui:room-list "Room List"
+<- rm:available-rooms
+
+cmd:book-room
+<- ui:room-list
+data:
+  room-number: 101
+  check-in: 2026-03-01
+  guest:
+    name: Ada
+
+evt:room-booked
+<- cmd:book-room
+data:
+  room-number: 101
+  guest-name: Ada
+
+rm:bookings
+<- evt:room-booked
+uses:
+  room-number
+  guest <- guest-name`;
+
+function generate() {
+  const files = generateCodeStubs(parseDsl(DSL), DSL);
+  return new Map(files.map((file) => [file.path, file.content]));
+}
+
+describe('spring boot code stubs', () => {
+  it('lists the spring boot target', () => {
+    expect(listCodeStubTargets()).toEqual([{ id: 'spring-boot', label: 'Spring Boot (Java + Thymeleaf)' }]);
+  });
+
+  it('generates one file per artifact under the slice package', () => {
+    expect([...generate().keys()]).toEqual([
+      'src/main/java/com/example/roombooking/commands/BookRoom.java',
+      'src/main/java/com/example/roombooking/web/BookRoomController.java',
+      'src/main/java/com/example/roombooking/events/RoomBooked.java',
+      'src/main/java/com/example/roombooking/readmodels/AvailableRoomsProjection.java',
+      'src/main/java/com/example/roombooking/readmodels/BookingsProjection.java',
+      'src/main/resources/templates/room-list.html'
+    ]);
+  });
+
+  it('turns command data into a record with inferred and nested types', () => {
+    expect(generate().get('src/main/java/com/example/roombooking/commands/BookRoom.java')).toBe(`package com.example.roombooking.commands;
+
+import java.time.LocalDate;
+
+public record BookRoom(
+    long roomNumber,
+    LocalDate checkIn,
+    Guest guest
+) {
+
+    public record Guest(
+        String name
+    ) {
+    }
+}
+`);
+  });
+
+  it('posts command form data to a controller that names the emitted events', () => {
+    const controller = generate().get('src/main/java/com/example/roombooking/web/BookRoomController.java');
+    expect(controller).toContain('@PostMapping("/book-room")');
+    expect(controller).toContain('public String bookRoom(@ModelAttribute BookRoom command) {');
+    expect(controller).toContain('// TODO: handle BookRoom and emit RoomBooked');
+  });
+
+  it('listens to inbound events in projections and keeps the uses mappings', () => {
+    const projection = generate().get('src/main/java/com/example/roombooking/readmodels/BookingsProjection.java') ?? '';
+    expect(projection).toContain('import com.example.roombooking.events.RoomBooked;');
+    expect(projection).toContain(`    @EventListener
+    public void on(RoomBooked event) {
+        // room-number <- room-number
+        // guest <- guest-name
+        // TODO: update Bookings from RoomBooked
+    }`);
+
+    const rooms = generate().get('src/main/java/com/example/roombooking/readmodels/AvailableRoomsProjection.java') ?? '';
+    expect(rooms).toContain('List<Room> rooms');
+    expect(rooms).toContain('long number,\n            double rate');
+  });
+
+  it('renders views with read model fields and command forms', () => {
+    const view = generate().get('src/main/resources/templates/room-list.html') ?? '';
+    expect(view).toContain('<title>Room List</title>');
+    expect(view).toContain('<section th:object="${availableRooms}">');
+    expect(view).toContain('<form th:action="@{/book-room}" th:object="${bookRoom}" method="post">');
+    expect(view).toContain('<input id="checkIn" type="date" th:field="*{checkIn}">');
+    expect(view).toContain('<button type="submit">Book Room</button>');
+  });
+
+  it('skips scenario-only nodes and repeated node versions', () => {
+    const dsl = `slice "Versions"
+
+evt:room-booked@1
+evt:room-booked@2
+
+scenario "books"
+given:
+  evt:room-released
+when:
+  cmd:book-room
+then:
+  evt:room-booked@1`;
+    const paths = generateCodeStubs(parseDsl(dsl), dsl).map((file) => file.path);
+    expect(paths).toEqual(['src/main/java/com/example/versions/events/RoomBooked.java']);
+  });
+
+  it('escapes Java reserved words in field, method and package names', () => {
+    const dsl = `slice "New"
+
+cmd:new
+data:
+  class: gold
+  default: true
+
+ui:form
+-> cmd:new`;
+    const files = new Map(generateCodeStubs(parseDsl(dsl), dsl).map((file) => [file.path, file.content]));
+    expect(files.get('src/main/java/com/example/new_/commands/New.java')).toContain('String class_,\n    boolean default_');
+    expect(files.get('src/main/java/com/example/new_/web/NewController.java')).toContain('public String new_(@ModelAttribute New command) {');
+    expect(files.get('src/main/resources/templates/form.html')).toContain('<input id="class_" type="text" th:field="*{class_}">');
+  });
+});
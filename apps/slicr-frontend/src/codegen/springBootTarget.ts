@@ -0,0 +1,312 @@
+import { MISSING_DATA_VALUE, type MappingEntry } from '../domain/dataMapping';
+import type { Parsed, VisualNode } from '../domain/types';
+import {
+  codeStubNodes,
+  nodeDataEntries,
+  stubBaseName,
+  toJavaIdentifier,
+  toKebabCase,
+  toPascalCase,
+  type CodeStubInput,
+  type CodeStubTarget,
+  type GeneratedCodeFile
+} from './codeStubTarget';
+
+const INDENT = '    ';
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_INSTANT = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+type JavaRecord = {
+  name: string;
+  components: Array<{ name: string; type: string }>;
+  nested: JavaRecord[];
+};
+
+function singular(value: string): string {
+  return value.endsWith('s') && value.length > 1 ? value.slice(0, -1) : value;
+}
+
+function javaType(value: unknown, key: string, nested: JavaRecord[], imports: Set<string>): string {
+  if (typeof value === 'string') {
+    if (value === MISSING_DATA_VALUE) {
+      return 'Object';
+    }
+    if (ISO_DATE.test(value)) {
+      imports.add('java.time.LocalDate');
+      return 'LocalDate';
+    }
+    if (ISO_INSTANT.test(value)) {
+      imports.add('java.time.Instant');
+      return 'Instant';
+    }
+    return 'String';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'long' : 'double';
+  }
+  if (typeof value === 'boolean') {
+    return 'boolean';
+  }
+  if (Array.isArray(value)) {
+    imports.add('java.util.List');
+    const elementType = value.length > 0 ? javaType(value[0], singular(key), nested, imports) : 'Object';
+    return `List<${boxed(elementType)}>`;
+  }
+  if (value && typeof value === 'object') {
+    const record = buildRecord(toPascalCase(key), Object.entries(value), imports);
+    nested.push(record);
+    return record.name;
+  }
+  return 'Object';
+}
+
+function boxed(type: string): string {
+  if (type === 'long') return 'Long';
+  if (type === 'double') return 'Double';
+  if (type === 'boolean') return 'Boolean';
+  return type;
+}
+
+function buildRecord(name: string, entries: Array<[string, unknown]>, imports: Set<string>): JavaRecord {
+  const nested: JavaRecord[] = [];
+  const components = entries.map(([key, value]) => ({
+    name: toJavaIdentifier(key),
+    type: javaType(value, key, nested, imports)
+  }));
+  return { name, components, nested };
+}
+
+function renderRecord(record: JavaRecord, indent: string): string[] {
+  const header = record.components.length === 0
+    ? [`${indent}public record ${record.name}() {`]
+    : [
+      `${indent}public record ${record.name}(`,
+      record.components.map((component) => `${indent}${INDENT}${component.type} ${component.name}`).join(',\n'),
+      `${indent}) {`
+    ];
+  const body = record.nested.flatMap((nested) => ['', ...renderRecord(nested, `${indent}${INDENT}`)]);
+  return [...header, ...body, `${indent}}`];
+}
+
+function renderJavaFile(packageName: string, imports: Set<string>, body: string[]): string {
+  const importLines = [...imports].sort().map((name) => `import ${name};`);
+  return [
+    `package ${packageName};`,
+    '',
+    ...(importLines.length > 0 ? [...importLines, ''] : []),
+    ...body,
+    ''
+  ].join('\n');
+}
+
+function javaPath(basePackage: string, subPackage: string, className: string): string {
+  return `src/main/java/${basePackage.replace(/\./g, '/')}/${subPackage}/${className}.java`;
+}
+
+function connectedNodes(parsed: Parsed, node: VisualNode, direction: 'from' | 'to', type: string): VisualNode[] {
+  const result = new Map<string, VisualNode>();
+  for (const edge of parsed.edges) {
+    const otherKey = direction === 'from'
+      ? (edge.to === node.key ? edge.from : null)
+      : (edge.from === node.key ? edge.to : null);
+    const other = otherKey ? parsed.nodes.get(otherKey) : undefined;
+    if (other && other.type === type) {
+      result.set(stubBaseName(other), other);
+    }
+  }
+  return [...result.values()];
+}
+
+function mappingSourceRoot(sourcePath: string): string {
+  return sourcePath.replace(/^\$\.?/, '').split(/[.[]/)[0] ?? '';
+}
+
+function generateRecordFile(input: CodeStubInput, node: VisualNode, subPackage: string): GeneratedCodeFile {
+  const imports = new Set<string>();
+  const record = buildRecord(toPascalCase(stubBaseName(node)), nodeDataEntries(node), imports);
+  return {
+    path: javaPath(input.basePackage, subPackage, record.name),
+    language: 'java',
+    content: renderJavaFile(`${input.basePackage}.${subPackage}`, imports, renderRecord(record, ''))
+  };
+}
+
+function generateController(input: CodeStubInput, command: VisualNode): GeneratedCodeFile {
+  const commandName = toPascalCase(stubBaseName(command));
+  const className = `${commandName}Controller`;
+  const events = connectedNodes(input.parsed, command, 'to', 'evt').map((event) => toPascalCase(stubBaseName(event)));
+  const imports = new Set([
+    `${input.basePackage}.commands.${commandName}`,
+    'org.springframework.stereotype.Controller',
+    'org.springframework.web.bind.annotation.ModelAttribute',
+    'org.springframework.web.bind.annotation.PostMapping'
+  ]);
+  const todo = events.length > 0
+    ? `// TODO: handle ${commandName} and emit ${events.join(', ')}`
+    : `// TODO: handle ${commandName}`;
+  return {
+    path: javaPath(input.basePackage, 'web', className),
+    language: 'java',
+    content: renderJavaFile(`${input.basePackage}.web`, imports, [
+      '@Controller',
+      `public class ${className} {`,
+      '',
+      `${INDENT}@PostMapping("/${toKebabCase(stubBaseName(command))}")`,
+      `${INDENT}public String ${toJavaIdentifier(stubBaseName(command))}(@ModelAttribute ${commandName} command) {`,
+      `${INDENT}${INDENT}${todo}`,
+      `${INDENT}${INDENT}return "redirect:/";`,
+      `${INDENT}}`,
+      '}'
+    ])
+  };
+}
+
+function generateProjection(input: CodeStubInput, readModel: VisualNode): GeneratedCodeFile {
+  const imports = new Set(['org.springframework.context.event.EventListener', 'org.springframework.stereotype.Component']);
+  const state = buildRecord(toPascalCase(stubBaseName(readModel)), nodeDataEntries(readModel), imports);
+  const className = `${state.name}Projection`;
+  const mappings: MappingEntry[] = input.mappingsByRef.get(`rm:${readModel.name}`) ?? [];
+  const events = connectedNodes(input.parsed, readModel, 'from', 'evt');
+
+  const handlers = events.flatMap((event) => {
+    const eventName = toPascalCase(stubBaseName(event));
+    imports.add(`${input.basePackage}.events.${eventName}`);
+    const eventKeys = new Set(nodeDataEntries(event).map(([key]) => key));
+    const mappingLines = mappings
+      .filter((mapping) => eventKeys.has(mappingSourceRoot(mapping.sourcePath)))
+      .map((mapping) => `${INDENT}${INDENT}// ${mapping.targetKey} <- ${mapping.sourcePath}`);
+    return [
+      '',
+      `${INDENT}@EventListener`,
+      `${INDENT}public void on(${eventName} event) {`,
+      ...mappingLines,
+      `${INDENT}${INDENT}// TODO: update ${state.name} from ${eventName}`,
+      `${INDENT}}`
+    ];
+  });
+  const standaloneMappings = events.length === 0
+    ? mappings.map((mapping) => `${INDENT}// uses ${mapping.targetKey} <- ${mapping.sourcePath}`)
+    : [];
+
+  return {
+    path: javaPath(input.basePackage, 'readmodels', className),
+    language: 'java',
+    content: renderJavaFile(`${input.basePackage}.readmodels`, imports, [
+      '@Component',
+      `public class ${className} {`,
+      '',
+      ...renderRecord(state, INDENT),
+      '',
+      ...standaloneMappings,
+      `${INDENT}private ${state.name} current;`,
+      '',
+      `${INDENT}public ${state.name} current() {`,
+      `${INDENT}${INDENT}return current;`,
+      `${INDENT}}`,
+      ...handlers,
+      '}'
+    ])
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function sampleText(value: unknown): string {
+  return escapeHtml(typeof value === 'string' ? value : JSON.stringify(value) ?? '');
+}
+
+function inputType(value: unknown): string {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'checkbox';
+  if (typeof value === 'string' && ISO_DATE.test(value)) return 'date';
+  return 'text';
+}
+
+function nodeTitle(node: VisualNode): string {
+  return escapeHtml(node.alias ?? toTitle(stubBaseName(node)));
+}
+
+function toTitle(value: string): string {
+  return toKebabCase(value)
+    .split('-')
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function generateView(input: CodeStubInput, view: VisualNode): GeneratedCodeFile {
+  const readModels = connectedNodes(input.parsed, view, 'from', 'rm');
+  const commands = connectedNodes(input.parsed, view, 'to', 'cmd');
+  const body: string[] = [];
+
+  for (const readModel of readModels) {
+    body.push(`<section th:object="\${${toJavaIdentifier(stubBaseName(readModel))}}">`);
+    body.push(`${INDENT}<dl>`);
+    for (const [key, value] of nodeDataEntries(readModel)) {
+      body.push(`${INDENT}${INDENT}<dt>${escapeHtml(toTitle(key))}</dt>`);
+      body.push(`${INDENT}${INDENT}<dd th:text="*{${toJavaIdentifier(key)}}">${sampleText(value)}</dd>`);
+    }
+    body.push(`${INDENT}</dl>`);
+    body.push('</section>');
+  }
+
+  if (readModels.length === 0 && nodeDataEntries(view).length > 0) {
+    body.push('<dl>');
+    for (const [key, value] of nodeDataEntries(view)) {
+      body.push(`${INDENT}<dt>${escapeHtml(toTitle(key))}</dt>`);
+      body.push(`${INDENT}<dd th:text="\${${toJavaIdentifier(key)}}">${sampleText(value)}</dd>`);
+    }
+    body.push('</dl>');
+  }
+
+  for (const command of commands) {
+    const baseName = stubBaseName(command);
+    body.push(`<form th:action="@{/${toKebabCase(baseName)}}" th:object="\${${toJavaIdentifier(baseName)}}" method="post">`);
+    for (const [key, value] of nodeDataEntries(command)) {
+      const fieldName = toJavaIdentifier(key);
+      body.push(`${INDENT}<label for="${fieldName}">${escapeHtml(toTitle(key))}</label>`);
+      body.push(`${INDENT}<input id="${fieldName}" type="${inputType(value)}" th:field="*{${fieldName}}">`);
+    }
+    body.push(`${INDENT}<button type="submit">${nodeTitle(command)}</button>`);
+    body.push('</form>');
+  }
+
+  const title = nodeTitle(view);
+  return {
+    path: `src/main/resources/templates/${toKebabCase(stubBaseName(view))}.html`,
+    language: 'html',
+    content: [
+      '<!DOCTYPE html>',
+      '<html xmlns:th="http://www.thymeleaf.org">',
+      '<head>',
+      `${INDENT}<meta charset="UTF-8">`,
+      `${INDENT}<title>${title}</title>`,
+      '</head>',
+      '<body>',
+      `<h1>${title}</h1>`,
+      ...body,
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n')
+  };
+}
+
+export const SPRING_BOOT_TARGET: CodeStubTarget = {
+  id: 'spring-boot',
+  label: 'Spring Boot (Java + Thymeleaf)',
+  generate: (input) => [
+    ...codeStubNodes(input.parsed, 'cmd').flatMap((command) => [
+      generateRecordFile(input, command, 'commands'),
+      generateController(input, command)
+    ]),
+    ...codeStubNodes(input.parsed, 'evt').map((event) => generateRecordFile(input, event, 'events')),
+    ...codeStubNodes(input.parsed, 'rm').map((readModel) => generateProjection(input, readModel)),
+    ...codeStubNodes(input.parsed, 'ui').map((view) => generateView(input, view))
+  ]
+};
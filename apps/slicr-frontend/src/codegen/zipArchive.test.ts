@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createZipArchive } from './zipArchive';
+
+describe('createZipArchive', () => {
+  it('stores files uncompressed with a central directory', () => {
+    const archive = createZipArchive([
+      { path: 'a.txt', content: 'hello' },
+      { path: 'dir/b.txt', content: 'world!' }
+    ]);
+    const view = new DataView(archive.buffer);
+    const decoder = new TextDecoder();
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    // CRC-32 of "hello"
+    expect(view.getUint32(14, true)).toBe(0x3610a686);
+    expect(decoder.decode(archive.slice(30, 35))).toBe('a.txt');
+    expect(decoder.decode(archive.slice(35, 40))).toBe('hello');
+
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+    expect(centralOffset).toBe(30 + 5 + 5 + 30 + 9 + 6);
+  });
+});
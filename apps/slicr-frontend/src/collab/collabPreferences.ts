@@ -0,0 +1,29 @@
+import { DEFAULT_COLLAB_RELAY_URL } from './collabTransport';
+
+export const COLLAB_PREFERENCES_STORAGE_KEY = 'slicr.collab';
+
+export type CollabPreferences = {
+  relayUrl: string;
+  name: string;
+};
+
+export function loadCollabPreferences(storage: Pick<Storage, 'getItem'> = localStorage): CollabPreferences {
+  const defaults = { relayUrl: DEFAULT_COLLAB_RELAY_URL, name: '' };
+  try {
+    const parsed = JSON.parse(storage.getItem(COLLAB_PREFERENCES_STORAGE_KEY) ?? 'null') as Partial<CollabPreferences> | null;
+    return {
+      relayUrl: typeof parsed?.relayUrl === 'string' && parsed.relayUrl ? parsed.relayUrl : defaults.relayUrl,
+      name: typeof parsed?.name === 'string' ? parsed.name : defaults.name
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveCollabPreferences(preferences: CollabPreferences, storage: Pick<Storage, 'setItem'> = localStorage): void {
+  try {
+    storage.setItem(COLLAB_PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Ignore storage failures.
+  }
+}
@@ -0,0 +1,113 @@
+export type CollabPoint = { x: number; y: number };
+
+export type CollabParticipant = {
+  clientId: string;
+  name: string;
+  color: string;
+};
+
+export type CollabPresence = CollabParticipant & {
+  // Null while the participant's pointer is off the canvas or they are viewing another slice.
+  pointer: CollabPoint | null;
+  selectedNodeKeys: string[];
+};
+
+export type CollabTextInitMessage = { kind: 'text-init'; clientId: string; doc: string };
+export type CollabTextChangeMessage = { kind: 'text-change'; clientId: string; baseSeq: number; changes: unknown };
+export type CollabNodeMovedMessage = { kind: 'node-moved'; clientId: string; nodeKey: string; x: number; y: number };
+export type CollabEdgeMovedMessage = { kind: 'edge-moved'; clientId: string; edgeKey: string; points: CollabPoint[] };
+export type CollabPresenceMessage = { kind: 'presence' } & CollabPresence;
+export type CollabLeaveMessage = { kind: 'leave'; clientId: string };
+
+// Messages the relay orders and keeps for late joiners.
+export type CollabSequencedMessage =
+  | CollabTextInitMessage
+  | CollabTextChangeMessage
+  | CollabNodeMovedMessage
+  | CollabEdgeMovedMessage;
+
+export type CollabMessage = CollabSequencedMessage | CollabPresenceMessage | CollabLeaveMessage;
+
+// What a participant receives: ordered messages carry the relay's sequence number, and `synced` marks the end of
+// the history replayed on join.
+export type CollabIncoming =
+  | (CollabSequencedMessage & { seq: number })
+  | CollabPresenceMessage
+  | CollabLeaveMessage
+  | { kind: 'synced'; seq: number };
+
+export function isSequencedCollabMessage(message: CollabMessage): message is CollabSequencedMessage {
+  return message.kind !== 'presence' && message.kind !== 'leave';
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPoint(value: unknown): value is CollabPoint {
+  const maybe = value as Partial<CollabPoint> | null;
+  return Boolean(maybe && typeof maybe === 'object' && isFiniteNumber(maybe.x) && isFiniteNumber(maybe.y));
+}
+
+function parseMessage(maybe: Record<string, unknown>): CollabMessage | null {
+  if (typeof maybe.clientId !== 'string') {
+    return null;
+  }
+  const { clientId } = maybe;
+  switch (maybe.kind) {
+    case 'text-init':
+      return typeof maybe.doc === 'string' ? { kind: 'text-init', clientId, doc: maybe.doc } : null;
+    case 'text-change':
+      return isFiniteNumber(maybe.baseSeq) && Array.isArray(maybe.changes)
+        ? { kind: 'text-change', clientId, baseSeq: maybe.baseSeq, changes: maybe.changes }
+        : null;
+    case 'node-moved':
+      return typeof maybe.nodeKey === 'string' && isFiniteNumber(maybe.x) && isFiniteNumber(maybe.y)
+        ? { kind: 'node-moved', clientId, nodeKey: maybe.nodeKey, x: maybe.x, y: maybe.y }
+        : null;
+    case 'edge-moved':
+      return typeof maybe.edgeKey === 'string' && Array.isArray(maybe.points) && maybe.points.every(isPoint)
+        ? { kind: 'edge-moved', clientId, edgeKey: maybe.edgeKey, points: maybe.points }
+        : null;
+    case 'presence':
+      if (typeof maybe.name !== 'string' || typeof maybe.color !== 'string') {
+        return null;
+      }
+      if (!(maybe.pointer === null || isPoint(maybe.pointer))) {
+        return null;
+      }
+      if (!Array.isArray(maybe.selectedNodeKeys) || !maybe.selectedNodeKeys.every((key) => typeof key === 'string')) {
+        return null;
+      }
+      return {
+        kind: 'presence',
+        clientId,
+        name: maybe.name,
+        color: maybe.color,
+        pointer: maybe.pointer,
+        selectedNodeKeys: maybe.selectedNodeKeys
+      };
+    case 'leave':
+      return { kind: 'leave', clientId };
+    default:
+      return null;
+  }
+}
+
+export function parseCollabIncoming(value: unknown): CollabIncoming | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const maybe = value as Record<string, unknown>;
+  if (maybe.kind === 'synced') {
+    return isFiniteNumber(maybe.seq) ? { kind: 'synced', seq: maybe.seq } : null;
+  }
+  const message = parseMessage(maybe);
+  if (!message) {
+    return null;
+  }
+  if (!isSequencedCollabMessage(message)) {
+    return message;
+  }
+  return isFiniteNumber(maybe.seq) ? { ...message, seq: maybe.seq } : null;
+}
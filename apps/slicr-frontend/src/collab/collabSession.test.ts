@@ -0,0 +1,154 @@
+// @vitest-environment jsdom
+
+import { ChangeSet, Text } from '@codemirror/state';
+import { describe, expect, it, vi } from 'vitest';
+import type { CollabPoint, CollabPresence } from './collabProtocol';
+import { createCollabParticipant, createCollabSession, type CollabLayout } from './collabSession';
+import { createInProcessCollabRelay, type InProcessCollabRelay } from './collabTransport';
+
+type Peer = ReturnType<typeof joinPeer>;
+
+function joinPeer(relay: InProcessCollabRelay, name: string, initialDoc: string, initialLayout?: CollabLayout) {
+  // The local document the editor would hold; remote changes are applied to it like the editor binding does.
+  let doc = initialDoc;
+  const nodes = new Map<string, CollabPoint>();
+  const presence: { current: CollabPresence[] } = { current: [] };
+  const onClosed = vi.fn();
+  const session = createCollabSession({
+    transport: relay.connect('workshop'),
+    participant: createCollabParticipant(name, `${name}-id`),
+    initialDoc,
+    initialLayout: initialLayout ?? { nodes: {}, edges: {} },
+    onTextChanges: (changes) => {
+      doc = changes.apply(textOf(doc)).toString();
+    },
+    onNodeMoved: (nodeKey, point) => {
+      nodes.set(nodeKey, point);
+    },
+    onEdgeMoved: () => {},
+    onPresenceChange: (next) => {
+      presence.current = next;
+    },
+    onClosed
+  });
+  return {
+    session,
+    nodes,
+    presence,
+    onClosed,
+    doc: () => doc,
+    insert: (from: number, insert: string) => {
+      const changes = ChangeSet.of({ from, insert }, doc.length);
+      doc = changes.apply(textOf(doc)).toString();
+      session.applyLocalText(changes);
+    }
+  };
+}
+
+function textOf(doc: string) {
+  return Text.of(doc.split('\n'));
+}
+
+function expectConverged(peers: Peer[], expected: string) {
+  for (const peer of peers) {
+    expect(peer.doc()).toBe(expected);
+    expect(peer.session.getDoc()).toBe(expected);
+  }
+}
+
+describe('createCollabSession', () => {
+  it('starts the room from the first participant and replaces a later joiner text with it', () => {
+    const relay = createInProcessCollabRelay();
+    const alice = joinPeer(relay, 'alice', 'slice "Orders"');
+    relay.flush();
+    const bob = joinPeer(relay, 'bob', 'slice "Draft"');
+    relay.flush();
+
+    expect(alice.session.isReady()).toBe(true);
+    expect(bob.session.isReady()).toBe(true);
+    expectConverged([alice, bob], 'slice "Orders"');
+  });
+
+  it('converges concurrent edits from several participants', () => {
+    const relay = createInProcessCollabRelay();
+    const alice = joinPeer(relay, 'alice', 'slice "Orders"\n');
+    relay.flush();
+    const bob = joinPeer(relay, 'bob', '');
+    const carol = joinPeer(relay, 'carol', '');
+    relay.flush();
+
+    alice.insert(0, '# alice\n');
+    alice.insert(alice.doc().length, 'cmd:place-order\n');
+    bob.insert(bob.doc().length, 'evt:order-placed\n');
+    carol.insert(6, 'd');
+    bob.insert(0, '# bob\n');
+    relay.flush();
+
+    const expected = alice.doc();
+    expect(expected).toContain('# alice\n');
+    expect(expected).toContain('# bob\n');
+    expect(expected).toContain('cmd:place-order\n');
+    expect(expected).toContain('evt:order-placed\n');
+    expect(expected).toContain('slice d"Orders"');
+    expectConverged([alice, bob, carol], expected);
+  });
+
+  it('keeps edits typed before the room was synced when this participant starts it', () => {
+    const relay = createInProcessCollabRelay();
+    const alice = joinPeer(relay, 'alice', 'slice "A"');
+    alice.insert(9, '\n');
+    relay.flush();
+    const bob = joinPeer(relay, 'bob', '');
+    relay.flush();
+
+    expectConverged([alice, bob], 'slice "A"\n');
+  });
+
+  it('merges node moves last writer wins in relay order', () => {
+    const relay = createInProcessCollabRelay();
+    const alice = joinPeer(relay, 'alice', 'slice "A"');
+    const bob = joinPeer(relay, 'bob', 'slice "A"');
+    relay.flush();
+
+    alice.session.publishNodeMoved('cmd:pay', { x: 10, y: 10 });
+    bob.session.publishNodeMoved('cmd:pay', { x: 90, y: 90 });
+    relay.flush();
+
+    // Bob's move was ordered last, so both keep it; Alice applies it, Bob ignores Alice's older one.
+    expect(alice.nodes.get('cmd:pay')).toEqual({ x: 90, y: 90 });
+    expect(bob.nodes.has('cmd:pay')).toBe(false);
+  });
+
+  it('replays the starting layout to participants who join later', () => {
+    const relay = createInProcessCollabRelay();
+    joinPeer(relay, 'alice', 'slice "A"', { nodes: { 'evt:paid': { x: 40, y: 80 } }, edges: {} });
+    relay.flush();
+    const bob = joinPeer(relay, 'bob', '');
+    relay.flush();
+
+    expect(bob.nodes.get('evt:paid')).toEqual({ x: 40, y: 80 });
+  });
+
+  it('shares presence and drops participants who leave', () => {
+    const relay = createInProcessCollabRelay();
+    const alice = joinPeer(relay, 'alice', 'slice "A"');
+    const bob = joinPeer(relay, 'bob', '');
+    relay.flush();
+
+    alice.session.updatePresence({ pointer: { x: 5, y: 6 }, selectedNodeKeys: ['cmd:pay'] });
+    relay.flush();
+    expect(bob.presence.current).toEqual([
+      { ...alice.session.participant, pointer: { x: 5, y: 6 }, selectedNodeKeys: ['cmd:pay'] }
+    ]);
+    expect(alice.presence.current.map((peer) => peer.name)).toEqual(['bob']);
+
+    const carol = joinPeer(relay, 'carol', '');
+    relay.flush();
+    expect(carol.presence.current.map((peer) => peer.name).sort()).toEqual(['alice', 'bob']);
+
+    alice.session.leave();
+    relay.flush();
+    expect(bob.presence.current.map((peer) => peer.name)).toEqual(['carol']);
+    expect(alice.onClosed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,177 @@
+import type { ChangeSet } from '@codemirror/state';
+import { createCollabTextClient } from './collabText';
+import type { CollabParticipant, CollabPoint, CollabPresence } from './collabProtocol';
+import type { CollabTransport } from './collabTransport';
+
+const PARTICIPANT_COLORS = ['#f97316', '#22c55e', '#3b82f6', '#e11d48', '#a855f7', '#14b8a6', '#eab308', '#ec4899'];
+
+export type CollabLayout = {
+  nodes: Record<string, CollabPoint>;
+  edges: Record<string, CollabPoint[]>;
+};
+
+export type CollabSessionHandlers = {
+  // A change the local document needs to apply to match the shared one.
+  onTextChanges: (changes: ChangeSet) => void;
+  onNodeMoved: (nodeKey: string, point: CollabPoint) => void;
+  onEdgeMoved: (edgeKey: string, points: CollabPoint[]) => void;
+  onPresenceChange: (presence: CollabPresence[]) => void;
+  onClosed: (error: string | null) => void;
+};
+
+export type CollabSession = {
+  participant: CollabParticipant;
+  isReady: () => boolean;
+  getDoc: () => string;
+  applyLocalText: (changes: ChangeSet) => void;
+  publishNodeMoved: (nodeKey: string, point: CollabPoint) => void;
+  publishEdgeMoved: (edgeKey: string, points: CollabPoint[]) => void;
+  updatePresence: (presence: Pick<CollabPresence, 'pointer' | 'selectedNodeKeys'>) => void;
+  leave: () => void;
+};
+
+type CreateCollabSessionOptions = CollabSessionHandlers & {
+  transport: CollabTransport;
+  participant: CollabParticipant;
+  initialDoc: string;
+  // Published when this participant starts the room, so later joiners see the same layout.
+  initialLayout: CollabLayout;
+};
+
+function makeClientId(): string {
+  if ('randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `peer-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+export function createCollabParticipant(name: string, clientId = makeClientId()): CollabParticipant {
+  let hash = 0;
+  for (const char of clientId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return { clientId, name: name.trim() || 'Guest', color: PARTICIPANT_COLORS[hash % PARTICIPANT_COLORS.length] };
+}
+
+function samePresence(a: CollabPresence, b: CollabPresence): boolean {
+  return a.pointer?.x === b.pointer?.x
+    && a.pointer?.y === b.pointer?.y
+    && a.selectedNodeKeys.length === b.selectedNodeKeys.length
+    && a.selectedNodeKeys.every((key, index) => key === b.selectedNodeKeys[index]);
+}
+
+// Joins a room over the given transport. Text merges through the OT client; node and edge moves merge last writer
+// wins per key, where "last" is the relay's order, so every peer keeps the same winner.
+export function createCollabSession(options: CreateCollabSessionOptions): CollabSession {
+  const { transport, participant, initialLayout } = options;
+  const { clientId } = participant;
+  const peers = new Map<string, CollabPresence>();
+  // Moves of ours the relay has not ordered yet; a peer's move ordered before them must not win.
+  const unorderedMoves = new Map<string, number>();
+  let ownPresence: CollabPresence = { ...participant, pointer: null, selectedNodeKeys: [] };
+
+  const text = createCollabTextClient({ clientId, initialDoc: options.initialDoc, send: transport.send });
+
+  const trackMove = (key: string) => {
+    unorderedMoves.set(key, (unorderedMoves.get(key) ?? 0) + 1);
+  };
+  const settleMove = (key: string) => {
+    const remaining = (unorderedMoves.get(key) ?? 0) - 1;
+    if (remaining > 0) {
+      unorderedMoves.set(key, remaining);
+    } else {
+      unorderedMoves.delete(key);
+    }
+  };
+  const isRemoteMoveOutdated = (key: string, fromClientId: string) => {
+    if (fromClientId === clientId) {
+      settleMove(key);
+      return true;
+    }
+    return unorderedMoves.has(key);
+  };
+
+  const publishNodeMoved = (nodeKey: string, point: CollabPoint) => {
+    trackMove(`node:${nodeKey}`);
+    transport.send({ kind: 'node-moved', clientId, nodeKey, x: point.x, y: point.y });
+  };
+  const publishEdgeMoved = (edgeKey: string, points: CollabPoint[]) => {
+    trackMove(`edge:${edgeKey}`);
+    transport.send({ kind: 'edge-moved', clientId, edgeKey, points });
+  };
+
+  const emitPresence = () => options.onPresenceChange([...peers.values()]);
+
+  const unsubscribe = transport.subscribe((incoming) => {
+    switch (incoming.kind) {
+      case 'synced':
+        text.synced();
+        return;
+      case 'text-init':
+      case 'text-change': {
+        const startsRoom = !text.isReady() && incoming.kind === 'text-init' && incoming.clientId === clientId;
+        const changes = text.receive(incoming);
+        if (startsRoom) {
+          for (const [nodeKey, point] of Object.entries(initialLayout.nodes)) {
+            publishNodeMoved(nodeKey, point);
+          }
+          for (const [edgeKey, points] of Object.entries(initialLayout.edges)) {
+            publishEdgeMoved(edgeKey, points);
+          }
+        }
+        if (changes) {
+          options.onTextChanges(changes);
+        }
+        return;
+      }
+      case 'node-moved':
+        if (!isRemoteMoveOutdated(`node:${incoming.nodeKey}`, incoming.clientId)) {
+          options.onNodeMoved(incoming.nodeKey, { x: incoming.x, y: incoming.y });
+        }
+        return;
+      case 'edge-moved':
+        if (!isRemoteMoveOutdated(`edge:${incoming.edgeKey}`, incoming.clientId)) {
+          options.onEdgeMoved(incoming.edgeKey, incoming.points);
+        }
+        return;
+      case 'presence': {
+        const { kind, ...presence } = incoming;
+        void kind;
+        if (presence.clientId !== clientId) {
+          peers.set(presence.clientId, presence);
+          emitPresence();
+        }
+        return;
+      }
+      case 'leave':
+        if (peers.delete(incoming.clientId)) {
+          emitPresence();
+        }
+        return;
+    }
+  });
+  const unsubscribeClosed = transport.subscribeClosed(options.onClosed);
+  transport.send({ kind: 'presence', ...ownPresence });
+
+  return {
+    participant,
+    isReady: text.isReady,
+    getDoc: text.getDoc,
+    applyLocalText: text.applyLocal,
+    publishNodeMoved,
+    publishEdgeMoved,
+    updatePresence: ({ pointer, selectedNodeKeys }) => {
+      const next = { ...participant, pointer, selectedNodeKeys };
+      if (samePresence(next, ownPresence)) {
+        return;
+      }
+      ownPresence = next;
+      transport.send({ kind: 'presence', ...next });
+    },
+    leave: () => {
+      unsubscribe();
+      unsubscribeClosed();
+      transport.close();
+    }
+  };
+}
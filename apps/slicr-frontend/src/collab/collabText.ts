@@ -0,0 +1,128 @@
+import { ChangeSet, Text } from '@codemirror/state';
+import type { CollabTextChangeMessage, CollabTextInitMessage } from './collabProtocol';
+
+type OrderedTextMessage = (CollabTextInitMessage | CollabTextChangeMessage) & { seq: number };
+
+export type CollabTextClient = {
+  isReady: () => boolean;
+  getDoc: () => string;
+  // Records an edit already made to the local document.
+  applyLocal: (changes: ChangeSet) => void;
+  // Folds an ordered message into the shared document and returns the change the local document needs, if any.
+  receive: (message: OrderedTextMessage) => ChangeSet | null;
+  // Called once the relay has replayed the room; starts the shared document from ours if nobody has.
+  synced: () => void;
+};
+
+type CollabTextClientOptions = {
+  clientId: string;
+  initialDoc: string;
+  send: (message: CollabTextInitMessage | CollabTextChangeMessage) => void;
+};
+
+function replaceAll(doc: Text, insert: string): ChangeSet {
+  return ChangeSet.of({ from: 0, to: doc.length, insert }, doc.length);
+}
+
+// Operational transform over CodeMirror change sets. The relay gives every edit a sequence number and each peer
+// rebases an edit over the ones ordered between its base and itself, so all peers end on the same text. Like
+// @codemirror/collab, a peer keeps one edit in flight and batches what it types meanwhile.
+export function createCollabTextClient({ clientId, initialDoc, send }: CollabTextClientOptions): CollabTextClient {
+  let doc = Text.of(initialDoc.split('\n'));
+  let ready = false;
+  let sentInit = false;
+  let seq = 0;
+  const history: Array<{ seq: number; changes: ChangeSet }> = [];
+  let inFlight: ChangeSet | null = null;
+  let pending: ChangeSet | null = null;
+
+  const flush = () => {
+    if (!ready || inFlight || !pending) {
+      return;
+    }
+    inFlight = pending;
+    pending = null;
+    send({ kind: 'text-change', clientId, baseSeq: seq, changes: inFlight.toJSON() });
+  };
+
+  const receiveInit = (message: CollabTextInitMessage & { seq: number }): ChangeSet | null => {
+    if (ready) {
+      return null;
+    }
+    ready = true;
+    seq = message.seq;
+    if (message.clientId === clientId) {
+      flush();
+      return null;
+    }
+    // Someone else started the room first; their text replaces ours.
+    pending = null;
+    const changes = replaceAll(doc, message.doc);
+    doc = changes.apply(doc);
+    return changes;
+  };
+
+  const receiveChange = (message: CollabTextChangeMessage & { seq: number }): ChangeSet | null => {
+    if (!ready) {
+      return null;
+    }
+    if (message.clientId === clientId && inFlight) {
+      // Our own edit came back in order; it was rebased over everything ordered before it as that arrived.
+      history.push({ seq: message.seq, changes: inFlight });
+      seq = message.seq;
+      inFlight = null;
+      flush();
+      return null;
+    }
+
+    let changes: ChangeSet;
+    try {
+      changes = ChangeSet.fromJSON(message.changes);
+      for (const entry of history) {
+        if (entry.seq > message.baseSeq) {
+          changes = changes.map(entry.changes);
+        }
+      }
+    } catch {
+      return null;
+    }
+    history.push({ seq: message.seq, changes });
+    seq = message.seq;
+
+    // Ordered edits go before ours at the same position, matching how every peer rebases ours once it is ordered.
+    let local = changes;
+    if (inFlight) {
+      const remote = local;
+      local = remote.map(inFlight, true);
+      inFlight = inFlight.map(remote);
+    }
+    if (pending) {
+      const remote = local;
+      local = remote.map(pending, true);
+      pending = pending.map(remote);
+    }
+    doc = local.apply(doc);
+    return local;
+  };
+
+  return {
+    isReady: () => ready,
+    getDoc: () => doc.toString(),
+    applyLocal: (changes) => {
+      doc = changes.apply(doc);
+      if (!ready && !sentInit) {
+        return;
+      }
+      pending = pending ? pending.compose(changes) : changes;
+      flush();
+    },
+    receive: (message) => (message.kind === 'text-init' ? receiveInit(message) : receiveChange(message)),
+    synced: () => {
+      if (ready || sentInit) {
+        return;
+      }
+      sentInit = true;
+      send({ kind: 'text-init', clientId, doc: doc.toString() });
+    }
+  };
+}
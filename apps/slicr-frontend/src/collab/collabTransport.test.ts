@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+
+import { describe, expect, it, vi } from 'vitest';
+import { collabRoomUrl, createWebSocketCollabTransport } from './collabTransport';
+
+function createFakeSocket() {
+  return {
+    url: '',
+    readyState: 0,
+    sent: [] as string[],
+    send(data: string) {
+      this.sent.push(data);
+    },
+    close: vi.fn(),
+    onopen: null as ((event: Event) => void) | null,
+    onmessage: null as ((event: MessageEvent) => void) | null,
+    onclose: null as ((event: CloseEvent) => void) | null,
+    onerror: null as ((event: Event) => void) | null
+  };
+}
+
+describe('collabRoomUrl', () => {
+  it('adds the room to the relay url', () => {
+    expect(collabRoomUrl('ws://localhost:8787', 'Order flow')).toBe('ws://localhost:8787?room=Order%20flow');
+    expect(collabRoomUrl('wss://relay.example/ws?token=1', 'a')).toBe('wss://relay.example/ws?token=1&room=a');
+  });
+});
+
+describe('createWebSocketCollabTransport', () => {
+  it('queues messages until the socket opens', () => {
+    const socket = createFakeSocket();
+    const transport = createWebSocketCollabTransport('ws://localhost:8787', 'workshop', (url) => {
+      socket.url = url;
+      return socket;
+    });
+
+    transport.send({ kind: 'text-init', clientId: 'a', doc: 'slice "A"' });
+    expect(socket.url).toBe('ws://localhost:8787?room=workshop');
+    expect(socket.sent).toEqual([]);
+
+    socket.readyState = 1;
+    socket.onopen?.(new Event('open'));
+    transport.send({ kind: 'leave', clientId: 'a' });
+    expect(socket.sent.map((data) => JSON.parse(data).kind)).toEqual(['text-init', 'leave']);
+  });
+
+  it('delivers valid messages and ignores anything else', () => {
+    const socket = createFakeSocket();
+    const transport = createWebSocketCollabTransport('ws://localhost:8787', 'workshop', () => socket);
+    const listener = vi.fn();
+    transport.subscribe(listener);
+
+    socket.onmessage?.(new MessageEvent('message', { data: 'not json' }));
+    socket.onmessage?.(new MessageEvent('message', { data: JSON.stringify({ kind: 'node-moved', clientId: 'b' }) }));
+    socket.onmessage?.(new MessageEvent('message', { data: JSON.stringify({ kind: 'synced', seq: 3 }) }));
+
+    expect(listener.mock.calls).toEqual([[{ kind: 'synced', seq: 3 }]]);
+  });
+
+  it('reports a relay that cannot be reached but not a session closed on purpose', () => {
+    const unreachable = createFakeSocket();
+    const failing = createWebSocketCollabTransport('ws://localhost:8787', 'workshop', () => unreachable);
+    const onFailingClosed = vi.fn();
+    failing.subscribeClosed(onFailingClosed);
+    unreachable.onerror?.(new Event('error'));
+    unreachable.onclose?.(new CloseEvent('close'));
+    expect(onFailingClosed).toHaveBeenCalledWith('Could not reach the relay at ws://localhost:8787.');
+
+    const socket = createFakeSocket();
+    const transport = createWebSocketCollabTransport('ws://localhost:8787', 'workshop', () => socket);
+    const onClosed = vi.fn();
+    transport.subscribeClosed(onClosed);
+    transport.close();
+    socket.onclose?.(new CloseEvent('close'));
+    expect(socket.close).toHaveBeenCalled();
+    expect(onClosed.mock.calls).toEqual([[null]]);
+  });
+});
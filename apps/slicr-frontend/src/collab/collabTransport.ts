@@ -0,0 +1,219 @@
+import {
+  isSequencedCollabMessage,
+  parseCollabIncoming,
+  type CollabIncoming,
+  type CollabMessage,
+  type CollabPresenceMessage,
+  type CollabSequencedMessage
+} from './collabProtocol';
+
+export const DEFAULT_COLLAB_RELAY_URL = 'ws://localhost:8787';
+
+// How a session reaches its peers. The relay orders durable messages and replays them to anyone who joins later.
+export type CollabTransport = {
+  send: (message: CollabMessage) => void;
+  subscribe: (listener: (incoming: CollabIncoming) => void) => () => void;
+  subscribeClosed: (listener: (error: string | null) => void) => () => void;
+  close: () => void;
+};
+
+type WebSocketLike = {
+  readyState: number;
+  send: (data: string) => void;
+  close: () => void;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+};
+
+const WEB_SOCKET_OPEN = 1;
+
+function createListenerSet<T>() {
+  const listeners = new Set<(value: T) => void>();
+  return {
+    add: (listener: (value: T) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit: (value: T) => {
+      for (const listener of [...listeners]) {
+        listener(value);
+      }
+    }
+  };
+}
+
+export function collabRoomUrl(relayUrl: string, room: string): string {
+  const separator = relayUrl.includes('?') ? '&' : '?';
+  return `${relayUrl}${separator}room=${encodeURIComponent(room)}`;
+}
+
+export function createWebSocketCollabTransport(
+  relayUrl: string,
+  room: string,
+  createSocket: (url: string) => WebSocketLike = (url) => new WebSocket(url)
+): CollabTransport {
+  const incoming = createListenerSet<CollabIncoming>();
+  const closed = createListenerSet<string | null>();
+  const outbox: string[] = [];
+  let closedByUs = false;
+  let failed = false;
+
+  const socket = createSocket(collabRoomUrl(relayUrl, room));
+  socket.onopen = () => {
+    for (const data of outbox.splice(0)) {
+      socket.send(data);
+    }
+  };
+  socket.onmessage = (event) => {
+    let parsed: CollabIncoming | null = null;
+    try {
+      parsed = parseCollabIncoming(JSON.parse(String(event.data)));
+    } catch {
+      // Ignore frames that are not collaboration messages.
+    }
+    if (parsed) {
+      incoming.emit(parsed);
+    }
+  };
+  socket.onerror = () => {
+    failed = true;
+  };
+  socket.onclose = () => {
+    if (!closedByUs) {
+      closed.emit(failed ? `Could not reach the relay at ${relayUrl}.` : 'The relay closed the session.');
+    }
+  };
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message);
+      if (socket.readyState === WEB_SOCKET_OPEN) {
+        socket.send(data);
+      } else {
+        outbox.push(data);
+      }
+    },
+    subscribe: incoming.add,
+    subscribeClosed: closed.add,
+    close: () => {
+      closedByUs = true;
+      socket.close();
+      closed.emit(null);
+    }
+  };
+}
+
+export type InProcessCollabRelay = {
+  connect: (room: string) => CollabTransport;
+  // Delivers everything sent so far, including whatever the deliveries cause participants to send.
+  flush: () => void;
+};
+
+type RelayRoom = {
+  seq: number;
+  history: Array<CollabSequencedMessage & { seq: number }>;
+  presence: Map<string, CollabPresenceMessage>;
+  members: Set<RelayMember>;
+};
+
+type RelayMember = {
+  clientId: string | null;
+  inbox: CollabIncoming[];
+  deliver: (incoming: CollabIncoming) => void;
+};
+
+// Stand-in for the WebSocket relay with the same ordering and replay rules. Deliveries wait for flush(), so
+// tests decide which edits are concurrent.
+export function createInProcessCollabRelay(): InProcessCollabRelay {
+  const rooms = new Map<string, RelayRoom>();
+  const members: RelayMember[] = [];
+
+  const roomFor = (name: string): RelayRoom => {
+    const existing = rooms.get(name);
+    if (existing) {
+      return existing;
+    }
+    const created: RelayRoom = { seq: 0, history: [], presence: new Map(), members: new Set() };
+    rooms.set(name, created);
+    return created;
+  };
+
+  const connect = (roomName: string): CollabTransport => {
+    const room = roomFor(roomName);
+    const incoming = createListenerSet<CollabIncoming>();
+    const closed = createListenerSet<string | null>();
+    const member: RelayMember = { clientId: null, inbox: [], deliver: incoming.emit };
+    room.members.add(member);
+    members.push(member);
+    member.inbox.push(...room.history, { kind: 'synced', seq: room.seq }, ...room.presence.values());
+
+    const leave = () => {
+      if (!room.members.delete(member)) {
+        return;
+      }
+      if (member.clientId !== null) {
+        room.presence.delete(member.clientId);
+        for (const other of room.members) {
+          other.inbox.push({ kind: 'leave', clientId: member.clientId });
+        }
+      }
+      if (room.members.size === 0) {
+        rooms.delete(roomName);
+      }
+    };
+
+    return {
+      send: (message) => {
+        if (!room.members.has(member)) {
+          return;
+        }
+        member.clientId = message.clientId;
+        if (message.kind === 'leave') {
+          return;
+        }
+        if (!isSequencedCollabMessage(message)) {
+          room.presence.set(message.clientId, message);
+          for (const other of room.members) {
+            if (other !== member) {
+              other.inbox.push(message);
+            }
+          }
+          return;
+        }
+        room.seq += 1;
+        const sequenced = { ...message, seq: room.seq };
+        room.history.push(sequenced);
+        for (const other of room.members) {
+          other.inbox.push(sequenced);
+        }
+      },
+      subscribe: incoming.add,
+      subscribeClosed: closed.add,
+      close: () => {
+        leave();
+        member.inbox = [];
+        closed.emit(null);
+      }
+    };
+  };
+
+  const flush = () => {
+    let delivered = true;
+    while (delivered) {
+      delivered = false;
+      for (const member of members) {
+        const next = member.inbox.shift();
+        if (next) {
+          member.deliver(next);
+          delivered = true;
+        }
+      }
+    }
+  };
+
+  return { connect, flush };
+}
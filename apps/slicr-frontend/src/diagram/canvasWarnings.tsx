@@ -0,0 +1,18 @@
+import type { DiagramCanvasWarning } from './rendererContract';
+
+// Pinned to the visible corner of the canvas, so it stays in view while panning a fallback layout.
+export function CanvasWarnings({ warnings }: { warnings: DiagramCanvasWarning[] | undefined }) {
+  if (!warnings || warnings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="canvas-warnings" onPointerDown={(event) => event.stopPropagation()}>
+      <ul role="status" className="canvas-warnings__list">
+        {warnings.map((warning) => (
+          <li key={warning.key} className="canvas-warning">{warning.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,14 +1,17 @@
 import type { Dispatch, PointerEvent as ReactPointerEvent, RefObject, SetStateAction } from 'react';
 import { supportsEditableEdgePoints } from '../domain/diagramEngine';
 import type { DiagramPoint } from '../domain/diagramRouting';
+import type { SelectionRect } from '../domain/nodeSelection';
 import type { DiagramMode } from '../application/appViewModel';
-import type { DiagramSceneModel } from './rendererContract';
+import type { DiagramPresence, DiagramSceneModel } from './rendererContract';
 import type { DiagramRendererId } from '../domain/runtimeFlags';
 import { NodeCard } from '../NodeCard';
 import type { Range } from '../useDslEditor';
 import type { DragTooltipState } from '../useDiagramInteractions';
 import type { DiagramScenario, DiagramScenarioNode } from './rendererContract';
+import { CanvasWarnings } from './canvasWarnings';
 import { OverviewDashedConnectors } from './overviewDashedConnectors';
+import { RemotePresenceOverlay } from './remotePresenceOverlay';
 
 function toScenarioNodeCardProps(entry: DiagramScenarioNode) {
   return {
@@ -111,6 +114,8 @@ function renderScenarioBoxes(
   ));
 }
 
+const NO_REMOTE_PRESENCE: DiagramPresence[] = [];
+
 export type DiagramRendererAdapterProps = {
   diagramMode: DiagramMode;
   sceneModel: DiagramSceneModel | null;
@@ -128,8 +133,16 @@ export type DiagramRendererAdapterProps = {
     segmentIndex: number,
     points: DiagramPoint[]
   ) => void;
+  marquee?: SelectionRect | null;
+  beginMarqueeSelection?: (
+    event: ReactPointerEvent,
+    toWorldPoint: (clientX: number, clientY: number) => DiagramPoint
+  ) => void;
+  remotePresence?: DiagramPresence[];
+  onWorldPointerMove?: (point: DiagramPoint | null) => void;
   onNodeHoverRange: (range: Range | null) => void;
   onNodeSelect: (nodeKey: string) => void;
+  onNodeToggleSelect?: (nodeKey: string) => void;
   onNodeOpenInEditor: (nodeKey: string, range: Range) => void;
   onEdgeHover: Dispatch<SetStateAction<string | null>>;
   onToggleOverviewNodeDataVisibility?: () => void;
@@ -150,8 +163,13 @@ export function DomSvgDiagramRenderer({
   beginCanvasPan,
   beginNodeDrag,
   beginEdgeSegmentDrag,
+  marquee = null,
+  beginMarqueeSelection,
+  remotePresence = NO_REMOTE_PRESENCE,
+  onWorldPointerMove,
   onNodeHoverRange,
   onNodeSelect,
+  onNodeToggleSelect,
   onNodeOpenInEditor,
   onEdgeHover,
   onToggleOverviewNodeDataVisibility,
@@ -161,14 +179,37 @@ export function DomSvgDiagramRenderer({
   void onToggleOverviewNodeDataVisibility;
   const hideOverviewNodeData = diagramMode === 'overview' && overviewNodeDataVisible === false;
 
+  const onPanelPointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const world = event.currentTarget.querySelector('.canvas-world');
+    if (event.shiftKey && beginMarqueeSelection && world) {
+      beginMarqueeSelection(event, (clientX, clientY) => {
+        const rect = world.getBoundingClientRect();
+        return { x: clientX - rect.left, y: clientY - rect.top };
+      });
+      return;
+    }
+    beginCanvasPan(event);
+  };
+
+  const onPanelPointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const world = event.currentTarget.querySelector('.canvas-world');
+    if (onWorldPointerMove && world) {
+      const rect = world.getBoundingClientRect();
+      onWorldPointerMove({ x: event.clientX - rect.left, y: event.clientY - rect.top });
+    }
+  };
+
   return (
     <div
       ref={canvasPanelRef}
       className={`canvas-panel ${isPanning ? 'panning' : ''} ${docsOpen ? 'hidden' : ''}`}
-      onPointerDown={beginCanvasPan}
+      onPointerDown={onPanelPointerDown}
+      onPointerMove={onWorldPointerMove ? onPanelPointerMove : undefined}
+      onPointerLeave={onWorldPointerMove ? () => onWorldPointerMove(null) : undefined}
       aria-hidden={docsOpen}
       data-diagram-renderer={rendererId}
     >
+      <CanvasWarnings warnings={sceneModel?.warnings} />
       <div
         id="canvas"
         style={{
@@ -198,6 +239,11 @@ export function DomSvgDiagramRenderer({
                   className="lane-band"
                   style={{ top: `${lane.bandTop}px`, height: `${lane.bandHeight}px` }}
                 />
+                {lane.laneLabel && (
+                  <div className="lane-header" style={{ top: `${lane.labelTop}px`, left: `${lane.labelLeft}px` }}>
+                    {lane.laneLabel}
+                  </div>
+                )}
                 {lane.streamLabel && (
                   <div className="lane-stream-label" style={{ top: `${lane.labelTop}px`, left: `${lane.labelLeft}px` }}>
                     {lane.streamLabel}
@@ -257,7 +303,12 @@ export function DomSvgDiagramRenderer({
                 onMouseLeave={() => onNodeHoverRange(null)}
                 onClick={(event) => {
                   event.stopPropagation();
-                  onNodeSelect(entry.interactionNodeKey ?? entry.key);
+                  const nodeKey = entry.interactionNodeKey ?? entry.key;
+                  if (event.shiftKey && onNodeToggleSelect) {
+                    onNodeToggleSelect(nodeKey);
+                    return;
+                  }
+                  onNodeSelect(nodeKey);
                 }}
                 onDoubleClick={(event) => {
                   event.stopPropagation();
@@ -345,6 +396,20 @@ export function DomSvgDiagramRenderer({
               })}
             </svg>
 
+            {marquee && (
+              <div
+                className="marquee-selection"
+                style={{
+                  left: `${marquee.left}px`,
+                  top: `${marquee.top}px`,
+                  width: `${marquee.width}px`,
+                  height: `${marquee.height}px`
+                }}
+              />
+            )}
+
+            <RemotePresenceOverlay sceneModel={sceneModel} presence={remotePresence} />
+
             {sceneModel.scenarioGroups && sceneModel.scenarioGroups.length > 0 ? (
               <>
                 {sceneModel.scenarioGroups.map((group) => (
@@ -4,8 +4,10 @@ import { supportsEditableEdgePoints } from '../domain/diagramEngine';
 import { NodeCard } from '../NodeCard';
 import { toWorldClientPoint, zoomCameraAroundClientPoint } from './cameraUtils';
 import type { DiagramRendererAdapterProps } from './domSvgRenderer';
-import type { DiagramScenario, DiagramScenarioNode } from './rendererContract';
+import type { DiagramPresence, DiagramScenario, DiagramScenarioNode } from './rendererContract';
+import { CanvasWarnings } from './canvasWarnings';
 import { OverviewDashedConnectors } from './overviewDashedConnectors';
+import { RemotePresenceOverlay } from './remotePresenceOverlay';
 
 function toScenarioNodeCardProps(entry: DiagramScenarioNode) {
   return {
@@ -109,6 +111,7 @@ function renderScenarioBoxes(
 }
 
 const DEFAULT_CAMERA = { x: 0, y: 0, zoom: 1 } as const;
+const NO_REMOTE_PRESENCE: DiagramPresence[] = [];
 
 export function DomSvgDiagramRendererCamera({
   diagramMode,
@@ -122,8 +125,13 @@ export function DomSvgDiagramRendererCamera({
   beginCanvasPan,
   beginNodeDrag,
   beginEdgeSegmentDrag,
+  marquee = null,
+  beginMarqueeSelection,
+  remotePresence = NO_REMOTE_PRESENCE,
+  onWorldPointerMove,
   onNodeHoverRange,
   onNodeSelect,
+  onNodeToggleSelect,
   onNodeOpenInEditor,
   onEdgeHover,
   onToggleOverviewNodeDataVisibility,
@@ -157,6 +165,10 @@ export function DomSvgDiagramRendererCamera({
     ) {
       return;
     }
+    if (event.shiftKey && beginMarqueeSelection) {
+      beginMarqueeSelection(event, toWorldPoint);
+      return;
+    }
 
     event.preventDefault();
     const pointerId = event.pointerId;
@@ -305,14 +317,17 @@ export function DomSvgDiagramRendererCamera({
     };
   }, [canvasPanelRef, cameraControlled, cameraControlsEnabled, initialCamera, sceneModel]);
 
-  const toWorldPointerEvent = (event: ReactPointerEvent): ReactPointerEvent => {
+  function toWorldPoint(clientX: number, clientY: number) {
     const rect = canvasPanelRef.current?.getBoundingClientRect();
     const scrollLeft = canvasPanelRef.current?.scrollLeft ?? 0;
     const scrollTop = canvasPanelRef.current?.scrollTop ?? 0;
-    const localX = rect ? event.clientX - rect.left + scrollLeft : event.clientX;
-    const localY = rect ? event.clientY - rect.top + scrollTop : event.clientY;
+    const localX = rect ? clientX - rect.left + scrollLeft : clientX;
+    const localY = rect ? clientY - rect.top + scrollTop : clientY;
+    return toWorldClientPoint(sceneModel, effectiveCamera, localX, localY);
+  }
 
-    const world = toWorldClientPoint(sceneModel, effectiveCamera, localX, localY);
+  const toWorldPointerEvent = (event: ReactPointerEvent): ReactPointerEvent => {
+    const world = toWorldPoint(event.clientX, event.clientY);
     const proxy = Object.create(event) as ReactPointerEvent;
     Object.defineProperty(proxy, 'clientX', { configurable: true, value: world.x });
     Object.defineProperty(proxy, 'clientY', { configurable: true, value: world.y });
@@ -348,10 +363,13 @@ export function DomSvgDiagramRendererCamera({
       ref={canvasPanelRef}
       className={`canvas-panel ${isPanning ? 'panning' : ''} ${docsOpen ? 'hidden' : ''}`}
       onPointerDown={beginCameraPan}
+      onPointerMove={onWorldPointerMove ? (event) => onWorldPointerMove(toWorldPoint(event.clientX, event.clientY)) : undefined}
+      onPointerLeave={onWorldPointerMove ? () => onWorldPointerMove(null) : undefined}
       style={{ position: 'relative', overflow: 'hidden' }}
       aria-hidden={docsOpen}
       data-diagram-renderer={rendererId}
     >
+      <CanvasWarnings warnings={sceneModel?.warnings} />
       <div
         id="canvas"
         style={{
@@ -387,6 +405,11 @@ export function DomSvgDiagramRendererCamera({
                   className="lane-band"
                   style={{ top: `${lane.bandTop}px`, height: `${lane.bandHeight}px` }}
                 />
+                {lane.laneLabel && (
+                  <div className="lane-header" style={{ top: `${lane.labelTop}px`, left: `${lane.labelLeft}px` }}>
+                    {lane.laneLabel}
+                  </div>
+                )}
                 {lane.streamLabel && (
                   <div className="lane-stream-label" style={{ top: `${lane.labelTop}px`, left: `${lane.labelLeft}px` }}>
                     {lane.streamLabel}
@@ -446,7 +469,12 @@ export function DomSvgDiagramRendererCamera({
                 onMouseLeave={() => onNodeHoverRange(null)}
                 onClick={(event) => {
                   event.stopPropagation();
-                  onNodeSelect(entry.interactionNodeKey ?? entry.key);
+                  const nodeKey = entry.interactionNodeKey ?? entry.key;
+                  if (event.shiftKey && onNodeToggleSelect) {
+                    onNodeToggleSelect(nodeKey);
+                    return;
+                  }
+                  onNodeSelect(nodeKey);
                 }}
                 onDoubleClick={(event) => {
                   event.stopPropagation();
@@ -542,6 +570,20 @@ export function DomSvgDiagramRendererCamera({
               })}
             </svg>
 
+            {marquee && (
+              <div
+                className="marquee-selection"
+                style={{
+                  left: `${marquee.left}px`,
+                  top: `${marquee.top}px`,
+                  width: `${marquee.width}px`,
+                  height: `${marquee.height}px`
+                }}
+              />
+            )}
+
+            <RemotePresenceOverlay sceneModel={sceneModel} presence={remotePresence} />
+
             {sceneModel.scenarioGroups && sceneModel.scenarioGroups.length > 0 ? (
               <>
                 {sceneModel.scenarioGroups.map((group) => (
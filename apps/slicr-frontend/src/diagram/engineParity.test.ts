@@ -0,0 +1,215 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildOverviewDiagramGraph,
+  buildRenderedEdges,
+  computeDiagramLayout,
+  computeOverviewDiagramLayout,
+  type DiagramEngineId,
+  type DiagramEngineLayout
+} from '../domain/diagramEngine';
+import { deriveOverviewCrossSliceLinks } from '../domain/overviewCrossSliceLinks';
+import { parseDsl } from '../domain/parseDsl';
+import type { Parsed, Position } from '../domain/types';
+import { buildSceneModel } from './sceneModel';
+
+const ENGINES: DiagramEngineId[] = ['elk', 'layout-lib'];
+
+const BOUNDARY_DSL = `slice "Booking"
+
+ui:room-list
+cmd:book-room <- ui:room-list
+evt:room-booked <- cmd:book-room
+---
+rm:bookings <- evt:room-booked
+ui:booking-list <- rm:bookings
+`;
+
+const STREAM_DSL = `slice "Rooms"
+
+lanes: Guest, Staff
+
+ui:room-list
+lane: Guest
+
+evt:room-booked <- ui:room-list
+stream: booking
+
+evt:room-opened
+stream: inventory
+
+rm:ops-dashboard <- evt:room-opened <- evt:room-booked
+lane: Staff
+`;
+
+const SCENARIO_DSL = `slice "Checkout"
+
+ui:cart
+cmd:checkout <- ui:cart
+evt:order-placed <- cmd:checkout
+
+scenario "Places the order"
+given:
+  evt:cart-filled
+
+when:
+  cmd:checkout
+
+then:
+  evt:order-placed
+`;
+
+function sliceScene(parsed: Parsed, engineLayout: DiagramEngineLayout) {
+  return buildSceneModel({
+    parsed,
+    activeLayout: engineLayout.layout,
+    displayedPos: engineLayout.layout.pos,
+    renderedEdges: buildRenderedEdges(parsed, engineLayout.layout.pos, {}, engineLayout.precomputedEdges),
+    engineLayout,
+    activeNodeKeyFromEditor: null,
+    selectedNodeKey: null,
+    hoveredEdgeKey: null,
+    hoveredTraceNodeKey: null
+  });
+}
+
+function overlaps(left: Position, right: Position) {
+  return left.x < right.x + right.w && right.x < left.x + left.w && left.y < right.y + right.h && right.y < left.y + left.h;
+}
+
+function expectLaidOutLeftToRight(parsed: Parsed, pos: Record<string, Position>) {
+  for (const edge of parsed.edges) {
+    expect(pos[edge.to].x, `${edge.from} -> ${edge.to}`).toBeGreaterThan(pos[edge.from].x);
+  }
+  const positions = Object.entries(pos);
+  for (const [index, [key, position]] of positions.entries()) {
+    for (const [otherKey, other] of positions.slice(index + 1)) {
+      expect(overlaps(position, other), `${key} overlaps ${otherKey}`).toBe(false);
+    }
+  }
+}
+
+function expectLanesStacked(engineLayout: DiagramEngineLayout) {
+  const { pos } = engineLayout.layout;
+  for (const [key, lane] of engineLayout.laneByKey) {
+    for (const [otherKey, otherLane] of engineLayout.laneByKey) {
+      if (lane < otherLane) {
+        expect(pos[key].y, `${key} above ${otherKey}`).toBeLessThan(pos[otherKey].y);
+      }
+    }
+  }
+}
+
+async function layoutBoth(dsl: string) {
+  const parsed = parseDsl(dsl);
+  return Promise.all(ENGINES.map(async (engine) => {
+    const engineLayout = await computeDiagramLayout(parsed, { engine });
+    return { engine, parsed, engineLayout, scene: sliceScene(parsed, engineLayout) };
+  }));
+}
+
+describe('diagram engine parity', () => {
+  it('keeps nodes after a boundary right of its anchor in both engines', async () => {
+    const results = await layoutBoth(BOUNDARY_DSL);
+
+    for (const { engine, parsed, engineLayout, scene } of results) {
+      const { pos } = engineLayout.layout;
+      const anchor = pos['room-booked'];
+      expectLaidOutLeftToRight(parsed, pos);
+      expect(Math.min(pos.bookings.x, pos['booking-list'].x), engine).toBeGreaterThanOrEqual(anchor.x + anchor.w + 40);
+      expect(scene?.boundaries, engine).toHaveLength(1);
+      expect(engineLayout.warnings, engine).toBeUndefined();
+    }
+    expect(results[0].scene?.nodes.map((node) => node.key)).toEqual(results[1].scene?.nodes.map((node) => node.key));
+  });
+
+  it('stacks stream and named lanes in the same order in both engines', async () => {
+    const results = await layoutBoth(STREAM_DSL);
+
+    for (const { parsed, engineLayout } of results) {
+      expectLaidOutLeftToRight(parsed, engineLayout.layout.pos);
+      expectLanesStacked(engineLayout);
+    }
+    const [elk, layoutLib] = results.map(({ engineLayout, scene }) => ({
+      laneByKey: engineLayout.laneByKey,
+      lanes: scene?.lanes.map((lane) => [lane.row, lane.streamLabel, lane.laneLabel])
+    }));
+    expect(layoutLib).toEqual(elk);
+  });
+
+  it('leaves scenario-only nodes to the scenario boxes in both engines', async () => {
+    const results = await layoutBoth(SCENARIO_DSL);
+
+    for (const { engine, engineLayout, scene } of results) {
+      expect(Object.keys(engineLayout.layout.pos).sort(), engine).toEqual(['cart', 'checkout', 'order-placed']);
+      expect(scene?.scenarios.map((scenario) => scenario.name), engine).toEqual(['Places the order']);
+    }
+  });
+
+  it('orders overview slices left to right with room for their scenario groups in both engines', async () => {
+    const projections = [
+      { id: 'slice-1', dsl: SCENARIO_DSL, parsed: parseDsl(SCENARIO_DSL) },
+      { id: 'slice-2', dsl: BOUNDARY_DSL, parsed: parseDsl(BOUNDARY_DSL) },
+      { id: 'slice-3', dsl: STREAM_DSL, parsed: parseDsl(STREAM_DSL) }
+    ];
+    const overview = buildOverviewDiagramGraph(projections);
+    const overviewCrossSliceLinks = deriveOverviewCrossSliceLinks(projections, overview.nodeMetadataByKey);
+    const scenarioGroupWidths = { 'overview-scenario-group-slice-1': 900 };
+
+    const results = await Promise.all(ENGINES.map(async (engine) => {
+      const engineLayout = await computeOverviewDiagramLayout(projections, { engine, scenarioGroupWidths });
+      const scene = buildSceneModel({
+        parsed: overview.parsed,
+        activeLayout: engineLayout.layout,
+        displayedPos: engineLayout.layout.pos,
+        renderedEdges: buildRenderedEdges(overview.parsed, engineLayout.layout.pos, {}),
+        engineLayout,
+        activeNodeKeyFromEditor: null,
+        selectedNodeKey: null,
+        hoveredEdgeKey: null,
+        hoveredTraceNodeKey: null,
+        overviewNodeMetadataByKey: overview.nodeMetadataByKey,
+        overviewScenarioMetadataByScenario: overview.scenarioMetadataByScenario,
+        overviewCrossSliceLinks,
+        measuredScenarioGroupWidths: scenarioGroupWidths
+      });
+      return { engine, engineLayout, scene };
+    }));
+
+    for (const { engine, engineLayout, scene } of results) {
+      const frames = scene?.sliceFrames ?? [];
+      expect(frames.map((frame) => frame.label), engine).toEqual(['Checkout', 'Booking', 'Rooms']);
+      for (const [index, frame] of frames.slice(1).entries()) {
+        expect(frame.left, engine).toBeGreaterThan(frames[index].left + frames[index].width);
+      }
+      const firstSliceLeft = Math.min(
+        ...['cart', 'checkout', 'order-placed'].map((key) => engineLayout.layout.pos[`slice-1::${key}`].x)
+      );
+      const secondSliceLeft = Math.min(
+        ...['room-list', 'book-room'].map((key) => engineLayout.layout.pos[`slice-2::${key}`].x)
+      );
+      expect(secondSliceLeft, engine).toBeGreaterThanOrEqual(firstSliceLeft - 28 + 900);
+      expect(scene?.scenarioGroups?.map((group) => group.key), engine).toEqual(['overview-scenario-group-slice-1']);
+      expectLanesStacked(engineLayout);
+    }
+  });
+
+  it('shows a layout-lib cycle as a canvas warning over a provisional layout', async () => {
+    const results = await layoutBoth(`slice "Loop"
+
+cmd:retry <- evt:failed
+evt:failed <- cmd:retry
+`);
+
+    const layoutLib = results.find((result) => result.engine === 'layout-lib');
+    expect(layoutLib?.engineLayout.warnings).toEqual([
+      { engine: 'layout-lib', type: 'CycleDetected', message: 'Cycles are not supported.' }
+    ]);
+    expect(layoutLib?.scene?.warnings).toEqual([{
+      key: 'layout-lib:CycleDetected',
+      message: 'layout-lib could not lay out this diagram: Cycles are not supported. Showing a provisional layout.'
+    }]);
+    for (const { engine, scene } of results) {
+      expect(scene?.nodes.map((node) => node.key).sort(), engine).toEqual(['failed', 'retry']);
+    }
+  });
+});
@@ -0,0 +1,51 @@
+import type { CSSProperties } from 'react';
+import type { DiagramPresence, DiagramSceneModel } from './rendererContract';
+
+type RemotePresenceOverlayProps = {
+  sceneModel: DiagramSceneModel;
+  presence: DiagramPresence[];
+};
+
+function presenceStyle(color: string, style: CSSProperties): CSSProperties {
+  return { ...style, '--presence-color': color } as CSSProperties;
+}
+
+// Other participants' pointers and node selections, drawn in world space on top of the diagram.
+export function RemotePresenceOverlay({ sceneModel, presence }: RemotePresenceOverlayProps) {
+  if (presence.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="remote-presence-layer" aria-hidden="true">
+      {presence.flatMap((peer) => sceneModel.nodes
+        .filter((entry) => !entry.hidden && peer.selectedNodeKeys.includes(entry.interactionNodeKey ?? entry.key))
+        .map((entry) => (
+          <div
+            key={`${peer.clientId}:${entry.renderKey}`}
+            className="remote-presence-selection"
+            data-presence-client={peer.clientId}
+            style={presenceStyle(peer.color, {
+              left: `${entry.x}px`,
+              top: `${entry.y}px`,
+              width: `${entry.w}px`,
+              height: `${entry.h}px`
+            })}
+          />
+        )))}
+      {presence.filter((peer) => peer.pointer).map((peer) => (
+        <div
+          key={peer.clientId}
+          className="remote-presence-cursor"
+          data-presence-client={peer.clientId}
+          style={presenceStyle(peer.color, { left: `${peer.pointer!.x}px`, top: `${peer.pointer!.y}px` })}
+        >
+          <svg width="14" height="18" viewBox="0 0 14 18">
+            <path d="M1 1 L1 15 L5 11 L8 17 L10 16 L7 10 L13 10 z" />
+          </svg>
+          <span className="remote-presence-name">{peer.name}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
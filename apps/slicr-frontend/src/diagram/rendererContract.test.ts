@@ -96,6 +96,7 @@ function createScene(overrides: Partial<DiagramSceneModel> = {}): DiagramSceneMo
         y: 0,
         height: 10,
         streamLabel: '',
+        laneLabel: '',
         labelTop: 8,
         labelLeft: 8
       }
@@ -57,6 +57,7 @@ export type DiagramLane = {
   y: number;
   height: number;
   streamLabel: string;
+  laneLabel: string;
   labelTop: number;
   labelLeft: number;
 };
@@ -143,6 +144,12 @@ export type DiagramSharedNodeAnchor = {
   y: number;
 };
 
+// A layout problem the canvas shows next to the fallback placement it is drawing.
+export type DiagramCanvasWarning = {
+  key: string;
+  message: string;
+};
+
 export type DiagramSceneModel = {
   nodes: DiagramNode[];
   edges: DiagramEdge[];
@@ -157,6 +164,16 @@ export type DiagramSceneModel = {
   title: DiagramTitle | null;
   sliceFrames: DiagramSliceFrame[];
   viewport: DiagramViewport | null;
+  warnings?: DiagramCanvasWarning[];
+};
+
+// Another participant of a collaboration session, in world coordinates.
+export type DiagramPresence = {
+  clientId: string;
+  name: string;
+  color: string;
+  pointer: DiagramPoint | null;
+  selectedNodeKeys: string[];
 };
 
 export type DiagramRendererCallbacks = {
@@ -188,5 +188,16 @@ describe('renderer parity', () => {
       expect(props.beginEdgeSegmentDrag).toHaveBeenCalledTimes(1);
       expect(props.beginEdgeSegmentDrag).toHaveBeenCalledWith(expect.anything(), 'node-1->node-2#0', 0, [{ x: 100, y: 100 }, { x: 200, y: 100 }]);
     });
+
+    it(`${suite.name} shows layout warnings on the canvas`, () => {
+      renderRenderer(suite.renderer, {
+        sceneModel: {
+          ...createScene(),
+          warnings: [{ key: 'layout-lib:CycleDetected', message: 'Cycles are not supported.' }]
+        }
+      });
+
+      expect(document.querySelector('.canvas-panel [role="status"]')?.textContent).toBe('Cycles are not supported.');
+    });
   }
 });
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import type { VisualNode } from '../domain/types';
+import type { DiagramNode, DiagramSceneModel } from './rendererContract';
+import { diagramImageFileName, exportSceneToSvg } from './sceneExport';
+
+function visualNode(key: string, type: string, data: VisualNode['data'] = null): VisualNode {
+  return { type, name: key, alias: null, stream: null, key, data, srcRange: { from: 0, to: 1 } };
+}
+
+function diagramNode(key: string, type: string, x: number, data: VisualNode['data'] = null): DiagramNode {
+  return {
+    renderKey: key,
+    key,
+    node: visualNode(key, type, data),
+    nodePrefix: type,
+    className: '',
+    type,
+    title: key,
+    prefix: type,
+    x,
+    y: 100,
+    w: 180,
+    h: 80,
+    srcRange: { from: 0, to: 1 },
+    highlighted: false,
+    selected: false,
+    related: false
+  };
+}
+
+function sliceScene(): DiagramSceneModel {
+  return {
+    nodes: [
+      diagramNode('book-room', 'cmd', 100, { 'room-number': 101, guest: '<missing>' }),
+      diagramNode('room-booked', 'evt', 400),
+      { ...diagramNode('hidden-node', 'rm', 700), hidden: true }
+    ],
+    edges: [{
+      renderKey: 'e1',
+      key: 'book-room->room-booked#0',
+      edgeKey: 'book-room->room-booked#0',
+      from: 'book-room',
+      to: 'room-booked',
+      path: 'M280,140 L400,140',
+      d: 'M280,140 L400,140',
+      label: 'ok & done',
+      points: [],
+      draggableSegmentIndices: [],
+      labelX: 340,
+      labelY: 130,
+      hovered: false,
+      related: false
+    }],
+    crossSliceLinks: [],
+    sharedNodeAnchors: [],
+    lanes: [{ key: 'lane-2', row: 2, bandTop: 80, bandHeight: 120, y: 100, height: 80, streamLabel: 'rooms', laneLabel: '', labelTop: 84, labelLeft: 8 }],
+    boundaries: [{ key: 'b1', left: 320, x: 320, top: 20, height: 300 }],
+    scenarios: [{
+      name: 'books a room',
+      srcRange: { from: 0, to: 1 },
+      given: [],
+      when: { key: 'book-room', type: 'cmd', title: 'book-room', prefix: 'cmd', srcRange: { from: 0, to: 1 } },
+      then: [{ key: 'room-booked', type: 'evt', title: 'room-booked', prefix: 'evt', srcRange: { from: 0, to: 1 } }]
+    }],
+    worldWidth: 800,
+    worldHeight: 300,
+    title: { text: 'Room Booking', top: 10, left: 100 },
+    sliceFrames: [],
+    viewport: { width: 880, height: 380, offsetX: 40, offsetY: 40 }
+  };
+}
+
+describe('exportSceneToSvg', () => {
+  it('renders a standalone svg of the visible scene with inlined theme styles', () => {
+    const { markup, width, height } = exportSceneToSvg(sliceScene(), { theme: 'dark' });
+
+    expect(markup.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(markup).not.toContain('var(--');
+    expect(markup).toContain('.node.cmd .node-box{fill:#0d1d3d;stroke:#1e408a}');
+    expect(markup).toContain('<rect class="canvas-background"');
+    expect(markup).toContain('<g transform="translate(40 40)">');
+    expect(markup).toContain('>book-room</text>');
+    expect(markup).toContain('>room-booked</text>');
+    expect(markup).not.toContain('hidden-node');
+    expect(markup).toContain('>ROOM BOOKING</text>');
+    expect(markup).toContain('>ROOMS</text>');
+    expect(markup).toContain('class="slice-divider"');
+    expect(markup).toContain('<path class="arrow-path" d="M280,140 L400,140" marker-end="url(#arr)"/>');
+    expect(markup).toContain('>[ok &amp; done]</text>');
+    expect(markup).toContain('<tspan class="node-field-key">room-number: </tspan><tspan class="node-field-val">101</tspan>');
+    expect(markup).toContain('<text class="node-field-line missing"');
+    expect(markup).toContain('>books a room</text>');
+    expect(width).toBe(880);
+    expect(height).toBeGreaterThan(380);
+  });
+
+  it('switches palettes, drops the background and hides data on request', () => {
+    const { markup } = exportSceneToSvg(sliceScene(), { theme: 'light', transparentBackground: true, hideData: true });
+
+    expect(markup).toContain('data-theme="light"');
+    expect(markup).toContain('.node.cmd .node-box{fill:#e9f0ff;stroke:#9cb9f9}');
+    expect(markup).not.toContain('<rect class="canvas-background"');
+    expect(markup).not.toContain('<text class="node-field-line');
+  });
+
+  it('renders overview slice frames and dashed cross-slice connectors', () => {
+    const scene: DiagramSceneModel = {
+      ...sliceScene(),
+      title: null,
+      scenarios: [],
+      boundaries: [],
+      crossSliceLinks: [{
+        key: 'link',
+        logicalRef: 'evt:room-booked',
+        renderMode: 'dashed-connector',
+        fromNodeKey: 'a',
+        toNodeKey: 'b',
+        points: [{ x: 280, y: 140 }, { x: 400, y: 140 }]
+      }],
+      sliceFrames: [{ key: 'frame', label: 'Booking', left: 60, top: 40, width: 400, height: 200, labelLeft: 80, labelTop: 50 }]
+    };
+    const { markup } = exportSceneToSvg(scene, { theme: 'dark' });
+
+    expect(markup).toContain('<rect class="overview-slice-frame" x="60" y="40" width="400" height="200" rx="18"/>');
+    expect(markup).toContain('>BOOKING</text>');
+    expect(markup).toContain('<path class="overview-dashed-connector"');
+  });
+});
+
+describe('diagramImageFileName', () => {
+  it('slugs the slice or project name per mode', () => {
+    expect(diagramImageFileName('Room Booking', 'slice', 'svg')).toBe('room-booking.svg');
+    expect(diagramImageFileName('Hotel', 'overview', 'png')).toBe('hotel-overview.png');
+    expect(diagramImageFileName('  ', 'slice', 'png')).toBe('slice.png');
+  });
+});
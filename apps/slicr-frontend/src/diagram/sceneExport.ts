@@ -0,0 +1,480 @@
+import type { DiagramMode, ThemeMode } from '../application/appViewModel';
+import { MISSING_DATA_VALUE } from '../domain/dataMapping';
+import { routeRoundedPolyline } from '../domain/diagramRouting';
+import { formatNodeData } from '../domain/formatNodeData';
+import type { VisualNode } from '../domain/types';
+import type { DiagramSceneModel, DiagramScenario, DiagramScenarioNode } from './rendererContract';
+
+// Standalone SVG/PNG export of a scene. Geometry mirrors domSvgRenderer + styles.css so exported
+// images line up with what the canvas shows; theme variables are resolved into an inline <style>.
+
+export type DiagramImageFormat = 'svg' | 'png';
+
+export type DiagramImageOptions = {
+  theme: ThemeMode;
+  transparentBackground?: boolean;
+  hideData?: boolean;
+};
+
+export type DiagramSvgImage = {
+  markup: string;
+  width: number;
+  height: number;
+};
+
+type ThemePalette = {
+  bg: string;
+  surface: string;
+  border: string;
+  text: string;
+  muted: string;
+  arrow: string;
+  laneDivider: string;
+  sliceDivider: string;
+  fieldsDivider: string;
+  fieldKey: string;
+  fieldValue: string;
+  fieldMissing: string;
+  nodes: Record<string, { color: string; bg: string; border: string }>;
+};
+
+const THEME_PALETTES: Record<ThemeMode, ThemePalette> = {
+  dark: {
+    bg: '#0f0f13',
+    surface: '#17171f',
+    border: '#2a2a38',
+    text: '#e8e8f0',
+    muted: '#6b6b80',
+    arrow: '#8c8c9f',
+    laneDivider: '#35354b',
+    sliceDivider: '#7f7fa4',
+    fieldsDivider: 'rgb(255 255 255 / 10%)',
+    fieldKey: 'rgb(255 255 255 / 45%)',
+    fieldValue: 'rgb(255 255 255 / 90%)',
+    fieldMissing: '#f87171',
+    nodes: {
+      rm: { color: '#22c55e', bg: '#0a1f10', border: '#185c2e' },
+      cmd: { color: '#3b82f6', bg: '#0d1d3d', border: '#1e408a' },
+      qry: { color: '#f472b6', bg: '#2a0f1f', border: '#7a2151' },
+      evt: { color: '#f97316', bg: '#271100', border: '#7a3800' },
+      exc: { color: '#ef4444', bg: '#2a0f0f', border: '#7a1f1f' },
+      ui: { color: '#f3f4f6', bg: '#374151', border: '#f9fafb' },
+      aut: { color: '#a78bfa', bg: '#1c1a2e', border: '#3c3660' },
+      ext: { color: '#facc15', bg: '#2a2205', border: '#7a6310' },
+      generic: { color: '#9ca3af', bg: '#1f232b', border: '#3b4250' }
+    }
+  },
+  light: {
+    bg: '#f5f7fb',
+    surface: '#ffffff',
+    border: '#d7dcea',
+    text: '#101828',
+    muted: '#5d667a',
+    arrow: '#5f6b80',
+    laneDivider: '#bec8de',
+    sliceDivider: '#7b8aad',
+    fieldsDivider: 'rgb(2 6 23 / 10%)',
+    fieldKey: 'rgb(2 6 23 / 50%)',
+    fieldValue: 'rgb(2 6 23 / 85%)',
+    fieldMissing: '#dc2626',
+    nodes: {
+      rm: { color: '#15803d', bg: '#e8f5ec', border: '#8dcfa5' },
+      cmd: { color: '#2563eb', bg: '#e9f0ff', border: '#9cb9f9' },
+      qry: { color: '#be185d', bg: '#fdeef5', border: '#f3b0cf' },
+      evt: { color: '#c2410c', bg: '#fff1e8', border: '#f5b896' },
+      exc: { color: '#dc2626', bg: '#feecec', border: '#f2b4b4' },
+      ui: { color: '#374151', bg: '#f8fafc', border: '#111827' },
+      aut: { color: '#6d28d9', bg: '#f2ecff', border: '#cdb9f8' },
+      ext: { color: '#a16207', bg: '#fff7d6', border: '#f3d17a' },
+      generic: { color: '#4b5563', bg: '#eef1f5', border: '#cfd6df' }
+    }
+  }
+};
+
+const FONT_FAMILY = "'JetBrains Mono', monospace";
+const CHAR_WIDTH_RATIO = 0.6;
+const NODE_PADDING_TOP = 8;
+const NODE_PADDING_BOTTOM = 10;
+const NODE_PADDING_X = 14;
+const SCENARIO_NODE_PADDING_X = 10;
+const HEADER_LINE_HEIGHT = 15;
+const FIELDS_TOP_GAP = 9;
+const FIELD_LINE_HEIGHT = 16;
+const SCENARIO_AREA_TOP_GAP = 24;
+const SCENARIO_BOX_GAP = 16;
+const SCENARIO_BOX_PADDING_X = 14;
+const SCENARIO_BOX_PADDING_Y = 12;
+const SCENARIO_CARD_MIN_WIDTH = 180;
+const FALLBACK_CANVAS_MARGIN = 40;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function textWidth(text: string, fontSize: number): number {
+  return text.length * fontSize * CHAR_WIDTH_RATIO;
+}
+
+function wrapText(text: string, maxWidth: number, fontSize: number): string[] {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (fontSize * CHAR_WIDTH_RATIO)));
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+    if (current) {
+      lines.push(current);
+    }
+    let rest = word;
+    while (rest.length > maxChars) {
+      lines.push(rest.slice(0, maxChars));
+      rest = rest.slice(maxChars);
+    }
+    current = rest;
+  }
+  if (current || lines.length === 0) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+function buildStyle(palette: ThemePalette): string {
+  const nodeRules = Object.entries(palette.nodes).map(([type, colors]) => [
+    `.node.${type} .node-box{fill:${colors.bg};stroke:${colors.border}}`,
+    `.node.${type} text{fill:${colors.color}}`
+  ].join(''));
+  return [
+    `svg{font-family:${FONT_FAMILY}}`,
+    `.canvas-background{fill:${palette.bg}}`,
+    `.lane-band{stroke:${palette.laneDivider};stroke-width:1}`,
+    `.lane-header{font-size:11px;font-weight:700;fill:${palette.text}}`,
+    `.lane-stream-label{font-size:10px;font-weight:700;letter-spacing:0.08em;fill:${palette.muted};opacity:0.55}`,
+    `.slice-divider{stroke:${palette.sliceDivider};stroke-width:2;stroke-dasharray:6 4;opacity:0.95}`,
+    `.slice-title{font-size:11px;font-weight:700;letter-spacing:0.1em;fill:${palette.muted};opacity:0.6}`,
+    `.overview-slice-frame{fill:none;stroke:${palette.border};stroke-width:1}`,
+    '.node-box{stroke-width:1}',
+    '.node text{font-size:12px;font-weight:600}',
+    '.node .node-prefix{font-size:10px;font-weight:400;opacity:0.5;letter-spacing:0.04em}',
+    `.node-fields-divider{stroke:${palette.fieldsDivider};stroke-width:1}`,
+    '.node .node-field-line{font-size:10px;font-weight:400}',
+    `.node .node-field-key{fill:${palette.fieldKey}}`,
+    `.node .node-field-val{fill:${palette.fieldValue};font-weight:500}`,
+    `.node .node-field-line.missing tspan{fill:${palette.fieldMissing}}`,
+    ...nodeRules,
+    `.arrow-path{fill:none;stroke:${palette.arrow};stroke-width:1.5}`,
+    `.arrow-head{fill:${palette.arrow}}`,
+    `.arrow-label{font-size:10px;fill:${palette.muted}}`,
+    `.overview-dashed-connector{fill:none;stroke:${palette.arrow};stroke-width:1.5;stroke-dasharray:8 6;opacity:0.5}`,
+    `.scenario-box{fill:${palette.surface};stroke:${palette.border};stroke-width:1}`,
+    `.scenario-title{font-size:12px;font-weight:700;fill:${palette.text}}`,
+    `.scenario-section-label{font-size:10px;font-weight:700;letter-spacing:0.08em;fill:${palette.muted}}`
+  ].join('\n');
+}
+
+type NodeCardInput = {
+  node: VisualNode;
+  prefix: string;
+  type: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  paddingX: number;
+  hideData: boolean;
+};
+
+function nodeFieldLines(node: VisualNode, hideData: boolean): string[] {
+  if (!node.data || hideData) {
+    return [];
+  }
+  return formatNodeData(node.data).flatMap((field) => field.text.split('\n'));
+}
+
+function nodeHeaderLines(title: string, prefix: string, width: number, paddingX: number): string[] {
+  const prefixWidth = prefix ? textWidth(`${prefix}:`, 10) + 8 : 0;
+  return wrapText(title, width - paddingX * 2 - prefixWidth, 12);
+}
+
+function nodeCardHeight(title: string, prefix: string, node: VisualNode, width: number, paddingX: number, hideData: boolean): number {
+  const headerHeight = nodeHeaderLines(title, prefix, width, paddingX).length * HEADER_LINE_HEIGHT;
+  const fieldLines = nodeFieldLines(node, hideData);
+  const fieldsHeight = fieldLines.length > 0 ? FIELDS_TOP_GAP + fieldLines.length * FIELD_LINE_HEIGHT : 0;
+  return NODE_PADDING_TOP + headerHeight + fieldsHeight + NODE_PADDING_BOTTOM;
+}
+
+function renderFieldLine(line: string, x: number, y: number): string {
+  const match = line.match(/^(\s*(?:-\s*)?)([^:\n]+):(.*)$/);
+  if (!match) {
+    return `<text class="node-field-line" xml:space="preserve" x="${num(x)}" y="${num(y)}"><tspan class="node-field-val">${escapeXml(line)}</tspan></text>`;
+  }
+  const value = match[3].startsWith(' ') ? match[3].slice(1) : match[3];
+  const missing = value.trim() === MISSING_DATA_VALUE;
+  const valuePart = value.length > 0 ? `<tspan class="node-field-val">${escapeXml(value)}</tspan>` : '';
+  return `<text class="node-field-line${missing ? ' missing' : ''}" xml:space="preserve" x="${num(x)}" y="${num(y)}">`
+    + `<tspan class="node-field-key">${escapeXml(`${match[1]}${match[2]}: `)}</tspan>${valuePart}</text>`;
+}
+
+function renderNodeCard(input: NodeCardInput, clipId: string): string {
+  const title = input.node.alias ?? input.node.name;
+  const headerLines = nodeHeaderLines(title, input.prefix, input.w, input.paddingX);
+  const prefixWidth = input.prefix ? textWidth(`${input.prefix}:`, 10) + 8 : 0;
+  const parts: string[] = [
+    `<clipPath id="${clipId}"><rect width="${num(input.w)}" height="${num(input.h)}" rx="6"/></clipPath>`,
+    `<rect class="node-box" x="0.5" y="0.5" width="${num(input.w - 1)}" height="${num(input.h - 1)}" rx="6"/>`,
+    `<g clip-path="url(#${clipId})">`
+  ];
+  if (input.prefix) {
+    parts.push(`<text class="node-prefix" x="${num(input.paddingX)}" y="${num(NODE_PADDING_TOP + 11)}">${escapeXml(`${input.prefix}:`)}</text>`);
+  }
+  headerLines.forEach((line, index) => {
+    const y = NODE_PADDING_TOP + 11.5 + index * HEADER_LINE_HEIGHT;
+    parts.push(`<text class="node-title" x="${num(input.paddingX + prefixWidth)}" y="${num(y)}">${escapeXml(line)}</text>`);
+  });
+
+  const fieldLines = nodeFieldLines(input.node, input.hideData);
+  if (fieldLines.length > 0) {
+    const dividerY = NODE_PADDING_TOP + headerLines.length * HEADER_LINE_HEIGHT + 5;
+    parts.push(`<line class="node-fields-divider" x1="${num(input.paddingX)}" x2="${num(input.w - input.paddingX)}" y1="${num(dividerY)}" y2="${num(dividerY)}"/>`);
+    fieldLines.forEach((line, index) => {
+      parts.push(renderFieldLine(line, input.paddingX, dividerY + 4 + index * FIELD_LINE_HEIGHT + 11.5));
+    });
+  }
+  parts.push('</g>');
+  const type = input.type || 'rm';
+  return `<g class="node ${escapeXml(type)}" transform="translate(${num(input.x)} ${num(input.y)})">${parts.join('')}</g>`;
+}
+
+function scenarioNode(entry: DiagramScenarioNode): VisualNode {
+  return entry.node ?? {
+    type: entry.type,
+    name: entry.title,
+    alias: null,
+    stream: null,
+    key: entry.key,
+    data: null,
+    srcRange: entry.srcRange
+  };
+}
+
+type ScenarioLayout = {
+  markup: string;
+  width: number;
+  height: number;
+};
+
+function layoutScenarioBox(scenario: DiagramScenario, left: number, top: number, hideData: boolean, clipPrefix: string): ScenarioLayout {
+  const sections: Array<{ label: string; entries: DiagramScenarioNode[] }> = [
+    { label: 'GIVEN', entries: scenario.given },
+    { label: 'WHEN', entries: scenario.when ? [scenario.when] : [] },
+    { label: 'THEN', entries: scenario.then }
+  ];
+  const allEntries = sections.flatMap((section) => section.entries);
+  const cardWidth = Math.max(
+    SCENARIO_CARD_MIN_WIDTH,
+    textWidth(scenario.name, 12),
+    ...allEntries.map((entry) => {
+      const node = scenarioNode(entry);
+      const prefix = entry.nodePrefix ?? entry.prefix;
+      const headerWidth = textWidth(`${prefix}: ${node.alias ?? node.name}`, 12);
+      const fieldWidth = Math.max(0, ...nodeFieldLines(node, hideData).map((line) => textWidth(line, 10)));
+      return Math.max(headerWidth, fieldWidth) + SCENARIO_NODE_PADDING_X * 2 + 2;
+    })
+  );
+
+  const innerLeft = left + SCENARIO_BOX_PADDING_X;
+  const parts: string[] = [];
+  let cursor = top + SCENARIO_BOX_PADDING_Y;
+  parts.push(`<text class="scenario-title" x="${num(innerLeft)}" y="${num(cursor + 12)}">${escapeXml(scenario.name)}</text>`);
+  cursor += 16 + 10;
+
+  sections.forEach((section, sectionIndex) => {
+    cursor += sectionIndex === 0 ? 0 : 8;
+    parts.push(`<text class="scenario-section-label" x="${num(innerLeft)}" y="${num(cursor + 10)}">${section.label}</text>`);
+    cursor += 14 + 4;
+    section.entries.forEach((entry, entryIndex) => {
+      const node = scenarioNode(entry);
+      const prefix = entry.nodePrefix ?? entry.prefix;
+      const height = nodeCardHeight(node.alias ?? node.name, prefix, node, cardWidth, SCENARIO_NODE_PADDING_X, hideData);
+      parts.push(renderNodeCard({
+        node,
+        prefix,
+        type: node.type,
+        x: innerLeft,
+        y: cursor,
+        w: cardWidth,
+        h: height,
+        paddingX: SCENARIO_NODE_PADDING_X,
+        hideData
+      }, `${clipPrefix}-${sectionIndex}-${entryIndex}`));
+      cursor += height + 8;
+    });
+  });
+
+  const width = cardWidth + SCENARIO_BOX_PADDING_X * 2;
+  const height = cursor - top + SCENARIO_BOX_PADDING_Y;
+  return {
+    markup: `<g class="scenario-box-group"><rect class="scenario-box" x="${num(left)}" y="${num(top)}" width="${num(width)}" height="${num(height)}" rx="10"/>${parts.join('')}</g>`,
+    width,
+    height
+  };
+}
+
+function layoutScenarioRow(scenarios: DiagramScenario[], left: number, top: number, hideData: boolean, clipPrefix: string) {
+  const boxes: string[] = [];
+  let cursor = left;
+  let bottom = top;
+  scenarios.forEach((scenario, index) => {
+    const box = layoutScenarioBox(scenario, cursor, top, hideData, `${clipPrefix}-${index}`);
+    boxes.push(box.markup);
+    cursor += box.width + SCENARIO_BOX_GAP;
+    bottom = Math.max(bottom, top + box.height);
+  });
+  return { markup: boxes.join(''), right: cursor - SCENARIO_BOX_GAP, bottom };
+}
+
+export function exportSceneToSvg(scene: DiagramSceneModel, options: DiagramImageOptions): DiagramSvgImage {
+  const palette = THEME_PALETTES[options.theme];
+  const hideData = options.hideData ?? false;
+  const offsetX = scene.viewport?.offsetX ?? FALLBACK_CANVAS_MARGIN;
+  const offsetY = scene.viewport?.offsetY ?? FALLBACK_CANVAS_MARGIN;
+  let width = scene.viewport?.width ?? scene.worldWidth + FALLBACK_CANVAS_MARGIN * 2;
+  let height = scene.viewport?.height ?? scene.worldHeight + FALLBACK_CANVAS_MARGIN * 2;
+  const world: string[] = [];
+
+  for (const lane of scene.lanes) {
+    world.push(`<line class="lane-band" x1="${num(-offsetX)}" x2="${num(width - offsetX)}" y1="${num(lane.bandTop)}" y2="${num(lane.bandTop)}"/>`);
+    if (lane.laneLabel) {
+      world.push(`<text class="lane-header" x="${num(lane.labelLeft)}" y="${num(lane.labelTop + 10)}">${escapeXml(lane.laneLabel)}</text>`);
+    }
+    if (lane.streamLabel) {
+      world.push(`<text class="lane-stream-label" x="${num(lane.labelLeft)}" y="${num(lane.labelTop + 10)}">${escapeXml(lane.streamLabel.toUpperCase())}</text>`);
+    }
+  }
+
+  for (const boundary of scene.boundaries) {
+    world.push(`<line class="slice-divider" x1="${num(boundary.left + 1)}" x2="${num(boundary.left + 1)}" y1="${num(boundary.top)}" y2="${num(boundary.top + boundary.height)}"/>`);
+  }
+
+  if (scene.title) {
+    world.push(`<text class="slice-title" x="${num(scene.title.left)}" y="${num(scene.title.top + 11)}">${escapeXml(scene.title.text.toUpperCase())}</text>`);
+  }
+
+  for (const frame of scene.sliceFrames) {
+    world.push(`<rect class="overview-slice-frame" x="${num(frame.left)}" y="${num(frame.top)}" width="${num(frame.width)}" height="${num(frame.height)}" rx="18"/>`);
+    world.push(`<text class="slice-title" x="${num(frame.labelLeft)}" y="${num(frame.labelTop + 11)}">${escapeXml(frame.label.toUpperCase())}</text>`);
+  }
+
+  scene.nodes.filter((entry) => !entry.hidden).forEach((entry, index) => {
+    world.push(renderNodeCard({
+      node: entry.node,
+      prefix: entry.nodePrefix,
+      type: entry.node.type,
+      x: entry.x,
+      y: entry.y,
+      w: entry.w,
+      h: entry.h,
+      paddingX: NODE_PADDING_X,
+      hideData
+    }, `node-clip-${index}`));
+  });
+
+  world.push('<defs><marker id="arr" markerWidth="8" markerHeight="8" refX="7" refY="3" orient="auto"><path class="arrow-head" d="M0,0 L0,6 L8,3 z"/></marker></defs>');
+  for (const link of scene.crossSliceLinks) {
+    if (link.renderMode === 'dashed-connector' && link.points && link.points.length >= 2) {
+      world.push(`<path class="overview-dashed-connector" d="${escapeXml(routeRoundedPolyline(link.points, 5))}"/>`);
+    }
+  }
+  for (const edge of scene.edges) {
+    world.push(`<path class="arrow-path" d="${escapeXml(edge.path)}" marker-end="url(#arr)"/>`);
+    if (edge.label) {
+      world.push(`<text class="arrow-label" text-anchor="middle" x="${num(edge.labelX)}" y="${num(edge.labelY)}">[${escapeXml(edge.label)}]</text>`);
+    }
+  }
+
+  const scenarioRows = scene.scenarioGroups && scene.scenarioGroups.length > 0
+    ? scene.scenarioGroups.map((group) => ({ key: group.key, scenarios: group.scenarios, left: group.left, top: group.top }))
+    : scene.scenarios.length > 0
+      ? [{
+          key: 'scenarios',
+          scenarios: scene.scenarios,
+          left: scene.nodes.length === 0 ? 0 : Math.min(...scene.nodes.map((node) => node.x)),
+          top: scene.worldHeight + SCENARIO_AREA_TOP_GAP
+        }]
+      : [];
+  scenarioRows.forEach((row, index) => {
+    const laidOut = layoutScenarioRow(row.scenarios, row.left, row.top, hideData, `scenario-clip-${index}`);
+    world.push(laidOut.markup);
+    width = Math.max(width, laidOut.right + offsetX + FALLBACK_CANVAS_MARGIN);
+    height = Math.max(height, laidOut.bottom + offsetY + FALLBACK_CANVAS_MARGIN);
+  });
+
+  const roundedWidth = Math.ceil(width);
+  const roundedHeight = Math.ceil(height);
+  const background = options.transparentBackground
+    ? ''
+    : `<rect class="canvas-background" width="${roundedWidth}" height="${roundedHeight}"/>`;
+  const markup = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${roundedWidth}" height="${roundedHeight}" viewBox="0 0 ${roundedWidth} ${roundedHeight}" data-theme="${options.theme}">`,
+    `<style>\n${buildStyle(palette)}\n</style>`,
+    background,
+    `<g transform="translate(${num(offsetX)} ${num(offsetY)})">`,
+    ...world,
+    '</g>',
+    '</svg>',
+    ''
+  ].filter(Boolean).join('\n');
+
+  return { markup, width: roundedWidth, height: roundedHeight };
+}
+
+export function svgDataUrl(markup: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+}
+
+export function rasterizeSvgToPng(image: DiagramSvgImage, scale: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const element = new Image();
+    element.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(image.width * scale));
+      canvas.height = Math.max(1, Math.round(image.height * scale));
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas 2D context is not available.'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(element, 0, 0, image.width, image.height);
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('PNG encoding failed.'));
+        }
+      }, 'image/png');
+    };
+    element.onerror = () => reject(new Error('The SVG could not be rasterized.'));
+    element.src = svgDataUrl(image.markup);
+  });
+}
+
+export function diagramImageFileName(name: string, mode: DiagramMode, format: DiagramImageFormat): string {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const base = slug || (mode === 'overview' ? 'project' : 'slice');
+  return `${base}${mode === 'overview' ? '-overview' : ''}.${format}`;
+}
@@ -120,6 +120,25 @@ describe('buildSceneModel', () => {
     expect(edge?.draggableSegmentIndices).toEqual([0, 1]);
   });
 
+  it('marks every node of a multi-selection as selected', () => {
+    const activeLayout = baseLayout();
+    const scene = buildSceneModel({
+      parsed: baseParsed(),
+      activeLayout,
+      displayedPos: activeLayout.pos,
+      renderedEdges: baseRenderedEdges(),
+      engineLayout: null,
+      activeNodeKeyFromEditor: null,
+      selectedNodeKey: 'b',
+      selectedNodeKeys: ['a', 'b'],
+      hoveredEdgeKey: null,
+      hoveredTraceNodeKey: null
+    });
+
+    expect(scene?.nodes.filter((entry) => entry.selected).map((entry) => entry.key)).toEqual(['a', 'b']);
+    expect(scene?.nodes.find((entry) => entry.key === 'a')?.className).toContain('selected');
+  });
+
   it('emits empty overview cross-slice primitive arrays when none are derived', () => {
     const parsed = baseParsed();
     const activeLayout = baseLayout();
@@ -173,10 +192,43 @@ describe('buildSceneModel', () => {
     expect(scene).not.toBeNull();
     expect(scene?.lanes.map((lane) => lane.row)).toEqual([2, 4]);
     expect(scene?.lanes.map((lane) => lane.streamLabel)).toEqual(['orders', 'payments']);
+    expect(scene?.lanes.map((lane) => lane.laneLabel)).toEqual(['', '']);
     expect(scene?.lanes[0].y).toBe(200);
     expect(scene?.lanes[1].y).toBe(360);
   });
 
+  it('labels named lanes from lane metadata', () => {
+    const parsed = baseParsed();
+    const activeLayout = {
+      ...baseLayout(),
+      usedRows: [],
+      rowY: {},
+      rowStreamLabels: {}
+    };
+
+    const scene = buildSceneModel({
+      parsed,
+      activeLayout,
+      displayedPos: {
+        a: { x: 100, y: 80, w: 180, h: 90 },
+        b: { x: 420, y: 240, w: 180, h: 90 }
+      },
+      renderedEdges: baseRenderedEdges(),
+      engineLayout: {
+        layout: activeLayout,
+        laneByKey: new Map<string, number>([['a', 0], ['b', 1]]),
+        rowStreamLabels: {},
+        rowLaneLabels: { 0: 'Customer' }
+      },
+      activeNodeKeyFromEditor: null,
+      selectedNodeKey: null,
+      hoveredEdgeKey: null,
+      hoveredTraceNodeKey: null
+    });
+
+    expect(scene?.lanes.map((lane) => [lane.row, lane.laneLabel])).toEqual([[0, 'Customer'], [1, '']]);
+  });
+
   it('maps parsed scenarios into grouped given/when/then scene data in source order', () => {
     const parsed = baseParsed();
     parsed.scenarios = [
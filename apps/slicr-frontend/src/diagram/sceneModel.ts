@@ -1,5 +1,6 @@
 import {
   routeDiagramEdge,
+  DIAGRAM_ENGINE_LABELS,
   DiagramEngineLayout,
   OverviewNodeMetadata,
   OverviewScenarioMetadata,
@@ -11,6 +12,7 @@ import {routeRoundedPolyline} from '../domain/diagramRouting';
 import {PAD_X, rowFor} from '../domain/layoutGraph';
 import type {
   DiagramBoundary,
+  DiagramCanvasWarning,
   DiagramEdge,
   DiagramLane,
   DiagramNode,
@@ -26,6 +28,7 @@ import type {
 const TYPE_LABEL: Record<string, string> = {
   rm: 'rm',
   cmd: 'cmd',
+  qry: 'qry',
   evt: 'evt',
   exc: 'exc',
   ui: 'ui',
@@ -54,6 +57,7 @@ export type BuildSceneModelInput = {
   engineLayout: DiagramEngineLayout | null;
   activeNodeKeyFromEditor: string | null;
   selectedNodeKey: string | null;
+  selectedNodeKeys?: string[];
   hoveredEdgeKey: string | null;
   hoveredTraceNodeKey: string | null;
   overviewNodeMetadataByKey?: Map<string, OverviewNodeMetadata>;
@@ -205,7 +209,7 @@ function buildLanes(
   visibleNodeKeys: Set<string>,
   labelLeft: number
 ): DiagramLane[] {
-  const rowBuckets = new Map<number, { minY: number; streamLabel: string }>();
+  const rowBuckets = new Map<number, { minY: number; streamLabel: string; laneLabel: string }>();
   const laneByKey = engineLayout?.laneByKey ?? new Map<string, number>();
   for (const node of parsed.nodes.values()) {
     if (!visibleNodeKeys.has(node.key)) {
@@ -218,15 +222,18 @@ function buildLanes(
     const row = laneByKey.get(node.key) ?? rowFor(node.type);
     const existing = rowBuckets.get(row);
     const streamLabel = engineLayout?.rowStreamLabels[row] ?? existing?.streamLabel ?? '';
+    const laneLabel = engineLayout?.rowLaneLabels?.[row] ?? existing?.laneLabel ?? '';
     rowBuckets.set(row, {
       minY: existing ? Math.min(existing.minY, position.y) : position.y,
-      streamLabel
+      streamLabel,
+      laneLabel
     });
   }
 
   const usedRows = [...rowBuckets.keys()].sort((a, b) => a - b);
   const rowY: Record<number, number> = {};
   const rowStreamLabels: Record<number, string> = {};
+  const rowLaneLabels: Record<number, string> = {};
   for (const row of usedRows) {
     const bucket = rowBuckets.get(row);
     if (!bucket) {
@@ -236,6 +243,9 @@ function buildLanes(
     if (bucket.streamLabel) {
       rowStreamLabels[row] = bucket.streamLabel;
     }
+    if (bucket.laneLabel) {
+      rowLaneLabels[row] = bucket.laneLabel;
+    }
   }
 
   return usedRows.map((row, index) => {
@@ -245,6 +255,7 @@ function buildLanes(
         ? rowY[usedRows[index + 1]] - rowY[row]
         : activeLayout.h - bandTop;
     const streamLabel = rowStreamLabels[row] ?? '';
+    const laneLabel = rowLaneLabels[row] ?? '';
     return {
       key: `lane-${row}`,
       row,
@@ -253,6 +264,7 @@ function buildLanes(
       y: rowY[row],
       height: bandHeight,
       streamLabel,
+      laneLabel,
       labelTop: bandTop + 8,
       labelLeft
     };
@@ -463,6 +475,13 @@ function buildAdjacentSharedNodeLookup(overviewCrossSliceLinks: OverviewCrossSli
   };
 }
 
+function buildCanvasWarnings(engineLayout: DiagramEngineLayout | null): DiagramCanvasWarning[] | undefined {
+  return engineLayout?.warnings?.map((warning) => ({
+    key: `${warning.engine}:${warning.type}`,
+    message: `${DIAGRAM_ENGINE_LABELS[warning.engine]} could not lay out this diagram: ${warning.message} Showing a provisional layout.`
+  }));
+}
+
 export function buildSceneModel(input: BuildSceneModelInput): DiagramSceneModel | null {
   const {
     parsed,
@@ -472,6 +491,7 @@ export function buildSceneModel(input: BuildSceneModelInput): DiagramSceneModel
     engineLayout,
     activeNodeKeyFromEditor,
     selectedNodeKey,
+    selectedNodeKeys = [],
     hoveredEdgeKey,
     hoveredTraceNodeKey,
     overviewNodeMetadataByKey,
@@ -538,7 +558,7 @@ export function buildSceneModel(input: BuildSceneModelInput): DiagramSceneModel
         return [];
       }
       const isHighlighted = activeNodeKeyFromEditor === node.key;
-      const isSelected = selectedNodeKey === node.key;
+      const isSelected = selectedNodeKey === node.key || selectedNodeKeys.includes(node.key);
       const isRelated = hoveredEdgeNodeKeys.has(node.key);
       const isTraceHovered = hoveredTraceNodeKey === node.key;
       const className = [
@@ -718,6 +738,7 @@ export function buildSceneModel(input: BuildSceneModelInput): DiagramSceneModel
     worldHeight: activeLayout.h,
     title,
     sliceFrames,
-    viewport
+    viewport,
+    warnings: buildCanvasWarnings(engineLayout)
   };
 }
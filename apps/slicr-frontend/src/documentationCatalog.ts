@@ -27,6 +27,19 @@ rm:available-rooms "Available Rooms"
 ui:booking-form "Booking Form"
 aut:process-booking "Process Booking"
 cmd:book-room "Book Room"`
+      },
+      {
+        id: 'comments',
+        title: 'Comments',
+        description: 'Annotate design decisions with # or // comments on their own line or after a statement.',
+        dsl: `# Booking starts from the room list
+ui:room-list "Room List"
+data:
+  room-number: 101 # only open rooms are listed
+
+cmd:book-room <- ui:room-list // validated server-side
+uses:
+  room-number`
       },
       {
         id: 'more-node-types',
@@ -35,11 +48,31 @@ cmd:book-room "Book Room"`
         dsl: `exc:room-conflict "Room Conflict"
 ext:payment-gateway "Payment Gateway"
 generic-node "Generic Node"`
+      },
+      {
+        id: 'query-nodes',
+        title: 'Query Nodes',
+        description: 'Model reads with qry nodes, the counterpart of cmd for writes. Queries read from read models and can map data with uses.',
+        dsl: `rm:available-rooms "Available Rooms"
+data:
+  rooms:
+    - 101
+    - 202
+
+qry:find-available-rooms "Find Available Rooms"
+<- rm:available-rooms
+uses:
+  rooms
+
+ui:room-search "Room Search"
+<- qry:find-available-rooms
+uses:
+  rooms`
       },
       {
         id: 'aliases-and-versions',
         title: 'Aliases and versions',
-        description: 'Use quoted aliases for display names and @version suffixes for evolving nodes.',
+        description: 'Use quoted aliases for display names and @version suffixes for evolving nodes. Select a versioned node and open the Versions tab to see how its data changes and which events cause each new version.',
         dsl: `evt:room-opened "Room Opened"
 data:
   room-number: 101
@@ -93,6 +126,19 @@ rm:available-rooms
 
 rm:pending-bookings
   <- evt:room-booked`
+      },
+      {
+        id: 'chained-flows',
+        title: 'Chained flows (a -> b -> c)',
+        description:
+          'Forward chains create every node they mention and link them in order. Blocks below a chain belong to its first node; declare a node on its own line to give it data.',
+        dsl: `ui:booking-form -> cmd:book-room -> evt:room-booked -> rm:bookings
+data:
+  room-number: 101
+
+cmd:book-room
+uses:
+  room-number`
       }
     ]
   },
@@ -139,7 +185,7 @@ uses:
   {
     id: 'layout',
     title: 'Layout controls',
-    description: 'Use boundaries and streams to influence visual grouping in the rendered diagram.',
+    description: 'Use boundaries, streams and lanes to influence visual grouping in the rendered diagram.',
     features: [
       {
         id: 'slice-dividers',
@@ -169,6 +215,72 @@ rm:ops-dashboard
   <- evt:room-booked
   <- evt:room-cleaned
 `
+      },
+      {
+        id: 'named-lanes',
+        title: 'Named lanes',
+        description: 'Put any node in a named swimlane, such as an actor or persona. A lanes: line sets the order of the lanes from top to bottom.',
+        dsl: `lanes: Customer, "Back Office"
+
+ui:checkout-form
+lane: Customer
+
+cmd:place-order <- ui:checkout-form
+evt:order-placed <- cmd:place-order
+
+ui:order-queue <- evt:order-placed
+lane: "Back Office"
+`
+      }
+    ]
+  },
+  {
+    id: 'model-rules',
+    title: 'Model rules',
+    description:
+      'Event Modeling conventions checked in every slice. Findings show in the editor gutter and the Problems panel. Turn a rule off or change its severity for the current project with Configure Model Rules.',
+    features: [
+      {
+        id: 'command-produces-event',
+        title: 'Commands produce events',
+        description: 'Every command records at least one event. The event may be declared in another slice of the project.',
+        dsl: `ui:booking-form
+cmd:book-room <- ui:booking-form
+evt:room-booked <- cmd:book-room`
+      },
+      {
+        id: 'event-past-tense',
+        title: 'Events are named in past tense',
+        description: 'Events record facts that already happened, so their names end in a past participle such as booked or paid.',
+        dsl: `evt:room-booked
+evt:invoice-paid
+evt:guest-checked-out`
+      },
+      {
+        id: 'read-model-reads-events',
+        title: 'Read models only depend on events',
+        description: 'Read models are projections of events. Commands, UIs and other read models feed them through events instead.',
+        dsl: `evt:room-opened
+evt:room-booked
+rm:available-rooms
+  <- evt:room-opened
+  <- evt:room-booked`
+      },
+      {
+        id: 'ui-not-connected-to-events',
+        title: 'UIs do not connect directly to events',
+        description: 'A UI changes the system through a command and shows state through a read model, never by touching events.',
+        dsl: `ui:room-list -> cmd:book-room -> evt:room-booked -> rm:bookings -> ui:booking-overview`
+      },
+      {
+        id: 'automation-reads-and-issues',
+        title: 'Automations read from read models and issue commands',
+        description: 'An automation picks its work from a read model, like a todo list, and acts by issuing a command.',
+        dsl: `evt:room-booked
+rm:unpaid-bookings <- evt:room-booked
+aut:send-invoice <- rm:unpaid-bookings
+cmd:issue-invoice <- aut:send-invoice
+evt:invoice-issued <- cmd:issue-invoice`
       }
     ]
   }
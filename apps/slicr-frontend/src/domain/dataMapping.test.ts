@@ -21,4 +21,27 @@ uses:
       expect.objectContaining({ targetKey: 'quantity', sourcePath: 'ui:buy.quantity' })
     ]);
   });
+
+  it('skips comment lines and strips trailing comments from mappings', () => {
+    const dsl = `slice "Sales"
+
+# cmd:ignored
+cmd:buy "Buy Ticket" # checkout
+uses:
+  # who is buying
+  customerId // from session
+  seats <- $.selection.seats # JSONPath
+`;
+
+    const mappings = parseUsesBlocks(dsl);
+    expect([...mappings.keys()]).toEqual(['cmd:buy']);
+    expect(mappings.get('cmd:buy')).toEqual([
+      {
+        targetKey: 'customerId',
+        sourcePath: 'customerId',
+        range: { from: dsl.indexOf('customerId'), to: dsl.indexOf('customerId') + 'customerId'.length }
+      },
+      expect.objectContaining({ targetKey: 'seats', sourcePath: '$.selection.seats' })
+    ]);
+  });
 });
@@ -1,5 +1,6 @@
 import { Edge, ParseWarning, VisualNode } from './types';
 import { JSONPath } from 'jsonpath-plus';
+import { stripDslComments } from './dslComments';
 
 export type MappingEntry = {
   targetKey: string;
@@ -10,14 +11,15 @@ export type MappingEntry = {
 export const MISSING_DATA_VALUE = '<missing>';
 
 export function parseUsesBlocks(dsl: string): Map<string, MappingEntry[]> {
-  const lines = dsl.split('\n');
-  const lineStarts = buildLineStarts(lines);
+  const rawLines = dsl.split('\n');
+  const lineStarts = buildLineStarts(rawLines);
+  const lines = stripDslComments(rawLines);
   const result = new Map<string, MappingEntry[]>();
   let currentNodeRef: string | null = null;
 
   for (let i = 0; i < lines.length; i += 1) {
     const line = lines[i];
-    const nodeMatch = line.match(/^(rm|ui|cmd|evt|exc|aut|ext):([^\s"]+)/);
+    const nodeMatch = line.match(/^(rm|ui|cmd|qry|evt|exc|aut|ext):([^\s"]+)/);
     if (nodeMatch) {
       currentNodeRef = `${nodeMatch[1]}:${nodeMatch[2]}`;
     }
@@ -306,4 +306,55 @@ uses:
       ]
     });
   });
+
+  it('continues the trace into the slice that produces a node', () => {
+    const checkoutDsl = `slice "Checkout"
+
+ui:cart "Cart"
+data:
+  total: 42
+
+cmd:checkout "Checkout"
+<- ui:cart
+uses:
+  total
+
+evt:checked-out "Checked Out"
+<- cmd:checkout
+uses:
+  total
+`;
+    const reportingDsl = `slice "Reporting"
+
+evt:checked-out "Checked Out"
+data:
+  total: 42
+
+rm:sales "Sales"
+<- evt:checked-out
+uses:
+  total
+`;
+    const slices = [
+      { id: 'checkout', dsl: checkoutDsl, parsed: parseDsl(checkoutDsl) },
+      { id: 'reporting', dsl: reportingDsl, parsed: parseDsl(reportingDsl) }
+    ];
+    const reporting = slices[1].parsed;
+
+    expect(
+      traceData({ dsl: reportingDsl, nodes: reporting.nodes, edges: reporting.edges, sliceId: 'reporting', slices }, 'sales', 'total')
+    ).toEqual({
+      usesKey: 'total',
+      hops: [
+        { nodeKey: 'checked-out', key: 'total', sliceId: 'reporting', sliceName: 'Reporting' },
+        { nodeKey: 'checked-out', key: 'total', sliceId: 'checkout', sliceName: 'Checkout' },
+        { nodeKey: 'checkout', key: 'total', sliceId: 'checkout', sliceName: 'Checkout' },
+        { nodeKey: 'cart', key: 'total', sliceId: 'checkout', sliceName: 'Checkout' }
+      ],
+      source: 42
+    });
+    expect(traceData({ dsl: reportingDsl, nodes: reporting.nodes, edges: reporting.edges }, 'sales', 'total')?.hops).toEqual([
+      { nodeKey: 'checked-out', key: 'total' }
+    ]);
+  });
 });
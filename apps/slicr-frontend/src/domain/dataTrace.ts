@@ -1,5 +1,7 @@
 import { MappingEntry, parseUsesBlocks } from './dataMapping';
 import { JSONPath } from 'jsonpath-plus';
+import { getCrossSliceDataFromParsed, type CrossSliceDataParsedDocument } from './crossSliceData';
+import { toNodeAnalysisRefFromNode } from './nodeAnalysisKey';
 import { isTraceableNode } from './nodeTracing';
 import { Edge, VisualNode } from './types';
 
@@ -8,11 +10,14 @@ type TraceInput = {
   nodes: Map<string, VisualNode>;
   edges: Edge[];
   maxDepth?: number;
+  sliceId?: string;
+  slices?: CrossSliceDataParsedDocument[];
 };
 
 type TraceRuntimeInput = TraceInput & {
   mappingsByRef: Map<string, MappingEntry[]>;
   maxDepth: number;
+  visitedSliceIds: Set<string>;
 };
 
 export type DataTraceQuery = {
@@ -22,6 +27,8 @@ export type DataTraceQuery = {
 export type DataTraceHop = {
   nodeKey: string;
   key: string;
+  sliceId?: string;
+  sliceName?: string;
 };
 
 export type DataTraceResult = {
@@ -44,7 +51,7 @@ export function traceData(input: TraceInput, nodeKey: string, usesKey: string):
 
   const mappingsByRef = parseUsesBlocks(input.dsl);
   return traceFromNode(
-    { ...input, mappingsByRef, maxDepth: input.maxDepth ?? 20 },
+    { ...input, mappingsByRef, maxDepth: input.maxDepth ?? 20, visitedSliceIds: new Set() },
     node,
     usesKey.trim(),
     usesKey
@@ -78,15 +85,18 @@ function findPredecessorForPath(
 }
 
 function traceFromNode(
-  input: TraceRuntimeInput,
+  startInput: TraceRuntimeInput,
   startNode: VisualNode,
   startKey: string,
   usesKeyLabel: string
 ): DataTraceResult {
   const hops: DataTraceHop[] = [];
   const visited = new Set<string>();
+  let input = startInput;
   let currentNode = startNode;
   let currentKey = startKey;
+  // Value already resolved before the trace crossed into another slice.
+  let crossedSource: unknown = null;
 
   for (let depth = 0; depth < input.maxDepth; depth += 1) {
     const nodeRef = toNodeRef(currentNode);
@@ -110,11 +120,11 @@ function traceFromNode(
       return {
         usesKey: usesKeyLabel,
         hops,
-        source: null
+        source: crossedSource
       };
     }
 
-    const visitKey = `${predecessor.key}:${sourcePath}`;
+    const visitKey = `${input.sliceId ?? ''}:${predecessor.key}:${sourcePath}`;
     if (visited.has(visitKey)) {
       return {
         usesKey: usesKeyLabel,
@@ -124,19 +134,25 @@ function traceFromNode(
     }
     visited.add(visitKey);
 
-    hops.push({
-      nodeKey: predecessor.key,
-      key: sourcePath
-    });
+    hops.push(toHop(input, predecessor.key, sourcePath));
 
     const value = resolvePathValue(predecessor.data, sourcePath);
     const rootKey = rootKeyForSourcePath(sourcePath);
     if (!predecessor.mappedDataKeys?.has(rootKey)) {
-      return {
-        usesKey: usesKeyLabel,
-        hops,
-        source: value
-      };
+      const producer = findProducingSlice(input, predecessor, rootKey);
+      if (!producer) {
+        return {
+          usesKey: usesKeyLabel,
+          hops,
+          source: value
+        };
+      }
+      input = producer.input;
+      crossedSource = value;
+      hops.push(toHop(input, producer.node.key, rootKey));
+      currentNode = producer.node;
+      currentKey = rootKey;
+      continue;
     }
 
     currentNode = predecessor;
@@ -150,6 +166,52 @@ function traceFromNode(
   };
 }
 
+function toHop(input: TraceRuntimeInput, nodeKey: string, key: string): DataTraceHop {
+  const slice = input.slices?.find((item) => item.id === input.sliceId);
+  return slice ? { nodeKey, key, sliceId: slice.id, sliceName: slice.parsed.sliceName } : { nodeKey, key };
+}
+
+// A node whose data is not mapped here may be produced in another slice, e.g. an event emitted elsewhere.
+function findProducingSlice(
+  input: TraceRuntimeInput,
+  node: VisualNode,
+  key: string
+): { input: TraceRuntimeInput; node: VisualNode } | null {
+  if (!input.slices) {
+    return null;
+  }
+  const nodeRef = toNodeAnalysisRefFromNode(node);
+  const candidates = getCrossSliceDataFromParsed(input.slices, nodeRef).byKey[key] ?? [];
+  for (const candidate of candidates) {
+    if (candidate.sliceId === input.sliceId || input.visitedSliceIds.has(candidate.sliceId)) {
+      continue;
+    }
+    const slice = input.slices.find((item) => item.id === candidate.sliceId);
+    const producer = slice
+      ? [...slice.parsed.nodes.values()].find((item) => (
+        toNodeAnalysisRefFromNode(item) === nodeRef
+        && item.mappedDataKeys?.has(key)
+        && slice.parsed.edges.some((edge) => edge.to === item.key)
+      ))
+      : undefined;
+    if (slice && producer) {
+      return {
+        input: {
+          ...input,
+          dsl: slice.dsl,
+          nodes: slice.parsed.nodes,
+          edges: slice.parsed.edges,
+          sliceId: slice.id,
+          mappingsByRef: parseUsesBlocks(slice.dsl),
+          visitedSliceIds: new Set([...input.visitedSliceIds, input.sliceId ?? ''])
+        },
+        node: producer
+      };
+    }
+  }
+  return null;
+}
+
 function resolvePathValue(data: unknown, path: string): unknown {
   if (path.startsWith('$')) {
     return getJsonPathValue(data, path);
@@ -224,7 +286,7 @@ function findCollectContributors(
     .filter((node): node is VisualNode => Boolean(node))
     .filter((node) => collectFields.every((field) => resolvePathValue(node.data, field) !== undefined))
     .map((node, index) => {
-      const hops: DataTraceHop[] = [{ nodeKey: node.key, key: sourcePath }];
+      const hops: DataTraceHop[] = [toHop(input, node.key, sourcePath)];
       for (const field of collectFields) {
         const traced = traceFromNode(input, node, rootKeyForSourcePath(field), rootKeyForSourcePath(field));
         for (const hop of traced.hops) {
@@ -437,6 +437,28 @@ describe('diagramEngine dimensions plumbing', () => {
     expect(layout.rowStreamLabels[layout.laneByKey.get('slice-1::evt:order-created') ?? -1]).toBe('orders');
   });
 
+  it('shares named lanes and their headers across slices in overview layout', async () => {
+    const layout = await computeOverviewDiagramLayout([
+      makeProjection('slice-1', parseDsl(`slice "first"
+lanes: Customer, "Back Office"
+
+ui:cart
+lane: Customer
+cmd:checkout <- ui:cart`)),
+      makeProjection('slice-2', parseDsl(`slice "second"
+
+ui:order-queue
+lane: "Back Office"
+ui:receipt
+lane: Customer`))
+    ]);
+
+    const customerLane = layout.laneByKey.get('slice-1::cart');
+    expect(layout.laneByKey.get('slice-2::receipt')).toBe(customerLane);
+    expect(layout.laneByKey.get('slice-2::order-queue')).toBe(1);
+    expect(layout.rowLaneLabels).toEqual({ 0: 'Customer', 1: 'Back Office' });
+  });
+
   it('keeps event nodes with different stream names in different overview lanes across slices', async () => {
     const firstEvent: VisualNode = {
       ...makeNode('evt:order-created', 'order-created'),
@@ -907,6 +929,60 @@ cmd:submit-order <- ui:orders-page`);
     });
   });
 
+  it('lays out slices with ELK when that engine is selected', async () => {
+    const parsed = parseDsl(`slice "Orders"
+
+ui:orders-page
+cmd:submit-order <- ui:orders-page`);
+
+    const layout = await computeDiagramLayout(parsed, { engine: 'elk' });
+
+    expect(layoutLibLayoutMock).not.toHaveBeenCalled();
+    expect(layout.layout.pos['submit-order']?.x).toBeGreaterThan(layout.layout.pos['orders-page']?.x ?? 0);
+    expect(Object.keys(layout.precomputedEdges ?? {})).toEqual(['orders-page->submit-order#0']);
+  });
+
+  it('falls back to the provisional slice layout with a warning when layout-lib fails', async () => {
+    const parsed = parseDsl(`slice "Orders"
+
+ui:orders-page
+cmd:submit-order <- ui:orders-page`);
+    layoutLibLayoutMock.mockReturnValueOnce({
+      ok: false,
+      error: { type: 'UnsatisfiableConstraints', message: 'No room left.' }
+    });
+
+    const layout = await computeDiagramLayout(parsed);
+
+    expect(Object.keys(layout.layout.pos)).toEqual(['orders-page', 'submit-order']);
+    expect(layout.precomputedEdges).toBeUndefined();
+    expect(layout.warnings).toEqual([
+      { engine: 'layout-lib', type: 'UnsatisfiableConstraints', message: 'No room left.' }
+    ]);
+  });
+
+  it('groups every overview slice separately when the overview uses layout-lib', async () => {
+    const layout = await computeOverviewDiagramLayout([
+      makeProjection('slice-1', parseDsl(`slice "Alpha"
+
+cmd:first-command
+---
+evt:first-event <- cmd:first-command`)),
+      makeProjection('slice-2', parseDsl(`slice "Beta"
+
+cmd:second-command`))
+    ], { engine: 'layout-lib' });
+
+    expect(layoutLibLayoutMock).toHaveBeenCalledTimes(1);
+    expect(layoutLibLayoutMock.mock.calls[0]?.[0].nodes.map((node: { id: string; groupId?: string }) => [node.id, node.groupId])).toEqual([
+      ['slice-1::first-command', 'group-0'],
+      ['slice-1::first-event', 'group-1'],
+      ['slice-2::second-command', 'group-2']
+    ]);
+    expect(layout.layout.pos['slice-1::first-command']?.x).toBe(50);
+    expect(layout.layout.pos['slice-2::second-command']?.x).toBeGreaterThan(layout.layout.pos['slice-1::first-event']?.x ?? 0);
+  });
+
   it('keeps overview layout on the existing engine path', async () => {
     const firstParsed = parseDsl(`slice "Alpha"
 
@@ -1,22 +1,48 @@
-import { layout, type EdgeLayout as LayoutLibEdgeLayout } from 'layout-lib';
+import {
+  layout,
+  type EdgeLayout as LayoutLibEdgeLayout,
+  type LayoutFailure,
+  type LayoutFailureType,
+  type LayoutRequest
+} from 'layout-lib';
 import { DiagramEdgeGeometry, middlePoint, routeElkEdges, routeForwardEdge, routePolyline } from './diagramRouting';
 import { buildElkLaneMeta, buildTopoOrder, computeElkLayout } from './elkLayout';
-import { applyOverviewPostLayoutPasses, buildBoundarySpecs } from './elkPostLayout';
+import {
+  applyAdjacentSharedNodeCompactionPass,
+  applyOverviewPostLayoutPasses,
+  applySliceOrderFloorPass,
+  buildBoundarySpecs,
+  type AdjacentSharedNodePairSpec,
+  type SliceOrderFloorSpec
+} from './elkPostLayout';
 import { layoutGraph, PAD_X } from './layoutGraph';
 import { projectNodeHeights } from './nodeSizing';
 import type { NodeDimensions } from './nodeSizing';
 import { buildOverviewBoundaryAnchorByKey, deriveOverviewCrossSliceLinks } from './overviewCrossSliceLinks';
 import type { ParsedSliceProjection } from './parsedSliceProjection';
-import { buildSliceLayoutLibRequest } from './sliceLayoutLibAdapter';
+import { buildOverviewLayoutLibRequest, buildSliceLayoutLibRequest } from './sliceLayoutLibAdapter';
 import type { LayoutResult, Parsed, ParsedScenario, Position, VisualNode } from './types';
 
-export type DiagramEngineId = 'elk';
+export type DiagramEngineId = 'elk' | 'layout-lib';
+
+export const DIAGRAM_ENGINE_LABELS: Record<DiagramEngineId, string> = {
+  elk: 'ELK',
+  'layout-lib': 'layout-lib'
+};
+
+export type DiagramLayoutWarning = {
+  engine: DiagramEngineId;
+  type: LayoutFailureType;
+  message: string;
+};
 
 export type DiagramEngineLayout = {
   layout: LayoutResult;
   laneByKey: Map<string, number>;
   rowStreamLabels: Record<number, string>;
+  rowLaneLabels?: Record<number, string>;
   precomputedEdges?: Record<string, DiagramEdgeGeometry>;
+  warnings?: DiagramLayoutWarning[];
 };
 
 export type OverviewNodeMetadata = {
@@ -49,7 +75,9 @@ export type RenderedDiagramEdge = {
   geometry: DiagramEdgeGeometry;
 };
 
+// Without an engine, slices use layout-lib and the overview ELK, as each mode did before the engine was selectable.
 type DiagramLayoutOptions = {
+  engine?: DiagramEngineId;
   nodeDimensions?: Record<string, NodeDimensions>;
   scenarioGroupWidths?: Record<string, number>;
 };
@@ -82,6 +110,7 @@ export function buildOverviewDiagramGraph(parsedSlices: ParsedSliceProjection<Pa
   const warnings: Parsed['warnings'] = [];
   const scenarios: Parsed['scenarios'] = [];
   const scenarioOnlyNodeKeys: string[] = [];
+  const laneOrder: string[] = [];
   const nodeMetadataByKey = new Map<string, OverviewNodeMetadata>();
   const scenarioMetadataByScenario = new Map<ParsedScenario, OverviewScenarioMetadata>();
 
@@ -140,6 +169,7 @@ export function buildOverviewDiagramGraph(parsedSlices: ParsedSliceProjection<Pa
     scenarioOnlyNodeKeys.push(
       ...slice.parsed.scenarioOnlyNodeKeys.map((nodeKey) => namespaceNodeKey(slice.id, nodeKey))
     );
+    laneOrder.push(...(slice.parsed.laneOrder ?? []).filter((lane) => !laneOrder.includes(lane)));
   }
 
   return {
@@ -150,7 +180,8 @@ export function buildOverviewDiagramGraph(parsedSlices: ParsedSliceProjection<Pa
       warnings,
       boundaries,
       scenarios,
-      scenarioOnlyNodeKeys
+      scenarioOnlyNodeKeys,
+      laneOrder
     },
     nodeMetadataByKey,
     scenarioMetadataByScenario
@@ -218,20 +249,15 @@ export async function computeDiagramLayout(
   options: DiagramLayoutOptions = {}
 ): Promise<DiagramEngineLayout> {
   const diagramParsed = toDiagramParsed(parsed);
+  if (options.engine === 'elk') {
+    const elk = await computeElkLayout(diagramParsed, options.nodeDimensions);
+    return toDiagramEngineLayout({ ...elk, precomputedEdges: elk.edges });
+  }
   const sliceLayout = computeSliceLayout(diagramParsed, options.nodeDimensions);
-  return {
-    layout: {
-      pos: sliceLayout.pos,
-      w: sliceLayout.w,
-      h: sliceLayout.h,
-      rowY: {},
-      usedRows: [],
-      rowStreamLabels: sliceLayout.rowStreamLabels
-    },
-    laneByKey: sliceLayout.laneByKey,
-    rowStreamLabels: sliceLayout.rowStreamLabels,
-    precomputedEdges: sliceLayout.precomputedEdges
-  };
+  if (!sliceLayout.ok) {
+    return computeLayoutFailureFallback(diagramParsed, sliceLayout.error, options);
+  }
+  return toDiagramEngineLayout(sliceLayout);
 }
 
 export async function computeOverviewDiagramLayout(
@@ -256,13 +282,7 @@ export async function computeOverviewDiagramLayout(
     };
   }
 
-  const elk = await computeElkLayout(layoutParsed, options.nodeDimensions);
-  const topoOrder = buildTopoOrder(layoutParsed);
-  const dslOrder = new Map<string, number>();
-  [...layoutParsed.nodes.keys()].forEach((key, index) => dslOrder.set(key, index));
   const overviewCrossSliceLinks = deriveOverviewCrossSliceLinks(parsedSlices, overviewGraph.nodeMetadataByKey);
-  const overviewBoundaryAnchorByKey = buildOverviewBoundaryAnchorByKey(overviewCrossSliceLinks);
-  const boundarySpecs = buildBoundarySpecs(layoutParsed.boundaries, dslOrder, overviewBoundaryAnchorByKey);
   const adjacentSharedNodePairs = overviewCrossSliceLinks
     .filter((link) => link.renderMode === 'shared-node')
     .map((link) => ({
@@ -275,6 +295,16 @@ export async function computeOverviewDiagramLayout(
     overviewGraph.nodeMetadataByKey,
     options.scenarioGroupWidths
   );
+  if (options.engine === 'layout-lib') {
+    return computeLayoutLibOverviewLayout(layoutParsed, sliceOrderSpecs, adjacentSharedNodePairs, options);
+  }
+
+  const elk = await computeElkLayout(layoutParsed, options.nodeDimensions);
+  const topoOrder = buildTopoOrder(layoutParsed);
+  const dslOrder = new Map<string, number>();
+  [...layoutParsed.nodes.keys()].forEach((key, index) => dslOrder.set(key, index));
+  const overviewBoundaryAnchorByKey = buildOverviewBoundaryAnchorByKey(overviewCrossSliceLinks);
+  const boundarySpecs = buildBoundarySpecs(layoutParsed.boundaries, dslOrder, overviewBoundaryAnchorByKey);
   const laneKeys = buildLaneKeys(layoutParsed, elk.laneByKey);
   applyOverviewPostLayoutPasses({
     adjacentSharedNodePairs,
@@ -307,10 +337,12 @@ export async function computeOverviewDiagramLayout(
       h,
       rowY: {},
       usedRows: [],
-      rowStreamLabels: elk.rowStreamLabels
+      rowStreamLabels: elk.rowStreamLabels,
+      rowLaneLabels: elk.rowLaneLabels
     },
     laneByKey: elk.laneByKey,
     rowStreamLabels: elk.rowStreamLabels,
+    rowLaneLabels: elk.rowLaneLabels,
     precomputedEdges
   };
 }
@@ -321,13 +353,100 @@ export function computeProvisionalDiagramLayout(parsed: Parsed, options: Diagram
     diagramParsed.nodes,
     diagramParsed.edges,
     diagramParsed.boundaries,
-    projectNodeHeights(options.nodeDimensions)
+    projectNodeHeights(options.nodeDimensions),
+    diagramParsed.laneOrder
   );
+  const laneMeta = buildElkLaneMeta(diagramParsed);
 
   return {
     layout: provisional,
-    laneByKey: buildElkLaneMeta(diagramParsed).laneByKey,
-    rowStreamLabels: buildElkLaneMeta(diagramParsed).rowStreamLabels
+    laneByKey: laneMeta.laneByKey,
+    rowStreamLabels: laneMeta.rowStreamLabels,
+    rowLaneLabels: laneMeta.rowLaneLabels
+  };
+}
+
+function computeLayoutLibOverviewLayout(
+  parsed: Parsed,
+  sliceSpecs: SliceOrderFloorSpec[],
+  adjacentSharedNodePairs: AdjacentSharedNodePairSpec[],
+  options: DiagramLayoutOptions
+): DiagramEngineLayout {
+  const request = buildOverviewLayoutLibRequest(parsed, sliceSpecs, options.nodeDimensions);
+  const result = runLayoutLib(request.request);
+  if (!result.ok) {
+    return computeLayoutFailureFallback(parsed, result.error, options);
+  }
+
+  // layout-lib keeps every slice in its own group block; shared nodes and scenario boxes are spaced like the ELK overview.
+  const { pos } = result;
+  const hiddenTargetNodeKeys = new Set(adjacentSharedNodePairs.map((pair) => pair.targetNodeKey));
+  for (let pass = 0; pass < 6; pass += 1) {
+    const movedBySharedNodeCompaction = applyAdjacentSharedNodeCompactionPass(
+      adjacentSharedNodePairs,
+      sliceSpecs,
+      MIN_INTER_SLICE_GAP,
+      pos
+    );
+    const movedBySliceFloors = applySliceOrderFloorPass(sliceSpecs, hiddenTargetNodeKeys, pos, MIN_INTER_SLICE_GAP);
+    if (!movedBySharedNodeCompaction && !movedBySliceFloors) {
+      break;
+    }
+  }
+  alignLayoutToLeftPadding(pos, {}, LEFT_LAYOUT_PADDING);
+  const precomputedEdges = routeElkEdges(
+    parsed.edges.map((edge, index) => ({
+      key: `${edge.from}->${edge.to}#${index}`,
+      from: edge.from,
+      to: edge.to
+    })),
+    pos
+  );
+
+  return toDiagramEngineLayout({
+    pos,
+    ...measureLayoutBounds(pos, precomputedEdges),
+    laneByKey: request.laneByKey,
+    rowStreamLabels: request.rowStreamLabels,
+    rowLaneLabels: request.rowLaneLabels,
+    precomputedEdges
+  });
+}
+
+function computeLayoutFailureFallback(
+  parsed: Parsed,
+  failure: LayoutFailure,
+  options: DiagramLayoutOptions
+): DiagramEngineLayout {
+  return {
+    ...computeProvisionalDiagramLayout(parsed, options),
+    warnings: [{ engine: 'layout-lib', type: failure.type, message: failure.message }]
+  };
+}
+
+function toDiagramEngineLayout(engineLayout: {
+  pos: Record<string, Position>;
+  w: number;
+  h: number;
+  laneByKey: Map<string, number>;
+  rowStreamLabels: Record<number, string>;
+  rowLaneLabels: Record<number, string>;
+  precomputedEdges: Record<string, DiagramEdgeGeometry>;
+}): DiagramEngineLayout {
+  return {
+    layout: {
+      pos: engineLayout.pos,
+      w: engineLayout.w,
+      h: engineLayout.h,
+      rowY: {},
+      usedRows: [],
+      rowStreamLabels: engineLayout.rowStreamLabels,
+      rowLaneLabels: engineLayout.rowLaneLabels
+    },
+    laneByKey: engineLayout.laneByKey,
+    rowStreamLabels: engineLayout.rowStreamLabels,
+    rowLaneLabels: engineLayout.rowLaneLabels,
+    precomputedEdges: engineLayout.precomputedEdges
   };
 }
 
@@ -336,31 +455,42 @@ function computeSliceLayout(
   nodeDimensions?: Record<string, NodeDimensions>
 ) {
   const request = buildSliceLayoutLibRequest(parsed, nodeDimensions);
-  const result = layout(request.request);
+  const result = runLayoutLib(request.request);
   if (!result.ok) {
-    throw new Error(`layout-lib ${result.error.type}: ${result.error.message}`);
+    return result;
   }
 
-  const pos = Object.fromEntries(
-    result.result.nodes.map((node) => [
-      node.id,
-      { x: node.x, y: node.y, w: node.width, h: node.height }
-    ])
-  ) as Record<string, Position>;
-  const precomputedEdges = translateLayoutLibEdges(result.result.edges);
+  const { pos, precomputedEdges } = result;
   alignLayoutToLeftPadding(pos, precomputedEdges, 50);
   const { w, h } = measureLayoutBounds(pos, precomputedEdges);
 
   return {
+    ok: true as const,
     pos,
     w,
     h,
     laneByKey: request.laneByKey,
     rowStreamLabels: request.rowStreamLabels,
+    rowLaneLabels: request.rowLaneLabels,
     precomputedEdges
   };
 }
 
+function runLayoutLib(request: LayoutRequest) {
+  const result = layout(request);
+  if (!result.ok) {
+    return result;
+  }
+
+  const pos = Object.fromEntries(
+    result.result.nodes.map((node) => [
+      node.id,
+      { x: node.x, y: node.y, w: node.width, h: node.height }
+    ])
+  ) as Record<string, Position>;
+  return { ok: true as const, pos, precomputedEdges: translateLayoutLibEdges(result.result.edges) };
+}
+
 function translateLayoutLibEdges(edges: LayoutLibEdgeLayout[]): Record<string, DiagramEdgeGeometry> {
   return Object.fromEntries(edges.map((edge) => {
     const label = middlePoint(edge.points);
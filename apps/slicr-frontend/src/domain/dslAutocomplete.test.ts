@@ -1,5 +1,12 @@
 import { describe, expect, it } from 'vitest';
-import { getDependencySuggestions, getUsesKeySuggestions } from './dslAutocomplete';
+import { parseDsl } from './parseDsl';
+import {
+  collectProjectNodeRefs,
+  getDependencySuggestions,
+  getNodeRefSuggestions,
+  getUsesKeySuggestions,
+  getUsesPathSuggestions
+} from './dslAutocomplete';
 
 describe('dsl autocomplete', () => {
   it('suggests existing node refs after a dependency arrow', () => {
@@ -27,6 +34,19 @@ cmd:create-order <- evt:order-can`;
     expect(suggestions).toEqual(['evt:order-cancelled']);
   });
 
+  it('ignores commented lines when collecting refs and inside comments', () => {
+    const dsl = `slice "Orders"
+
+# evt:order-drafted
+evt:order-created # first event
+cmd:create-order <- `;
+
+    expect(getDependencySuggestions(dsl, dsl.length)).toEqual(['evt:order-created']);
+
+    const commented = `${dsl}\n# rm:orders <- `;
+    expect(getDependencySuggestions(commented, commented.length)).toEqual([]);
+  });
+
   it('does not suggest the target node itself as an incoming dependency', () => {
     const dsl = `slice "Orders"
 
@@ -50,6 +70,30 @@ evt:room-booked -> `;
     expect(suggestions).not.toContain('evt:room-booked');
   });
 
+  it('suggests refs for the next step of a forward chain and excludes the step source', () => {
+    const dsl = `slice "Rooms"
+
+rm:available-rooms
+ui:room-list -> cmd:book-room -> evt:room-booked
+evt:room-booked -> cmd:book-room -> `;
+
+    const suggestions = getDependencySuggestions(dsl, dsl.length);
+
+    expect(suggestions).toEqual(['rm:available-rooms', 'ui:room-list']);
+  });
+
+  it('filters chained forward suggestions by the token after the last arrow', () => {
+    const dsl = `slice "Rooms"
+
+ui:room-list -> cmd:book-room -> evt:room-booked
+rm:bookings
+ui:room-list -> cmd:book-room -> evt:ro`;
+
+    const suggestions = getDependencySuggestions(dsl, dsl.length);
+
+    expect(suggestions).toEqual(['evt:room-booked']);
+  });
+
   it('suggests existing refs for forward arrows on separate indented lines', () => {
     const dsl = `slice "Rooms"
 
@@ -138,4 +182,148 @@ uses:
     const result = getUsesKeySuggestions(dsl, dsl.length);
     expect(result?.suggestions[0]).toBe('alpha');
   });
+
+  it('suggests nested and array key paths from predecessor data with source and sample', () => {
+    const dsl = `slice "Paths"
+
+evt:cart-filled
+data:
+  cart:
+    id: "c-1"
+    items:
+      - sku: "A-1"
+        qty: 2
+
+evt:unrelated
+data:
+  other: true
+
+cmd:checkout
+<- evt:cart-filled
+uses:
+  `;
+
+    const result = getUsesPathSuggestions(dsl, dsl.length, true);
+    const suggestions = result?.suggestions ?? [];
+
+    expect(result?.from).toBe(dsl.length);
+    expect(suggestions.find((suggestion) => suggestion.label === 'cart.id')).toEqual({
+      label: 'cart.id',
+      apply: 'cart.id',
+      sourceRef: 'evt:cart-filled',
+      sample: 'c-1'
+    });
+    expect(suggestions.find((suggestion) => suggestion.label === '$.cart.items[0].sku')).toMatchObject({
+      apply: 'sku <- $.cart.items[0].sku',
+      sample: 'A-1'
+    });
+    expect(suggestions.map((suggestion) => suggestion.label)).not.toContain('other');
+    expect(getUsesPathSuggestions(dsl, dsl.length)).toBeNull();
+  });
+
+  it('suggests JSONPath expressions after a uses mapping arrow', () => {
+    const dsl = `slice "JsonPath"
+
+evt:cart-filled
+data:
+  items:
+    - sku: "A-1"
+
+cmd:checkout
+<- evt:cart-filled
+uses:
+  sku <- $.it`;
+
+    const result = getUsesPathSuggestions(dsl, dsl.length);
+
+    expect(result?.from).toBe(dsl.length - '$.it'.length);
+    expect(result?.suggestions.map((suggestion) => suggestion.label)).toEqual([
+      '$.items',
+      '$.items[0]',
+      '$.items[0].sku'
+    ]);
+    expect(result?.suggestions.map((suggestion) => suggestion.apply)).toEqual([
+      '$.items',
+      '$.items[0]',
+      '$.items[0].sku'
+    ]);
+  });
+
+  it('does not suggest uses paths inside data blocks', () => {
+    const dsl = `slice "Data"
+
+evt:seed
+data:
+  alpha: 1
+
+cmd:consume
+<- evt:seed
+uses:
+  alpha
+data:
+  al`;
+
+    expect(getUsesPathSuggestions(dsl, dsl.length, true)).toBeNull();
+  });
+
+  it('fuzzy-matches node refs without their type prefix, local nodes first', () => {
+    const dsl = `slice "Concerts"
+
+evt:concert-scheduled
+
+rm:overview <- conc`;
+    const projectRefs = [
+      { ref: 'rm:concerts-scheduled', sliceName: 'Listing', dataBlock: null },
+      { ref: 'evt:concert-scheduled', sliceName: 'Planning', dataBlock: null },
+      { ref: 'cmd:confirm-cancellation', sliceName: 'Orders', dataBlock: null }
+    ];
+
+    const result = getNodeRefSuggestions(dsl, dsl.length, projectRefs);
+
+    expect(result?.context).toBe('clause');
+    expect(result?.from).toBe(dsl.length - 'conc'.length);
+    expect(result?.suggestions.map((suggestion) => [suggestion.ref, suggestion.local])).toEqual([
+      ['evt:concert-scheduled', true],
+      ['rm:concerts-scheduled', false]
+    ]);
+    const scattered = dsl.replace(/conc$/, 'cfcn');
+    expect(getNodeRefSuggestions(scattered, scattered.length, projectRefs)?.suggestions.map((suggestion) => suggestion.ref))
+      .toEqual(['cmd:confirm-cancellation']);
+  });
+
+  it('suggests node refs on declaration lines and scenario entries', () => {
+    const projectRefs = [{ ref: 'evt:concert-scheduled', sliceName: 'Planning', dataBlock: 'data:\n  id: 1' }];
+    const declaration = `slice "Tickets"
+
+evt:ticket-sold
+
+conc`;
+    const scenario = `slice "Tickets"
+
+scenario "Sell out"
+given:
+  conc`;
+
+    expect(getNodeRefSuggestions(declaration, declaration.length, projectRefs)).toMatchObject({
+      context: 'declaration',
+      suggestions: [{ ref: 'evt:concert-scheduled', sliceName: 'Planning', dataBlock: 'data:\n  id: 1' }]
+    });
+    expect(getNodeRefSuggestions(scenario, scenario.length, projectRefs)?.context).toBe('scenario');
+    expect(getNodeRefSuggestions('slice "Tickets"\n\nevt:a\ndata:\n  conc', 36, projectRefs)).toBeNull();
+  });
+
+  it('collects node refs with their literal data from the other slices of a project', () => {
+    const slices = [
+      { id: 'planning', dsl: 'slice "Planning"\n\nevt:concert-scheduled\ndata:\n  id: 7\n  venue: "Hall"\n' },
+      { id: 'listing', dsl: 'slice "Listing"\n\nevt:concert-scheduled\n-> rm:concerts\n\nrm:concerts\nuses:\n  venue\n' }
+    ].map((slice) => ({ ...slice, parsed: parseDsl(slice.dsl) }));
+
+    expect(collectProjectNodeRefs(slices, 'listing')).toEqual([
+      { ref: 'evt:concert-scheduled', sliceName: 'Planning', dataBlock: 'data:\n  id: 7\n  venue: Hall' }
+    ]);
+    expect(collectProjectNodeRefs(slices, 'planning').map((entry) => [entry.ref, entry.dataBlock])).toEqual([
+      ['evt:concert-scheduled', null],
+      ['rm:concerts', null]
+    ]);
+  });
 });
@@ -1,27 +1,49 @@
+import type { CrossSliceParsedDocument } from './crossSliceUsage';
+import { findDslCommentStart, stripDslComment } from './dslComments';
+import { MISSING_DATA_VALUE } from './dataMapping';
+import { formatNodeData } from './formatNodeData';
 import { parseDsl } from './parseDsl';
 
 const NODE_REF_LINE = /^(?:([a-zA-Z][\w-]*):)?([^\s<"]+)(?:\s+"(?:[^"\\]|\\.)*")?\s*(?:(?:<-|->).*)?$/;
-const ARROW_RE = /(<-|->)/;
+const ARROW_GLOBAL_RE = /(<-|->)/g;
+const CLAUSE_REF = /^(?:[a-zA-Z][\w-]*:)?[^\s<>",]+$/;
+const REF_TOKEN = /^[\w:@#.-]*$/;
+const SCATTERED_MATCH_SCORE = 2;
+const SECTION_KEYWORD = /^(?:given|when|then|data|uses|maps|stream|lane|lanes):$/;
 
 export function getDependencySuggestions(dsl: string, cursorPos: number): string[] {
   const safeCursor = clamp(cursorPos, 0, dsl.length);
   const beforeCursor = dsl.slice(0, safeCursor);
   const lineStart = beforeCursor.lastIndexOf('\n') + 1;
   const lineText = beforeCursor.slice(lineStart);
-  const arrowMatch = lineText.match(ARROW_RE);
-  if (!arrowMatch || arrowMatch.index === undefined) {
+  if (findDslCommentStart(lineText) !== -1) {
     return [];
   }
-  const arrowIndex = arrowMatch.index;
-  const ownerRef = resolveOwnerRef(dsl, lineStart, lineText, arrowIndex);
+  const arrows = [...lineText.matchAll(ARROW_GLOBAL_RE)];
+  if (arrows.length === 0) {
+    return [];
+  }
+  const ownerRef = resolveOwnerRef(dsl, lineStart, lineText, arrows[0].index ?? 0);
   if (!ownerRef) {
     return [];
   }
 
-  const afterArrow = lineText.slice(arrowIndex + 2);
+  const lastArrow = arrows[arrows.length - 1];
+  const lastArrowIndex = lastArrow.index ?? 0;
+  const excludedRefs = new Set([ownerRef]);
+  const previousArrow = arrows.length > 1 ? arrows[arrows.length - 2] : null;
+  if (previousArrow && previousArrow[0] === '->' && lastArrow[0] === '->') {
+    // In a chain (`a -> b -> `) the step source must not be suggested as its own successor.
+    for (const ref of splitClauseRefs(lineText.slice((previousArrow.index ?? 0) + 2, lastArrowIndex))) {
+      excludedRefs.add(ref);
+    }
+  }
+
+  const afterArrow = lineText.slice(lastArrowIndex + 2);
   const currentToken = afterArrow.slice(afterArrow.lastIndexOf(',') + 1).trim();
 
-  const refs = collectRefs(dsl).filter((ref) => ref !== ownerRef);
+  const cursorLineIndex = beforeCursor.split('\n').length - 1;
+  const refs = collectRefs(dsl, cursorLineIndex).filter((ref) => !excludedRefs.has(ref));
   if (!currentToken) {
     return refs;
   }
@@ -29,16 +51,227 @@ export function getDependencySuggestions(dsl: string, cursorPos: number): string
   return refs.filter((ref) => ref.startsWith(currentToken));
 }
 
-export function getUsesKeySuggestions(dsl: string, cursorPos: number): { from: number; suggestions: string[] } | null {
+export type ProjectNodeRef = {
+  ref: string;
+  sliceName: string;
+  dataBlock: string | null;
+};
+
+export type NodeRefSuggestion = {
+  ref: string;
+  local: boolean;
+  sliceName: string | null;
+  dataBlock: string | null;
+};
+
+export type NodeRefCompletionContext = 'declaration' | 'clause' | 'scenario';
+
+// Node refs declared in other slices, with their literal (unmapped) data ready to paste under a declaration.
+export function collectProjectNodeRefs(slices: CrossSliceParsedDocument[], currentSliceId: string): ProjectNodeRef[] {
+  const refs: ProjectNodeRef[] = [];
+  const seen = new Set<string>();
+  for (const slice of slices) {
+    if (slice.id === currentSliceId) {
+      continue;
+    }
+    const scenarioOnlyKeys = new Set(slice.parsed.scenarioOnlyNodeKeys);
+    for (const node of slice.parsed.nodes.values()) {
+      const ref = toNodeRef(node);
+      if (scenarioOnlyKeys.has(node.key) || node.key.startsWith('scn:') || seen.has(ref)) {
+        continue;
+      }
+      seen.add(ref);
+      const literalData = Object.fromEntries(
+        Object.entries(node.data ?? {}).filter(([key]) => !node.mappedDataKeys?.has(key))
+      );
+      const fields = formatNodeData(literalData);
+      refs.push({
+        ref,
+        sliceName: slice.parsed.sliceName,
+        dataBlock: fields.length > 0
+          ? ['data:', ...fields.flatMap((field) => field.text.split('\n')).map((line) => `  ${line}`)].join('\n')
+          : null
+      });
+    }
+  }
+  return refs;
+}
+
+// Fuzzy-matches the ref being typed on a declaration line, in a `<-`/`->` clause or as a scenario entry.
+export function getNodeRefSuggestions(
+  dsl: string,
+  cursorPos: number,
+  projectRefs: ProjectNodeRef[] = []
+): { from: number; context: NodeRefCompletionContext; suggestions: NodeRefSuggestion[] } | null {
   const safeCursor = clamp(cursorPos, 0, dsl.length);
   const beforeCursor = dsl.slice(0, safeCursor);
   const lineStart = beforeCursor.lastIndexOf('\n') + 1;
   const lineText = beforeCursor.slice(lineStart);
+  if (findDslCommentStart(lineText) !== -1) {
+    return null;
+  }
+
+  const excludedRefs = new Set<string>();
+  let context: NodeRefCompletionContext;
+  let token: string;
+  const arrows = [...lineText.matchAll(ARROW_GLOBAL_RE)];
+  if (arrows.length > 0) {
+    const ownerRef = resolveOwnerRef(dsl, lineStart, lineText, arrows[0].index ?? 0);
+    const lastArrow = arrows[arrows.length - 1];
+    const afterArrow = lineText.slice((lastArrow.index ?? 0) + 2);
+    token = afterArrow.slice(afterArrow.lastIndexOf(',') + 1).trimStart();
+    if (!ownerRef || !REF_TOKEN.test(token)) {
+      return null;
+    }
+    excludedRefs.add(ownerRef);
+    const previousArrow = arrows.length > 1 ? arrows[arrows.length - 2] : null;
+    if (previousArrow && previousArrow[0] === '->' && lastArrow[0] === '->') {
+      for (const ref of splitClauseRefs(lineText.slice((previousArrow.index ?? 0) + 2, lastArrow.index ?? 0))) {
+        excludedRefs.add(ref);
+      }
+    }
+    context = 'clause';
+  } else {
+    token = lineText.trim();
+    const indented = /^\s/.test(lineText);
+    if (!token || !REF_TOKEN.test(token) || SECTION_KEYWORD.test(token)) {
+      return null;
+    }
+    if (indented && !isInScenarioSection(dsl, lineStart)) {
+      return null;
+    }
+    context = indented ? 'scenario' : 'declaration';
+  }
+
+  const from = safeCursor - token.length;
+  const cursorLineIndex = beforeCursor.split('\n').length - 1;
+  const localRefs = collectRefs(dsl.slice(0, from) + dsl.slice(safeCursor), cursorLineIndex)
+    .filter((ref) => !excludedRefs.has(ref));
+  const localRefSet = new Set(localRefs);
+  const candidates: NodeRefSuggestion[] = [
+    ...localRefs.map((ref) => ({ ref, local: true, sliceName: null, dataBlock: null })),
+    ...projectRefs
+      .filter((entry) => !localRefSet.has(entry.ref) && !excludedRefs.has(entry.ref))
+      .map((entry) => ({ ref: entry.ref, local: false, sliceName: entry.sliceName, dataBlock: entry.dataBlock }))
+  ];
+
+  const scored = candidates
+    .map((candidate) => ({ candidate, score: fuzzyRefScore(token, candidate.ref) }))
+    .filter((entry): entry is { candidate: NodeRefSuggestion; score: number } => entry.score !== null);
+  // Scattered-character matches are noise once something matches the typed text directly.
+  const hasDirectMatch = scored.some((entry) => entry.score < SCATTERED_MATCH_SCORE);
+  const suggestions = scored
+    .filter((entry) => !hasDirectMatch || entry.score < SCATTERED_MATCH_SCORE)
+    .sort((a, b) => (
+      Number(b.candidate.local) - Number(a.candidate.local) ||
+      a.score - b.score ||
+      a.candidate.ref.localeCompare(b.candidate.ref)
+    ))
+    .map((entry) => entry.candidate);
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return { from, context, suggestions };
+}
+
+export type UsesKeySuggestion = {
+  label: string;
+  apply: string;
+  sourceRef: string;
+  sample: unknown;
+};
+
+type UsesSourcePath = {
+  dottedPath: string | null;
+  jsonPath: string;
+  sourceRef: string;
+  sample: unknown;
+  fromPredecessor: boolean;
+};
+
+export function getUsesKeySuggestions(
+  dsl: string,
+  cursorPos: number
+): { from: number; suggestions: string[]; details: UsesKeySuggestion[] } | null {
+  const safeCursor = clamp(cursorPos, 0, dsl.length);
+  const beforeCursor = dsl.slice(0, safeCursor);
+  const lineStart = beforeCursor.lastIndexOf('\n') + 1;
+  const lineText = beforeCursor.slice(lineStart);
+  if (findDslCommentStart(lineText) !== -1) {
+    return null;
+  }
   const tokenMatch = lineText.match(/([A-Za-z0-9_:@.-]*)\.\.$/);
   if (!tokenMatch || tokenMatch.index === undefined) {
     return null;
   }
 
+  const sourcePaths = collectUsesSourcePaths(dsl, lineStart, true);
+  if (!sourcePaths) {
+    return null;
+  }
+
+  const prefix = tokenMatch[1] ?? '';
+  const details = rankSuggestions(
+    toKeySuggestions(sourcePaths)
+      .filter((suggestion) => suggestion.label === suggestion.apply)
+      .filter((suggestion) => /^[A-Za-z0-9_-]+(?:\.[A-Za-z0-9_-]+)*$/.test(suggestion.label)),
+    prefix
+  );
+  if (details.length === 0) {
+    return null;
+  }
+
+  return {
+    from: safeCursor - tokenMatch[0].length,
+    suggestions: details.map((suggestion) => suggestion.label),
+    details
+  };
+}
+
+// Completes the key being typed on a `uses:`/`maps:` line, or the JSONPath after `key <- `.
+export function getUsesPathSuggestions(
+  dsl: string,
+  cursorPos: number,
+  explicit = false
+): { from: number; suggestions: UsesKeySuggestion[] } | null {
+  const safeCursor = clamp(cursorPos, 0, dsl.length);
+  const beforeCursor = dsl.slice(0, safeCursor);
+  const lineStart = beforeCursor.lastIndexOf('\n') + 1;
+  const lineText = beforeCursor.slice(lineStart);
+  if (findDslCommentStart(lineText) !== -1) {
+    return null;
+  }
+
+  const jsonPathMatch = lineText.match(/^\s+[^\s<]+\s*<-\s*(\$\S*)?$/);
+  const keyMatch = jsonPathMatch ? null : lineText.match(/^\s+([A-Za-z0-9_.-]*)$/);
+  const token = jsonPathMatch?.[1] ?? keyMatch?.[1] ?? '';
+  if ((!jsonPathMatch && !keyMatch) || (!token && !explicit)) {
+    return null;
+  }
+
+  const sourcePaths = collectUsesSourcePaths(dsl, lineStart, false);
+  if (!sourcePaths) {
+    return null;
+  }
+
+  const suggestions = rankSuggestions(
+    jsonPathMatch
+      ? sourcePaths.map((path) => ({ label: path.jsonPath, apply: path.jsonPath, sourceRef: path.sourceRef, sample: path.sample }))
+      : toKeySuggestions(sourcePaths),
+    token
+  );
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return {
+    from: safeCursor - token.length,
+    suggestions
+  };
+}
+
+function collectUsesSourcePaths(dsl: string, lineStart: number, includeAllNodes: boolean): UsesSourcePath[] | null {
   const ownerRef = resolveUsesOwnerRef(dsl, lineStart);
   if (!ownerRef) {
     return null;
@@ -50,39 +283,128 @@ export function getUsesKeySuggestions(dsl: string, cursorPos: number): { from: n
     return null;
   }
 
-  const keys = new Set<string>();
+  const paths: UsesSourcePath[] = [];
+  const predecessorKeys = new Set<string>();
   for (const edge of parsed.edges) {
-    if (edge.to !== ownerNode.key) {
+    if (edge.to !== ownerNode.key || predecessorKeys.has(edge.from)) {
       continue;
     }
+    predecessorKeys.add(edge.from);
     const predecessor = parsed.nodes.get(edge.from);
-    for (const key of flattenDataKeys(predecessor?.data)) {
-      keys.add(key);
+    if (predecessor) {
+      collectDataPaths(predecessor.data, '', '$', toNodeRef(predecessor), true, paths);
     }
   }
 
-  for (const node of parsed.nodes.values()) {
-    if (node.type === 'generic') {
-      continue;
+  if (includeAllNodes) {
+    for (const node of parsed.nodes.values()) {
+      if (node.type === 'generic' || predecessorKeys.has(node.key)) {
+        continue;
+      }
+      collectDataPaths(node.data, '', '$', toNodeRef(node), false, paths);
     }
-    for (const key of flattenDataKeys(node.data)) {
-      keys.add(key);
+  }
+
+  return paths;
+}
+
+function collectDataPaths(
+  value: unknown,
+  dottedPath: string | null,
+  jsonPath: string,
+  sourceRef: string,
+  fromPredecessor: boolean,
+  paths: UsesSourcePath[]
+) {
+  if (Array.isArray(value)) {
+    if (value.length > 0) {
+      const elementPath = `${jsonPath}[0]`;
+      paths.push({ dottedPath: null, jsonPath: elementPath, sourceRef, sample: value[0], fromPredecessor });
+      collectDataPaths(value[0], null, elementPath, sourceRef, fromPredecessor, paths);
     }
+    return;
   }
+  if (!value || typeof value !== 'object') {
+    return;
+  }
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    if (child === MISSING_DATA_VALUE) {
+      continue;
+    }
+    const childDottedPath = dottedPath === null ? null : dottedPath ? `${dottedPath}.${key}` : key;
+    const childJsonPath = /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? `${jsonPath}.${key}` : `${jsonPath}['${key}']`;
+    paths.push({ dottedPath: childDottedPath, jsonPath: childJsonPath, sourceRef, sample: child, fromPredecessor });
+    collectDataPaths(child, childDottedPath, childJsonPath, sourceRef, fromPredecessor, paths);
+  }
+}
 
-  const prefix = tokenMatch[1] ?? '';
-  const suggestions = [...keys]
-    .filter((key) => /^[A-Za-z0-9_-]+(?:\.[A-Za-z0-9_-]+)*$/.test(key))
-    .filter((key) => !prefix || key.includes(prefix))
-    .sort((a, b) => compareSuggestions(a, b, prefix));
-  if (suggestions.length === 0) {
-    return null;
+// Paths into arrays need JSONPath, so they complete to a full `key <- $.path` mapping.
+function toKeySuggestions(paths: UsesSourcePath[]): UsesKeySuggestion[] {
+  return [...paths]
+    .sort((a, b) => Number(b.fromPredecessor) - Number(a.fromPredecessor))
+    .map((path) => {
+      if (path.dottedPath !== null) {
+        return { label: path.dottedPath, apply: path.dottedPath, sourceRef: path.sourceRef, sample: path.sample };
+      }
+      const leafKey = path.jsonPath.match(/([A-Za-z0-9_-]+)'?\]?(?:\[\d+\])*$/)?.[1] ?? 'value';
+      return { label: path.jsonPath, apply: `${leafKey} <- ${path.jsonPath}`, sourceRef: path.sourceRef, sample: path.sample };
+    });
+}
+
+// Keeps the first (predecessor) occurrence of each label and ranks prefix matches first.
+function rankSuggestions(suggestions: UsesKeySuggestion[], token: string): UsesKeySuggestion[] {
+  const seen = new Set<string>();
+  return suggestions
+    .filter((suggestion) => {
+      if (seen.has(suggestion.label) || (token && !suggestion.label.includes(token))) {
+        return false;
+      }
+      seen.add(suggestion.label);
+      return true;
+    })
+    .sort((a, b) => compareSuggestions(a.label, b.label, token));
+}
+
+function toNodeRef(node: { type: string; name: string }): string {
+  return node.type === 'generic' ? node.name : `${node.type}:${node.name}`;
+}
+
+// Lower is better: prefix match, then substring match, then in-order characters. Names match without their type.
+function fuzzyRefScore(token: string, ref: string): number | null {
+  const query = token.toLowerCase();
+  if (!query) {
+    return 0;
+  }
+  const target = ref.toLowerCase();
+  const name = target.slice(target.indexOf(':') + 1);
+  if (target.startsWith(query) || name.startsWith(query)) {
+    return 0;
   }
+  if (target.includes(query)) {
+    return 1;
+  }
+  let queryIndex = 0;
+  for (const char of target) {
+    if (char === query[queryIndex]) {
+      queryIndex += 1;
+      if (queryIndex === query.length) {
+        return SCATTERED_MATCH_SCORE;
+      }
+    }
+  }
+  return null;
+}
 
-  return {
-    from: safeCursor - tokenMatch[0].length,
-    suggestions
-  };
+function isInScenarioSection(dsl: string, lineStart: number): boolean {
+  const lines = dsl.slice(0, lineStart).split('\n');
+  for (let i = lines.length - 1; i >= 0; i -= 1) {
+    const line = stripDslComment(lines[i]);
+    if (!line.trim() || /^\s/.test(line)) {
+      continue;
+    }
+    return /^(?:given|when|then):\s*$/.test(line);
+  }
+  return false;
 }
 
 function resolveOwnerRef(dsl: string, lineStart: number, lineText: string, arrowIndex: number): string | null {
@@ -106,27 +428,59 @@ function findPreviousNodeRef(dsl: string, lineStart: number): string | null {
   return null;
 }
 
-function collectRefs(dsl: string): string[] {
+function collectRefs(dsl: string, cursorLineIndex: number): string[] {
   const refs: string[] = [];
   const seen = new Set<string>();
 
-  for (const line of dsl.split('\n')) {
-    const ref = parseRef(line);
-    if (!ref || seen.has(ref)) {
-      continue;
+  for (const [lineIndex, line] of dsl.split('\n').entries()) {
+    const lineRef = parseRef(line);
+    // The flow being typed on the cursor line is incomplete, so it does not contribute refs yet.
+    const flowRefs = lineIndex === cursorLineIndex ? [] : collectFlowRefs(line, lineRef !== null);
+    for (const ref of [lineRef, ...flowRefs]) {
+      if (!ref || seen.has(ref)) {
+        continue;
+      }
+      seen.add(ref);
+      refs.push(ref);
     }
-    seen.add(ref);
-    refs.push(ref);
   }
 
   return refs;
 }
 
-function parseRef(line: string): string | null {
+// Forward flows create the nodes they mention: `a -> b` on a node line, or any `a -> b -> c` chain.
+function collectFlowRefs(rawLine: string, isNodeLine: boolean): string[] {
+  const line = stripDslComment(rawLine);
+  const segments = line.split(ARROW_GLOBAL_RE);
+  const forwardCount = segments.filter((segment) => segment === '->').length;
+  if (forwardCount === 0 || (!isNodeLine && forwardCount < 2)) {
+    return [];
+  }
+
+  const refs: string[] = [];
+  for (let index = 1; index + 1 < segments.length; index += 2) {
+    if (segments[index] === '->') {
+      refs.push(...splitClauseRefs(segments[index + 1]));
+    }
+  }
+  return refs;
+}
+
+function splitClauseRefs(clause: string): string[] {
+  return clause
+    .split(',')
+    .map((ref) => ref.trim())
+    .filter((ref) => CLAUSE_REF.test(ref));
+}
+
+function parseRef(rawLine: string): string | null {
+  const line = stripDslComment(rawLine);
   const trimmed = line.trim();
   if (!trimmed ||
     trimmed.startsWith('slice ') ||
     trimmed.startsWith('stream:') ||
+    trimmed.startsWith('lane:') ||
+    trimmed.startsWith('lanes:') ||
     trimmed.startsWith('uses:') ||
     trimmed.startsWith('data:') ||
     trimmed.startsWith('---') ||
@@ -163,6 +517,9 @@ function resolveUsesOwnerRef(dsl: string, lineStartOffset: number): string | nul
       usesLineIndex = i;
       break;
     }
+    if (trimmed.startsWith('data:')) {
+      return null;
+    }
     if (parseRef(line)) {
       return null;
     }
@@ -182,19 +539,6 @@ function resolveUsesOwnerRef(dsl: string, lineStartOffset: number): string | nul
   return null;
 }
 
-function flattenDataKeys(data: unknown, path = ''): string[] {
-  if (!data || typeof data !== 'object' || Array.isArray(data)) {
-    return [];
-  }
-  const result: string[] = [];
-  for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
-    const nextPath = path ? `${path}.${key}` : key;
-    result.push(nextPath);
-    result.push(...flattenDataKeys(value, nextPath));
-  }
-  return result;
-}
-
 function compareSuggestions(a: string, b: string, prefix: string): number {
   if (!prefix) {
     return a.localeCompare(b);
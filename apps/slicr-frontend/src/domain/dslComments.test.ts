@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { findDslCommentStart, stripDslComment } from './dslComments';
+
+describe('dslComments', () => {
+  it('finds # and // comments at the start of a line or after whitespace', () => {
+    expect(findDslCommentStart('# note')).toBe(0);
+    expect(findDslCommentStart('// note')).toBe(0);
+    expect(findDslCommentStart('evt:room-booked # note')).toBe(16);
+    expect(findDslCommentStart('  room: 101 // note')).toBe(12);
+  });
+
+  it('does not treat hashes or slashes inside tokens or quoted strings as comments', () => {
+    expect(findDslCommentStart('evt:room-booked#2')).toBe(-1);
+    expect(findDslCommentStart('url: https://example.com')).toBe(-1);
+    expect(findDslCommentStart('label: "Room # 101 // north"')).toBe(-1);
+    const escaped = 'label: "say \\"#\\"" # note';
+    expect(findDslCommentStart(escaped)).toBe(escaped.indexOf(' # note') + 1);
+  });
+
+  it('strips the comment and trailing whitespace but keeps the line prefix', () => {
+    expect(stripDslComment('  room-number: 101   # never reused')).toBe('  room-number: 101');
+    expect(stripDslComment('# only a comment')).toBe('');
+    expect(stripDslComment('cmd:book-room <- ui:room-list')).toBe('cmd:book-room <- ui:room-list');
+  });
+});
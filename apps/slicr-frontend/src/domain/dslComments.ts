@@ -0,0 +1,41 @@
+export function findDslCommentStart(line: string): number {
+  let inString = false;
+
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (inString) {
+      if (char === '\\') {
+        index += 1;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      continue;
+    }
+
+    const startsComment = char === '#' || (char === '/' && line[index + 1] === '/');
+    if (startsComment && (index === 0 || /\s/.test(line[index - 1]))) {
+      return index;
+    }
+  }
+
+  return -1;
+}
+
+// Comments start with `#` or `//` at the beginning of a line or after whitespace, outside of double-quoted strings.
+// Stripping keeps the line prefix intact so source offsets computed from the raw text stay valid.
+export function stripDslComment(line: string): string {
+  const commentStart = findDslCommentStart(line);
+  if (commentStart === -1) {
+    return line;
+  }
+  return line.slice(0, commentStart).trimEnd();
+}
+
+export function stripDslComments(lines: string[]): string[] {
+  return lines.map(stripDslComment);
+}
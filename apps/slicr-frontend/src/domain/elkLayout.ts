@@ -7,7 +7,7 @@ import {
   applySuccessorGapPass,
   buildBoundarySpecs
 } from './elkPostLayout';
-import { nodeHeight, PAD_X, rowFor } from './layoutGraph';
+import { buildLaneRows, nodeHeight, PAD_X, rowFor } from './layoutGraph';
 import { DEFAULT_NODE_WIDTH, projectNodeHeights } from './nodeSizing';
 import type { NodeDimensions } from './nodeSizing';
 import type { Parsed, Position } from './types';
@@ -19,6 +19,7 @@ export type ElkComputedLayout = {
   edges: Record<string, DiagramEdgeGeometry>;
   laneByKey: Map<string, number>;
   rowStreamLabels: Record<number, string>;
+  rowLaneLabels: Record<number, string>;
 };
 
 const EDGE_NODE_AVOIDANCE_CLEARANCE_X = 26;
@@ -205,56 +206,8 @@ export function buildTopoOrder(parsed: Parsed): Map<string, number> {
 }
 
 export function buildElkLaneMeta(parsed: Parsed) {
-  const laneByKey = new Map<string, number>();
-  const rowStreamLabels: Record<number, string> = {};
-  const eventsByStream = new Map<string, string[]>();
-
-  for (const node of parsed.nodes.values()) {
-    if (node.type === 'ui' || node.type === 'aut' || node.type === 'ext' || node.type === 'generic') {
-      laneByKey.set(node.key, 0);
-      continue;
-    }
-    if (node.type === 'exc') {
-      const list = eventsByStream.get('default');
-      if (list) {
-        list.push(node.key);
-      } else {
-        eventsByStream.set('default', [node.key]);
-      }
-      continue;
-    }
-
-    if (node.type !== 'evt') {
-      laneByKey.set(node.key, 1);
-      continue;
-    }
-
-    const stream = node.stream?.trim() || 'default';
-    const list = eventsByStream.get(stream);
-    if (list) {
-      list.push(node.key);
-    } else {
-      eventsByStream.set(stream, [node.key]);
-    }
-  }
-
-  const streamOrder = [...eventsByStream.keys()].sort((a, b) => {
-    if (a === 'default') return 1;
-    if (b === 'default') return -1;
-    return 0;
-  });
-
-  streamOrder.forEach((stream, index) => {
-    const lane = 2 + index;
-    for (const key of eventsByStream.get(stream) ?? []) {
-      laneByKey.set(key, lane);
-    }
-    if (stream !== 'default') {
-      rowStreamLabels[lane] = stream;
-    }
-  });
-
-  return { laneByKey, rowStreamLabels };
+  const { rowByKey, rowStreamLabels, rowLaneLabels } = buildLaneRows(parsed.nodes.values(), parsed.laneOrder);
+  return { laneByKey: rowByKey, rowStreamLabels, rowLaneLabels };
 }
 
 export async function computeElkLayout(
@@ -265,7 +218,7 @@ export async function computeElkLayout(
   const elk = new ELK();
   const measuredHeights = projectNodeHeights(nodeDimensions);
   const topoOrder = buildTopoOrder(parsed);
-  const { laneByKey, rowStreamLabels } = buildElkLaneMeta(parsed);
+  const { laneByKey, rowStreamLabels, rowLaneLabels } = buildElkLaneMeta(parsed);
   const dslOrder = new Map<string, number>();
   [...parsed.nodes.keys()].forEach((key, index) => dslOrder.set(key, index));
   const boundarySpecs = buildBoundarySpecs(parsed.boundaries, dslOrder);
@@ -446,6 +399,7 @@ export async function computeElkLayout(
     h: maxY + 48,
     edges,
     laneByKey,
-    rowStreamLabels
+    rowStreamLabels,
+    rowLaneLabels
   };
 }
@@ -0,0 +1,165 @@
+// @vitest-environment node
+
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { formatDsl } from './formatDsl';
+import { parseDsl } from './parseDsl';
+
+function stableKey(key: string) {
+  return key.replace(/^scn:\d+:/, 'scn:');
+}
+
+function modelOf(dsl: string) {
+  const parsed = parseDsl(dsl);
+  return {
+    sliceName: parsed.sliceName,
+    nodes: [...parsed.nodes.values()].map(({ key, type, name, alias, stream, lane, data }) => ({
+      key: stableKey(key),
+      type,
+      name,
+      alias,
+      stream,
+      lane: lane ?? null,
+      data
+    })),
+    edges: parsed.edges.map((edge) => `${stableKey(edge.from)}>${stableKey(edge.to)}:${edge.label ?? ''}`).sort(),
+    boundaries: parsed.boundaries,
+    scenarios: parsed.scenarios.map((scenario) => ({
+      name: scenario.name,
+      given: scenario.given.map((entry) => stableKey(entry.key)),
+      when: scenario.when ? stableKey(scenario.when.key) : null,
+      then: scenario.then.map((entry) => stableKey(entry.key))
+    })),
+    laneOrder: parsed.laneOrder,
+    warnings: parsed.warnings.map((warning) => warning.message).sort()
+  };
+}
+
+const parseDslSource = readFileSync(new URL('./parseDsl.test.ts', import.meta.url), 'utf8');
+// Every template literal without interpolation and every quoted multi-line string is a DSL fixture.
+const parseDslFixtures = [
+  ...[...parseDslSource.matchAll(/`([^`]*)`/g)].map((match) => match[1]).filter((text) => !text.includes('${')),
+  ...[...parseDslSource.matchAll(/'((?:[^'\\\n]|\\.)*)'/g)].map((match) => match[1]).filter((text) => text.includes('\\n'))
+].map((text) => text.replace(/\\n/g, '\n').replace(/\\'/g, '\'').replace(/\\\\/g, '\\'));
+
+describe('formatDsl', () => {
+  it('normalizes indentation, inline incoming clauses and blank lines', () => {
+    const input = `slice   "Orders"
+evt:order-created   "Order Created"
+    data:
+        order-id: o-1
+        items:
+            - sku: a
+              qty: 1
+rm:orders <- evt:order-created
+    stream: orders
+ui:orders-list <- rm:orders
+
+
+cmd:create-order
+    <- ui:orders-list`;
+
+    expect(formatDsl(input)).toBe(`slice "Orders"
+
+evt:order-created "Order Created"
+data:
+  order-id: o-1
+  items:
+    - sku: a
+      qty: 1
+
+rm:orders
+<- evt:order-created
+stream: orders
+
+ui:orders-list
+<- rm:orders
+
+cmd:create-order
+<- ui:orders-list
+`);
+  });
+
+  it('orders clauses before uses and data blocks and keeps comments with what follows them', () => {
+    const input = `slice "Bookings"
+
+# the read model
+rm:bookings
+data:
+  count: 1 # current total
+# wired from the event
+uses:
+  count
+<- evt:booked
+`;
+
+    expect(formatDsl(input)).toBe(`slice "Bookings"
+
+# the read model
+rm:bookings
+<- evt:booked
+# wired from the event
+uses:
+  count
+data:
+  count: 1 # current total
+`);
+  });
+
+  it('lays out scenarios with indented entries and a blank line between sections', () => {
+    const input = `slice "Cart"
+
+evt:item-added
+scenario "Add item"
+given:
+    evt:cart-created
+when:
+      cmd:add-item
+then:
+ evt:item-added
+`;
+
+    expect(formatDsl(input)).toBe(`slice "Cart"
+
+evt:item-added
+
+scenario "Add item"
+given:
+  evt:cart-created
+
+when:
+  cmd:add-item
+
+then:
+  evt:item-added
+`);
+  });
+
+  it('keeps forward chains on the node line because they declare the nodes they reach', () => {
+    const input = 'slice "Flow"\n\nui:form -> cmd:submit -> evt:submitted\n';
+
+    expect(formatDsl(input)).toBe(input);
+  });
+
+  it('leaves a dangling incoming arrow on the node line', () => {
+    const input = 'slice "A"\n\ncmd:x <-\n';
+
+    expect(formatDsl(input)).toBe(input);
+  });
+
+  it('keeps lines outside any known block without changing the model', () => {
+    const input = 'slice "Broken"\n\nevt:a\n  data:\n  - odd\n';
+
+    expect(modelOf(formatDsl(input))).toEqual(modelOf(input));
+  });
+
+  it('round-trips every parser fixture without changing the model and is idempotent', () => {
+    expect(parseDslFixtures.length).toBeGreaterThan(40);
+    for (const fixture of parseDslFixtures) {
+      const formatted = formatDsl(fixture);
+
+      expect(modelOf(formatted)).toEqual(modelOf(fixture));
+      expect(formatDsl(formatted)).toBe(formatted);
+    }
+  });
+});
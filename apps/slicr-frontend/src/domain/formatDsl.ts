@@ -0,0 +1,291 @@
+import { findDslCommentStart } from './dslComments';
+import { parseDsl } from './parseDsl';
+import type { Parsed } from './types';
+
+type SourceLine = {
+  code: string;
+  comment: string;
+  indent: number;
+};
+
+type Entry = {
+  indent: number;
+  text: string;
+  comments: string[];
+};
+
+type Group = {
+  kind: 'node' | 'scenario' | 'statement';
+  blankBefore: boolean;
+  lines: Entry[];
+  clauses: Entry[];
+  usesBlocks: Entry[][];
+  dataBlocks: Entry[][];
+};
+
+const BLOCK_HEADER = /^(data|uses|maps):/;
+const CLAUSE_LINE = /^(?:<-|->|stream:|lane:)/;
+const SECTION_HEADER = /^(?:given|when|then):$/;
+const STATEMENT_LINE = /^(?:slice\s|---$|lanes:)/;
+const QUOTED = /"(?:[^"\\]|\\.)*"/g;
+
+function toSourceLine(raw: string): SourceLine {
+  const commentStart = findDslCommentStart(raw);
+  const code = (commentStart === -1 ? raw : raw.slice(0, commentStart)).trimEnd();
+  return {
+    code: code.trim(),
+    comment: commentStart === -1 ? '' : raw.slice(commentStart).trim(),
+    indent: (raw.match(/^\s*/)?.[0] ?? '').length
+  };
+}
+
+// Hides quoted aliases so arrow and whitespace handling never touches their contents.
+function maskQuoted(code: string): string {
+  return code.replace(QUOTED, (match) => 'x'.repeat(match.length));
+}
+
+function collapseWhitespace(code: string): string {
+  const masked = maskQuoted(code);
+  let result = '';
+  for (let index = 0; index < code.length; index += 1) {
+    if (/\s/.test(masked[index]) && /\s/.test(masked[index - 1] ?? '')) {
+      continue;
+    }
+    result += /\s/.test(masked[index]) ? ' ' : code[index];
+  }
+  return result;
+}
+
+function withComment(code: string, comment: string): string {
+  if (!comment) {
+    return code;
+  }
+  return code ? `${code} ${comment}` : comment;
+}
+
+// A single inline `<-` clause moves to its own line; forward flows stay inline because they create nodes,
+// and a dangling `<-` stays put so a second pass finds nothing to move.
+function splitInlineIncoming(code: string): [string, string | null] {
+  const arrows = [...maskQuoted(code).matchAll(/<-|->/g)];
+  if (arrows.length !== 1 || arrows[0][0] !== '<-') {
+    return [code, null];
+  }
+  const index = arrows[0].index ?? 0;
+  const head = code.slice(0, index).trim();
+  const refs = code.slice(index + 2).trim();
+  return head && refs ? [head, `<- ${refs}`] : [code, null];
+}
+
+// Re-indents a block body in two-space steps. List item continuations sit two columns past the dash,
+// nested values of a list item four.
+function reindentBody(body: Array<{ line: SourceLine; comments: string[] }>, baseIndent: number): Entry[] {
+  const stack = [{ oldIndent: -1, newIndent: baseIndent, isItem: false }];
+  return body.map(({ line, comments }) => {
+    while (stack.length > 1 && stack[stack.length - 1].oldIndent > line.indent) {
+      stack.pop();
+    }
+    const isItem = line.code.startsWith('-');
+    const top = stack[stack.length - 1];
+    let newIndent: number;
+    if (stack.length > 1 && top.oldIndent === line.indent) {
+      newIndent = top.newIndent;
+      stack.pop();
+    } else if (top.isItem) {
+      newIndent = top.newIndent + (!isItem && line.indent - top.oldIndent <= 2 ? 2 : 4);
+    } else {
+      newIndent = top.newIndent + 2;
+    }
+    stack.push({ oldIndent: line.indent, newIndent, isItem });
+    return { indent: newIndent, text: withComment(collapseWhitespace(line.code), line.comment), comments };
+  });
+}
+
+// Scenario node keys carry their line number, which moves whenever the layout does.
+function stableKey(key: string): string {
+  return key.replace(/^scn:\d+:/, 'scn:');
+}
+
+function semanticSignature(parsed: Parsed): string {
+  return JSON.stringify({
+    sliceName: parsed.sliceName,
+    nodes: [...parsed.nodes.values()].map((node) => [
+      stableKey(node.key),
+      node.type,
+      node.name,
+      node.alias,
+      node.stream,
+      node.lane ?? null,
+      node.data,
+      [...(node.mappedDataKeys ?? [])].sort()
+    ]),
+    edges: parsed.edges.map((edge) => `${stableKey(edge.from)}->${stableKey(edge.to)}:${edge.label ?? ''}`).sort(),
+    warnings: parsed.warnings.map((warning) => `${warning.level}:${warning.message}`).sort(),
+    boundaries: parsed.boundaries,
+    scenarios: parsed.scenarios.map((scenario) => [
+      scenario.name,
+      ...[...scenario.given, scenario.when, ...scenario.then].map((entry) => entry && [stableKey(entry.key), entry.type, entry.name, entry.alias])
+    ]),
+    laneOrder: parsed.laneOrder
+  });
+}
+
+function emitGroup(group: Group): string[] {
+  const entries = [
+    ...group.lines,
+    ...group.clauses,
+    ...group.usesBlocks.flat(),
+    ...group.dataBlocks.flat()
+  ];
+  return entries.flatMap((entry) => [
+    ...entry.comments.map((comment) => `${' '.repeat(entry.indent)}${comment}`),
+    `${' '.repeat(entry.indent)}${entry.text}`
+  ]);
+}
+
+function hasBody(group: Group): boolean {
+  return group.kind === 'scenario' || group.lines.length > 1 || group.clauses.length > 0 ||
+    group.usesBlocks.length > 0 || group.dataBlocks.length > 0;
+}
+
+function layoutDsl(src: string): string {
+  const lines = src.replace(/\r\n/g, '\n').split('\n').map(toSourceLine);
+  const groups: Group[] = [];
+  let current: Group | null = null;
+  let comments: string[] = [];
+  let sawBlank = false;
+
+  const startGroup = (kind: Group['kind']): Group => {
+    const group: Group = { kind, blankBefore: sawBlank, lines: [], clauses: [], usesBlocks: [], dataBlocks: [] };
+    groups.push(group);
+    return group;
+  };
+  const takeComments = () => {
+    const taken = comments;
+    comments = [];
+    return taken;
+  };
+  // Collects the lines indented deeper than `parentIndent`, keeping comments that sit between them.
+  const collectBody = (start: number, parentIndent: number) => {
+    const body: Array<{ line: SourceLine; comments: string[] }> = [];
+    let pendingComments: string[] = [];
+    let index = start;
+    for (; index < lines.length; index += 1) {
+      const line = lines[index];
+      if (!line.code) {
+        if (line.comment) {
+          pendingComments.push(line.comment);
+        }
+        continue;
+      }
+      if (line.indent <= parentIndent) {
+        break;
+      }
+      body.push({ line, comments: pendingComments });
+      pendingComments = [];
+    }
+    // Comments after the body belong to whatever follows it.
+    let end = index;
+    while (end > start && !lines[end - 1].code) {
+      end -= 1;
+    }
+    return { body, next: end };
+  };
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.code) {
+      if (line.comment) {
+        if (comments.length === 0 && current?.kind !== 'node') {
+          current = null;
+        }
+        comments.push(line.comment);
+      } else if (comments.length === 0) {
+        sawBlank = true;
+      }
+      index += 1;
+      continue;
+    }
+
+    const code = collapseWhitespace(line.code);
+    if (current?.kind === 'node' && BLOCK_HEADER.test(code)) {
+      const { body, next } = collectBody(index + 1, line.indent);
+      const block = [{ indent: 0, text: withComment(code, line.comment), comments: takeComments() }, ...reindentBody(body, 0)];
+      (code.startsWith('data:') ? current.dataBlocks : current.usesBlocks).push(block);
+      index = next;
+      continue;
+    }
+    if (current?.kind === 'node' && CLAUSE_LINE.test(code)) {
+      current.clauses.push({ indent: 0, text: withComment(code, line.comment), comments: takeComments() });
+      index += 1;
+      continue;
+    }
+
+    if (line.indent > 0 && !(current?.kind === 'scenario' && SECTION_HEADER.test(code))) {
+      // Anything else indented outside a block keeps its place and indentation.
+      const group: Group = current ?? startGroup('statement');
+      group.lines.push({ indent: line.indent, text: withComment(code, line.comment), comments: takeComments() });
+      current = group;
+      index += 1;
+      sawBlank = false;
+      continue;
+    }
+
+    if (current?.kind === 'scenario' && SECTION_HEADER.test(code)) {
+      const { body, next } = collectBody(index + 1, 0);
+      if (code !== 'given:' && current.lines.length > 1) {
+        current.lines.push({ indent: 0, text: '', comments: [] });
+      }
+      current.lines.push(
+        { indent: 0, text: withComment(code, line.comment), comments: takeComments() },
+        ...reindentBody(body, 0)
+      );
+      index = next;
+      sawBlank = false;
+      continue;
+    }
+
+    if (code.startsWith('scenario ')) {
+      current = startGroup('scenario');
+      current.lines.push({ indent: 0, text: withComment(code, line.comment), comments: takeComments() });
+    } else if (STATEMENT_LINE.test(code)) {
+      current = startGroup('statement');
+      current.lines.push({ indent: 0, text: withComment(code, line.comment), comments: takeComments() });
+      current = null;
+    } else {
+      current = startGroup('node');
+      const [head, clause] = splitInlineIncoming(code);
+      current.lines.push({ indent: 0, text: withComment(head, line.comment), comments: takeComments() });
+      if (clause) {
+        current.clauses.push({ indent: 0, text: clause, comments: [] });
+      }
+    }
+    sawBlank = false;
+    index += 1;
+  }
+
+  const output: string[] = [];
+  groups.forEach((group, groupIndex) => {
+    const previous = groups[groupIndex - 1];
+    if (previous && (group.blankBefore || hasBody(group) || hasBody(previous) || previous.kind === 'statement')) {
+      output.push('');
+    }
+    output.push(...emitGroup(group));
+  });
+  if (comments.length > 0) {
+    if (output.length > 0) {
+      output.push('');
+    }
+    output.push(...comments);
+  }
+  return output.length > 0 ? `${output.join('\n')}\n` : '';
+}
+
+// Only returns the canonical layout when it parses to the same model; otherwise the source stays as written.
+export function formatDsl(src: string): string {
+  const formatted = layoutDsl(src);
+  if (formatted === src) {
+    return src;
+  }
+  return semanticSignature(parseDsl(formatted)) === semanticSignature(parseDsl(src)) ? formatted : src;
+}
@@ -23,6 +23,7 @@ describe('layoutGraph', () => {
     expect(rowFor('evt')).toBe(2);
     expect(rowFor('exc')).toBe(2);
     expect(rowFor('cmd')).toBe(1);
+    expect(rowFor('qry')).toBe(1);
   });
 
   it('positions downstream nodes to the right in a simple chain', () => {
@@ -171,4 +172,26 @@ describe('layoutGraph', () => {
     expect(result.pos['default-event'].y).toBeGreaterThan(result.pos['named-event'].y);
     expect(Object.values(result.rowStreamLabels)).toEqual(['orders']);
   });
+
+  it('stacks named lanes above the type rows in declared order', () => {
+    const nodes = new Map<string, VisualNode>([
+      ['start', { ...makeNode('start', 'ui'), lane: 'Customer' }],
+      ['review', { ...makeNode('review', 'ui'), lane: 'Back Office' }],
+      ['submit', makeNode('submit', 'cmd')],
+      ['submitted', makeNode('submitted', 'evt', 'orders')]
+    ]);
+    const edges: Edge[] = [
+      { from: 'start', to: 'submit', label: null },
+      { from: 'submit', to: 'submitted', label: null },
+      { from: 'submitted', to: 'review', label: null }
+    ];
+
+    const result = layoutGraph(nodes, edges, [], undefined, ['Back Office', 'Customer']);
+
+    expect(result.usedRows).toEqual([0, 1, 3, 4]);
+    expect(result.rowLaneLabels).toEqual({ 0: 'Back Office', 1: 'Customer' });
+    expect(result.rowStreamLabels).toEqual({ 4: 'orders' });
+    expect(result.pos.review.y).toBeLessThan(result.pos.start.y);
+    expect(result.pos.start.y).toBeLessThan(result.pos.submit.y);
+  });
 });
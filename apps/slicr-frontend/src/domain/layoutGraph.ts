@@ -61,7 +61,8 @@ export function layoutGraph(
   nodes: Map<string, VisualNode>,
   edges: Edge[],
   boundaries: SliceBoundary[] = [],
-  measuredHeights?: Record<string, number>
+  measuredHeights?: Record<string, number>,
+  laneOrder: string[] = []
 ): LayoutResult {
   const inDeg: Record<string, number> = {};
   const outgoing: Record<string, string[]> = {};
@@ -121,7 +122,7 @@ export function layoutGraph(
     }
   }
 
-  const { rowByKey, usedRows, rowStreamLabels } = buildRowAssignments(nodes, nodeOrder);
+  const { rowByKey, usedRows, rowStreamLabels, rowLaneLabels } = buildRowAssignments(nodes, nodeOrder, laneOrder);
 
   let col: Record<string, number> = {};
   const occupied: Record<string, boolean> = {};
@@ -237,7 +238,7 @@ export function layoutGraph(
   const maxX = Math.max(...Object.values(pos).map((value) => value.x + value.w)) + PAD_X;
   const maxY = Math.max(...Object.values(pos).map((value) => value.y + value.h)) + 48;
 
-  return { pos, rowY, usedRows, rowStreamLabels, w: maxX, h: maxY };
+  return { pos, rowY, usedRows, rowStreamLabels, rowLaneLabels, w: maxX, h: maxY };
 }
 
 function applyBoundaryColumnFloors(
@@ -342,42 +343,62 @@ function applyBoundaryXFloors(
   }
 }
 
-function buildRowAssignments(nodes: Map<string, VisualNode>, nodeOrder: string[]) {
-  const rowByKey: Record<string, number> = {};
+export type LaneRows = {
+  rowByKey: Map<string, number>;
+  rowStreamLabels: Record<number, string>;
+  rowLaneLabels: Record<number, string>;
+};
+
+// Named lanes (`lane: Customer`) stack above the type rows, in `lanes:` order first and then
+// in order of first use; type rows and event stream rows are shifted below them.
+export function buildLaneRows(nodes: Iterable<VisualNode>, laneOrder: string[] = []): LaneRows {
+  const typeRowByKey = new Map<string, number>();
+  const keysByLane = new Map<string, string[]>();
   const eventsByStream = new Map<string, string[]>();
+  const push = (groups: Map<string, string[]>, group: string, key: string) => {
+    const keys = groups.get(group);
+    if (keys) {
+      keys.push(key);
+    } else {
+      groups.set(group, [key]);
+    }
+  };
 
-  for (const key of nodeOrder) {
-    const node = nodes.get(key);
-    if (!node) {
+  for (const node of nodes) {
+    const lane = node.lane?.trim();
+    if (lane) {
+      push(keysByLane, lane, node.key);
       continue;
     }
-
     if (node.type === 'ui' || node.type === 'aut' || node.type === 'ext' || node.type === 'generic') {
-      rowByKey[key] = 0;
+      typeRowByKey.set(node.key, 0);
       continue;
     }
     if (node.type === 'exc') {
-      const keys = eventsByStream.get('default');
-      if (keys) {
-        keys.push(key);
-      } else {
-        eventsByStream.set('default', [key]);
-      }
+      push(eventsByStream, 'default', node.key);
       continue;
     }
-
     if (node.type !== 'evt') {
-      rowByKey[key] = 1;
+      typeRowByKey.set(node.key, 1);
       continue;
     }
+    push(eventsByStream, node.stream?.trim() || 'default', node.key);
+  }
 
-    const stream = node.stream?.trim() || 'default';
-    const keys = eventsByStream.get(stream);
-    if (keys) {
-      keys.push(key);
-    } else {
-      eventsByStream.set(stream, [key]);
+  const declaredLanes = laneOrder.filter((lane) => keysByLane.has(lane));
+  const namedLanes = [...declaredLanes, ...[...keysByLane.keys()].filter((lane) => !declaredLanes.includes(lane))];
+  const rowByKey = new Map<string, number>();
+  const rowLaneLabels: Record<number, string> = {};
+  namedLanes.forEach((lane, row) => {
+    rowLaneLabels[row] = lane;
+    for (const key of keysByLane.get(lane) ?? []) {
+      rowByKey.set(key, row);
     }
+  });
+
+  const offset = namedLanes.length;
+  for (const [key, row] of typeRowByKey.entries()) {
+    rowByKey.set(key, offset + row);
   }
 
   const streamOrder = [...eventsByStream.keys()].sort((a, b) => {
@@ -385,22 +406,30 @@ function buildRowAssignments(nodes: Map<string, VisualNode>, nodeOrder: string[]
     if (b === 'default') return -1;
     return 0;
   });
-  const eventStreamRows = new Map<string, number>();
+  const rowStreamLabels: Record<number, string> = {};
   streamOrder.forEach((stream, index) => {
-    const row = 2 + index;
-    eventStreamRows.set(stream, row);
+    const row = offset + 2 + index;
     for (const key of eventsByStream.get(stream) ?? []) {
-      rowByKey[key] = row;
+      rowByKey.set(key, row);
     }
-  });
-
-  const usedRows = [...new Set(Object.values(rowByKey))].sort((a, b) => a - b);
-  const rowStreamLabels: Record<number, string> = {};
-  for (const [stream, row] of eventStreamRows.entries()) {
     if (stream !== 'default') {
       rowStreamLabels[row] = stream;
     }
-  }
+  });
+
+  return { rowByKey, rowStreamLabels, rowLaneLabels };
+}
 
-  return { rowByKey, usedRows, rowStreamLabels };
+function buildRowAssignments(nodes: Map<string, VisualNode>, nodeOrder: string[], laneOrder: string[]) {
+  const laneRows = buildLaneRows(
+    nodeOrder.flatMap((key) => {
+      const node = nodes.get(key);
+      return node ? [node] : [];
+    }),
+    laneOrder
+  );
+  const rowByKey: Record<string, number> = Object.fromEntries(laneRows.rowByKey);
+  const usedRows = [...new Set(laneRows.rowByKey.values())].sort((a, b) => a - b);
+
+  return { rowByKey, usedRows, rowStreamLabels: laneRows.rowStreamLabels, rowLaneLabels: laneRows.rowLaneLabels };
 }
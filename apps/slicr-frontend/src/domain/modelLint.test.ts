@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { DOCUMENTATION_GROUPS } from '../documentationCatalog';
+import { isPastTenseName, lintSliceModel, MODEL_LINT_RULES, type ModelLintSettings } from './modelLint';
+import { parseDsl } from './parseDsl';
+
+function lint(dsl: string, settings: ModelLintSettings = {}, otherDsls: string[] = []) {
+  return lintSliceModel({ parsed: parseDsl(dsl), otherSlices: otherDsls.map((other) => parseDsl(other)), settings });
+}
+
+describe('lintSliceModel', () => {
+  it('accepts a slice that follows the conventions', () => {
+    expect(lint(`slice "Booking"
+
+rm:available-rooms <- evt:room-opened
+ui:room-list <- rm:available-rooms
+cmd:book-room <- ui:room-list
+evt:room-booked <- cmd:book-room
+rm:unpaid-bookings <- evt:room-booked
+aut:send-invoice <- rm:unpaid-bookings
+cmd:issue-invoice <- aut:send-invoice
+evt:invoice-issued <- cmd:issue-invoice
+`)).toEqual([]);
+  });
+
+  it('reports commands without events, but not when another slice declares the event', () => {
+    const dsl = 'slice "Write"\n\nui:form\ncmd:book-room <- ui:form\n';
+
+    expect(lint(dsl).map((warning) => [warning.ruleId, warning.nodeKey, warning.message])).toEqual([
+      ['command-produces-event', 'book-room', 'cmd:book-room does not produce any event.']
+    ]);
+    expect(lint(dsl, {}, ['slice "Events"\n\ncmd:book-room\nevt:room-booked <- cmd:book-room\n'])).toEqual([]);
+  });
+
+  it('reports events that are not named in past tense', () => {
+    const warnings = lint('slice "Events"\n\nevt:book-room\nevt:invoice-paid\nevt:roomBooked\n');
+
+    expect(warnings.map((warning) => warning.message)).toEqual([
+      'evt:book-room should be named in past tense, like room-booked.'
+    ]);
+  });
+
+  it('reports read models fed by anything but events and UIs wired to events', () => {
+    const warnings = lint('slice "Shortcuts"\n\nui:form\ncmd:save <- ui:form\nevt:saved <- cmd:save\nrm:list <- cmd:save\nevt:clicked <- ui:form\n');
+
+    expect(warnings.map((warning) => [warning.ruleId, warning.message])).toEqual([
+      ['read-model-reads-events', 'rm:list depends on cmd:save; read models only depend on events.'],
+      ['ui-not-connected-to-events', 'ui:form connects directly to evt:clicked; go through a command or read model.']
+    ]);
+  });
+
+  it('reports automations that do not read a read model or issue a command', () => {
+    const warnings = lint('slice "Automation"\n\nevt:room-booked\naut:notify <- evt:room-booked\n');
+
+    expect(warnings.map((warning) => warning.message)).toEqual([
+      'aut:notify does not read from any read model.',
+      'aut:notify does not issue any command.'
+    ]);
+  });
+
+  it('applies per-project overrides of rule levels', () => {
+    const dsl = 'slice "Overrides"\n\nevt:book-room\nui:form\ncmd:save <- ui:form\n';
+
+    const warnings = lint(dsl, { 'event-past-tense': 'off', 'command-produces-event': 'error' });
+
+    expect(warnings.map((warning) => [warning.ruleId, warning.level])).toEqual([['command-produces-event', 'error']]);
+    expect(warnings[0].range).toEqual(parseDsl(dsl).nodes.get('save')?.srcRange);
+  });
+
+  it('ignores nodes that only appear in scenarios', () => {
+    expect(lint(`slice "Scenarios"
+
+cmd:book-room
+evt:room-booked <- cmd:book-room
+
+scenario "Booking"
+given:
+  evt:room-opened
+
+when:
+  cmd:book-room
+
+then:
+  evt:room-booked
+`)).toEqual([]);
+  });
+});
+
+describe('isPastTenseName', () => {
+  it('accepts regular, irregular and phrasal past participles in any casing style', () => {
+    expect(['room-booked', 'invoice_paid', 'OrderShipped', 'ticket-sold@2', 'guest-checked-out'].every(isPastTenseName)).toBe(true);
+    expect(['book-room', 'payment', 'order-ship', 'sign-up'].some(isPastTenseName)).toBe(false);
+  });
+});
+
+describe('model rule documentation', () => {
+  it('documents every rule with an example that follows it', () => {
+    const group = DOCUMENTATION_GROUPS.find((candidate) => candidate.id === 'model-rules');
+
+    for (const rule of MODEL_LINT_RULES) {
+      const feature = group?.features.find((candidate) => candidate.id === rule.id);
+      expect(feature?.title).toBe(rule.title);
+      expect(lint(feature?.dsl ?? '').filter((warning) => warning.ruleId === rule.id)).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,187 @@
+import { toNodeAnalysisKey, toNodeAnalysisRefFromNode } from './nodeAnalysisKey';
+import type { Parsed, ParseWarning, VisualNode } from './types';
+
+export type ModelLintRuleId =
+  | 'command-produces-event'
+  | 'event-past-tense'
+  | 'read-model-reads-events'
+  | 'ui-not-connected-to-events'
+  | 'automation-reads-and-issues';
+
+export type ModelLintLevel = 'off' | 'warning' | 'error';
+
+// Per-project overrides; rules missing here run at their default level.
+export type ModelLintSettings = Partial<Record<ModelLintRuleId, ModelLintLevel>>;
+
+export type ModelLintRule = {
+  id: ModelLintRuleId;
+  title: string;
+  defaultLevel: ModelLintLevel;
+};
+
+export type ModelLintWarning = ParseWarning & {
+  ruleId: ModelLintRuleId;
+  nodeKey: string;
+};
+
+export const MODEL_LINT_RULES: ModelLintRule[] = [
+  { id: 'command-produces-event', title: 'Commands produce events', defaultLevel: 'warning' },
+  { id: 'event-past-tense', title: 'Events are named in past tense', defaultLevel: 'warning' },
+  { id: 'read-model-reads-events', title: 'Read models only depend on events', defaultLevel: 'warning' },
+  { id: 'ui-not-connected-to-events', title: 'UIs do not connect directly to events', defaultLevel: 'warning' },
+  { id: 'automation-reads-and-issues', title: 'Automations read from read models and issue commands', defaultLevel: 'warning' }
+];
+
+const IRREGULAR_PAST_PARTICIPLES = new Set([
+  'begun', 'bought', 'brought', 'built', 'caught', 'chosen', 'cut', 'done', 'drawn', 'found', 'forgotten',
+  'frozen', 'given', 'got', 'gotten', 'held', 'hidden', 'kept', 'known', 'left', 'lost', 'made', 'met', 'paid', 'put',
+  'read', 'run', 'said', 'seen', 'sent', 'set', 'shown', 'shut', 'sold', 'spent', 'split', 'taken', 'taught', 'thrown',
+  'told', 'torn', 'understood', 'undone', 'withdrawn', 'won', 'written'
+]);
+
+type ModelLintContext = {
+  parsed: Parsed;
+  // Model edges of every slice in the project, keyed by node ref without version, so flows split across slices count.
+  successorTypes: Map<string, Set<string>>;
+  predecessorTypes: Map<string, Set<string>>;
+};
+
+type ModelLintFinding = {
+  node: VisualNode;
+  message: string;
+};
+
+function isScenarioNode(parsed: Parsed, node: VisualNode): boolean {
+  return node.key.startsWith('scn:') || parsed.scenarioOnlyNodeKeys.includes(node.key);
+}
+
+function modelNodes(parsed: Parsed): VisualNode[] {
+  return [...parsed.nodes.values()].filter((node) => !isScenarioNode(parsed, node));
+}
+
+function eachModelEdge(parsed: Parsed, visit: (from: VisualNode, to: VisualNode) => void) {
+  for (const edge of parsed.edges) {
+    const from = parsed.nodes.get(edge.from);
+    const to = parsed.nodes.get(edge.to);
+    if (from && to && !isScenarioNode(parsed, from) && !isScenarioNode(parsed, to)) {
+      visit(from, to);
+    }
+  }
+}
+
+function addType(index: Map<string, Set<string>>, node: VisualNode, type: string) {
+  const ref = toNodeAnalysisRefFromNode(node);
+  const types = index.get(ref);
+  if (types) {
+    types.add(type);
+  } else {
+    index.set(ref, new Set([type]));
+  }
+}
+
+function hasType(index: Map<string, Set<string>>, node: VisualNode, type: string): boolean {
+  return index.get(toNodeAnalysisRefFromNode(node))?.has(type) ?? false;
+}
+
+// Particles of phrasal verbs, so checked-out is read as checked.
+const VERB_PARTICLES = new Set(['away', 'back', 'down', 'in', 'off', 'on', 'out', 'over', 'up']);
+
+function lastVerb(name: string): string {
+  const words = toNodeAnalysisKey(name)
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z]+/)
+    .filter((word) => word.length > 0)
+    .map((word) => word.toLowerCase());
+  while (words.length > 1 && VERB_PARTICLES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words[words.length - 1] ?? '';
+}
+
+export function isPastTenseName(name: string): boolean {
+  const word = lastVerb(name);
+  return word.endsWith('ed') || IRREGULAR_PAST_PARTICIPLES.has(word);
+}
+
+const RULE_CHECKS: Record<ModelLintRuleId, (context: ModelLintContext) => ModelLintFinding[]> = {
+  'command-produces-event': ({ parsed, successorTypes }) =>
+    modelNodes(parsed)
+      .filter((node) => node.type === 'cmd' && !hasType(successorTypes, node, 'evt'))
+      .map((node) => ({ node, message: `cmd:${node.name} does not produce any event.` })),
+  'event-past-tense': ({ parsed }) =>
+    modelNodes(parsed)
+      .filter((node) => node.type === 'evt' && !isPastTenseName(node.name))
+      .map((node) => ({ node, message: `evt:${node.name} should be named in past tense, like room-booked.` })),
+  'read-model-reads-events': ({ parsed }) => {
+    const findings: ModelLintFinding[] = [];
+    eachModelEdge(parsed, (from, to) => {
+      if (to.type === 'rm' && from.type !== 'evt') {
+        findings.push({ node: to, message: `rm:${to.name} depends on ${from.type}:${from.name}; read models only depend on events.` });
+      }
+    });
+    return findings;
+  },
+  'ui-not-connected-to-events': ({ parsed }) => {
+    const findings: ModelLintFinding[] = [];
+    eachModelEdge(parsed, (from, to) => {
+      if ((from.type === 'ui' && to.type === 'evt') || (from.type === 'evt' && to.type === 'ui')) {
+        findings.push({
+          node: to,
+          message: `${from.type}:${from.name} connects directly to ${to.type}:${to.name}; go through a command or read model.`
+        });
+      }
+    });
+    return findings;
+  },
+  'automation-reads-and-issues': ({ parsed, successorTypes, predecessorTypes }) => {
+    const findings: ModelLintFinding[] = [];
+    for (const node of modelNodes(parsed)) {
+      if (node.type !== 'aut') {
+        continue;
+      }
+      if (!hasType(predecessorTypes, node, 'rm')) {
+        findings.push({ node, message: `aut:${node.name} does not read from any read model.` });
+      }
+      if (!hasType(successorTypes, node, 'cmd')) {
+        findings.push({ node, message: `aut:${node.name} does not issue any command.` });
+      }
+    }
+    return findings;
+  }
+};
+
+export function resolveModelLintLevel(settings: ModelLintSettings, rule: ModelLintRule): ModelLintLevel {
+  return settings[rule.id] ?? rule.defaultLevel;
+}
+
+// Checks one slice against the Event Modeling conventions. `otherSlices` are the rest of the project, so a command
+// whose event is declared in another slice is not reported.
+export function lintSliceModel(input: { parsed: Parsed; otherSlices: Parsed[]; settings: ModelLintSettings }): ModelLintWarning[] {
+  const successorTypes = new Map<string, Set<string>>();
+  const predecessorTypes = new Map<string, Set<string>>();
+  for (const parsed of [input.parsed, ...input.otherSlices]) {
+    eachModelEdge(parsed, (from, to) => {
+      addType(successorTypes, from, to.type);
+      addType(predecessorTypes, to, from.type);
+    });
+  }
+
+  const context: ModelLintContext = { parsed: input.parsed, successorTypes, predecessorTypes };
+  const warnings: ModelLintWarning[] = [];
+  for (const rule of MODEL_LINT_RULES) {
+    const level = resolveModelLintLevel(input.settings, rule);
+    if (level === 'off') {
+      continue;
+    }
+    for (const finding of RULE_CHECKS[rule.id](context)) {
+      warnings.push({
+        ruleId: rule.id,
+        nodeKey: finding.node.key,
+        message: finding.message,
+        range: finding.node.srcRange,
+        level
+      });
+    }
+  }
+  return warnings;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { planNodeRename, renameEdgeKey, renameNodeRefInDsl } from './nodeRename';
+
+const BOOKING = `slice "Booking"
+
+cmd:book-room "Book Room"
+data:
+  note: evt:room-booked stays as data
+-> evt:room-booked
+
+evt:room-booked@2 "Room Booked v2"
+<- cmd:book-room
+
+rm:bookings
+<- evt:room-booked # replays evt:room-booked
+uses:
+  evt:room-booked:
+    roomId
+  bookedAt <- evt:room-booked.at
+
+scenario "Book twice"
+given:
+  evt:room-booked
+
+when:
+  cmd:book-room
+
+then:
+  evt:room-booked-again
+`;
+
+const BILLING = `slice "Billing"
+
+evt:room-booked
+-> cmd:charge
+
+cmd:charge
+`;
+
+describe('renameNodeRefInDsl', () => {
+  it('renames declarations, clauses, scenario entries and uses paths but not data or comments', () => {
+    const result = renameNodeRefInDsl(BOOKING, 'evt:room-booked', 'room-reserved');
+
+    expect(result.occurrences).toBe(6);
+    expect(result.dsl).toContain('-> evt:room-reserved\n');
+    expect(result.dsl).toContain('evt:room-reserved@2 "Room Booked v2"');
+    expect(result.dsl).toContain('<- evt:room-reserved # replays evt:room-booked');
+    expect(result.dsl).toContain('  evt:room-reserved:\n    roomId');
+    expect(result.dsl).toContain('bookedAt <- evt:room-reserved.at');
+    expect(result.dsl).toContain('given:\n  evt:room-reserved\n');
+    expect(result.dsl).toContain('note: evt:room-booked stays as data');
+    expect(result.dsl).toContain('evt:room-booked-again');
+  });
+});
+
+describe('planNodeRename', () => {
+  const slices = [
+    { id: 'booking', dsl: BOOKING },
+    { id: 'billing', dsl: BILLING },
+    { id: 'unrelated', dsl: 'slice "Other"\n\ncmd:other\n' }
+  ];
+
+  it('plans one edit per slice that references the node', () => {
+    const plan = planNodeRename(slices, 'evt:room-booked@2', 'room-reserved');
+
+    expect(plan.error).toBeNull();
+    expect(plan.fromRef).toBe('evt:room-booked');
+    expect(plan.toRef).toBe('evt:room-reserved');
+    expect(plan.slices.map((edit) => [edit.sliceName, edit.occurrences])).toEqual([
+      ['Booking', 6],
+      ['Billing', 1]
+    ]);
+    expect(plan.slices[1].after).toBe(BILLING.replace('evt:room-booked', 'evt:room-reserved'));
+    expect(plan.slices[1].nodeKeyRenames).toEqual({ 'room-booked': 'room-reserved' });
+  });
+
+  it('rejects invalid names and names already used in the project', () => {
+    expect(planNodeRename(slices, 'evt:room-booked', 'room booked').error).toBe('"room booked" is not a valid node name.');
+    expect(planNodeRename(slices, 'evt:room-booked', 'room-booked@3').error).toBe('"room-booked@3" is not a valid node name.');
+    expect(planNodeRename(slices, 'cmd:book-room', 'charge').error).toBe('cmd:charge already exists in slice "Billing".');
+    expect(planNodeRename(slices, 'evt:room-booked', 'room-booked')).toMatchObject({ slices: [], error: null });
+  });
+});
+
+describe('renameEdgeKey', () => {
+  it('renames both edge endpoints and keeps the edge index', () => {
+    expect(renameEdgeKey('a->b#1', { a: 'x', b: 'y' })).toBe('x->y#1');
+    expect(renameEdgeKey('a->b#0', { c: 'z' })).toBe('a->b#0');
+  });
+});
@@ -0,0 +1,142 @@
+import { buildCrossSliceUsageIndex, type CrossSliceDocument } from './crossSliceUsage';
+import { findDslCommentStart } from './dslComments';
+import { toNodeAnalysisRef } from './nodeAnalysisKey';
+import { parseDsl } from './parseDsl';
+
+const NODE_NAME = /^[a-zA-Z_][a-zA-Z0-9_\-#]*$/;
+
+export type NodeRenameSliceEdit = {
+  sliceId: string;
+  sliceName: string;
+  before: string;
+  after: string;
+  occurrences: number;
+  nodeKeyRenames: Record<string, string>;
+};
+
+export type NodeRenamePlan = {
+  fromRef: string;
+  toRef: string;
+  slices: NodeRenameSliceEdit[];
+  error: string | null;
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Refs may carry a version suffix (`evt:room-booked@2`) and `uses:` paths may continue with `.field`.
+function buildRefPattern(type: string, name: string): RegExp {
+  return new RegExp(`(?<![a-zA-Z0-9_\\-#:])${escapeRegExp(type)}:${escapeRegExp(name)}(?![a-zA-Z0-9_\\-#])`, 'g');
+}
+
+function getIndent(line: string): number {
+  return (line.match(/^(\s*)/)?.[1] ?? '').length;
+}
+
+export function renameNodeRefInDsl(dsl: string, fromRef: string, toName: string): { dsl: string; occurrences: number } {
+  const splitAt = fromRef.indexOf(':');
+  const type = fromRef.slice(0, splitAt);
+  const name = fromRef.slice(splitAt + 1);
+  const pattern = buildRefPattern(type, name);
+  let occurrences = 0;
+  let dataIndent: number | null = null;
+
+  const lines = dsl.split('\n').map((line) => {
+    const trimmed = line.trim();
+    if (dataIndent !== null) {
+      if (!trimmed || getIndent(line) > dataIndent) {
+        return line;
+      }
+      dataIndent = null;
+    }
+    if (trimmed.startsWith('data:')) {
+      dataIndent = getIndent(line);
+      return line;
+    }
+
+    const commentStart = findDslCommentStart(line);
+    const code = commentStart === -1 ? line : line.slice(0, commentStart);
+    const renamed = code.replace(pattern, () => {
+      occurrences += 1;
+      return `${type}:${toName}`;
+    });
+    return commentStart === -1 ? renamed : renamed + line.slice(commentStart);
+  });
+
+  return { dsl: lines.join('\n'), occurrences };
+}
+
+// Parsing keeps node order stable across a rename, so keys are paired up by position.
+function mapNodeKeys(before: string, after: string): Record<string, string> {
+  const beforeKeys = [...parseDsl(before).nodes.keys()];
+  const afterKeys = [...parseDsl(after).nodes.keys()];
+  const renames: Record<string, string> = {};
+  if (beforeKeys.length !== afterKeys.length) {
+    return renames;
+  }
+  beforeKeys.forEach((key, index) => {
+    if (afterKeys[index] !== key) {
+      renames[key] = afterKeys[index];
+    }
+  });
+  return renames;
+}
+
+export function planNodeRename(slices: CrossSliceDocument[], nodeRef: string, newName: string): NodeRenamePlan {
+  const fromRef = toNodeAnalysisRef(nodeRef);
+  const type = fromRef.slice(0, fromRef.indexOf(':'));
+  const toName = newName.trim();
+  const toRef = `${type}:${toName}`;
+  const empty = (error: string | null): NodeRenamePlan => ({ fromRef, toRef, slices: [], error });
+
+  if (!toName || toRef === fromRef) {
+    return empty(null);
+  }
+  if (!NODE_NAME.test(toName) || /@\d+$/.test(toName)) {
+    return empty(`"${toName}" is not a valid node name.`);
+  }
+
+  const index = buildCrossSliceUsageIndex(slices);
+  const usage = index[fromRef];
+  if (!usage) {
+    return empty(`${fromRef} is not used in this project.`);
+  }
+  // Nodes with the same ref are the same node across slices, so renaming onto an existing ref would merge them.
+  const clashingSliceId = index[toRef]?.sliceRefs[0]?.sliceId;
+  const clash = slices.find((slice) => slice.id === clashingSliceId);
+  if (clash) {
+    return empty(`${toRef} already exists in slice "${parseDsl(clash.dsl).sliceName}".`);
+  }
+
+  const affectedSliceIds = new Set(usage.sliceRefs.map((ref) => ref.sliceId));
+  const edits: NodeRenameSliceEdit[] = [];
+  for (const slice of slices) {
+    if (!affectedSliceIds.has(slice.id)) {
+      continue;
+    }
+    const renamed = renameNodeRefInDsl(slice.dsl, fromRef, toName);
+    if (renamed.occurrences === 0) {
+      continue;
+    }
+    edits.push({
+      sliceId: slice.id,
+      sliceName: parseDsl(slice.dsl).sliceName,
+      before: slice.dsl,
+      after: renamed.dsl,
+      occurrences: renamed.occurrences,
+      nodeKeyRenames: mapNodeKeys(slice.dsl, renamed.dsl)
+    });
+  }
+
+  return { fromRef, toRef, slices: edits, error: null };
+}
+
+export function renameEdgeKey(edgeKey: string, nodeKeyRenames: Record<string, string>): string {
+  const match = edgeKey.match(/^(.*)->(.*)(#\d+)$/);
+  if (!match) {
+    return edgeKey;
+  }
+  const [, from, to, suffix] = match;
+  return `${nodeKeyRenames[from] ?? from}->${nodeKeyRenames[to] ?? to}${suffix}`;
+}
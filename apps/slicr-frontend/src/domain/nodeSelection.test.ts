@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  alignNodePositions,
+  distributeNodePositions,
+  moveAttachedEdgePoints,
+  nodeKeysInRect,
+  normalizeSelectionRect,
+  resolveSelectedNodeKeys,
+  toggleNodeSelection
+} from './nodeSelection';
+
+const POSITIONS = {
+  a: { x: 0, y: 0, w: 100, h: 40 },
+  b: { x: 150, y: 30, w: 60, h: 60 },
+  c: { x: 400, y: 10, w: 80, h: 20 }
+};
+
+describe('node selection', () => {
+  it('toggles keys and falls back to the primary selection', () => {
+    expect(toggleNodeSelection(['a'], 'b')).toEqual(['a', 'b']);
+    expect(toggleNodeSelection(['a', 'b'], 'a')).toEqual(['b']);
+    expect(resolveSelectedNodeKeys('a', ['a', 'b'])).toEqual(['a', 'b']);
+    expect(resolveSelectedNodeKeys('c', ['a', 'b'])).toEqual(['c']);
+    expect(resolveSelectedNodeKeys(null, ['a', 'b'])).toEqual([]);
+  });
+
+  it('selects nodes intersecting a marquee drawn in any direction', () => {
+    const rect = normalizeSelectionRect({ x: 200, y: 100 }, { x: 90, y: 20 });
+    expect(rect).toEqual({ left: 90, top: 20, width: 110, height: 80 });
+    expect(nodeKeysInRect(POSITIONS, rect)).toEqual(['a', 'b']);
+  });
+
+  it('aligns selected nodes to the selection bounds', () => {
+    expect(alignNodePositions(POSITIONS, ['a', 'b'], 'left')).toEqual({ a: { x: 0, y: 0 }, b: { x: 0, y: 30 } });
+    expect(alignNodePositions(POSITIONS, ['a', 'b'], 'right')).toEqual({ a: { x: 110, y: 0 }, b: { x: 150, y: 30 } });
+    expect(alignNodePositions(POSITIONS, ['a', 'b'], 'middle')).toEqual({ a: { x: 0, y: 25 }, b: { x: 150, y: 15 } });
+    expect(alignNodePositions(POSITIONS, ['a'], 'top')).toEqual({});
+  });
+
+  it('distributes the gaps between selected nodes evenly', () => {
+    expect(distributeNodePositions(POSITIONS, ['c', 'a', 'b'], 'horizontal')).toEqual({
+      a: { x: 0, y: 0 },
+      b: { x: 220, y: 30 },
+      c: { x: 400, y: 10 }
+    });
+    expect(distributeNodePositions(POSITIONS, ['a', 'b'], 'vertical')).toEqual({});
+  });
+
+  it('moves manual edge points with their endpoints', () => {
+    const edges = [
+      { edgeKey: 'a->b#0', edge: { from: 'a', to: 'b' } },
+      { edgeKey: 'b->c#1', edge: { from: 'b', to: 'c' } }
+    ];
+    const manual = {
+      'a->b#0': [{ x: 100, y: 20 }, { x: 125, y: 20 }, { x: 125, y: 60 }, { x: 150, y: 60 }],
+      'b->c#1': [{ x: 210, y: 60 }, { x: 400, y: 20 }]
+    };
+
+    expect(moveAttachedEdgePoints(edges, manual, { a: { x: 10, y: 5 }, b: { x: 10, y: 5 } })).toEqual({
+      'a->b#0': [{ x: 110, y: 25 }, { x: 135, y: 25 }, { x: 135, y: 65 }, { x: 160, y: 65 }],
+      'b->c#1': [{ x: 220, y: 65 }, { x: 410, y: 20 }]
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import type { DiagramPoint } from './diagramRouting';
+import type { Position } from './types';
+
+export type NodeAlignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type NodeDistribution = 'horizontal' | 'vertical';
+
+export type SelectionRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+type EdgeEndpoints = {
+  edgeKey: string;
+  edge: { from: string; to: string };
+};
+
+export function resolveSelectedNodeKeys(primaryNodeKey: string | null, selectedNodeKeys: string[]): string[] {
+  if (!primaryNodeKey) {
+    return [];
+  }
+  return selectedNodeKeys.includes(primaryNodeKey) ? selectedNodeKeys : [primaryNodeKey];
+}
+
+export function toggleNodeSelection(selectedNodeKeys: string[], nodeKey: string): string[] {
+  return selectedNodeKeys.includes(nodeKey)
+    ? selectedNodeKeys.filter((key) => key !== nodeKey)
+    : [...selectedNodeKeys, nodeKey];
+}
+
+export function normalizeSelectionRect(start: DiagramPoint, end: DiagramPoint): SelectionRect {
+  return {
+    left: Math.min(start.x, end.x),
+    top: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y)
+  };
+}
+
+export function nodeKeysInRect(positions: Record<string, Position>, rect: SelectionRect): string[] {
+  return Object.entries(positions)
+    .filter(([, position]) => (
+      position.x < rect.left + rect.width
+      && position.x + position.w > rect.left
+      && position.y < rect.top + rect.height
+      && position.y + position.h > rect.top
+    ))
+    .map(([key]) => key);
+}
+
+export function alignNodePositions(
+  positions: Record<string, Position>,
+  nodeKeys: string[],
+  alignment: NodeAlignment
+): Record<string, DiagramPoint> {
+  const selected = nodeKeys.filter((key) => positions[key]).map((key) => ({ key, position: positions[key] }));
+  if (selected.length < 2) {
+    return {};
+  }
+  const left = Math.min(...selected.map(({ position }) => position.x));
+  const right = Math.max(...selected.map(({ position }) => position.x + position.w));
+  const top = Math.min(...selected.map(({ position }) => position.y));
+  const bottom = Math.max(...selected.map(({ position }) => position.y + position.h));
+
+  const next: Record<string, DiagramPoint> = {};
+  for (const { key, position } of selected) {
+    let { x, y } = position;
+    if (alignment === 'left') {
+      x = left;
+    } else if (alignment === 'center') {
+      x = (left + right) / 2 - position.w / 2;
+    } else if (alignment === 'right') {
+      x = right - position.w;
+    } else if (alignment === 'top') {
+      y = top;
+    } else if (alignment === 'middle') {
+      y = (top + bottom) / 2 - position.h / 2;
+    } else {
+      y = bottom - position.h;
+    }
+    next[key] = { x: Math.round(x), y: Math.round(y) };
+  }
+  return next;
+}
+
+export function distributeNodePositions(
+  positions: Record<string, Position>,
+  nodeKeys: string[],
+  distribution: NodeDistribution
+): Record<string, DiagramPoint> {
+  const horizontal = distribution === 'horizontal';
+  const selected = nodeKeys
+    .filter((key) => positions[key])
+    .map((key) => ({ key, position: positions[key] }))
+    .sort((a, b) => (horizontal ? a.position.x - b.position.x : a.position.y - b.position.y));
+  if (selected.length < 3) {
+    return {};
+  }
+  const first = selected[0].position;
+  const last = selected[selected.length - 1].position;
+  const span = horizontal ? last.x + last.w - first.x : last.y + last.h - first.y;
+  const occupied = selected.reduce((sum, { position }) => sum + (horizontal ? position.w : position.h), 0);
+  const gap = (span - occupied) / (selected.length - 1);
+
+  const next: Record<string, DiagramPoint> = {};
+  let cursor = horizontal ? first.x : first.y;
+  for (const { key, position } of selected) {
+    next[key] = horizontal
+      ? { x: Math.round(cursor), y: position.y }
+      : { x: position.x, y: Math.round(cursor) };
+    cursor += (horizontal ? position.w : position.h) + gap;
+  }
+  return next;
+}
+
+function shiftEndpoint(points: DiagramPoint[], end: 'source' | 'target', dx: number, dy: number) {
+  const lastIndex = points.length - 1;
+  const index = end === 'source' ? 0 : lastIndex;
+  const neighbor = end === 'source' ? 1 : lastIndex - 1;
+  points[index] = { x: points[index].x + dx, y: points[index].y + dy };
+  if (neighbor >= 0 && neighbor <= lastIndex && neighbor !== index) {
+    points[neighbor] = { x: points[neighbor].x + dx, y: points[neighbor].y };
+  }
+}
+
+export function moveAttachedEdgePoints(
+  edges: EdgeEndpoints[],
+  manualEdgePoints: Record<string, DiagramPoint[]>,
+  deltas: Record<string, DiagramPoint>
+): Record<string, DiagramPoint[]> {
+  const next: Record<string, DiagramPoint[]> = {};
+  for (const { edgeKey, edge } of edges) {
+    const points = manualEdgePoints[edgeKey];
+    const sourceDelta = deltas[edge.from];
+    const targetDelta = deltas[edge.to];
+    if (!points || points.length < 2 || (!sourceDelta && !targetDelta)) {
+      continue;
+    }
+    if (sourceDelta && targetDelta && sourceDelta.x === targetDelta.x && sourceDelta.y === targetDelta.y) {
+      next[edgeKey] = points.map((point) => ({ x: point.x + sourceDelta.x, y: point.y + sourceDelta.y }));
+      continue;
+    }
+    const moved = points.map((point) => ({ ...point }));
+    if (sourceDelta) {
+      shiftEndpoint(moved, 'source', sourceDelta.x, sourceDelta.y);
+    }
+    if (targetDelta) {
+      shiftEndpoint(moved, 'target', targetDelta.x, targetDelta.y);
+    }
+    next[edgeKey] = moved;
+  }
+  return next;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { buildNodeVersionHistory, diffNodeData } from './nodeVersionHistory';
+import { parseDsl } from './parseDsl';
+
+function parseSlices(slices: Array<{ id: string; dsl: string }>) {
+  return slices.map((slice) => ({ ...slice, parsed: parseDsl(slice.dsl) }));
+}
+
+describe('diffNodeData', () => {
+  it('reports added, removed and changed keys and collection items by path', () => {
+    const before = { count: 2, hotel: { name: 'Alpine' }, rooms: ['101', '102'], note: 'x' };
+    const after = { count: 3, hotel: { name: 'Alpine', stars: 4 }, rooms: ['102', '103'] };
+
+    expect(diffNodeData(before, after)).toEqual([
+      { path: 'count', kind: 'changed', before: 2, after: 3 },
+      { path: 'hotel.stars', kind: 'added', after: 4 },
+      { path: 'rooms[0]', kind: 'removed', before: '101' },
+      { path: 'rooms[1]', kind: 'added', after: '103' },
+      { path: 'note', kind: 'removed', before: 'x' }
+    ]);
+    expect(diffNodeData(null, { a: 1 })).toEqual([{ path: 'a', kind: 'added', after: 1 }]);
+  });
+});
+
+describe('buildNodeVersionHistory', () => {
+  const slices = parseSlices([
+    {
+      id: 'booking',
+      dsl: `slice "Booking"
+
+evt:room-booked
+data:
+  roomId: "101"
+
+rm:available-rooms
+data:
+  rooms:
+    - "101"
+    - "102"
+
+evt:room-released
+
+rm:available-rooms@2
+<- evt:room-booked
+<- evt:room-released
+data:
+  rooms:
+    - "102"
+`
+    },
+    {
+      id: 'cancel',
+      dsl: `slice "Cancel"
+
+evt:booking-cancelled
+evt:room-released
+
+rm:available-rooms@3
+<- evt:room-released
+<- evt:booking-cancelled
+data:
+  rooms:
+    - "101"
+    - "102"
+  updatedAt: "today"
+
+scenario "Cancel"
+given:
+  rm:available-rooms@2
+`
+    }
+  ]);
+
+  it('lists versions across the project with the events and data changes behind each transition', () => {
+    const versions = buildNodeVersionHistory(slices, 'rm:available-rooms', 'cancel');
+
+    expect(versions.map((version) => [version.ref, version.occurrences.map((occurrence) => occurrence.sliceId)])).toEqual([
+      ['rm:available-rooms', ['booking']],
+      ['rm:available-rooms@2', ['booking']],
+      ['rm:available-rooms@3', ['cancel']]
+    ]);
+    expect(versions[0]).toMatchObject({ causedBy: [], diff: [] });
+    expect(versions[1]).toMatchObject({
+      causedBy: ['evt:room-booked', 'evt:room-released'],
+      diff: [{ path: 'rooms[0]', kind: 'removed', before: '101' }]
+    });
+    expect(versions[2]).toMatchObject({
+      causedBy: ['evt:booking-cancelled'],
+      diff: [
+        { path: 'rooms[0]', kind: 'added', after: '101' },
+        { path: 'updatedAt', kind: 'added', after: 'today' }
+      ]
+    });
+  });
+});
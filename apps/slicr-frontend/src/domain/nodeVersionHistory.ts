@@ -0,0 +1,148 @@
+import type { CrossSliceParsedDocument } from './crossSliceUsage';
+import { toNodeAnalysisRefFromNode } from './nodeAnalysisKey';
+import type { NodeData, VisualNode } from './types';
+
+export type DataDiffKind = 'added' | 'removed' | 'changed';
+
+export type DataDiffEntry = {
+  path: string;
+  kind: DataDiffKind;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type NodeVersionOccurrence = {
+  sliceId: string;
+  sliceName: string;
+  nodeKey: string;
+};
+
+export type NodeVersion = {
+  version: number;
+  ref: string;
+  data: NodeData;
+  occurrences: NodeVersionOccurrence[];
+  causedBy: string[];
+  diff: DataDiffEntry[];
+};
+
+const VERSION_SUFFIX = /@(\d+)$/;
+
+function versionOf(node: VisualNode): number {
+  const match = node.name.match(VERSION_SUFFIX);
+  return match ? Number(match[1]) : 1;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// Collection items have no identity, so they are matched by value: a changed item shows up as removed plus added.
+function diffCollections(path: string, before: unknown[], after: unknown[], diff: DataDiffEntry[]) {
+  const unmatched: Array<string | null> = before.map((item) => JSON.stringify(item));
+  const added: DataDiffEntry[] = [];
+  after.forEach((item, index) => {
+    const matchIndex = unmatched.indexOf(JSON.stringify(item));
+    if (matchIndex === -1) {
+      added.push({ path: `${path}[${index}]`, kind: 'added', after: item });
+    } else {
+      unmatched[matchIndex] = null;
+    }
+  });
+  before.forEach((item, index) => {
+    if (unmatched[index] !== null) {
+      diff.push({ path: `${path}[${index}]`, kind: 'removed', before: item });
+    }
+  });
+  diff.push(...added);
+}
+
+function diffValues(path: string, before: unknown, after: unknown, diff: DataDiffEntry[]) {
+  if (isRecord(before) && isRecord(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const nextPath = childPath(path, key);
+      if (!(key in after)) {
+        diff.push({ path: nextPath, kind: 'removed', before: before[key] });
+      } else if (!(key in before)) {
+        diff.push({ path: nextPath, kind: 'added', after: after[key] });
+      } else {
+        diffValues(nextPath, before[key], after[key], diff);
+      }
+    }
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    diffCollections(path, before, after, diff);
+    return;
+  }
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    diff.push({ path, kind: 'changed', before, after });
+  }
+}
+
+export function diffNodeData(before: NodeData, after: NodeData): DataDiffEntry[] {
+  const diff: DataDiffEntry[] = [];
+  diffValues('', before ?? {}, after ?? {}, diff);
+  return diff;
+}
+
+function causingEvents(slice: CrossSliceParsedDocument, node: VisualNode): string[] {
+  return slice.parsed.edges
+    .filter((edge) => edge.to === node.key)
+    .map((edge) => slice.parsed.nodes.get(edge.from))
+    .filter((source): source is VisualNode => source?.type === 'evt')
+    .map((source) => `evt:${source.name}`);
+}
+
+export function buildNodeVersionHistory(
+  slices: CrossSliceParsedDocument[],
+  analysisRef: string,
+  selectedSliceId?: string
+): NodeVersion[] {
+  const orderedSlices = [
+    ...slices.filter((slice) => slice.id === selectedSliceId),
+    ...slices.filter((slice) => slice.id !== selectedSliceId)
+  ];
+  const byVersion = new Map<number, NodeVersion>();
+  for (const slice of orderedSlices) {
+    const scenarioOnlyKeys = new Set(slice.parsed.scenarioOnlyNodeKeys);
+    for (const node of slice.parsed.nodes.values()) {
+      if (scenarioOnlyKeys.has(node.key) || node.key.startsWith('scn:') || toNodeAnalysisRefFromNode(node) !== analysisRef) {
+        continue;
+      }
+      const version = versionOf(node);
+      const entry = byVersion.get(version) ?? {
+        version,
+        ref: `${node.type}:${node.name}`,
+        data: node.data,
+        occurrences: [],
+        causedBy: [],
+        diff: []
+      };
+      entry.occurrences.push({ sliceId: slice.id, sliceName: slice.parsed.sliceName, nodeKey: node.key });
+      for (const eventRef of causingEvents(slice, node)) {
+        if (!entry.causedBy.includes(eventRef)) {
+          entry.causedBy.push(eventRef);
+        }
+      }
+      byVersion.set(version, entry);
+    }
+  }
+
+  const versions = [...byVersion.values()].sort((a, b) => a.version - b.version);
+  for (let index = versions.length - 1; index > 0; index -= 1) {
+    const previous = versions[index - 1];
+    const current = versions[index];
+    current.diff = diffNodeData(previous.data, current.data);
+    // Events that already fed the previous version did not cause this transition.
+    const newEvents = current.causedBy.filter((eventRef) => !previous.causedBy.includes(eventRef));
+    if (newEvents.length > 0) {
+      current.causedBy = newEvents;
+    }
+  }
+  return versions;
+}
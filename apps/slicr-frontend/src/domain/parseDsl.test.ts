@@ -758,6 +758,37 @@ uses:
     expect(parsed.nodes.get('buy-tickets')?.mappedDataKeys).toEqual(new Set(['concert-id']));
   });
 
+  it('parses query nodes and maps their data from predecessors', () => {
+    const input = `slice "Find Rooms"
+
+rm:available-rooms
+data:
+  rooms:
+    - 101
+    - 202
+
+qry:find-rooms "Find Rooms"
+<- rm:available-rooms
+uses:
+  rooms
+  floor <- floor
+
+ui:room-search
+<- qry:find-rooms
+uses:
+  rooms`;
+
+    const parsed = parseDsl(input);
+    expect(parsed.nodes.get('find-rooms')).toMatchObject({ type: 'qry', name: 'find-rooms', alias: 'Find Rooms' });
+    expect(parsed.nodes.get('find-rooms')?.data).toEqual({ rooms: [101, 202], floor: '<missing>' });
+    expect(parsed.nodes.get('room-search')?.data).toEqual({ rooms: [101, 202] });
+    expect(parsed.edges).toEqual(expect.arrayContaining([
+      expect.objectContaining({ from: 'available-rooms', to: 'find-rooms' }),
+      expect.objectContaining({ from: 'find-rooms', to: 'room-search' })
+    ]));
+    expect(parsed.warnings.map((warning) => warning.message)).toEqual(['Missing data source for key "floor"']);
+  });
+
   it('warns when a mapped key cannot be sourced from direct predecessors', () => {
     const input = `slice "Mapped Warnings"
 
@@ -1110,6 +1141,29 @@ rm:read-model
     ]);
   });
 
+  it('attaches lane metadata to any preceding node and collects the lane order', () => {
+    const input = `slice "Lanes"
+lanes: Customer, "Back Office"
+
+ui:checkout-form
+lane: Customer
+
+cmd:place-order <- ui:checkout-form
+lane: "Back Office"
+
+evt:order-placed <- cmd:place-order
+stream: orders`;
+
+    const parsed = parseDsl(input);
+
+    expect(parsed.laneOrder).toEqual(['Customer', 'Back Office']);
+    expect(parsed.nodes.get('checkout-form')?.lane).toBe('Customer');
+    expect(parsed.nodes.get('place-order')?.lane).toBe('Back Office');
+    expect(parsed.nodes.get('order-placed')?.lane).toBeNull();
+    expect(parsed.nodes.get('order-placed')?.stream).toBe('orders');
+    expect(parsed.warnings).toEqual([]);
+  });
+
   it('ignores stream metadata when the preceding node is not an event', () => {
     const input = `slice "Streams"
 
@@ -1120,4 +1174,211 @@ stream: first`;
 
     expect(parsed.nodes.get('read-model')?.stream).toBeNull();
   });
+
+  it('ignores full-line and trailing comments when building nodes and edges', () => {
+    const input = `# Booking flow
+slice "Comments" // room booking
+
+# evt:not-a-node
+ui:room-list # entry screen
+cmd:book-room <- ui:room-list // user action
+// -> evt:ignored
+evt:room-booked <- cmd:book-room`;
+
+    const parsed = parseDsl(input);
+
+    expect(parsed.sliceName).toBe('Comments');
+    expect([...parsed.nodes.keys()]).toEqual(['room-list', 'book-room', 'room-booked']);
+    expect(parsed.edges).toEqual([
+      { from: 'room-list', to: 'book-room', label: null },
+      { from: 'book-room', to: 'room-booked', label: null }
+    ]);
+    expect(parsed.warnings).toEqual([]);
+    expect(parsed.nodes.get('room-list')?.srcRange).toEqual({
+      from: input.indexOf('ui:room-list'),
+      to: input.indexOf('ui:room-list') + 'ui:room-list'.length
+    });
+  });
+
+  it('ignores comments inside data blocks and keeps hashes in quoted values', () => {
+    const input = `slice "Comments"
+
+evt:room-opened
+  data:
+    # the room number printed on the door
+    room-number: 101 # never reused
+    label: "Room #101"
+    tags:
+      - quiet // no street noise
+  // trailing block comment`;
+
+    const parsed = parseDsl(input);
+
+    expect(parsed.nodes.get('room-opened')?.data).toEqual({
+      'room-number': 101,
+      label: 'Room #101',
+      tags: ['quiet']
+    });
+    expect(parsed.nodes.get('room-opened')?.dataKeyRanges?.['room-number']).toEqual({
+      from: input.indexOf('room-number'),
+      to: input.indexOf('room-number') + 'room-number'.length
+    });
+  });
+
+  it('ignores comments in inline data and uses blocks', () => {
+    const input = `slice "Comments"
+
+evt:room-opened
+  data: {"room-number": 101} # inline json
+
+rm:rooms <- evt:room-opened
+  uses:
+    # copied from the event
+    room-number // required`;
+
+    const parsed = parseDsl(input);
+
+    expect(parsed.nodes.get('room-opened')?.data).toEqual({ 'room-number': 101 });
+    expect(parsed.nodes.get('rooms')?.data).toEqual({ 'room-number': 101 });
+    expect(parsed.warnings).toEqual([]);
+  });
+
+  it('ignores comments in scenario sections', () => {
+    const input = `slice "Comments"
+
+cmd:book-room -> evt:room-booked
+
+scenario "Book a room" # happy path
+given:
+  # nothing booked yet
+  evt:room-opened
+when:
+  cmd:book-room // the only action
+then:
+  evt:room-booked`;
+
+    const parsed = parseDsl(input);
+
+    expect(parsed.warnings).toEqual([]);
+    expect(parsed.scenarios).toHaveLength(1);
+    expect(parsed.scenarios[0].given.map((entry) => entry.name)).toEqual(['room-opened']);
+    expect(parsed.scenarios[0].when?.name).toBe('book-room');
+    expect(parsed.scenarios[0].then.map((entry) => entry.name)).toEqual(['room-booked']);
+  });
+
+  it('creates undeclared nodes from chained forward arrows and links them in order', () => {
+    const input = `slice "Sketch"
+
+ui:room-list -> cmd:book-room -> evt:room-booked -> rm:bookings`;
+
+    const parsed = parseDsl(input);
+
+    expect(parsed.warnings).toEqual([]);
+    expect([...parsed.nodes.values()].map((node) => `${node.type}:${node.name}`)).toEqual([
+      'ui:room-list',
+      'cmd:book-room',
+      'evt:room-booked',
+      'rm:bookings'
+    ]);
+    expect(parsed.edges).toEqual([
+      { from: 'room-list', to: 'book-room', label: null },
+      { from: 'book-room', to: 'room-booked', label: null },
+      { from: 'room-booked', to: 'bookings', label: null }
+    ]);
+    expect(parsed.nodes.get('room-booked')?.srcRange).toEqual({
+      from: input.indexOf('evt:room-booked'),
+      to: input.indexOf('evt:room-booked') + 'evt:room-booked'.length
+    });
+  });
+
+  it('links every ref of a chain step to every ref of the next step', () => {
+    const input = `slice "Fan out"
+
+cmd:book-room -> evt:room-booked, evt:invoice-requested -> rm:bookings`;
+
+    const parsed = parseDsl(input);
+
+    expect(parsed.edges).toEqual([
+      { from: 'book-room', to: 'room-booked', label: null },
+      { from: 'book-room', to: 'invoice-requested', label: null },
+      { from: 'room-booked', to: 'bookings', label: null },
+      { from: 'invoice-requested', to: 'bookings', label: null }
+    ]);
+  });
+
+  it('attaches data and uses blocks below a chain to the leading node', () => {
+    const input = `slice "Sketch"
+
+ui:booking-form -> cmd:book-room -> evt:room-booked
+  data:
+    room-number: 101
+
+evt:room-booked
+  uses:
+    room-number`;
+
+    const parsed = parseDsl(input);
+
+    expect(parsed.nodes.get('booking-form')?.data).toEqual({ 'room-number': 101 });
+    expect(parsed.nodes.get('book-room')?.data).toBeNull();
+    expect(parsed.nodes.get('room-booked')?.data).toEqual({ 'room-number': '<missing>' });
+    expect(parsed.nodes.get('room-booked')?.srcRange.from).toBe(input.lastIndexOf('evt:room-booked'));
+  });
+
+  it('keeps declared nodes canonical when a chain references them', () => {
+    const input = `slice "Sketch"
+
+evt:room-booked "Room Booked"
+  data:
+    room-number: 101
+
+cmd:book-room -> evt:room-booked -> rm:bookings`;
+
+    const parsed = parseDsl(input);
+
+    expect(parsed.nodes.get('room-booked')?.alias).toBe('Room Booked');
+    expect(parsed.nodes.get('room-booked')?.data).toEqual({ 'room-number': 101 });
+    expect([...parsed.nodes.keys()]).toEqual(['room-booked', 'book-room', 'bookings']);
+  });
+
+  it('chains forward arrows on continuation lines from the previous step', () => {
+    const input = `slice "Sketch"
+
+cmd:book-room
+  -> evt:room-booked -> rm:bookings`;
+
+    const parsed = parseDsl(input);
+
+    expect(parsed.warnings).toEqual([]);
+    expect(parsed.edges).toEqual([
+      { from: 'book-room', to: 'room-booked', label: null },
+      { from: 'room-booked', to: 'bookings', label: null }
+    ]);
+  });
+
+  it('still reports unresolved refs on a single forward arrow continuation line', () => {
+    const input = `slice "Sketch"
+
+evt:room-booked
+  -> rm:bookings`;
+
+    const parsed = parseDsl(input);
+
+    expect(parsed.nodes.has('bookings')).toBe(false);
+    expect(parsed.warnings.map((warning) => warning.message)).toEqual(['Unresolved dependency: bookings']);
+  });
+
+  it('does not read arrows inside data values as edges', () => {
+    const input = `slice "Sketch"
+
+evt:route-planned
+  data:
+    route: depot -> customer`;
+
+    const parsed = parseDsl(input);
+
+    expect([...parsed.nodes.keys()]).toEqual(['route-planned']);
+    expect(parsed.edges).toEqual([]);
+    expect(parsed.warnings).toEqual([]);
+  });
 });
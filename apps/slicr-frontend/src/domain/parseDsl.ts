@@ -3,6 +3,8 @@ import * as terms from '../slicr.parser.terms';
 import { JSONPath } from 'jsonpath-plus';
 import { applyMappingsToNodes, MappingEntry, parseUsesBlocks } from './dataMapping';
 import { validateDataIntegrity } from './dataIntegrity';
+import { validateScenarios } from './scenarioValidation';
+import { stripDslComments } from './dslComments';
 import { Edge, NodeData, Parsed, ParsedScenario, ParsedScenarioEntry, ParseWarning, SliceBoundary, VisualNode } from './types';
 
 type NodeSpec = {
@@ -12,12 +14,14 @@ type NodeSpec = {
   isScenario: boolean;
   alias: string | null;
   stream: string | null;
+  lane: string | null;
   incoming: ArtifactRef[];
   outgoing: ArtifactRef[];
   data: NodeData;
   srcRange: { from: number; to: number };
   dataEndPos?: number;
   dataKeyRanges?: Record<string, { from: number; to: number }>;
+  chainLinks?: ChainLinkSpec[];
 };
 
 type ArtifactRef = {
@@ -26,6 +30,16 @@ type ArtifactRef = {
   range: { from: number; to: number };
 };
 
+type ChainLinkSpec = {
+  from: ArtifactRef;
+  to: ArtifactRef;
+};
+
+type FlowRefSpec = {
+  line: number;
+  ref: ArtifactRef;
+};
+
 type YamlEntry = {
   indent: number;
   text: string;
@@ -54,11 +68,16 @@ type StreamClauseSpec = {
   stream: string;
 };
 
+type LaneClauseSpec = {
+  line: number;
+  lane: string;
+};
+
 const SCENARIO_NODE_NAME_PATTERN = '[a-zA-Z_][a-zA-Z0-9_#-]*';
 const SCENARIO_NODE_VERSION_PATTERN = '(?:@[0-9]+(?:\\.[0-9]+)?)?';
 const SCENARIO_ALIAS_PATTERN = '(?:\\s+("(?:[^"\\\\]|\\\\.)*"))?';
 const SCENARIO_PREFIXED_NODE_RE = new RegExp(
-  `^(rm|ui|cmd|evt|exc|aut|ext):(${SCENARIO_NODE_NAME_PATTERN}${SCENARIO_NODE_VERSION_PATTERN})${SCENARIO_ALIAS_PATTERN}$`
+  `^(rm|ui|cmd|qry|evt|exc|aut|ext):(${SCENARIO_NODE_NAME_PATTERN}${SCENARIO_NODE_VERSION_PATTERN})${SCENARIO_ALIAS_PATTERN}$`
 );
 const SCENARIO_GENERIC_NODE_RE = new RegExp(
   `^(${SCENARIO_NODE_NAME_PATTERN}${SCENARIO_NODE_VERSION_PATTERN})${SCENARIO_ALIAS_PATTERN}$`
@@ -66,11 +85,14 @@ const SCENARIO_GENERIC_NODE_RE = new RegExp(
 
 export function parseDsl(src: string): Parsed {
   const tree = parser.parse(src);
-  const lines = src.split('\n');
-  const lineStarts = buildLineStarts(lines);
+  const rawLines = src.split('\n');
+  const lineStarts = buildLineStarts(rawLines);
+  // Line-based passes work on comment-free text; offsets still come from the raw lines.
+  const lines = stripDslComments(rawLines);
   const scenarioNodeLines = collectScenarioNodeLines(lines);
   const boundaryLines = collectBoundaryLines(lines);
-  const usesBodyLines = collectUsesBodyLines(lines);
+  const usesBodyLines = collectBlockBodyLines(lines, ['uses:', 'maps:']);
+  const dataBodyLines = collectBlockBodyLines(lines, ['data:']);
   const mappingsByRef = parseUsesBlocks(src);
 
   const nodes = new Map<string, VisualNode>();
@@ -81,6 +103,8 @@ export function parseDsl(src: string): Parsed {
   const specs: NodeSpec[] = [];
   const edgeClauses: EdgeClauseSpec[] = [];
   const streamClauses: StreamClauseSpec[] = [];
+  const laneClauses: LaneClauseSpec[] = [];
+  const laneOrder: string[] = [];
 
   const cursor: ParseCursor = tree.cursor();
   do {
@@ -116,6 +140,7 @@ export function parseDsl(src: string): Parsed {
         isScenario: scenarioNodeLines.has(lineIndex),
         alias: parsed.alias,
         stream: null,
+        lane: null,
         incoming: parsed.incoming,
         outgoing: parsed.outgoing,
         data: null,
@@ -131,7 +156,7 @@ export function parseDsl(src: string): Parsed {
       }
 
       const lineIndex = getLineIndexAtPos(lineStarts, cursor.from);
-      if (usesBodyLines.has(lineIndex)) {
+      if (usesBodyLines.has(lineIndex) || dataBodyLines.has(lineIndex)) {
         continue;
       }
       edgeClauses.push({
@@ -152,6 +177,21 @@ export function parseDsl(src: string): Parsed {
 
       const lineIndex = getLineIndexAtPos(lineStarts, cursor.from);
       streamClauses.push({ line: lineIndex, stream: parsed.stream });
+      continue;
+    }
+
+    if (cursorTypeId(cursor) === terms.LaneStatement || cursorTypeId(cursor) === terms.LanesStatement) {
+      const lineIndex = getLineIndexAtPos(lineStarts, cursor.from);
+      if (usesBodyLines.has(lineIndex) || dataBodyLines.has(lineIndex)) {
+        continue;
+      }
+      const isLaneOrder = cursorTypeId(cursor) === terms.LanesStatement;
+      const names = parseLaneNames(cursor, src);
+      if (isLaneOrder) {
+        laneOrder.push(...names.filter((name) => !laneOrder.includes(name)));
+      } else if (names.length > 0) {
+        laneClauses.push({ line: lineIndex, lane: names[0] });
+      }
     }
   } while (cursor.next());
 
@@ -170,11 +210,17 @@ export function parseDsl(src: string): Parsed {
 
   specs.sort((left, right) => left.line - right.line || left.srcRange.from - right.srcRange.from);
 
-  attachStandaloneEdgeClauses(specs, edgeClauses);
+  const flowRefs = attachStandaloneEdgeClauses(specs, edgeClauses);
   attachStandaloneStreamClauses(specs, streamClauses);
+  attachStandaloneLaneClauses(specs, laneClauses);
 
   attachDataBlocks(lines, specs, lineStarts);
 
+  // Nodes that only appear in forward flows are created after blocks are attached,
+  // so data/uses/stream lines below a chain keep belonging to the chain's leading node.
+  specs.push(...buildImplicitFlowSpecs(specs, flowRefs));
+  specs.sort((left, right) => left.line - right.line || left.srcRange.from - right.srcRange.from);
+
   const refToKey = new Map<string, string>();
   const usedKeys = new Set<string>();
   const scenarioKeyByLine = new Map<number, string>();
@@ -217,12 +263,13 @@ export function parseDsl(src: string): Parsed {
         name: spec.name,
         alias: spec.alias,
         stream: spec.stream,
+        lane: spec.lane,
         key,
         data: spec.data,
         srcRange: finalRange,
         dataKeyRanges: spec.dataKeyRanges
       });
-    } else if (spec.data || spec.alias || spec.stream) {
+    } else if (spec.data || spec.alias || spec.stream || spec.lane) {
       const existing = nodes.get(key);
       if (existing) {
         if (!existing.alias && spec.alias) {
@@ -231,6 +278,9 @@ export function parseDsl(src: string): Parsed {
         if (!existing.stream && spec.stream) {
           existing.stream = spec.stream;
         }
+        if (!existing.lane && spec.lane) {
+          existing.lane = spec.lane;
+        }
         if (spec.data) {
           existing.data = spec.data;
           existing.srcRange = finalRange;
@@ -258,6 +308,17 @@ export function parseDsl(src: string): Parsed {
       unresolvedEdgeSet.add(edgeKey);
       unresolvedEdges.push({ fromRef: ref, toRef, range: to.range });
     }
+
+    for (const link of spec.chainLinks ?? []) {
+      const fromRef = toRefId(link.from.type, link.from.name);
+      const toRef = toRefId(link.to.type, link.to.name);
+      const edgeKey = `${fromRef}->${toRef}`;
+      if (unresolvedEdgeSet.has(edgeKey)) {
+        continue;
+      }
+      unresolvedEdgeSet.add(edgeKey);
+      unresolvedEdges.push({ fromRef, toRef, range: link.to.range });
+    }
   }
 
   for (const edge of unresolvedEdges) {
@@ -283,9 +344,10 @@ export function parseDsl(src: string): Parsed {
   const scenarioOnlyNodeKeys = [...nodeOriginByKey.entries()]
     .filter(([, origin]) => origin.scenario && !origin.topLevel)
     .map(([key]) => key);
+  warnings.push(...validateScenarios({ nodes, edges, scenarios, scenarioOnlyNodeKeys }));
   boundaries.push(...resolveBoundaries(specs, boundaryLines, refToKey));
 
-  return { sliceName, nodes, edges, warnings, boundaries, scenarios, scenarioOnlyNodeKeys };
+  return { sliceName, nodes, edges, warnings, boundaries, scenarios, scenarioOnlyNodeKeys, laneOrder };
 }
 
 function collectScenarioWhenCardinalityWarnings(lines: string[], lineStarts: number[]): ParseWarning[] {
@@ -524,6 +586,7 @@ function parseScenarioNodeSpecFromLine(line: string, lineIndex: number, lineStar
     isScenario: true,
     alias: parsed.alias,
     stream: null,
+    lane: null,
     incoming: [],
     outgoing: [],
     data: null,
@@ -563,11 +626,11 @@ function collectBoundaryLines(lines: string[]) {
   return boundaryLines;
 }
 
-function collectUsesBodyLines(lines: string[]) {
+function collectBlockBodyLines(lines: string[], blockPrefixes: string[]) {
   const mapLines = new Set<number>();
   for (let lineIndex = 0; lineIndex < lines.length; lineIndex += 1) {
     const line = lines[lineIndex];
-    if (!(line.trim().startsWith('uses:') || line.trim().startsWith('maps:'))) {
+    if (!blockPrefixes.some((prefix) => line.trim().startsWith(prefix))) {
       continue;
     }
 
@@ -691,6 +754,25 @@ function parseStreamStatement(cursor: ParseCursor, src: string) {
   return { stream };
 }
 
+function parseLaneNames(cursor: ParseCursor, src: string): string[] {
+  if (!cursor.firstChild()) {
+    return [];
+  }
+
+  const names: string[] = [];
+  do {
+    const tid = cursorTypeId(cursor);
+    if (tid === terms.String) {
+      names.push(unquote(src.slice(cursor.from, cursor.to)));
+    } else if (tid === terms.Identifier) {
+      names.push(src.slice(cursor.from, cursor.to));
+    }
+  } while (cursor.nextSibling());
+
+  cursor.parent();
+  return names.map((name) => name.trim()).filter((name) => name.length > 0);
+}
+
 function parseClauseRefs(cursor: ParseCursor, src: string): ArtifactRef[] {
   const refs: ArtifactRef[] = [];
   cursor.firstChild(); // Arrow token
@@ -707,12 +789,16 @@ function parseClauseRefs(cursor: ParseCursor, src: string): ArtifactRef[] {
   return refs;
 }
 
-function attachStandaloneEdgeClauses(specs: NodeSpec[], edgeClauses: EdgeClauseSpec[]) {
+// Returns the refs mentioned in forward flows (`a -> b` on the node line, or any `a -> b -> c` chain),
+// which are created as nodes when they are not declared elsewhere.
+function attachStandaloneEdgeClauses(specs: NodeSpec[], edgeClauses: EdgeClauseSpec[]): FlowRefSpec[] {
+  const flowRefs: FlowRefSpec[] = [];
   if (specs.length === 0 || edgeClauses.length === 0) {
-    return;
+    return flowRefs;
   }
 
   let specIndex = 0;
+  let previousOutgoing: { line: number; refs: ArtifactRef[] } | null = null;
   for (const clause of edgeClauses) {
     while (specIndex + 1 < specs.length && specs[specIndex + 1].line <= clause.line) {
       specIndex += 1;
@@ -724,11 +810,60 @@ function attachStandaloneEdgeClauses(specs: NodeSpec[], edgeClauses: EdgeClauseS
 
     const owner = specs[specIndex];
     owner.incoming.push(...clause.incoming);
-    owner.outgoing.push(...clause.outgoing);
+    const chainSources = previousOutgoing?.line === clause.line ? previousOutgoing.refs : null;
+    if (chainSources && clause.outgoing.length > 0) {
+      // Every forward step after the first one links the refs of the previous step.
+      const chainLinks = owner.chainLinks ?? [];
+      for (const from of chainSources) {
+        for (const to of clause.outgoing) {
+          chainLinks.push({ from, to });
+        }
+      }
+      owner.chainLinks = chainLinks;
+      flowRefs.push(...[...chainSources, ...clause.outgoing].map((ref) => ({ line: clause.line, ref })));
+    } else {
+      owner.outgoing.push(...clause.outgoing);
+      if (owner.line === clause.line) {
+        flowRefs.push(...clause.outgoing.map((ref) => ({ line: clause.line, ref })));
+      }
+    }
+    if (clause.outgoing.length > 0) {
+      previousOutgoing = { line: clause.line, refs: clause.outgoing };
+    }
     if (owner.line === clause.line) {
       owner.srcRange.to = Math.max(owner.srcRange.to, clause.to);
     }
   }
+
+  return flowRefs;
+}
+
+function buildImplicitFlowSpecs(specs: NodeSpec[], flowRefs: FlowRefSpec[]): NodeSpec[] {
+  const knownRefs = new Set(specs.filter((spec) => !spec.isScenario).map((spec) => toRefId(spec.type, spec.name)));
+  const implicitSpecs: NodeSpec[] = [];
+
+  for (const { line, ref } of flowRefs) {
+    const refId = toRefId(ref.type, ref.name);
+    if (knownRefs.has(refId)) {
+      continue;
+    }
+    knownRefs.add(refId);
+    implicitSpecs.push({
+      line,
+      type: ref.type,
+      name: ref.name,
+      isScenario: false,
+      alias: null,
+      stream: null,
+      lane: null,
+      incoming: [],
+      outgoing: [],
+      data: null,
+      srcRange: { ...ref.range }
+    });
+  }
+
+  return implicitSpecs;
 }
 
 function attachStandaloneStreamClauses(specs: NodeSpec[], streamClauses: StreamClauseSpec[]) {
@@ -753,12 +888,32 @@ function attachStandaloneStreamClauses(specs: NodeSpec[], streamClauses: StreamC
   }
 }
 
+function attachStandaloneLaneClauses(specs: NodeSpec[], laneClauses: LaneClauseSpec[]) {
+  if (specs.length === 0 || laneClauses.length === 0) {
+    return;
+  }
+
+  let specIndex = 0;
+  for (const clause of laneClauses) {
+    while (specIndex + 1 < specs.length && specs[specIndex + 1].line <= clause.line) {
+      specIndex += 1;
+    }
+
+    if (specs[specIndex].line > clause.line) {
+      continue;
+    }
+
+    specs[specIndex].lane = clause.lane;
+  }
+}
+
 function parseArtifactRef(cursor: ParseCursor, src: string): ArtifactRef | null {
   const startTypeId = cursorTypeId(cursor);
   const isDirectRef =
     startTypeId === terms.RmRef ||
     startTypeId === terms.UiRef ||
     startTypeId === terms.CmdRef ||
+    startTypeId === terms.QryRef ||
     startTypeId === terms.EvtRef ||
     startTypeId === terms.ExcRef ||
     startTypeId === terms.AutRef ||
@@ -780,6 +935,7 @@ function parseArtifactRef(cursor: ParseCursor, src: string): ArtifactRef | null
   if (typeId === terms.RmRef) type = 'rm';
   else if (typeId === terms.UiRef) type = 'ui';
   else if (typeId === terms.CmdRef) type = 'cmd';
+  else if (typeId === terms.QryRef) type = 'qry';
   else if (typeId === terms.EvtRef) type = 'evt';
   else if (typeId === terms.ExcRef) type = 'exc';
   else if (typeId === terms.AutRef) type = 'aut';
@@ -804,6 +960,7 @@ function parseArtifactRef(cursor: ParseCursor, src: string): ArtifactRef | null
       tid === terms.RmName ||
       tid === terms.UiName ||
       tid === terms.CmdName ||
+      tid === terms.QryName ||
       tid === terms.EvtName ||
       (typeId === terms.GenericRef && tid === terms.Identifier && name === '')
     ) {
@@ -830,6 +987,7 @@ function isArtifactRefType(typeId: number) {
     typeId === terms.RmRef ||
     typeId === terms.UiRef ||
     typeId === terms.CmdRef ||
+    typeId === terms.QryRef ||
     typeId === terms.EvtRef ||
     typeId === terms.ExcRef ||
     typeId === terms.AutRef ||
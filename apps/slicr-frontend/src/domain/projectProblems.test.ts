@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { parseDsl } from './parseDsl';
+import { collectModelLintProblems, collectProjectProblems, groupProjectProblems } from './projectProblems';
+
+function toSlices(slices: Array<{ id: string; dsl: string }>) {
+  return slices.map((slice) => ({ ...slice, parsed: parseDsl(slice.dsl) }));
+}
+
+describe('collectProjectProblems', () => {
+  it('collects data issues from every slice, not only the open one', () => {
+    const slices = toSlices([
+      { id: 'a', dsl: 'slice "A"\n\ncmd:buy\n' },
+      { id: 'b', dsl: 'slice "B"\n\nevt:bought\ndata:\n  id: 1\n\nrm:orders\n<- evt:bought\nuses:\n  total\n' }
+    ]);
+
+    const problems = collectProjectProblems(slices).filter((problem) => problem.code === 'missing-source');
+
+    expect(problems).toEqual([
+      expect.objectContaining({
+        sliceId: 'b',
+        severity: 'warning',
+        nodeKey: 'orders',
+        message: 'rm:orders uses total, but no predecessor provides it.',
+        line: 10
+      })
+    ]);
+  });
+
+  it('flags read models fed by unproduced events and commands whose events nobody consumes', () => {
+    const slices = toSlices([
+      { id: 'write', dsl: 'slice "Write"\n\ncmd:buy\n-> evt:bought\n\nevt:bought\n\ncmd:cancel\n-> evt:cancelled\n\nevt:cancelled\n' },
+      { id: 'read', dsl: 'slice "Read"\n\nevt:bought\n\nrm:orders\n<- evt:bought\n\nevt:refunded\n\nrm:refunds\n<- evt:refunded\n' }
+    ]);
+
+    const problems = collectProjectProblems(slices).filter((problem) => problem.code !== 'missing-source');
+
+    expect(problems.map((problem) => [problem.sliceId, problem.code, problem.message])).toEqual([
+      ['write', 'unconsumed-event', 'cmd:cancel emits evt:cancelled, which nothing consumes.'],
+      ['read', 'unproduced-event', 'rm:refunds consumes evt:refunded, which no slice produces.']
+    ]);
+  });
+
+  it('reports a flow problem once per node when it links several versions of an event', () => {
+    const slices = toSlices([
+      { id: 'read', dsl: 'slice "Read"\n\nevt:opened@1\n\nevt:opened@2\n\nrm:rooms\n<- evt:opened@1, evt:opened@2\n' }
+    ]);
+
+    const problems = collectProjectProblems(slices).filter((problem) => problem.code === 'unproduced-event');
+
+    expect(problems.map((problem) => [problem.nodeKey, problem.message])).toEqual([
+      ['rooms', 'rm:rooms consumes evt:opened, which no slice produces.']
+    ]);
+  });
+});
+
+describe('collectModelLintProblems', () => {
+  it('reports convention findings per slice with the rule as code and the configured severity', () => {
+    const slices = toSlices([
+      { id: 'write', dsl: 'slice "Write"\n\nui:form\ncmd:book-room <- ui:form\n' },
+      { id: 'events', dsl: 'slice "Events"\n\nevt:pay-invoice\n' }
+    ]);
+
+    const problems = collectModelLintProblems(slices, { 'event-past-tense': 'error' });
+
+    expect(problems.map((problem) => [problem.sliceId, problem.code, problem.severity, problem.line])).toEqual([
+      ['write', 'command-produces-event', 'warning', 4],
+      ['events', 'event-past-tense', 'error', 3]
+    ]);
+  });
+});
+
+describe('groupProjectProblems', () => {
+  it('groups problems by slice and severity and drops clean slices', () => {
+    const slices = toSlices([
+      { id: 'clean', dsl: 'slice "Clean"\n\ncmd:buy\n-> evt:bought\n\nevt:bought\n\nrm:orders\n<- evt:bought\n' },
+      { id: 'broken', dsl: 'slice "Broken"\n\nscenario "No when"\ngiven:\n  evt:bought\n\nthen:\n  evt:bought\n' }
+    ]);
+
+    const groups = groupProjectProblems(slices, collectProjectProblems(slices));
+
+    expect(groups.map((group) => [group.sliceName, group.errors.length, group.warnings.length])).toEqual([
+      ['Broken', 1, 0]
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+import { collectDataIssues, type DataIssueCode } from './dataIssues';
+import type { CrossSliceParsedDocument } from './crossSliceUsage';
+import { lintSliceModel, type ModelLintRuleId, type ModelLintSettings } from './modelLint';
+import { toNodeAnalysisRefFromNode } from './nodeAnalysisKey';
+import type { VisualNode } from './types';
+
+export type ProjectProblemSeverity = 'error' | 'warning';
+
+export type ProjectProblemCode = 'parse' | DataIssueCode | 'unproduced-event' | 'unconsumed-event' | ModelLintRuleId;
+
+export type ProjectProblem = {
+  code: ProjectProblemCode;
+  severity: ProjectProblemSeverity;
+  sliceId: string;
+  nodeKey: string | null;
+  message: string;
+  range: { from: number; to: number };
+  line: number;
+};
+
+export type ProjectProblemGroup = {
+  sliceId: string;
+  sliceName: string;
+  errors: ProjectProblem[];
+  warnings: ProjectProblem[];
+};
+
+type SelectedSliceOverrides = {
+  sliceId: string;
+  sourceOverrides: Record<string, string>;
+};
+
+function lineAt(dsl: string, offset: number): number {
+  return dsl.slice(0, offset).split('\n').length;
+}
+
+function isScenarioNode(slice: CrossSliceParsedDocument, node: VisualNode): boolean {
+  return node.key.startsWith('scn:') || slice.parsed.scenarioOnlyNodeKeys.includes(node.key);
+}
+
+function eachModelEdge(
+  slices: CrossSliceParsedDocument[],
+  visit: (slice: CrossSliceParsedDocument, from: VisualNode, to: VisualNode) => void
+) {
+  for (const slice of slices) {
+    for (const edge of slice.parsed.edges) {
+      const from = slice.parsed.nodes.get(edge.from);
+      const to = slice.parsed.nodes.get(edge.to);
+      if (from && to && !isScenarioNode(slice, from) && !isScenarioNode(slice, to)) {
+        visit(slice, from, to);
+      }
+    }
+  }
+}
+
+function collectFlowProblems(slices: CrossSliceParsedDocument[]): ProjectProblem[] {
+  const producedEvents = new Set<string>();
+  const consumedEvents = new Set<string>();
+  eachModelEdge(slices, (_slice, from, to) => {
+    if (to.type === 'evt') {
+      producedEvents.add(toNodeAnalysisRefFromNode(to));
+    }
+    if (from.type === 'evt') {
+      consumedEvents.add(toNodeAnalysisRefFromNode(from));
+    }
+  });
+
+  // Versioned refs (evt:a@1, evt:a@2) share one analysis ref, so each node reports a ref once.
+  const problems: ProjectProblem[] = [];
+  const reported = new Set<string>();
+  const report = (
+    slice: CrossSliceParsedDocument,
+    node: VisualNode,
+    ref: string,
+    problem: Pick<ProjectProblem, 'code' | 'severity' | 'message'>
+  ) => {
+    const key = `${problem.code}:${slice.id}:${node.key}:${ref}`;
+    if (reported.has(key)) {
+      return;
+    }
+    reported.add(key);
+    problems.push({
+      ...problem,
+      sliceId: slice.id,
+      nodeKey: node.key,
+      range: node.srcRange,
+      line: lineAt(slice.dsl, node.srcRange.from)
+    });
+  };
+  eachModelEdge(slices, (slice, from, to) => {
+    const fromRef = toNodeAnalysisRefFromNode(from);
+    const toRef = toNodeAnalysisRefFromNode(to);
+    if (from.type === 'evt' && to.type === 'rm' && !producedEvents.has(fromRef)) {
+      report(slice, to, fromRef, {
+        code: 'unproduced-event',
+        severity: 'warning',
+        message: `rm:${to.name} consumes ${fromRef}, which no slice produces.`
+      });
+    }
+    if (from.type === 'cmd' && to.type === 'evt' && !consumedEvents.has(toRef)) {
+      report(slice, from, toRef, {
+        code: 'unconsumed-event',
+        severity: 'warning',
+        message: `cmd:${from.name} emits ${toRef}, which nothing consumes.`
+      });
+    }
+  });
+  return problems;
+}
+
+export function collectProjectProblems(
+  slices: CrossSliceParsedDocument[],
+  selected?: SelectedSliceOverrides
+): ProjectProblem[] {
+  const problems: ProjectProblem[] = [];
+  for (const slice of slices) {
+    for (const warning of slice.parsed.warnings) {
+      problems.push({
+        code: 'parse',
+        severity: warning.level,
+        sliceId: slice.id,
+        nodeKey: null,
+        message: warning.message,
+        range: warning.range,
+        line: lineAt(slice.dsl, warning.range.from)
+      });
+    }
+    const issues = collectDataIssues({
+      dsl: slice.dsl,
+      nodes: slice.parsed.nodes,
+      edges: slice.parsed.edges,
+      sliceId: slice.id,
+      sourceOverrides: selected?.sliceId === slice.id ? selected.sourceOverrides : undefined
+    });
+    for (const issue of issues) {
+      problems.push({
+        code: issue.code,
+        severity: issue.severity,
+        sliceId: slice.id,
+        nodeKey: issue.nodeKey,
+        message: issue.code === 'missing-source'
+          ? `${issue.nodeRef} uses ${issue.key}, but no predecessor provides it.`
+          : `${issue.nodeRef} uses ${issue.key}, which several predecessors provide.`,
+        range: issue.range,
+        line: lineAt(slice.dsl, issue.range.from)
+      });
+    }
+  }
+  problems.push(...collectFlowProblems(slices));
+  return problems;
+}
+
+export function collectModelLintProblems(
+  slices: CrossSliceParsedDocument[],
+  settings: ModelLintSettings
+): ProjectProblem[] {
+  return slices.flatMap((slice) => {
+    const otherSlices = slices.filter((other) => other.id !== slice.id).map((other) => other.parsed);
+    return lintSliceModel({ parsed: slice.parsed, otherSlices, settings }).map((warning) => ({
+      code: warning.ruleId,
+      severity: warning.level,
+      sliceId: slice.id,
+      nodeKey: warning.nodeKey,
+      message: warning.message,
+      range: warning.range,
+      line: lineAt(slice.dsl, warning.range.from)
+    }));
+  });
+}
+
+export function groupProjectProblems(
+  slices: CrossSliceParsedDocument[],
+  problems: ProjectProblem[]
+): ProjectProblemGroup[] {
+  const byRange = (a: ProjectProblem, b: ProjectProblem) => a.range.from - b.range.from;
+  return slices
+    .map((slice) => {
+      const sliceProblems = problems.filter((problem) => problem.sliceId === slice.id).sort(byRange);
+      return {
+        sliceId: slice.id,
+        sliceName: slice.parsed.sliceName,
+        errors: sliceProblems.filter((problem) => problem.severity === 'error'),
+        warnings: sliceProblems.filter((problem) => problem.severity === 'warning')
+      };
+    })
+    .filter((group) => group.errors.length > 0 || group.warnings.length > 0);
+}
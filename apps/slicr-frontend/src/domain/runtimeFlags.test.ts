@@ -1,12 +1,17 @@
 import { describe, expect, it } from 'vitest';
 import {
+  DIAGRAM_ENGINE_FLAG_STORAGE_KEY,
   DIAGRAM_RENDERER_FLAG_STORAGE_KEY,
   CROSS_SLICE_DATA_FLAG_STORAGE_KEY,
   DRAG_AND_DROP_FLAG_STORAGE_KEY,
   RENDER_ENGINE_DROPDOWN_FLAG_STORAGE_KEY,
+  EVENT_STORAGE_FLAG_STORAGE_KEY,
+  getDiagramEngineId,
   getDiagramRendererId,
+  getEventStorageBackendId,
   isDragAndDropEnabled,
   isCrossSliceDataEnabled,
+  saveDiagramEngineId,
   shouldShowDevDiagramControls
 } from './runtimeFlags';
 
@@ -17,6 +22,9 @@ describe('runtimeFlags', () => {
       getItem: (key: string) => map.get(key) ?? null,
       setItem: (key: string, value: string) => {
         map.set(key, value);
+      },
+      removeItem: (key: string) => {
+        map.delete(key);
       }
     };
   };
@@ -105,4 +113,30 @@ describe('runtimeFlags', () => {
     expect(getDiagramRendererId('localhost', storage)).toBe('dom-svg-camera');
     expect(storage.getItem(DIAGRAM_RENDERER_FLAG_STORAGE_KEY)).toBe('dom-svg-camera');
   });
+
+  it('leaves the diagram engine to each mode until one is selected and never persists the default', () => {
+    const storage = createStorage();
+
+    expect(getDiagramEngineId(storage)).toBeNull();
+    expect(storage.getItem(DIAGRAM_ENGINE_FLAG_STORAGE_KEY)).toBeNull();
+
+    saveDiagramEngineId('elk', storage);
+    expect(getDiagramEngineId(storage)).toBe('elk');
+
+    saveDiagramEngineId(null, storage);
+    expect(storage.getItem(DIAGRAM_ENGINE_FLAG_STORAGE_KEY)).toBeNull();
+
+    storage.setItem(DIAGRAM_ENGINE_FLAG_STORAGE_KEY, 'graphviz');
+    expect(getDiagramEngineId(storage)).toBeNull();
+  });
+
+  it('keeps events in localStorage unless IndexedDB is selected and never persists the default', () => {
+    const storage = createStorage();
+
+    expect(getEventStorageBackendId(storage)).toBe('local-storage');
+    expect(storage.getItem(EVENT_STORAGE_FLAG_STORAGE_KEY)).toBeNull();
+
+    storage.setItem(EVENT_STORAGE_FLAG_STORAGE_KEY, 'indexed-db');
+    expect(getEventStorageBackendId(storage)).toBe('indexed-db');
+  });
 });
@@ -1,9 +1,14 @@
+import type { DiagramEngineId } from './diagramEngine';
+
 export const RENDER_ENGINE_DROPDOWN_FLAG_STORAGE_KEY = 'slicr.flag.renderEngineDropdown';
 export const DRAG_AND_DROP_FLAG_STORAGE_KEY = 'slicr.flag.dragAndDrop';
 export const CROSS_SLICE_DATA_FLAG_STORAGE_KEY = 'slicr.flag.crossSliceData';
 export const DIAGRAM_RENDERER_FLAG_STORAGE_KEY = 'slicr.flag.diagramRenderer';
+export const EVENT_STORAGE_FLAG_STORAGE_KEY = 'slicr.flag.eventStorage';
+export const DIAGRAM_ENGINE_FLAG_STORAGE_KEY = 'slicr.flag.diagramEngine';
 type StorageLike = Pick<Storage, 'getItem' | 'setItem'>;
 export type DiagramRendererId = 'dom-svg' | 'dom-svg-camera';
+export type EventStorageBackendId = 'local-storage' | 'indexed-db';
 
 function parseStoredFlag(value: string | null): boolean | null {
   if (value === 'true') {
@@ -22,7 +27,21 @@ function parseStoredRendererId(value: string | null): DiagramRendererId | null {
   return null;
 }
 
-function defaultStorage(): StorageLike | null {
+function parseStoredEngineId(value: string | null): DiagramEngineId | null {
+  if (value === 'elk' || value === 'layout-lib') {
+    return value;
+  }
+  return null;
+}
+
+function parseStoredEventStorageBackendId(value: string | null): EventStorageBackendId | null {
+  if (value === 'local-storage' || value === 'indexed-db') {
+    return value;
+  }
+  return null;
+}
+
+function defaultStorage(): Storage | null {
   try {
     return globalThis.localStorage;
   } catch {
@@ -75,3 +94,39 @@ export function getDiagramRendererId(_hostname: string, storage: StorageLike | n
     return defaultValue;
   }
 }
+
+// Null until the user picks an engine; each diagram mode then keeps the engine it always used.
+export function getDiagramEngineId(storage: StorageLike | null = defaultStorage()): DiagramEngineId | null {
+  try {
+    return parseStoredEngineId(storage?.getItem(DIAGRAM_ENGINE_FLAG_STORAGE_KEY) ?? null);
+  } catch {
+    return null;
+  }
+}
+
+export function saveDiagramEngineId(
+  engineId: DiagramEngineId | null,
+  storage: Pick<Storage, 'setItem' | 'removeItem'> | null = defaultStorage()
+): void {
+  try {
+    if (engineId === null) {
+      storage?.removeItem(DIAGRAM_ENGINE_FLAG_STORAGE_KEY);
+    } else {
+      storage?.setItem(DIAGRAM_ENGINE_FLAG_STORAGE_KEY, engineId);
+    }
+  } catch {
+    // Ignore storage failures.
+  }
+}
+
+export function getEventStorageBackendId(storage: StorageLike | null = defaultStorage()): EventStorageBackendId {
+  const defaultValue: EventStorageBackendId = 'local-storage';
+  if (!storage) {
+    return defaultValue;
+  }
+  try {
+    return parseStoredEventStorageBackendId(storage.getItem(EVENT_STORAGE_FLAG_STORAGE_KEY)) ?? defaultValue;
+  } catch {
+    return defaultValue;
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { parseDsl } from './parseDsl';
+
+function scenarioWarnings(input: string) {
+  return parseDsl(input).warnings.filter((warning) => warning.message.startsWith('Scenario "'));
+}
+
+const FLOW = `slice "Booking"
+
+cmd:book-room
+data:
+  room: 101
+
+evt:room-booked
+<- cmd:book-room
+data:
+  room: 101
+  guest: Ada
+
+evt:room-released
+`;
+
+describe('validateScenarios', () => {
+  it('accepts scenarios that follow the slice flow', () => {
+    expect(scenarioWarnings(`${FLOW}
+scenario "books"
+given:
+  evt:room-released
+when:
+  cmd:book-room
+  data:
+    room: 101
+then:
+  evt:room-booked
+  exc:room-unavailable`)).toEqual([]);
+  });
+
+  it('checks the node types of given, when and then entries', () => {
+    const input = `${FLOW}
+scenario "wrong types"
+given:
+  rm:rooms
+when:
+  evt:room-booked
+then:
+  cmd:book-room`;
+
+    expect(scenarioWarnings(input)).toEqual([
+      {
+        message: 'Scenario "wrong types": rm:rooms should be an event.',
+        range: { from: input.indexOf('rm:rooms'), to: input.indexOf('rm:rooms') + 'rm:rooms'.length },
+        level: 'warning'
+      },
+      {
+        message: 'Scenario "wrong types": evt:room-booked should be a command.',
+        range: { from: input.indexOf('  evt:room-booked\nthen') + 2, to: input.indexOf('  evt:room-booked\nthen') + 2 + 'evt:room-booked'.length },
+        level: 'warning'
+      },
+      {
+        message: 'Scenario "wrong types": cmd:book-room should be an event or an exception.',
+        range: { from: input.lastIndexOf('cmd:book-room'), to: input.lastIndexOf('cmd:book-room') + 'cmd:book-room'.length },
+        level: 'warning'
+      }
+    ]);
+  });
+
+  it('requires the when command in the slice and then events reachable from it', () => {
+    expect(scenarioWarnings(`${FLOW}
+scenario "unknown command"
+given:
+  evt:room-released
+when:
+  cmd:cancel-room
+then:
+  evt:room-booked`).map((warning) => warning.message)).toEqual([
+      'Scenario "unknown command": command cmd:cancel-room does not exist in this slice.'
+    ]);
+
+    expect(scenarioWarnings(`${FLOW}
+scenario "unreachable"
+given:
+  evt:room-booked
+when:
+  cmd:book-room
+then:
+  evt:room-released
+  evt:room-cleaned`).map((warning) => warning.message)).toEqual([
+      'Scenario "unreachable": evt:room-released is not reachable from cmd:book-room.',
+      'Scenario "unreachable": evt:room-cleaned is not reachable from cmd:book-room.'
+    ]);
+  });
+
+  it('flags scenario data keys that the main node does not declare', () => {
+    const input = `${FLOW}
+scenario "data"
+given:
+  evt:room-released
+when:
+  cmd:book-room
+then:
+  evt:room-booked
+  data:
+    room: 101
+    nights: 2`;
+
+    const warnings = scenarioWarnings(input);
+    expect(warnings.map((warning) => warning.message)).toEqual([
+      'Scenario "data": key "nights" is not part of the evt:room-booked data.'
+    ]);
+    expect(input.slice(warnings[0].range.from, warnings[0].range.to)).toContain('nights');
+  });
+
+  it('skips type checks for generic references', () => {
+    expect(scenarioWarnings(`${FLOW}
+scenario "generic"
+given:
+  some-context
+when:
+  cmd:book-room
+then:
+  evt:room-booked`)).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { Edge, ParsedScenario, ParsedScenarioEntry, ParseWarning, VisualNode } from './types';
+
+const NODE_VERSION_SUFFIX = /@\d+(?:\.\d+)?$/;
+
+type ScenarioValidationInput = {
+  nodes: Map<string, VisualNode>;
+  edges: Edge[];
+  scenarios: ParsedScenario[];
+  scenarioOnlyNodeKeys: string[];
+};
+
+function entryLabel(entry: Pick<ParsedScenarioEntry, 'type' | 'name'>): string {
+  return entry.type === 'generic' ? entry.name : `${entry.type}:${entry.name}`;
+}
+
+function baseName(name: string): string {
+  return name.replace(NODE_VERSION_SUFFIX, '');
+}
+
+function findSliceNode(sliceNodes: VisualNode[], entry: ParsedScenarioEntry): VisualNode | null {
+  return sliceNodes.find((node) => node.type === entry.type && node.name === entry.name)
+    ?? sliceNodes.find((node) => node.type === entry.type && baseName(node.name) === baseName(entry.name))
+    ?? null;
+}
+
+function reachableFrom(startKey: string, edges: Edge[]): Set<string> {
+  const reachable = new Set<string>();
+  const queue = [startKey];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.from === current && !reachable.has(edge.to)) {
+        reachable.add(edge.to);
+        queue.push(edge.to);
+      }
+    }
+  }
+  return reachable;
+}
+
+export function validateScenarios(input: ScenarioValidationInput): ParseWarning[] {
+  const warnings: ParseWarning[] = [];
+  const scenarioOnly = new Set(input.scenarioOnlyNodeKeys);
+  const sliceNodes = [...input.nodes.values()].filter((node) => !scenarioOnly.has(node.key));
+
+  const warn = (scenario: ParsedScenario, message: string, range: { from: number; to: number }) => {
+    warnings.push({ message: `Scenario "${scenario.name}": ${message}`, range, level: 'warning' });
+  };
+
+  const checkType = (scenario: ParsedScenario, entry: ParsedScenarioEntry, allowed: string[], expectation: string) => {
+    if (entry.type !== 'generic' && !allowed.includes(entry.type)) {
+      warn(scenario, `${entryLabel(entry)} should be ${expectation}.`, entry.srcRange);
+    }
+  };
+
+  const checkDataKeys = (scenario: ParsedScenario, entry: ParsedScenarioEntry) => {
+    const scenarioNode = input.nodes.get(entry.key);
+    const sliceNode = findSliceNode(sliceNodes, entry);
+    if (!scenarioNode?.data || !sliceNode?.data) {
+      return;
+    }
+    const knownKeys = new Set(Object.keys(sliceNode.data));
+    for (const key of Object.keys(scenarioNode.data)) {
+      if (!knownKeys.has(key)) {
+        warn(
+          scenario,
+          `key "${key}" is not part of the ${entryLabel(sliceNode)} data.`,
+          scenarioNode.dataKeyRanges?.[key] ?? entry.srcRange
+        );
+      }
+    }
+  };
+
+  for (const scenario of input.scenarios) {
+    for (const entry of scenario.given) {
+      checkType(scenario, entry, ['evt'], 'an event');
+    }
+    if (scenario.when) {
+      checkType(scenario, scenario.when, ['cmd'], 'a command');
+    }
+    for (const entry of scenario.then) {
+      checkType(scenario, entry, ['evt', 'exc'], 'an event or an exception');
+    }
+
+    const command = scenario.when?.type === 'cmd' ? findSliceNode(sliceNodes, scenario.when) : null;
+    if (scenario.when?.type === 'cmd' && !command) {
+      warn(scenario, `command ${entryLabel(scenario.when)} does not exist in this slice.`, scenario.when.srcRange);
+    }
+    if (command) {
+      const reachable = reachableFrom(command.key, input.edges);
+      for (const entry of scenario.then.filter((candidate) => candidate.type === 'evt')) {
+        const event = findSliceNode(sliceNodes, entry);
+        if (!event || !reachable.has(event.key)) {
+          warn(scenario, `${entryLabel(entry)} is not reachable from ${entryLabel(command)}.`, entry.srcRange);
+        }
+      }
+    }
+
+    for (const entry of [...scenario.given, ...(scenario.when ? [scenario.when] : []), ...scenario.then]) {
+      checkDataKeys(scenario, entry);
+    }
+  }
+
+  return warnings;
+}
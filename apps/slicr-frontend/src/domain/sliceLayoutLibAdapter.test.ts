@@ -12,6 +12,7 @@ evt:order-submitted <- cmd:submit-order
 stream: orders
 evt:audit-recorded <- cmd:submit-order
 rm:orders-view <- evt:order-submitted
+qry:find-orders <- rm:orders-view
 exc:payment-failed`);
 
     const result = buildSliceLayoutLibRequest(parsed);
@@ -27,6 +28,7 @@ exc:payment-failed`);
       expect.objectContaining({ id: 'submit-order', laneId: 'lane-1' }),
       expect.objectContaining({ id: 'order-submitted', laneId: 'lane-2' }),
       expect.objectContaining({ id: 'orders-view', laneId: 'lane-1' }),
+      expect.objectContaining({ id: 'find-orders', laneId: 'lane-1' }),
       expect.objectContaining({ id: 'payment-failed', laneId: 'lane-3' }),
       expect.objectContaining({ id: 'audit-recorded', laneId: 'lane-3' })
     ]));
@@ -35,6 +37,7 @@ exc:payment-failed`);
       ['submit-order', 1],
       ['order-submitted', 2],
       ['orders-view', 1],
+      ['find-orders', 1],
       ['payment-failed', 3],
       ['audit-recorded', 3]
     ]));
@@ -43,6 +46,35 @@ exc:payment-failed`);
     });
   });
 
+  it('puts named lanes first in the declared lane order', () => {
+    const parsed = parseDsl(`slice "Orders"
+lanes: "Back Office", Customer
+
+ui:orders-page
+lane: Customer
+cmd:submit-order <- ui:orders-page
+evt:order-submitted <- cmd:submit-order
+aut:review-order <- evt:order-submitted
+lane: "Back Office"`);
+
+    const result = buildSliceLayoutLibRequest(parsed);
+
+    expect(result.request.lanes).toEqual([
+      { id: 'lane-0', order: 0 },
+      { id: 'lane-1', order: 1 },
+      { id: 'lane-3', order: 3 },
+      { id: 'lane-4', order: 4 }
+    ]);
+    expect(result.laneByKey).toEqual(new Map([
+      ['orders-page', 1],
+      ['submit-order', 3],
+      ['order-submitted', 4],
+      ['review-order', 0]
+    ]));
+    expect(result.rowLaneLabels).toEqual({ 0: 'Back Office', 1: 'Customer' });
+    expect(result.rowStreamLabels).toEqual({});
+  });
+
   it('derives ordered layout groups from slice boundaries', () => {
     const parsed = parseDsl(`slice "Orders"
 
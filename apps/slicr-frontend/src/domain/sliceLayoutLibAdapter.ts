@@ -9,15 +9,41 @@ export type SliceLayoutLibRequest = {
   request: LayoutRequest;
   laneByKey: Map<string, number>;
   rowStreamLabels: Record<number, string>;
+  rowLaneLabels: Record<number, string>;
 };
 
+type LayoutLibGroup = { id: string; order: number; nodeKeys: string[] };
+
 export function buildSliceLayoutLibRequest(
   parsed: Parsed,
   nodeDimensions?: Record<string, NodeDimensions>
 ): SliceLayoutLibRequest {
-  const { laneByKey, rowStreamLabels } = buildElkLaneMeta(parsed);
+  const groups = parsed.boundaries.length === 0 || parsed.nodes.size === 0
+    ? undefined
+    : buildGroups(parsed, [[...parsed.nodes.keys()]]);
+  return buildLayoutLibRequest(parsed, groups, nodeDimensions);
+}
+
+// Each slice starts a new group, so slices stay side by side in the order of the overview.
+export function buildOverviewLayoutLibRequest(
+  parsed: Parsed,
+  slices: Array<{ nodeKeys: string[] }>,
+  nodeDimensions?: Record<string, NodeDimensions>
+): SliceLayoutLibRequest {
+  const groups = buildGroups(
+    parsed,
+    slices.map((slice) => slice.nodeKeys.filter((nodeKey) => parsed.nodes.has(nodeKey)))
+  );
+  return buildLayoutLibRequest(parsed, groups.length > 0 ? groups : undefined, nodeDimensions);
+}
+
+function buildLayoutLibRequest(
+  parsed: Parsed,
+  groups: LayoutLibGroup[] | undefined,
+  nodeDimensions?: Record<string, NodeDimensions>
+): SliceLayoutLibRequest {
+  const { laneByKey, rowStreamLabels, rowLaneLabels } = buildElkLaneMeta(parsed);
   const orderedLaneNumbers = [...new Set(laneByKey.values())].sort((a, b) => a - b);
-  const groups = buildGroups(parsed);
   const groupIdByNodeKey = groups
     ? new Map(groups.flatMap((group) => group.nodeKeys.map((nodeKey) => [nodeKey, group.id] as const)))
     : null;
@@ -54,41 +80,38 @@ export function buildSliceLayoutLibRequest(
       }
     },
     laneByKey,
-    rowStreamLabels
+    rowStreamLabels,
+    rowLaneLabels
   };
 }
 
-function buildGroups(parsed: Parsed): Array<{ id: string; order: number; nodeKeys: string[] }> | undefined {
-  if (parsed.boundaries.length === 0 || parsed.nodes.size === 0) {
-    return undefined;
-  }
-
+function buildGroups(parsed: Parsed, nodeKeySequences: string[][]): LayoutLibGroup[] {
   const boundaryAfterKeys = new Set(parsed.boundaries.map((boundary) => boundary.after));
-  const groups: Array<{ id: string; order: number; nodeKeys: string[] }> = [];
-  let currentGroupIndex = 0;
-  let currentGroup = createGroup(currentGroupIndex);
+  const groups: LayoutLibGroup[] = [];
 
-  for (const node of parsed.nodes.values()) {
-    currentGroup.nodeKeys.push(node.key);
-    if (boundaryAfterKeys.has(node.key)) {
-      groups.push(currentGroup);
-      currentGroupIndex += 1;
-      currentGroup = createGroup(currentGroupIndex);
+  for (const nodeKeys of nodeKeySequences) {
+    let currentGroup = createGroup(groups.length);
+    for (const nodeKey of nodeKeys) {
+      currentGroup.nodeKeys.push(nodeKey);
+      if (boundaryAfterKeys.has(nodeKey)) {
+        groups.push(currentGroup);
+        currentGroup = createGroup(groups.length);
+      }
     }
-  }
 
-  if (currentGroup.nodeKeys.length > 0) {
-    groups.push(currentGroup);
+    if (currentGroup.nodeKeys.length > 0) {
+      groups.push(currentGroup);
+    }
   }
 
   return groups;
 }
 
-function createGroup(index: number) {
+function createGroup(index: number): LayoutLibGroup {
   return {
     id: `group-${index}`,
     order: index,
-    nodeKeys: [] as string[]
+    nodeKeys: []
   };
 }
 
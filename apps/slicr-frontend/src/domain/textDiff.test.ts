@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './textDiff';
+
+describe('diffLines', () => {
+  it('marks added and removed lines between unchanged context', () => {
+    expect(diffLines('slice "A"\n\ncmd:a\nevt:b\nrm:c', 'slice "A"\n\ncmd:a\nevt:x\nrm:c\nui:d')).toEqual([
+      { kind: 'same', text: 'slice "A"' },
+      { kind: 'same', text: '' },
+      { kind: 'same', text: 'cmd:a' },
+      { kind: 'removed', text: 'evt:b' },
+      { kind: 'added', text: 'evt:x' },
+      { kind: 'same', text: 'rm:c' },
+      { kind: 'added', text: 'ui:d' }
+    ]);
+  });
+
+  it('keeps moved lines aligned on the longest common subsequence', () => {
+    expect(diffLines('a\nb\nc', 'b\nc\na').map((line) => `${line.kind}:${line.text}`)).toEqual([
+      'removed:a',
+      'same:b',
+      'same:c',
+      'added:a'
+    ]);
+  });
+
+  it('returns only unchanged lines for identical text', () => {
+    expect(diffLines('a\nb', 'a\nb').every((line) => line.kind === 'same')).toBe(true);
+  });
+});
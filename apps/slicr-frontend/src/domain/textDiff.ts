@@ -0,0 +1,52 @@
+export type TextDiffLine = {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+};
+
+export function diffLines(before: string, after: string): TextDiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix
+    && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const width = middleB.length + 1;
+  const lengths = new Uint32Array((middleA.length + 1) * width);
+  for (let i = middleA.length - 1; i >= 0; i -= 1) {
+    for (let j = middleB.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] = middleA[i] === middleB[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const lines: TextDiffLine[] = a.slice(0, prefix).map((text) => ({ kind: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < middleA.length || j < middleB.length) {
+    if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+      lines.push({ kind: 'same', text: middleA[i] });
+      i += 1;
+      j += 1;
+    } else if (j < middleB.length && (i >= middleA.length || lengths[i * width + j + 1] > lengths[(i + 1) * width + j])) {
+      lines.push({ kind: 'added', text: middleB[j] });
+      j += 1;
+    } else {
+      lines.push({ kind: 'removed', text: middleA[i] });
+      i += 1;
+    }
+  }
+  return [...lines, ...a.slice(a.length - suffix).map((text): TextDiffLine => ({ kind: 'same', text }))];
+}
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import { parseDsl } from './parseDsl';
 import { getRelatedElements } from './traversal';
 import { Parsed, VisualNode, Edge } from './types';
 
@@ -75,4 +76,16 @@ describe('traversal', () => {
     expect(result.nodes.size).toBe(0);
     expect(result.edges.size).toBe(0);
   });
+
+  it('follows every step of a chained forward flow', () => {
+    const chained = parseDsl(`slice "Chain"
+
+ui:room-list -> cmd:book-room -> evt:room-booked -> rm:bookings
+evt:room-cleaned -> rm:housekeeping`);
+
+    const result = getRelatedElements(chained, 'room-list');
+
+    expect([...result.nodes].sort()).toEqual(['book-room', 'bookings', 'room-booked', 'room-list']);
+    expect([...result.edges].sort()).toEqual(['book-room->room-booked', 'room-booked->bookings', 'room-list->book-room']);
+  });
 });
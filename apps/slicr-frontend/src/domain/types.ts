@@ -7,6 +7,7 @@ export type VisualNode = {
   name: string;
   alias: string | null;
   stream: string | null;
+  lane?: string | null;
   key: string;
   data: NodeData;
   mappedDataKeys?: Set<string>;
@@ -55,6 +56,7 @@ export type Parsed = {
   boundaries: SliceBoundary[];
   scenarios: ParsedScenario[];
   scenarioOnlyNodeKeys: string[];
+  laneOrder?: string[];
 };
 
 export type Position = {
@@ -69,6 +71,7 @@ export type LayoutResult = {
   rowY: Record<number, number>;
   usedRows: number[];
   rowStreamLabels: Record<number, string>;
+  rowLaneLabels?: Record<number, string>;
   w: number;
   h: number;
 };
@@ -78,4 +78,21 @@ describe('DSL language rendering', () => {
     expect(punctuationTokens.some((token) => token.textContent?.trim() === '@')).toBe(true);
     expect(keywordTokens.some((token) => token.textContent?.trim() === 'uses')).toBe(true);
   });
+
+  it('highlights full-line and trailing comments', () => {
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+
+    view = new EditorView({
+      state: EditorState.create({
+        doc: `# flow notes\nevt:the-event // emitted once`,
+        extensions: [slicr(), EditorView.lineWrapping]
+      }),
+      parent: host
+    });
+
+    const commentTokens = [...host.querySelectorAll('.dsl-tok-comment')].map((token) => token.textContent?.trim());
+    expect(commentTokens).toEqual(['# flow notes', '// emitted once']);
+    expect(host.querySelector('.dsl-tok-evtName')?.textContent?.trim()).toBe('the-event');
+  });
 });
@@ -1,3 +1,5 @@
+import type { EventStorage } from './storage/eventStorage';
+
 type AppProjectCreatedEvent = {
   id: string;
   version: number;
@@ -145,7 +147,7 @@ function isFiniteNumber(value: unknown): value is number {
   return typeof value === 'number' && Number.isFinite(value);
 }
 
-function readRawObjectArray(storage: Storage, key: string): Array<Record<string, unknown>> {
+function readRawObjectArray(storage: EventStorage, key: string): Array<Record<string, unknown>> {
   try {
     const raw = storage.getItem(key);
     if (!raw) {
@@ -370,7 +372,7 @@ function countEventTypes(events: Array<{ type: string }>): EventCountByType {
   return counts;
 }
 
-function collectStorageKeys(storage: Storage): string[] {
+function collectStorageKeys(storage: EventStorage): string[] {
   const keys: string[] = [];
   for (let i = 0; i < storage.length; i += 1) {
     const key = storage.key(i);
@@ -381,7 +383,7 @@ function collectStorageKeys(storage: Storage): string[] {
   return keys;
 }
 
-function readSliceEvents(storage: Storage, sliceId: string): SliceEvent[] {
+function readSliceEvents(storage: EventStorage, sliceId: string): SliceEvent[] {
   return sortedByVersion(
     readRawObjectArray(storage, `${STREAM_KEY_PREFIX}${sliceId}`)
       .map((event) => parseSliceEvent(event))
@@ -493,6 +495,7 @@ function buildCanonicalSliceEvents(
     sliceId,
     version: version++,
     at,
+    compacted: true,
     type: 'slice-created',
     payload: { initialDsl: dsl }
   });
@@ -503,6 +506,7 @@ function buildCanonicalSliceEvents(
       sliceId,
       version: version++,
       at,
+      compacted: true,
       type: 'node-moved',
       payload: { nodeKey, x: point.x, y: point.y }
     });
@@ -514,6 +518,7 @@ function buildCanonicalSliceEvents(
       sliceId,
       version: version++,
       at,
+      compacted: true,
       type: 'edge-moved',
       payload: { edgeKey, points }
     });
@@ -525,7 +530,7 @@ function valueBytes(value: string | null): number {
   return value?.length ?? 0;
 }
 
-export function analyzeEventCompaction(storage: Storage): CompactionPreview {
+export function analyzeEventCompaction(storage: EventStorage): CompactionPreview {
   const keys = collectStorageKeys(storage);
   const appEvents = sortedByVersion(
     readRawObjectArray(storage, APP_STREAM_KEY)
@@ -699,7 +704,7 @@ export function analyzeEventCompaction(storage: Storage): CompactionPreview {
   };
 }
 
-export function executeEventCompaction(storage: Storage, plan: CompactionPlan): CompactionResult {
+export function executeEventCompaction(storage: EventStorage, plan: CompactionPlan): CompactionResult {
   const keys = collectStorageKeys(storage);
   const beforeBytes = keys.reduce((sum, key) => sum + key.length + valueBytes(storage.getItem(key)), 0);
   const beforeByKey = new Map(keys.map((key) => [key, valueBytes(storage.getItem(key))]));
@@ -0,0 +1,30 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadModelLintSettings, modelLintSettingsStorageKey, saveModelLintSettings } from './modelLintSettings';
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+describe('modelLintSettings', () => {
+  it('keeps rule levels per project', () => {
+    saveModelLintSettings({ 'event-past-tense': 'off' }, 'workshop');
+    saveModelLintSettings({ 'command-produces-event': 'error' }, 'default');
+
+    expect(loadModelLintSettings('workshop')).toEqual({ 'event-past-tense': 'off' });
+    expect(loadModelLintSettings('default')).toEqual({ 'command-produces-event': 'error' });
+    expect(loadModelLintSettings('other')).toEqual({});
+  });
+
+  it('drops unknown rules, unknown levels and broken payloads', () => {
+    localStorage.setItem(
+      modelLintSettingsStorageKey('workshop'),
+      JSON.stringify({ 'event-past-tense': 'error', 'no-such-rule': 'off', 'command-produces-event': 'loud' })
+    );
+    localStorage.setItem(modelLintSettingsStorageKey('broken'), '{');
+
+    expect(loadModelLintSettings('workshop')).toEqual({ 'event-past-tense': 'error' });
+    expect(loadModelLintSettings('broken')).toEqual({});
+  });
+});
@@ -0,0 +1,42 @@
+import { MODEL_LINT_RULES, type ModelLintLevel, type ModelLintSettings } from './domain/modelLint';
+import { DEFAULT_PROJECT_ID } from './projectLibrary';
+import { getEventStorage } from './storage/eventStorage';
+
+const MODEL_LINT_SETTINGS_KEY_PREFIX = 'slicr.es.v1.modelRules.';
+const MODEL_LINT_LEVELS: ModelLintLevel[] = ['off', 'warning', 'error'];
+
+// Kept next to the project's streams so a project folder carries its rule choices along.
+export function modelLintSettingsStorageKey(projectId = DEFAULT_PROJECT_ID): string {
+  return `${MODEL_LINT_SETTINGS_KEY_PREFIX}${projectId}`;
+}
+
+function asModelLintSettings(value: unknown): ModelLintSettings {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+  const settings: ModelLintSettings = {};
+  for (const rule of MODEL_LINT_RULES) {
+    const level = (value as Record<string, unknown>)[rule.id];
+    if (MODEL_LINT_LEVELS.includes(level as ModelLintLevel)) {
+      settings[rule.id] = level as ModelLintLevel;
+    }
+  }
+  return settings;
+}
+
+export function loadModelLintSettings(projectId = DEFAULT_PROJECT_ID): ModelLintSettings {
+  try {
+    const raw = getEventStorage().getItem(modelLintSettingsStorageKey(projectId));
+    return raw ? asModelLintSettings(JSON.parse(raw)) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveModelLintSettings(settings: ModelLintSettings, projectId = DEFAULT_PROJECT_ID): void {
+  try {
+    getEventStorage().setItem(modelLintSettingsStorageKey(projectId), JSON.stringify(settings));
+  } catch {
+    // Ignore storage failures.
+  }
+}
@@ -0,0 +1,138 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  createProjectBundle,
+  importProjectBundle,
+  parseProjectBundle,
+  projectBundleFileName,
+  serializeProjectBundle
+} from './projectBundle';
+import { appendProjectCreatedEvent, loadProjectIndex } from './projectLibrary';
+import { hydrateSliceProjection, loadSliceEvents } from './sliceEventStore';
+import {
+  appendSliceEdgeMovedEvent,
+  appendSliceNodeMovedEvent,
+  loadSliceLayoutOverrides,
+  loadSliceLibrary,
+  saveSliceLibrary
+} from './sliceLibrary';
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+function seedProject() {
+  loadProjectIndex();
+  appendProjectCreatedEvent('p-1', 'Hotel');
+  saveSliceLibrary({
+    selectedSliceId: 'slice-b',
+    slices: [
+      { id: 'slice-a', dsl: 'slice "Book"\n\ncmd:book -> evt:booked' },
+      { id: 'slice-b', dsl: 'slice "Cancel"\n\nevt:cancelled' }
+    ]
+  }, 'p-1');
+  appendSliceNodeMovedEvent('slice-a', 'book', { x: 40, y: 60 }, 'p-1');
+  appendSliceEdgeMovedEvent('slice-a', 'book->booked#0', [{ x: 1, y: 2 }, { x: 3, y: 4 }], 'p-1');
+}
+
+describe('projectBundle', () => {
+  it('exports the project DSL and manual layout, with history only on request', () => {
+    seedProject();
+
+    const bundle = createProjectBundle({ id: 'p-1', name: 'Hotel' });
+    expect(bundle.format).toBe('slicr-bundle');
+    expect(bundle.version).toBe(1);
+    expect(bundle.selectedSliceId).toBe('slice-b');
+    expect(bundle.slices.map((slice) => slice.id)).toEqual(['slice-a', 'slice-b']);
+    expect(bundle.slices[0].manualNodePositions).toEqual({ book: { x: 40, y: 60 } });
+    expect(bundle.slices[0].manualEdgePoints).toEqual({ 'book->booked#0': [{ x: 1, y: 2 }, { x: 3, y: 4 }] });
+    expect(bundle.slices[0].events).toBeUndefined();
+
+    const withHistory = createProjectBundle({ id: 'p-1', name: 'Hotel' }, { includeHistory: true });
+    expect(withHistory.slices[0].events?.map((event) => event.type)).toEqual(['slice-created', 'node-moved', 'edge-moved']);
+  });
+
+  it('round-trips through serialization', () => {
+    seedProject();
+    const bundle = createProjectBundle({ id: 'p-1', name: 'Hotel' }, { includeHistory: true });
+
+    const parsed = parseProjectBundle(serializeProjectBundle(bundle));
+
+    expect(parsed.error).toBeNull();
+    expect(parsed.bundle).toEqual(bundle);
+  });
+
+  it('rejects files that are not valid bundles', () => {
+    expect(parseProjectBundle('not json').error).toBe('The file is not valid JSON.');
+    expect(parseProjectBundle('{"format":"other"}').error).toBe('The file is not a Slicr bundle.');
+    expect(parseProjectBundle('{"format":"slicr-bundle","version":2}').error).toBe('Unsupported bundle version: 2.');
+    expect(parseProjectBundle(JSON.stringify({
+      format: 'slicr-bundle',
+      version: 1,
+      project: { id: 'p', name: 'P' },
+      slices: [
+        { id: 's', dsl: 'slice "A"', manualNodePositions: {}, manualEdgePoints: {} },
+        { id: 's', dsl: 'slice "B"', manualNodePositions: {}, manualEdgePoints: {} }
+      ]
+    })).error).toBe('Slice id "s" appears more than once.');
+    expect(parseProjectBundle(JSON.stringify({
+      format: 'slicr-bundle',
+      version: 1,
+      project: { id: 'p', name: 'P' },
+      slices: [{ id: 's', dsl: 'slice "A"', manualNodePositions: { a: { x: 'left' } }, manualEdgePoints: {} }]
+    })).error).toBe('Slice "s" has an invalid DSL or layout.');
+    expect(parseProjectBundle(JSON.stringify({
+      format: 'slicr-bundle',
+      version: 1,
+      project: { id: 'p', name: 'P' },
+      slices: [{ id: 's', dsl: 'slice "A"', manualNodePositions: {}, manualEdgePoints: {}, events: [{ type: 'text-edited' }] }]
+    })).error).toBe('Slice "s" has an invalid event history.');
+  });
+
+  it('imports into a new project without touching colliding projects and slices', () => {
+    seedProject();
+    const bundle = createProjectBundle({ id: 'p-1', name: 'Hotel' });
+
+    const result = importProjectBundle(bundle);
+
+    expect(result.projectId).not.toBe('p-1');
+    expect(result.projectName).toBe('Hotel (imported)');
+    expect(result.sliceIdMap['slice-a']).not.toBe('slice-a');
+    expect(loadProjectIndex().projects.map((project) => project.name)).toEqual(['Default', 'Hotel', 'Hotel (imported)']);
+
+    const imported = loadSliceLibrary(undefined, result.projectId);
+    expect(imported.selectedSliceId).toBe(result.sliceIdMap['slice-b']);
+    expect(imported.slices.map((slice) => slice.dsl)).toEqual(bundle.slices.map((slice) => slice.dsl));
+    expect(loadSliceLayoutOverrides(result.sliceIdMap['slice-a'], result.projectId)).toEqual({
+      nodes: { book: { x: 40, y: 60 } },
+      edges: { 'book->booked#0': [{ x: 1, y: 2 }, { x: 3, y: 4 }] }
+    });
+
+    const original = loadSliceLibrary(undefined, 'p-1');
+    expect(original.slices.map((slice) => slice.id)).toEqual(['slice-a', 'slice-b']);
+    expect(loadSliceEvents('slice-a')).toHaveLength(3);
+  });
+
+  it('keeps bundle ids when they are free and replays the event history', () => {
+    seedProject();
+    const bundle = createProjectBundle({ id: 'p-1', name: 'Hotel' }, { includeHistory: true });
+    localStorage.clear();
+
+    const result = importProjectBundle(bundle);
+
+    expect(result.projectId).toBe('p-1');
+    expect(result.projectName).toBe('Hotel');
+    expect(result.sliceIdMap).toEqual({ 'slice-a': 'slice-a', 'slice-b': 'slice-b' });
+    const events = loadSliceEvents('slice-a');
+    expect(events.map((event) => [event.type, event.at])).toEqual(
+      bundle.slices[0].events?.map((event) => [event.type, event.at])
+    );
+    expect(hydrateSliceProjection('slice-a').manualNodePositions).toEqual({ book: { x: 40, y: 60 } });
+  });
+
+  it('derives a file name from the project name', () => {
+    expect(projectBundleFileName('Hotel Booking!')).toBe('hotel-booking.slicr');
+    expect(projectBundleFileName('  ')).toBe('project.slicr');
+  });
+});
@@ -0,0 +1,264 @@
+import { DEFAULT_DSL } from './defaultDsl';
+import {
+  appendSliceEvent,
+  hydrateSliceProjection,
+  loadSliceEvents,
+  parseSliceEvent,
+  parseSliceProjection,
+  type SliceEvent,
+  type SliceEventInput,
+  type SliceProjection
+} from './sliceEventStore';
+import { loadSliceLibrary, saveSliceLibrary } from './sliceLibrary';
+import { appendProjectCreatedEvent, loadProjectIndex, type Project } from './projectLibrary';
+
+export const PROJECT_BUNDLE_FORMAT = 'slicr-bundle';
+export const PROJECT_BUNDLE_VERSION = 1;
+export const PROJECT_BUNDLE_FILE_EXTENSION = '.slicr';
+
+export type ProjectBundleSlice = SliceProjection & {
+  id: string;
+  events?: SliceEvent[];
+};
+
+export type ProjectBundle = {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  version: typeof PROJECT_BUNDLE_VERSION;
+  exportedAt: string;
+  project: Project;
+  selectedSliceId: string;
+  slices: ProjectBundleSlice[];
+};
+
+export type ProjectBundleParseResult =
+  | { bundle: ProjectBundle; error: null }
+  | { bundle: null; error: string };
+
+export type ProjectBundleImportResult = {
+  projectId: string;
+  projectName: string;
+  sliceIdMap: Record<string, string>;
+};
+
+function makeId(prefix: string): string {
+  if ('randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${prefix}-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+function invalid(error: string): ProjectBundleParseResult {
+  return { bundle: null, error };
+}
+
+export function createProjectBundle(project: Project, options: { includeHistory?: boolean } = {}): ProjectBundle {
+  const library = loadSliceLibrary(DEFAULT_DSL, project.id);
+  return {
+    format: PROJECT_BUNDLE_FORMAT,
+    version: PROJECT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { id: project.id, name: project.name },
+    selectedSliceId: library.selectedSliceId,
+    slices: library.slices.map((slice) => {
+      const projection = hydrateSliceProjection(slice.id, project.id);
+      const bundleSlice: ProjectBundleSlice = {
+        id: slice.id,
+        dsl: slice.dsl,
+        manualNodePositions: projection.manualNodePositions,
+        manualEdgePoints: projection.manualEdgePoints
+      };
+      if (options.includeHistory) {
+        bundleSlice.events = loadSliceEvents(slice.id, project.id);
+      }
+      return bundleSlice;
+    })
+  };
+}
+
+export function serializeProjectBundle(bundle: ProjectBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+export function projectBundleFileName(projectName: string): string {
+  const slug = projectName
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'project'}${PROJECT_BUNDLE_FILE_EXTENSION}`;
+}
+
+function parseBundleSlice(value: unknown, index: number): ProjectBundleSlice | string {
+  if (!value || typeof value !== 'object') {
+    return `Slice ${index + 1} is not an object.`;
+  }
+  const maybe = value as { id?: unknown; events?: unknown };
+  if (typeof maybe.id !== 'string' || maybe.id.length === 0) {
+    return `Slice ${index + 1} has no id.`;
+  }
+  const projection = parseSliceProjection(value);
+  if (!projection) {
+    return `Slice "${maybe.id}" has an invalid DSL or layout.`;
+  }
+  const slice: ProjectBundleSlice = { id: maybe.id, ...projection };
+  if (maybe.events === undefined) {
+    return slice;
+  }
+  if (!Array.isArray(maybe.events)) {
+    return `Slice "${maybe.id}" has an invalid event history.`;
+  }
+  const events = maybe.events
+    .map((event) => parseSliceEvent(event))
+    .filter((event): event is SliceEvent => event !== null);
+  if (events.length !== maybe.events.length) {
+    return `Slice "${maybe.id}" has an invalid event history.`;
+  }
+  slice.events = events.sort((a, b) => a.version - b.version);
+  return slice;
+}
+
+export function parseProjectBundle(text: string): ProjectBundleParseResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return invalid('The file is not valid JSON.');
+  }
+  if (!value || typeof value !== 'object') {
+    return invalid('The file is not a Slicr bundle.');
+  }
+
+  const maybe = value as {
+    format?: unknown;
+    version?: unknown;
+    exportedAt?: unknown;
+    project?: unknown;
+    selectedSliceId?: unknown;
+    slices?: unknown;
+  };
+  if (maybe.format !== PROJECT_BUNDLE_FORMAT) {
+    return invalid('The file is not a Slicr bundle.');
+  }
+  if (maybe.version !== PROJECT_BUNDLE_VERSION) {
+    return invalid(`Unsupported bundle version: ${String(maybe.version)}.`);
+  }
+
+  const project = maybe.project as { id?: unknown; name?: unknown } | undefined;
+  if (!project || typeof project.id !== 'string' || project.id.length === 0 || typeof project.name !== 'string' || project.name.trim().length === 0) {
+    return invalid('The bundle has no valid project.');
+  }
+  if (!Array.isArray(maybe.slices) || maybe.slices.length === 0) {
+    return invalid('The bundle contains no slices.');
+  }
+
+  const slices: ProjectBundleSlice[] = [];
+  const seenIds = new Set<string>();
+  for (const [index, rawSlice] of maybe.slices.entries()) {
+    const slice = parseBundleSlice(rawSlice, index);
+    if (typeof slice === 'string') {
+      return invalid(slice);
+    }
+    if (seenIds.has(slice.id)) {
+      return invalid(`Slice id "${slice.id}" appears more than once.`);
+    }
+    seenIds.add(slice.id);
+    slices.push(slice);
+  }
+
+  const selectedSliceId = typeof maybe.selectedSliceId === 'string' && seenIds.has(maybe.selectedSliceId)
+    ? maybe.selectedSliceId
+    : slices[0].id;
+
+  return {
+    bundle: {
+      format: PROJECT_BUNDLE_FORMAT,
+      version: PROJECT_BUNDLE_VERSION,
+      exportedAt: typeof maybe.exportedAt === 'string' ? maybe.exportedAt : '',
+      project: { id: project.id, name: project.name.trim() },
+      selectedSliceId,
+      slices
+    },
+    error: null
+  };
+}
+
+function uniqueProjectName(name: string, existingNames: string[]): string {
+  if (!existingNames.includes(name)) {
+    return name;
+  }
+  for (let i = 1; i < 10_000; i++) {
+    const candidate = i === 1 ? `${name} (imported)` : `${name} (imported ${i})`;
+    if (!existingNames.includes(candidate)) {
+      return candidate;
+    }
+  }
+  return `${name} (imported ${Date.now()})`;
+}
+
+// Carries over what the replay needs; ids, versions and base versions belong to the new stream.
+function importedEventInput(sliceId: string, event: SliceEvent): SliceEventInput {
+  const metadata = {
+    at: event.at,
+    batchId: event.batchId,
+    history: event.history,
+    editorHistory: event.editorHistory
+  };
+  switch (event.type) {
+    case 'text-edited':
+      return { ...metadata, type: event.type, payload: event.payload };
+    case 'node-moved':
+      return { ...metadata, type: event.type, payload: event.payload };
+    case 'edge-moved':
+      return { ...metadata, type: event.type, payload: event.payload };
+    case 'layout-reset':
+      return { ...metadata, type: event.type, payload: event.payload };
+    case 'slice-created':
+      return { ...metadata, type: event.type, payload: event.payload };
+    case 'slice-selected':
+      return { ...metadata, type: event.type, payload: { selectedSliceId: sliceId } };
+  }
+}
+
+function writeImportedSlice(sliceId: string, slice: ProjectBundleSlice, projectId: string): void {
+  if (slice.events && slice.events.length > 0) {
+    // Replaying keeps timestamps and order; versions are renumbered for the new stream.
+    for (const event of slice.events) {
+      appendSliceEvent(sliceId, importedEventInput(sliceId, event), projectId);
+    }
+    return;
+  }
+
+  appendSliceEvent(sliceId, { type: 'slice-created', payload: { initialDsl: slice.dsl } }, projectId);
+  for (const [nodeKey, point] of Object.entries(slice.manualNodePositions)) {
+    appendSliceEvent(sliceId, { type: 'node-moved', payload: { nodeKey, x: point.x, y: point.y } }, projectId);
+  }
+  for (const [edgeKey, points] of Object.entries(slice.manualEdgePoints)) {
+    appendSliceEvent(sliceId, { type: 'edge-moved', payload: { edgeKey, points } }, projectId);
+  }
+}
+
+// Imports always create a new project. Project and slice ids already present in storage are
+// replaced with fresh ones so an import never appends to an existing stream.
+export function importProjectBundle(bundle: ProjectBundle): ProjectBundleImportResult {
+  const projectIndex = loadProjectIndex();
+  const projectId = projectIndex.projects.some((project) => project.id === bundle.project.id)
+    ? makeId('project')
+    : bundle.project.id;
+  const projectName = uniqueProjectName(bundle.project.name, projectIndex.projects.map((project) => project.name));
+
+  const sliceIdMap: Record<string, string> = {};
+  for (const slice of bundle.slices) {
+    sliceIdMap[slice.id] = loadSliceEvents(slice.id).length > 0 ? makeId('slice') : slice.id;
+  }
+
+  appendProjectCreatedEvent(projectId, projectName);
+  for (const slice of bundle.slices) {
+    writeImportedSlice(sliceIdMap[slice.id], slice, projectId);
+  }
+  saveSliceLibrary({
+    selectedSliceId: sliceIdMap[bundle.selectedSliceId],
+    slices: bundle.slices.map((slice) => ({ id: sliceIdMap[slice.id], dsl: slice.dsl }))
+  }, projectId);
+
+  return { projectId, projectName, sliceIdMap };
+}
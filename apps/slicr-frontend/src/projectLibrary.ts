@@ -1,3 +1,5 @@
+import { getEventStorage } from './storage/eventStorage';
+
 export const PROJECTS_INDEX_STORAGE_KEY = 'slicr.es.v2.projects.index';
 export const APP_EVENT_STREAM_STORAGE_KEY = 'slicr.es.v1.stream.app';
 export const DEFAULT_PROJECT_ID = 'default';
@@ -85,7 +87,7 @@ function makeEventId(): string {
 
 function loadRawAppEvents(): Array<Record<string, unknown>> {
   try {
-    const raw = localStorage.getItem(APP_EVENT_STREAM_STORAGE_KEY);
+    const raw = getEventStorage().getItem(APP_EVENT_STREAM_STORAGE_KEY);
     if (!raw) {
       return [];
     }
@@ -154,7 +156,7 @@ function loadProjectEvents(): AppProjectEvent[] {
 }
 
 function saveRawAppEvents(events: Array<Record<string, unknown>>): void {
-  localStorage.setItem(APP_EVENT_STREAM_STORAGE_KEY, JSON.stringify(events));
+  getEventStorage().setItem(APP_EVENT_STREAM_STORAGE_KEY, JSON.stringify(events));
 }
 
 function nextVersion(events: Array<Record<string, unknown>>): number {
@@ -197,7 +199,7 @@ export function loadProjectIndex(): ProjectIndex {
 
   if (created.length === 0) {
     try {
-      const legacyRaw = localStorage.getItem(PROJECTS_INDEX_STORAGE_KEY);
+      const legacyRaw = getEventStorage().getItem(PROJECTS_INDEX_STORAGE_KEY);
       if (legacyRaw) {
         const legacy = asProjectIndex(JSON.parse(legacyRaw));
         if (legacy) {
@@ -205,7 +207,7 @@ export function loadProjectIndex(): ProjectIndex {
             appendProjectCreatedEvent(project.id, project.name);
           }
           appendProjectSelectedEvent(legacy.selectedProjectId);
-          localStorage.removeItem(PROJECTS_INDEX_STORAGE_KEY);
+          getEventStorage().removeItem(PROJECTS_INDEX_STORAGE_KEY);
           const migrated = loadProjectIndex();
           return migrated;
         }
@@ -0,0 +1,34 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { planNodeRename } from './domain/nodeRename';
+import { applyNodeRename } from './projectNodeRename';
+import { appendSliceEvent, hydrateSliceProjection, loadSliceEvents } from './sliceEventStore';
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+describe('applyNodeRename', () => {
+  it('appends one batch per slice and keeps layout overrides under the renamed keys', () => {
+    const dsl = 'slice "A"\n\ncmd:buy\n-> evt:bought\n\nevt:bought\n';
+    appendSliceEvent('slice-a', { type: 'slice-created', payload: { initialDsl: dsl } });
+    appendSliceEvent('slice-a', { type: 'node-moved', payload: { nodeKey: 'bought', x: 40, y: 80 } });
+    appendSliceEvent('slice-a', { type: 'edge-moved', payload: { edgeKey: 'buy->bought#0', points: [{ x: 1, y: 2 }] } });
+
+    const plan = planNodeRename([{ id: 'slice-a', dsl }], 'evt:bought', 'purchased');
+    const projections = applyNodeRename(plan);
+
+    const expected = {
+      dsl: 'slice "A"\n\ncmd:buy\n-> evt:purchased\n\nevt:purchased\n',
+      manualNodePositions: { purchased: { x: 40, y: 80 } },
+      manualEdgePoints: { 'buy->purchased#0': [{ x: 1, y: 2 }] }
+    };
+    expect(projections['slice-a']).toEqual(expected);
+    expect(hydrateSliceProjection('slice-a')).toEqual(expected);
+
+    const appended = loadSliceEvents('slice-a').slice(3);
+    expect(appended.map((event) => event.type)).toEqual(['text-edited', 'node-moved', 'edge-moved']);
+    expect(new Set(appended.map((event) => event.batchId)).size).toBe(1);
+  });
+});
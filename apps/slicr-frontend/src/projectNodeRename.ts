@@ -0,0 +1,30 @@
+import { renameEdgeKey, type NodeRenamePlan } from './domain/nodeRename';
+import { appendSliceEvent, createSliceEventBatchId, foldSliceEvents, loadSliceEvents, type SliceProjection } from './sliceEventStore';
+import { planSliceHistoryEvents } from './sliceHistory';
+import { DEFAULT_PROJECT_ID } from './projectLibrary';
+
+function renameLayoutOverrides(projection: SliceProjection, dsl: string, nodeKeyRenames: Record<string, string>): SliceProjection {
+  return {
+    dsl,
+    manualNodePositions: Object.fromEntries(
+      Object.entries(projection.manualNodePositions).map(([nodeKey, point]) => [nodeKeyRenames[nodeKey] ?? nodeKey, point])
+    ),
+    manualEdgePoints: Object.fromEntries(
+      Object.entries(projection.manualEdgePoints).map(([edgeKey, points]) => [renameEdgeKey(edgeKey, nodeKeyRenames), points])
+    )
+  };
+}
+
+export function applyNodeRename(plan: NodeRenamePlan, projectId = DEFAULT_PROJECT_ID): Record<string, SliceProjection> {
+  const projections: Record<string, SliceProjection> = {};
+  for (const edit of plan.slices) {
+    const events = loadSliceEvents(edit.sliceId, projectId);
+    const current = foldSliceEvents(events);
+    const target = renameLayoutOverrides(current, edit.after, edit.nodeKeyRenames);
+    const planned = planSliceHistoryEvents(current, target);
+    const batchId = createSliceEventBatchId();
+    const appended = planned.map((input) => appendSliceEvent(edit.sliceId, { ...input, batchId }, projectId));
+    projections[edit.sliceId] = foldSliceEvents(appended, current);
+  }
+  return projections;
+}
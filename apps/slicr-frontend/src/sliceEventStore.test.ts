@@ -6,10 +6,13 @@ import {
   appendSliceEvent,
   createEmptyProjection,
   foldSliceEvents,
+  getSliceEventsSnapshot,
   hydrateSliceProjection,
   loadSliceEvents,
   loadSliceProjectionSnapshot,
+  reconcileSliceEvents,
   saveSliceProjectionSnapshot,
+  subscribeSliceEvents,
   type SliceEvent,
   type SliceProjection
 } from './sliceEventStore';
@@ -284,4 +287,68 @@ describe('sliceEventStore', () => {
     expect(hydrateSliceProjection('slice-a', 'project-a').dsl).toContain('project-b');
     expect(hydrateSliceProjection('slice-a', 'project-b').dsl).toContain('project-b');
   });
+
+  it('notifies subscribers on append and keeps the events snapshot stable until then', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeSliceEvents(listener);
+    appendSliceEvent('slice-a', { type: 'text-edited', payload: { dsl: 'slice "A"' } });
+
+    const first = getSliceEventsSnapshot('slice-a');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getSliceEventsSnapshot('slice-a')).toBe(first);
+
+    appendSliceEvent('slice-a', { type: 'text-edited', payload: { dsl: 'slice "B"' } });
+    unsubscribe();
+    appendSliceEvent('slice-a', { type: 'text-edited', payload: { dsl: 'slice "C"' } });
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(getSliceEventsSnapshot('slice-a')).toHaveLength(3);
+  });
+
+  it('reports events another tab appended and flags concurrent DSL edits', () => {
+    const sliceId = 'slice-two-tabs';
+    const streamKey = `slicr.es.v1.stream.${sliceId}`;
+    appendSliceEvent(sliceId, { type: 'slice-created', payload: { initialDsl: 'slice "A"\n' } });
+    const appendFromOtherTab = (event: Omit<SliceEvent, 'sliceId' | 'version'>) => {
+      const stored = JSON.parse(localStorage.getItem(streamKey) ?? '[]') as SliceEvent[];
+      localStorage.setItem(streamKey, JSON.stringify([...stored, { ...event, sliceId, version: stored.length + 1 } as SliceEvent]));
+    };
+
+    expect(reconcileSliceEvents(sliceId)).toBeNull();
+
+    appendFromOtherTab({ id: 'other-1', at: '2026-01-01T00:00:01.000Z', type: 'node-moved', payload: { nodeKey: 'a', x: 1, y: 2 } });
+    expect(reconcileSliceEvents(sliceId)).toEqual({
+      sliceId,
+      remoteEvents: [expect.objectContaining({ id: 'other-1', version: 2 })],
+      conflict: null
+    });
+    expect(reconcileSliceEvents(sliceId)).toBeNull();
+
+    appendFromOtherTab({ id: 'other-2', at: '2026-01-01T00:00:02.000Z', type: 'text-edited', payload: { dsl: 'slice "B"\n' } });
+    appendSliceEvent(sliceId, { type: 'text-edited', payload: { dsl: 'slice "Mine"\n' } });
+
+    expect(reconcileSliceEvents(sliceId)?.conflict).toEqual({ localVersion: 4, remoteVersion: 3 });
+    expect(hydrateSliceProjection(sliceId).dsl).toBe('slice "Mine"\n');
+  });
+  it('flags the conflict in the tab whose DSL edit was overwritten unseen and not for later edits', () => {
+    const sliceId = 'slice-losing-tab';
+    const streamKey = `slicr.es.v1.stream.${sliceId}`;
+    appendSliceEvent(sliceId, { type: 'slice-created', payload: { initialDsl: 'slice "A"\n' } });
+    const appendFromOtherTab = (event: Omit<SliceEvent, 'sliceId' | 'version'>) => {
+      const stored = JSON.parse(localStorage.getItem(streamKey) ?? '[]') as SliceEvent[];
+      localStorage.setItem(streamKey, JSON.stringify([...stored, { ...event, sliceId, version: stored.length + 1 } as SliceEvent]));
+    };
+    expect(reconcileSliceEvents(sliceId)).toBeNull();
+
+    appendSliceEvent(sliceId, { type: 'text-edited', payload: { dsl: 'slice "Mine"\n' } });
+    appendFromOtherTab({ id: 'other-1', at: '2026-01-01T00:00:01.000Z', baseVersion: 1, type: 'text-edited', payload: { dsl: 'slice "Theirs"\n' } });
+
+    expect(reconcileSliceEvents(sliceId)?.conflict).toEqual({ localVersion: 2, remoteVersion: 3 });
+    expect(hydrateSliceProjection(sliceId).dsl).toBe('slice "Theirs"\n');
+
+    appendSliceEvent(sliceId, { type: 'text-edited', payload: { dsl: 'slice "Mine again"\n' } });
+    appendFromOtherTab({ id: 'other-2', at: '2026-01-01T00:00:02.000Z', baseVersion: 4, type: 'text-edited', payload: { dsl: 'slice "Later"\n' } });
+
+    expect(reconcileSliceEvents(sliceId)?.conflict).toBeNull();
+  });
 });
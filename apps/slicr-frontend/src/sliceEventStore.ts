@@ -1,5 +1,6 @@
 import type { DiagramPoint } from './domain/diagramRouting';
 import { parseDsl } from './domain/parseDsl';
+import { getEventStorage } from './storage/eventStorage';
 
 const EVENT_STREAM_KEY_PREFIX = 'slicr.es.v1.stream.';
 const SNAPSHOT_KEY_PREFIX = 'slicr.es.v1.snapshot.';
@@ -10,8 +11,16 @@ type BaseSliceEvent = {
   sliceId: string;
   version: number;
   at: string;
+  batchId?: string;
+  history?: SliceHistoryDirection;
+  editorHistory?: SliceHistoryDirection;
+  // The last version the appending tab had seen, so other tabs can tell which edits it overwrote unseen.
+  baseVersion?: number;
+  compacted?: boolean;
 };
 
+export type SliceHistoryDirection = 'undo' | 'redo';
+
 export type TextEditedEvent = BaseSliceEvent & {
   type: 'text-edited';
   payload: { dsl: string };
@@ -92,7 +101,7 @@ function asPoint(value: unknown): DiagramPoint | null {
   return { x: maybe.x, y: maybe.y };
 }
 
-function parseSliceEvent(value: unknown): SliceEvent | null {
+export function parseSliceEvent(value: unknown): SliceEvent | null {
   if (!value || typeof value !== 'object') {
     return null;
   }
@@ -104,6 +113,11 @@ function parseSliceEvent(value: unknown): SliceEvent | null {
     at?: unknown;
     type?: unknown;
     payload?: unknown;
+    batchId?: unknown;
+    history?: unknown;
+    editorHistory?: unknown;
+    baseVersion?: unknown;
+    compacted?: unknown;
   };
 
   if (
@@ -118,16 +132,25 @@ function parseSliceEvent(value: unknown): SliceEvent | null {
     return null;
   }
 
+  const base: BaseSliceEvent = {
+    id: maybe.id,
+    sliceId: maybe.sliceId,
+    version: maybe.version,
+    at: maybe.at,
+    ...(typeof maybe.batchId === 'string' ? { batchId: maybe.batchId } : {}),
+    ...(maybe.history === 'undo' || maybe.history === 'redo' ? { history: maybe.history } : {}),
+    ...(maybe.editorHistory === 'undo' || maybe.editorHistory === 'redo' ? { editorHistory: maybe.editorHistory } : {}),
+    ...(isFiniteNumber(maybe.baseVersion) ? { baseVersion: maybe.baseVersion } : {}),
+    ...(maybe.compacted === true ? { compacted: true } : {})
+  };
+
   if (maybe.type === 'text-edited') {
     const payload = maybe.payload as { dsl?: unknown };
     if (typeof payload.dsl !== 'string') {
       return null;
     }
     return {
-      id: maybe.id,
-      sliceId: maybe.sliceId,
-      version: maybe.version,
-      at: maybe.at,
+      ...base,
       type: 'text-edited',
       payload: { dsl: payload.dsl }
     };
@@ -139,10 +162,7 @@ function parseSliceEvent(value: unknown): SliceEvent | null {
       return null;
     }
     return {
-      id: maybe.id,
-      sliceId: maybe.sliceId,
-      version: maybe.version,
-      at: maybe.at,
+      ...base,
       type: 'node-moved',
       payload: { nodeKey: payload.nodeKey, x: payload.x, y: payload.y }
     };
@@ -160,10 +180,7 @@ function parseSliceEvent(value: unknown): SliceEvent | null {
       return null;
     }
     return {
-      id: maybe.id,
-      sliceId: maybe.sliceId,
-      version: maybe.version,
-      at: maybe.at,
+      ...base,
       type: 'edge-moved',
       payload: { edgeKey: payload.edgeKey, points }
     };
@@ -171,10 +188,7 @@ function parseSliceEvent(value: unknown): SliceEvent | null {
 
   if (maybe.type === 'layout-reset') {
     return {
-      id: maybe.id,
-      sliceId: maybe.sliceId,
-      version: maybe.version,
-      at: maybe.at,
+      ...base,
       type: 'layout-reset',
       payload: {}
     };
@@ -186,10 +200,7 @@ function parseSliceEvent(value: unknown): SliceEvent | null {
       return null;
     }
     return {
-      id: maybe.id,
-      sliceId: maybe.sliceId,
-      version: maybe.version,
-      at: maybe.at,
+      ...base,
       type: 'slice-created',
       payload: { initialDsl: payload.initialDsl }
     };
@@ -201,10 +212,7 @@ function parseSliceEvent(value: unknown): SliceEvent | null {
       return null;
     }
     return {
-      id: maybe.id,
-      sliceId: maybe.sliceId,
-      version: maybe.version,
-      at: maybe.at,
+      ...base,
       type: 'slice-selected',
       payload: { selectedSliceId: payload.selectedSliceId }
     };
@@ -213,7 +221,7 @@ function parseSliceEvent(value: unknown): SliceEvent | null {
   return null;
 }
 
-function parseProjection(value: unknown): SliceProjection | null {
+export function parseSliceProjection(value: unknown): SliceProjection | null {
   if (!value || typeof value !== 'object') {
     return null;
   }
@@ -263,7 +271,7 @@ function parseSnapshot(value: unknown): SliceProjectionSnapshot | null {
   if (!isFiniteNumber(maybe.version)) {
     return null;
   }
-  const projection = parseProjection(maybe.projection);
+  const projection = parseSliceProjection(maybe.projection);
   if (!projection) {
     return null;
   }
@@ -273,9 +281,13 @@ function parseSnapshot(value: unknown): SliceProjectionSnapshot | null {
   };
 }
 
-function loadRawEvents(sliceId: string): SliceEvent[] {
+// Ids of the events this tab has projected, per slice; anything else in a stream was appended by another tab.
+const seenSliceEventIds = new Map<string, Set<string>>();
+const localSliceEventIds = new Set<string>();
+
+function readRawEvents(sliceId: string): SliceEvent[] {
   try {
-    const raw = localStorage.getItem(streamStorageKey(sliceId));
+    const raw = getEventStorage().getItem(streamStorageKey(sliceId));
     if (!raw) {
       return [];
     }
@@ -293,6 +305,14 @@ function loadRawEvents(sliceId: string): SliceEvent[] {
   }
 }
 
+function loadRawEvents(sliceId: string): SliceEvent[] {
+  const events = readRawEvents(sliceId);
+  if (!seenSliceEventIds.has(sliceId)) {
+    seenSliceEventIds.set(sliceId, new Set(events.map((event) => event.id)));
+  }
+  return events;
+}
+
 export function loadSliceEvents(sliceId: string, _projectId?: string): SliceEvent[] {
   void _projectId;
   return loadRawEvents(sliceId);
@@ -301,7 +321,7 @@ export function loadSliceEvents(sliceId: string, _projectId?: string): SliceEven
 export function loadSliceProjectionSnapshot(sliceId: string, _projectId?: string): SliceProjectionSnapshot | null {
   void _projectId;
   try {
-    const raw = localStorage.getItem(snapshotStorageKey(sliceId));
+    const raw = getEventStorage().getItem(snapshotStorageKey(sliceId));
     if (!raw) {
       return null;
     }
@@ -313,7 +333,7 @@ export function loadSliceProjectionSnapshot(sliceId: string, _projectId?: string
 
 export function saveSliceProjectionSnapshot(sliceId: string, snapshot: SliceProjectionSnapshot, _projectId?: string): void {
   void _projectId;
-  localStorage.setItem(snapshotStorageKey(sliceId), JSON.stringify(snapshot));
+  getEventStorage().setItem(snapshotStorageKey(sliceId), JSON.stringify(snapshot));
 }
 
 function nextVersion(events: SliceEvent[]): number {
@@ -330,39 +350,144 @@ function makeEventId(): string {
   return `evt-${Date.now()}-${Math.random().toString(16).slice(2)}`;
 }
 
+export type SliceEventInput = (
+  | { type: 'text-edited'; payload: TextEditedEvent['payload'] }
+  | { type: 'node-moved'; payload: NodeMovedEvent['payload'] }
+  | { type: 'edge-moved'; payload: EdgeMovedEvent['payload'] }
+  | { type: 'layout-reset'; payload: LayoutResetEvent['payload'] }
+  | { type: 'slice-created'; payload: SliceCreatedEvent['payload'] }
+  | { type: 'slice-selected'; payload: SliceSelectedEvent['payload'] }
+) & { at?: string; batchId?: string; history?: SliceHistoryDirection; editorHistory?: SliceHistoryDirection };
+
+export function createSliceEventBatchId(): string {
+  return makeEventId();
+}
+
+const sliceEventListeners = new Set<() => void>();
+const sliceEventAppendListeners = new Set<(event: SliceEvent) => void>();
+let sliceEventRevision = 0;
+let cachedSliceEvents: { sliceId: string; revision: number; events: SliceEvent[] } | null = null;
+
+export function subscribeSliceEvents(listener: () => void): () => void {
+  sliceEventListeners.add(listener);
+  return () => {
+    sliceEventListeners.delete(listener);
+  };
+}
+
+// Reports each event this tab appends, e.g. to replicate it to collaborators.
+export function subscribeSliceEventAppends(listener: (event: SliceEvent) => void): () => void {
+  sliceEventAppendListeners.add(listener);
+  return () => {
+    sliceEventAppendListeners.delete(listener);
+  };
+}
+
+export function notifySliceEventsChanged(): void {
+  sliceEventRevision += 1;
+  for (const listener of sliceEventListeners) {
+    listener();
+  }
+}
+
+export function getSliceEventsSnapshot(sliceId: string, _projectId?: string): SliceEvent[] {
+  void _projectId;
+  if (!cachedSliceEvents || cachedSliceEvents.sliceId !== sliceId || cachedSliceEvents.revision !== sliceEventRevision) {
+    cachedSliceEvents = { sliceId, revision: sliceEventRevision, events: loadSliceEvents(sliceId) };
+  }
+  return cachedSliceEvents.events;
+}
+
 export function appendSliceEvent(
   sliceId: string,
-  input:
-    | { type: 'text-edited'; at?: string; payload: TextEditedEvent['payload'] }
-    | { type: 'node-moved'; at?: string; payload: NodeMovedEvent['payload'] }
-    | { type: 'edge-moved'; at?: string; payload: EdgeMovedEvent['payload'] }
-    | { type: 'layout-reset'; at?: string; payload: LayoutResetEvent['payload'] }
-    | { type: 'slice-created'; at?: string; payload: SliceCreatedEvent['payload'] }
-    | { type: 'slice-selected'; at?: string; payload: SliceSelectedEvent['payload'] },
+  input: SliceEventInput,
   _projectId?: string
 ): SliceEvent {
   void _projectId;
   const existing = loadRawEvents(sliceId);
+  const seen = seenSliceEventIds.get(sliceId);
+  const baseVersion = input.type === 'text-edited'
+    ? existing.reduce((max, candidate) => (seen?.has(candidate.id) ? Math.max(max, candidate.version) : max), 0)
+    : null;
   const event: SliceEvent = {
     id: makeEventId(),
     sliceId,
     version: nextVersion(existing),
     at: input.at ?? new Date().toISOString(),
+    ...(input.batchId ? { batchId: input.batchId } : {}),
+    ...(input.history ? { history: input.history } : {}),
+    ...(input.editorHistory ? { editorHistory: input.editorHistory } : {}),
+    ...(baseVersion !== null ? { baseVersion } : {}),
     type: input.type,
     payload: input.payload
   } as SliceEvent;
 
   const next = [...existing, event];
-  localStorage.setItem(streamStorageKey(sliceId), JSON.stringify(next));
+  getEventStorage().setItem(streamStorageKey(sliceId), JSON.stringify(next));
+  localSliceEventIds.add(event.id);
+  seenSliceEventIds.get(sliceId)?.add(event.id);
   if (event.version % SNAPSHOT_INTERVAL === 0) {
     saveSliceProjectionSnapshot(sliceId, {
       version: event.version,
       projection: foldSliceEvents(next)
     });
   }
+  for (const listener of sliceEventAppendListeners) {
+    listener(event);
+  }
+  notifySliceEventsChanged();
   return event;
 }
 
+export type SliceEventConflict = {
+  localVersion: number;
+  remoteVersion: number;
+};
+
+export type SliceEventReconciliation = {
+  sliceId: string;
+  remoteEvents: SliceEvent[];
+  conflict: SliceEventConflict | null;
+};
+
+// Two DSL edits conflict when the later one was appended before its tab had seen the earlier one.
+function concurrentTextEdits(a: SliceEvent, b: SliceEvent): boolean {
+  const [earlier, later] = a.version < b.version ? [a, b] : [b, a];
+  return later.baseVersion !== undefined && later.baseVersion < earlier.version;
+}
+
+// Marks the events other tabs appended as seen; both tabs editing the DSL without seeing each other's edit is a
+// conflict in either tab, whichever edit ends up projected.
+export function reconcileSliceEvents(sliceId: string, _projectId?: string): SliceEventReconciliation | null {
+  void _projectId;
+  const seen = seenSliceEventIds.get(sliceId);
+  const events = readRawEvents(sliceId);
+  seenSliceEventIds.set(sliceId, new Set(events.map((event) => event.id)));
+  if (!seen) {
+    return null;
+  }
+  const remoteEvents = events.filter((event) => !seen.has(event.id));
+  if (remoteEvents.length === 0) {
+    return null;
+  }
+
+  const localEdits = events.filter((event) => event.type === 'text-edited' && localSliceEventIds.has(event.id));
+  let conflict: SliceEventConflict | null = null;
+  for (const remoteEdit of remoteEvents.filter((event) => event.type === 'text-edited')) {
+    for (const localEdit of localEdits) {
+      if (concurrentTextEdits(localEdit, remoteEdit)) {
+        conflict = { localVersion: localEdit.version, remoteVersion: remoteEdit.version };
+      }
+    }
+  }
+  return { sliceId, remoteEvents, conflict };
+}
+
+// Called after this tab rewrites streams wholesale, e.g. by compacting them or switching storage.
+export function forgetSeenSliceEvents(): void {
+  seenSliceEventIds.clear();
+}
+
 export function applySliceEvent(projection: SliceProjection, event: SliceEvent): SliceProjection {
   if (event.type === 'text-edited') {
     const hasManualOverrides =
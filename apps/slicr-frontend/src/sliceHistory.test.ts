@@ -0,0 +1,100 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { analyzeEventCompaction, executeEventCompaction } from './eventCompaction';
+import { appendSliceEvent, hydrateSliceProjection, loadSliceEvents } from './sliceEventStore';
+import { buildSliceHistory, planSliceHistoryEvents, redoSliceEdit, undoSliceEdit } from './sliceHistory';
+import { appendSliceLayoutBatch, appendSliceNodeMovedEvent, saveSliceLibrary } from './sliceLibrary';
+
+const SLICE_ID = 'slice-history';
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+function seedSlice() {
+  appendSliceEvent(SLICE_ID, { type: 'slice-created', payload: { initialDsl: 'slice "A"\n\ncmd:a\nevt:b' } });
+}
+
+describe('sliceHistory', () => {
+  it('undoes and redoes node moves, edge moves and layout resets', () => {
+    seedSlice();
+    appendSliceEvent(SLICE_ID, { type: 'node-moved', payload: { nodeKey: 'a', x: 10, y: 20 } });
+    appendSliceEvent(SLICE_ID, { type: 'edge-moved', payload: { edgeKey: 'a->b#0', points: [{ x: 1, y: 2 }, { x: 3, y: 4 }] } });
+    appendSliceEvent(SLICE_ID, { type: 'layout-reset', payload: {} });
+
+    expect(undoSliceEdit(SLICE_ID)?.manualEdgePoints).toEqual({ 'a->b#0': [{ x: 1, y: 2 }, { x: 3, y: 4 }] });
+    expect(undoSliceEdit(SLICE_ID)).toMatchObject({
+      manualNodePositions: { a: { x: 10, y: 20 } },
+      manualEdgePoints: {}
+    });
+    expect(undoSliceEdit(SLICE_ID)?.manualNodePositions).toEqual({});
+    expect(undoSliceEdit(SLICE_ID)).toBeNull();
+
+    expect(redoSliceEdit(SLICE_ID)?.manualNodePositions).toEqual({ a: { x: 10, y: 20 } });
+    expect(hydrateSliceProjection(SLICE_ID).manualNodePositions).toEqual({ a: { x: 10, y: 20 } });
+  });
+
+  it('undoes a layout batch as one step', () => {
+    seedSlice();
+    appendSliceLayoutBatch(SLICE_ID, { nodes: { a: { x: 5, y: 5 }, b: { x: 50, y: 5 } }, edges: {} });
+
+    expect(buildSliceHistory(loadSliceEvents(SLICE_ID)).undoStack).toHaveLength(1);
+    expect(undoSliceEdit(SLICE_ID)?.manualNodePositions).toEqual({});
+  });
+
+  it('merges rapid text edits and restores the text together with pruned layout', () => {
+    seedSlice();
+    appendSliceEvent(SLICE_ID, { type: 'node-moved', payload: { nodeKey: 'b', x: 40, y: 0 } });
+    appendSliceEvent(SLICE_ID, { type: 'text-edited', at: '2026-01-01T00:00:00.000Z', payload: { dsl: 'slice "A"\n\ncmd:a\nevt:' } });
+    appendSliceEvent(SLICE_ID, { type: 'text-edited', at: '2026-01-01T00:00:00.500Z', payload: { dsl: 'slice "A"\n\ncmd:a' } });
+
+    expect(hydrateSliceProjection(SLICE_ID).manualNodePositions).toEqual({});
+    expect(undoSliceEdit(SLICE_ID)).toEqual({
+      dsl: 'slice "A"\n\ncmd:a\nevt:b',
+      manualNodePositions: { b: { x: 40, y: 0 } },
+      manualEdgePoints: {}
+    });
+    expect(redoSliceEdit(SLICE_ID)?.dsl).toBe('slice "A"\n\ncmd:a');
+  });
+
+  it('rebuilds the undo and redo stacks from the stored stream and clears redo on new edits', () => {
+    seedSlice();
+    appendSliceEvent(SLICE_ID, { type: 'node-moved', payload: { nodeKey: 'a', x: 10, y: 20 } });
+    appendSliceEvent(SLICE_ID, { type: 'node-moved', payload: { nodeKey: 'a', x: 30, y: 20 } });
+    undoSliceEdit(SLICE_ID);
+
+    const reloaded = buildSliceHistory(loadSliceEvents(SLICE_ID));
+    expect(reloaded.undoStack).toHaveLength(1);
+    expect(reloaded.redoStack).toHaveLength(1);
+    const events = loadSliceEvents(SLICE_ID);
+    expect(events[events.length - 1]).toMatchObject({ type: 'node-moved', history: 'undo' });
+
+    appendSliceEvent(SLICE_ID, { type: 'node-moved', payload: { nodeKey: 'b', x: 0, y: 0 } });
+    expect(buildSliceHistory(loadSliceEvents(SLICE_ID)).redoStack).toEqual([]);
+    expect(redoSliceEdit(SLICE_ID)).toBeNull();
+  });
+
+  it('treats a compacted stream as the baseline without undo steps', () => {
+    saveSliceLibrary({ selectedSliceId: SLICE_ID, slices: [{ id: SLICE_ID, dsl: 'slice "A"\n\ncmd:a\nevt:b' }] });
+    appendSliceNodeMovedEvent(SLICE_ID, 'a', { x: 1, y: 2 });
+    executeEventCompaction(localStorage, analyzeEventCompaction(localStorage).plan);
+
+    expect(loadSliceEvents(SLICE_ID).every((event) => event.compacted)).toBe(true);
+    expect(undoSliceEdit(SLICE_ID)).toBeNull();
+
+    appendSliceEvent(SLICE_ID, { type: 'node-moved', payload: { nodeKey: 'b', x: 40, y: 0 } });
+    expect(undoSliceEdit(SLICE_ID)?.manualNodePositions).toEqual({ a: { x: 1, y: 2 } });
+    expect(undoSliceEdit(SLICE_ID)).toBeNull();
+  });
+
+  it('plans a layout reset when the target drops overrides', () => {
+    expect(planSliceHistoryEvents(
+      { dsl: 'x', manualNodePositions: { a: { x: 1, y: 1 }, b: { x: 2, y: 2 } }, manualEdgePoints: {} },
+      { dsl: 'x', manualNodePositions: { b: { x: 2, y: 2 } }, manualEdgePoints: {} }
+    )).toEqual([
+      { type: 'layout-reset', payload: {} },
+      { type: 'node-moved', payload: { nodeKey: 'b', x: 2, y: 2 } }
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import {
+  appendSliceEvent,
+  applySliceEvent,
+  createEmptyProjection,
+  createSliceEventBatchId,
+  foldSliceEvents,
+  loadSliceEvents,
+  type SliceEvent,
+  type SliceEventInput,
+  type SliceHistoryDirection,
+  type SliceProjection
+} from './sliceEventStore';
+import { DEFAULT_PROJECT_ID } from './projectLibrary';
+
+export const TEXT_EDIT_MERGE_MS = 1500;
+const HISTORY_LIMIT = 200;
+
+export type SliceHistoryStep = {
+  before: SliceProjection;
+  after: SliceProjection;
+  at: string;
+};
+
+export type SliceHistory = {
+  undoStack: SliceHistoryStep[];
+  redoStack: SliceHistoryStep[];
+};
+
+type LayoutEventInput = Extract<SliceEventInput, { type: 'node-moved' | 'edge-moved' | 'layout-reset' }>;
+
+export function groupSliceEventUnits(events: SliceEvent[]): SliceEvent[][] {
+  const units: SliceEvent[][] = [];
+  for (const event of [...events].sort((a, b) => a.version - b.version)) {
+    const previous = units[units.length - 1];
+    if (previous && event.batchId && previous[0].batchId === event.batchId) {
+      previous.push(event);
+      continue;
+    }
+    units.push([event]);
+  }
+  return units;
+}
+
+type Point = { x: number; y: number };
+
+function samePoint(a: Point | undefined, b: Point | undefined): boolean {
+  return Boolean(a && b && a.x === b.x && a.y === b.y);
+}
+
+function samePoints(a: Point[] | undefined, b: Point[] | undefined): boolean {
+  return Boolean(a && b && a.length === b.length && a.every((point, index) => samePoint(point, b[index])));
+}
+
+function sameProjection(a: SliceProjection, b: SliceProjection): boolean {
+  if (a.dsl !== b.dsl) {
+    return false;
+  }
+  const nodeKeys = Object.keys(a.manualNodePositions);
+  const edgeKeys = Object.keys(a.manualEdgePoints);
+  return nodeKeys.length === Object.keys(b.manualNodePositions).length
+    && edgeKeys.length === Object.keys(b.manualEdgePoints).length
+    && nodeKeys.every((key) => samePoint(a.manualNodePositions[key], b.manualNodePositions[key]))
+    && edgeKeys.every((key) => samePoints(a.manualEdgePoints[key], b.manualEdgePoints[key]));
+}
+
+function isTextEditUnit(unit: SliceEvent[]): boolean {
+  return unit.length === 1 && unit[0].type === 'text-edited' && !unit[0].batchId;
+}
+
+// The editor undoes text in its own steps, which may cover part of a slice history step. A full
+// undo moves the step to the redo stack; a partial one shrinks it to what is still applied.
+function followEditorHistory(
+  undoStack: SliceHistoryStep[],
+  redoStack: SliceHistoryStep[],
+  direction: SliceHistoryDirection,
+  before: SliceProjection,
+  after: SliceProjection
+): void {
+  const undoTop = undoStack[undoStack.length - 1];
+  if (direction === 'undo') {
+    if (undoTop && sameProjection(after, undoTop.before)) {
+      undoStack.pop();
+      redoStack.push({ ...undoTop, after: before });
+    } else if (undoTop) {
+      undoTop.after = after;
+    }
+    return;
+  }
+
+  const redoTop = redoStack[redoStack.length - 1];
+  if (redoTop && sameProjection(before, redoTop.before)) {
+    redoStack.pop();
+    undoStack.push({ ...redoTop, after });
+  } else if (undoTop) {
+    undoTop.after = after;
+  }
+}
+
+export function buildSliceHistory(events: SliceEvent[]): SliceHistory {
+  let undoStack: SliceHistoryStep[] = [];
+  let redoStack: SliceHistoryStep[] = [];
+  let projection = createEmptyProjection();
+  let openTextStep: SliceHistoryStep | null = null;
+
+  // Compaction rewrites the start of a stream into a baseline that holds no undoable edits.
+  const units = groupSliceEventUnits(events);
+  while (units.length > 0 && units[0].every((event) => event.compacted)) {
+    projection = units.shift()!.reduce(applySliceEvent, projection);
+  }
+
+  for (const unit of units) {
+    const before = projection;
+    projection = unit.reduce(applySliceEvent, projection);
+    const at = unit[unit.length - 1].at;
+    const direction = unit[0].history;
+
+    if (direction === 'undo' || direction === 'redo') {
+      const [from, to] = direction === 'undo' ? [undoStack, redoStack] : [redoStack, undoStack];
+      const step = from.pop();
+      if (step) {
+        to.push(step);
+      }
+      openTextStep = null;
+      continue;
+    }
+
+    const editorDirection = unit[0].editorHistory;
+    if (editorDirection) {
+      followEditorHistory(undoStack, redoStack, editorDirection, before, projection);
+      openTextStep = null;
+      continue;
+    }
+
+    if (unit.some((event) => event.type === 'slice-created')) {
+      undoStack = [];
+      redoStack = [];
+      openTextStep = null;
+      continue;
+    }
+
+    if (sameProjection(before, projection)) {
+      continue;
+    }
+
+    const mergeable = openTextStep
+      && isTextEditUnit(unit)
+      && undoStack[undoStack.length - 1] === openTextStep
+      && Date.parse(at) - Date.parse(openTextStep.at) <= TEXT_EDIT_MERGE_MS;
+    if (mergeable && openTextStep) {
+      openTextStep.after = projection;
+      openTextStep.at = at;
+    } else {
+      const step: SliceHistoryStep = { before, after: projection, at };
+      undoStack.push(step);
+      if (undoStack.length > HISTORY_LIMIT) {
+        undoStack.shift();
+      }
+      openTextStep = isTextEditUnit(unit) ? step : null;
+    }
+    redoStack = [];
+  }
+
+  return { undoStack, redoStack };
+}
+
+function layoutEventsTo(current: SliceProjection, target: SliceProjection): LayoutEventInput[] {
+  const removesOverrides =
+    Object.keys(current.manualNodePositions).some((key) => !target.manualNodePositions[key])
+    || Object.keys(current.manualEdgePoints).some((key) => !target.manualEdgePoints[key]);
+  const base = removesOverrides ? createEmptyProjection() : current;
+
+  const events: LayoutEventInput[] = removesOverrides ? [{ type: 'layout-reset', payload: {} }] : [];
+  for (const [nodeKey, point] of Object.entries(target.manualNodePositions)) {
+    if (!samePoint(base.manualNodePositions[nodeKey], point)) {
+      events.push({ type: 'node-moved', payload: { nodeKey, x: point.x, y: point.y } });
+    }
+  }
+  for (const [edgeKey, points] of Object.entries(target.manualEdgePoints)) {
+    if (!samePoints(base.manualEdgePoints[edgeKey], points)) {
+      events.push({ type: 'edge-moved', payload: { edgeKey, points } });
+    }
+  }
+  return events;
+}
+
+export function planSliceHistoryEvents(current: SliceProjection, target: SliceProjection): SliceEventInput[] {
+  if (current.dsl === target.dsl) {
+    return layoutEventsTo(current, target);
+  }
+  const textEvent: SliceEventInput = { type: 'text-edited', payload: { dsl: target.dsl } };
+  const afterText = applySliceEvent(current, { id: '', sliceId: '', version: 0, at: '', ...textEvent } as SliceEvent);
+  return [textEvent, ...layoutEventsTo(afterText, target)];
+}
+
+function applySliceHistory(
+  sliceId: string,
+  direction: SliceHistoryDirection,
+  projectId = DEFAULT_PROJECT_ID
+): SliceProjection | null {
+  const events = loadSliceEvents(sliceId, projectId);
+  const history = buildSliceHistory(events);
+  const step = direction === 'undo'
+    ? history.undoStack[history.undoStack.length - 1]
+    : history.redoStack[history.redoStack.length - 1];
+  if (!step) {
+    return null;
+  }
+
+  const current = foldSliceEvents(events);
+  const planned = planSliceHistoryEvents(current, direction === 'undo' ? step.before : step.after);
+  if (planned.length === 0) {
+    return null;
+  }
+  const batchId = createSliceEventBatchId();
+  const appended = planned.map((input) => appendSliceEvent(sliceId, { ...input, batchId, history: direction }, projectId));
+  return foldSliceEvents(appended, current);
+}
+
+export function undoSliceEdit(sliceId: string, projectId = DEFAULT_PROJECT_ID): SliceProjection | null {
+  return applySliceHistory(sliceId, 'undo', projectId);
+}
+
+export function redoSliceEdit(sliceId: string, projectId = DEFAULT_PROJECT_ID): SliceProjection | null {
+  return applySliceHistory(sliceId, 'redo', projectId);
+}
+
+// Text restored by the editor's own undo/redo is tagged so the slice history follows it
+// instead of recording it as a new step.
+export function recordEditorHistoryEdit(
+  sliceId: string,
+  dsl: string,
+  direction: SliceHistoryDirection,
+  projectId = DEFAULT_PROJECT_ID
+): void {
+  if (foldSliceEvents(loadSliceEvents(sliceId, projectId)).dsl === dsl) {
+    return;
+  }
+  appendSliceEvent(sliceId, { type: 'text-edited', payload: { dsl }, editorHistory: direction }, projectId);
+}
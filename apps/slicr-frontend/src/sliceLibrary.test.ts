@@ -4,10 +4,12 @@ import { afterEach, describe, expect, it, vi } from 'vitest';
 import * as parseDslModule from './domain/parseDsl';
 import { DEFAULT_DSL } from './defaultDsl';
 import { analyzeEventCompaction, executeEventCompaction } from './eventCompaction';
+import { loadSliceEvents } from './sliceEventStore';
 import {
   addNewSlice,
   appendAppSelectedEvent,
   appendSliceEdgeMovedEvent,
+  appendSliceLayoutBatch,
   appendSliceLayoutResetEvent,
   appendSliceNodeMovedEvent,
   LEGACY_DSL_STORAGE_KEY,
@@ -210,6 +212,9 @@ describe('sliceLibrary', () => {
     expect(result.removedKeys).toEqual(expect.arrayContaining(['slicr.es.v1.snapshot.slice-a', 'slicr.es.v1.stream.slice-z']));
     expect(result.reclaimedBytes).toBeGreaterThan(0);
     expect(result.keyDeltas.some((delta) => delta.key === 'slicr.es.v1.stream.slice-z' && delta.afterBytes === 0)).toBe(true);
+    expect(loadSliceEvents('slice-a')).toEqual([
+      expect.objectContaining({ type: 'slice-created', compacted: true, payload: { initialDsl: 'slice "A"\n\nevt:a1' } })
+    ]);
   });
 
   it('bootstraps from default DSL when storage is empty', () => {
@@ -390,6 +395,22 @@ describe('sliceLibrary', () => {
     expect(events.map((event) => event.version)).toEqual([1, 2, 3]);
   });
 
+  it('appends layout batches as events that share one batch id', () => {
+    appendSliceLayoutBatch('slice-a', {
+      nodes: { 'node-a': { x: 10, y: 20 }, 'node-b': { x: 30, y: 40 } },
+      edges: { 'node-a->node-b#0': [{ x: 1, y: 2 }, { x: 3, y: 4 }] }
+    });
+    appendSliceNodeMovedEvent('slice-a', 'node-a', { x: 50, y: 60 });
+
+    const events = JSON.parse(localStorage.getItem('slicr.es.v1.stream.slice-a') ?? '[]') as Array<{ type: string; batchId?: string }>;
+    expect(events.map((event) => event.type)).toEqual(['node-moved', 'node-moved', 'edge-moved', 'node-moved']);
+    expect(events[0].batchId).toEqual(expect.any(String));
+    expect(events[1].batchId).toBe(events[0].batchId);
+    expect(events[2].batchId).toBe(events[0].batchId);
+    expect(events[3].batchId).toBeUndefined();
+    expect(loadSliceLayoutOverrides('slice-a').nodes).toEqual({ 'node-a': { x: 50, y: 60 }, 'node-b': { x: 30, y: 40 } });
+  });
+
   it('returns empty layout overrides for missing or invalid storage payloads', () => {
     expect(loadSliceLayoutOverrides('missing')).toEqual({ nodes: {}, edges: {} });
 
@@ -1,6 +1,7 @@
 import { DEFAULT_DSL } from './defaultDsl';
-import { appendSliceEvent, hydrateSliceProjection, loadSliceEvents } from './sliceEventStore';
+import { appendSliceEvent, createSliceEventBatchId, hydrateSliceProjection, loadSliceEvents } from './sliceEventStore';
 import { APP_EVENT_STREAM_STORAGE_KEY, DEFAULT_PROJECT_ID } from './projectLibrary';
+import { getEventStorage } from './storage/eventStorage';
 
 export const SLICES_STORAGE_KEY = 'slicr.slices';
 export const LEGACY_DSL_STORAGE_KEY = 'slicr.dsl';
@@ -63,7 +64,7 @@ function makeEventId(): string {
 
 function readRawAppStream(): Array<Record<string, unknown>> {
   try {
-    const raw = localStorage.getItem(APP_EVENT_STREAM_STORAGE_KEY);
+    const raw = getEventStorage().getItem(APP_EVENT_STREAM_STORAGE_KEY);
     if (!raw) {
       return [];
     }
@@ -75,7 +76,7 @@ function readRawAppStream(): Array<Record<string, unknown>> {
 }
 
 function writeRawAppStream(events: Array<Record<string, unknown>>): void {
-  localStorage.setItem(APP_EVENT_STREAM_STORAGE_KEY, JSON.stringify(events));
+  getEventStorage().setItem(APP_EVENT_STREAM_STORAGE_KEY, JSON.stringify(events));
 }
 
 function nextAppStreamVersion(events: Array<Record<string, unknown>>): number {
@@ -226,7 +227,7 @@ function asSliceLayoutOverrides(value: unknown): SliceLayoutOverrides | null {
 
 function loadLayoutMap(): StoredSliceLayoutMap {
   try {
-    const raw = localStorage.getItem(SLICES_LAYOUT_STORAGE_KEY);
+    const raw = getEventStorage().getItem(SLICES_LAYOUT_STORAGE_KEY);
     if (!raw) {
       return {};
     }
@@ -329,6 +330,24 @@ export function appendSliceEdgeMovedEvent(sliceId: string, edgeKey: string, poin
   }, projectId);
 }
 
+export function appendSliceLayoutBatch(sliceId: string, overrides: SliceLayoutOverrides, projectId = DEFAULT_PROJECT_ID): void {
+  const batchId = createSliceEventBatchId();
+  for (const [nodeKey, point] of Object.entries(overrides.nodes)) {
+    appendSliceEvent(sliceId, {
+      type: 'node-moved',
+      batchId,
+      payload: { nodeKey, x: point.x, y: point.y }
+    }, projectId);
+  }
+  for (const [edgeKey, points] of Object.entries(overrides.edges)) {
+    appendSliceEvent(sliceId, {
+      type: 'edge-moved',
+      batchId,
+      payload: { edgeKey, points }
+    }, projectId);
+  }
+}
+
 export function appendSliceLayoutResetEvent(sliceId: string, projectId = DEFAULT_PROJECT_ID): void {
   appendSliceEvent(sliceId, { type: 'layout-reset', payload: {} }, projectId);
 }
@@ -581,8 +600,8 @@ function appendMissingSliceProjectLinks(sliceIds: string[], projectId = DEFAULT_
 
 function migrateLegacyProjectIndexesToAppEvents(): void {
   const legacyIndexKeys: string[] = [];
-  for (let i = 0; i < localStorage.length; i += 1) {
-    const key = localStorage.key(i);
+  for (let i = 0; i < getEventStorage().length; i += 1) {
+    const key = getEventStorage().key(i);
     if (!key || !key.startsWith('slicr.es.v2.project.') || !key.endsWith('.index')) {
       continue;
     }
@@ -591,18 +610,18 @@ function migrateLegacyProjectIndexesToAppEvents(): void {
   for (const key of legacyIndexKeys) {
     const projectId = key.slice('slicr.es.v2.project.'.length, -'.index'.length);
     if (!projectId) {
-      localStorage.removeItem(key);
+      getEventStorage().removeItem(key);
       continue;
     }
     try {
-      const raw = localStorage.getItem(key);
+      const raw = getEventStorage().getItem(key);
       if (!raw) {
-        localStorage.removeItem(key);
+        getEventStorage().removeItem(key);
         continue;
       }
       const index = asEventIndex(JSON.parse(raw));
       if (!index) {
-        localStorage.removeItem(key);
+        getEventStorage().removeItem(key);
         continue;
       }
       appendMissingSliceProjectLinks(index.sliceIds, projectId);
@@ -615,19 +634,19 @@ function migrateLegacyProjectIndexesToAppEvents(): void {
     } catch {
       // Ignore broken legacy payloads.
     }
-    localStorage.removeItem(key);
+    getEventStorage().removeItem(key);
   }
 }
 
 function migrateLegacyV1IndexToAppEvents(projectId = DEFAULT_PROJECT_ID): void {
   try {
-    const legacyRaw = localStorage.getItem(LEGACY_SLICES_EVENT_INDEX_STORAGE_KEY);
+    const legacyRaw = getEventStorage().getItem(LEGACY_SLICES_EVENT_INDEX_STORAGE_KEY);
     if (!legacyRaw) {
       return;
     }
     const legacyIndex = asEventIndex(JSON.parse(legacyRaw));
     if (!legacyIndex) {
-      localStorage.removeItem(LEGACY_SLICES_EVENT_INDEX_STORAGE_KEY);
+      getEventStorage().removeItem(LEGACY_SLICES_EVENT_INDEX_STORAGE_KEY);
       return;
     }
     appendMissingSliceProjectLinks(legacyIndex.sliceIds, projectId);
@@ -637,7 +656,7 @@ function migrateLegacyV1IndexToAppEvents(projectId = DEFAULT_PROJECT_ID): void {
         appendAppSelectedEvent(legacyIndex.selectedSliceId, projectId);
       }
     }
-    localStorage.removeItem(LEGACY_SLICES_EVENT_INDEX_STORAGE_KEY);
+    getEventStorage().removeItem(LEGACY_SLICES_EVENT_INDEX_STORAGE_KEY);
   } catch {
     // Ignore broken legacy payloads.
   }
@@ -645,8 +664,8 @@ function migrateLegacyV1IndexToAppEvents(projectId = DEFAULT_PROJECT_ID): void {
 
 function migrateLegacyLibraryToEvents(library: SliceLibrary, projectId = DEFAULT_PROJECT_ID): void {
   if (projectId === DEFAULT_PROJECT_ID) {
-    localStorage.removeItem(SLICES_STORAGE_KEY);
-    localStorage.removeItem(LEGACY_DSL_STORAGE_KEY);
+    getEventStorage().removeItem(SLICES_STORAGE_KEY);
+    getEventStorage().removeItem(LEGACY_DSL_STORAGE_KEY);
   }
   appendMissingSliceProjectLinks(library.slices.map((slice) => slice.id), projectId);
 
@@ -720,7 +739,7 @@ export function loadSliceLibrary(defaultDsl = DEFAULT_DSL, projectId = DEFAULT_P
     return migrated;
   }
   try {
-    const stored = localStorage.getItem(SLICES_STORAGE_KEY);
+    const stored = getEventStorage().getItem(SLICES_STORAGE_KEY);
     if (stored) {
       const parsed = asLibrary(JSON.parse(stored));
       if (parsed) {
@@ -738,7 +757,7 @@ export function loadSliceLibrary(defaultDsl = DEFAULT_DSL, projectId = DEFAULT_P
   }
 
   try {
-    const legacyDsl = localStorage.getItem(LEGACY_DSL_STORAGE_KEY);
+    const legacyDsl = getEventStorage().getItem(LEGACY_DSL_STORAGE_KEY);
     if (legacyDsl) {
       const migrated = createInitialLibrary(legacyDsl);
       migrateLegacyLibraryToEvents(migrated, projectId);
@@ -762,8 +781,8 @@ export function loadSliceLibrary(defaultDsl = DEFAULT_DSL, projectId = DEFAULT_P
 
 export function saveSliceLibrary(library: SliceLibrary, projectId = DEFAULT_PROJECT_ID): void {
   if (projectId === DEFAULT_PROJECT_ID) {
-    localStorage.removeItem(SLICES_STORAGE_KEY);
-    localStorage.removeItem(LEGACY_DSL_STORAGE_KEY);
+    getEventStorage().removeItem(SLICES_STORAGE_KEY);
+    getEventStorage().removeItem(LEGACY_DSL_STORAGE_KEY);
   }
   appendMissingSliceProjectLinks(library.slices.map((slice) => slice.id), projectId);
   for (const slice of library.slices) {
@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { appendProjectCreatedEvent, loadProjectIndex } from './projectLibrary';
+import { loadSliceLayoutOverrides, loadSliceLibrary, saveSliceLibrary } from './sliceLibrary';
+import {
+  createSliceShareFragment,
+  importSharedSlice,
+  isSliceShareFragment,
+  parseSliceShareFragment,
+  sliceShareUrl
+} from './sliceShareLink';
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+const share = {
+  dsl: 'slice "Book"\n\ncmd:book -> evt:booked\n',
+  manualNodePositions: { book: { x: 40, y: 60 } },
+  manualEdgePoints: { 'book->booked#0': [{ x: 1, y: 2 }, { x: 3, y: 4 }] }
+};
+
+describe('sliceShareLink', () => {
+  it('round-trips a slice with its manual layout through a compressed URL fragment', async () => {
+    const fragment = await createSliceShareFragment(share);
+
+    expect(fragment).toMatch(/^#share=[A-Za-z0-9_-]+$/);
+    expect(isSliceShareFragment(fragment)).toBe(true);
+    expect(sliceShareUrl({ origin: 'https://slicr.example', pathname: '/app/', search: '' }, fragment))
+      .toBe(`https://slicr.example/app/${fragment}`);
+    await expect(parseSliceShareFragment(fragment)).resolves.toEqual({ share, error: null });
+  });
+
+  it('rejects fragments that are not share links or do not decode', async () => {
+    expect(isSliceShareFragment('#share=')).toBe(false);
+    expect(isSliceShareFragment('#other')).toBe(false);
+    expect((await parseSliceShareFragment('#other')).error).toBe('The link does not contain a shared slice.');
+    expect((await parseSliceShareFragment('#share=not-deflate')).error).toBe('The shared link is damaged or incomplete.');
+  });
+
+  it('imports the shared slice into the chosen project without touching the others', () => {
+    loadProjectIndex();
+    appendProjectCreatedEvent('p-1', 'Hotel');
+    saveSliceLibrary({ selectedSliceId: 'slice-a', slices: [{ id: 'slice-a', dsl: 'slice "Existing"\n' }] }, 'p-1');
+
+    const sliceId = importSharedSlice(share, 'p-1');
+
+    const library = loadSliceLibrary(undefined, 'p-1');
+    expect(library.selectedSliceId).toBe(sliceId);
+    expect(library.slices.map((slice) => slice.dsl)).toEqual(['slice "Existing"\n', share.dsl]);
+    expect(loadSliceLayoutOverrides(sliceId, 'p-1')).toEqual({ nodes: share.manualNodePositions, edges: share.manualEdgePoints });
+    expect(loadProjectIndex().selectedProjectId).toBe('p-1');
+    expect(loadSliceLibrary(undefined, 'default').slices.map((slice) => slice.dsl)).not.toContain(share.dsl);
+  });
+});
@@ -0,0 +1,106 @@
+import { DEFAULT_DSL } from './defaultDsl';
+import { parseSliceProjection, type SliceProjection } from './sliceEventStore';
+import { appendSliceCreatedEvent, appendSliceLayoutBatch, loadSliceLibrary, saveSliceLibrary } from './sliceLibrary';
+import { appendProjectSelectedEvent } from './projectLibrary';
+
+export const SLICE_SHARE_FRAGMENT_PREFIX = '#share=';
+export const SLICE_SHARE_VERSION = 1;
+
+export type SliceShareParseResult =
+  | { share: SliceProjection; error: null }
+  | { share: null; error: string };
+
+type SliceSharePayload = {
+  v: typeof SLICE_SHARE_VERSION;
+  dsl: string;
+  nodes: SliceProjection['manualNodePositions'];
+  edges: SliceProjection['manualEdgePoints'];
+};
+
+function makeId(prefix: string): string {
+  if ('randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${prefix}-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+function invalid(error: string): SliceShareParseResult {
+  return { share: null, error };
+}
+
+async function transformBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Response(bytes).body!.pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export function isSliceShareFragment(hash: string): boolean {
+  return hash.startsWith(SLICE_SHARE_FRAGMENT_PREFIX) && hash.length > SLICE_SHARE_FRAGMENT_PREFIX.length;
+}
+
+export async function createSliceShareFragment(projection: SliceProjection): Promise<string> {
+  const payload: SliceSharePayload = {
+    v: SLICE_SHARE_VERSION,
+    dsl: projection.dsl,
+    nodes: projection.manualNodePositions,
+    edges: projection.manualEdgePoints
+  };
+  const compressed = await transformBytes(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+  return `${SLICE_SHARE_FRAGMENT_PREFIX}${toBase64Url(compressed)}`;
+}
+
+export function sliceShareUrl(location: Pick<Location, 'origin' | 'pathname' | 'search'>, fragment: string): string {
+  return `${location.origin}${location.pathname}${location.search}${fragment}`;
+}
+
+export async function parseSliceShareFragment(hash: string): Promise<SliceShareParseResult> {
+  if (!isSliceShareFragment(hash)) {
+    return invalid('The link does not contain a shared slice.');
+  }
+  let value: unknown;
+  try {
+    const bytes = await transformBytes(fromBase64Url(hash.slice(SLICE_SHARE_FRAGMENT_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    value = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return invalid('The shared link is damaged or incomplete.');
+  }
+
+  const maybe = (value ?? {}) as { v?: unknown; dsl?: unknown; nodes?: unknown; edges?: unknown };
+  if (maybe.v !== SLICE_SHARE_VERSION) {
+    return invalid(`Unsupported share link version: ${String(maybe.v)}.`);
+  }
+  const share = parseSliceProjection({ dsl: maybe.dsl, manualNodePositions: maybe.nodes, manualEdgePoints: maybe.edges });
+  if (!share) {
+    return invalid('The shared slice has an invalid DSL or layout.');
+  }
+  return { share, error: null };
+}
+
+// Adds the shared slice as a new slice of an existing project and makes it the selected one there.
+export function importSharedSlice(share: SliceProjection, projectId: string): string {
+  const sliceId = makeId('slice');
+  const library = loadSliceLibrary(DEFAULT_DSL, projectId);
+  appendSliceCreatedEvent(sliceId, share.dsl, projectId);
+  appendSliceLayoutBatch(sliceId, { nodes: share.manualNodePositions, edges: share.manualEdgePoints }, projectId);
+  saveSliceLibrary({
+    selectedSliceId: sliceId,
+    slices: [...library.slices, { id: sliceId, dsl: share.dsl }]
+  }, projectId);
+  appendProjectSelectedEvent(projectId);
+  return sliceId;
+}
@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { appendSliceEvent, hydrateSliceProjection, loadSliceEvents, type SliceEvent } from './sliceEventStore';
+import { buildSliceTimeline, projectSliceVersion, restoreSliceVersion } from './sliceTimeline';
+
+let nextVersion = 1;
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+function event(at: string, input: Pick<SliceEvent, 'type' | 'payload'> & Partial<SliceEvent>): SliceEvent {
+  const version = nextVersion;
+  nextVersion += 1;
+  return { id: `e-${version}`, sliceId: 'slice-a', version, at, ...input } as SliceEvent;
+}
+
+describe('sliceTimeline', () => {
+  it('groups events into sessions and merges rapid text edits', () => {
+    nextVersion = 1;
+    const events = [
+      event('2026-03-01T09:00:00.000Z', { type: 'slice-created', payload: { initialDsl: 'slice "A"' } }),
+      event('2026-03-01T09:00:05.000Z', { type: 'text-edited', payload: { dsl: 'slice "A"\n\nc' } }),
+      event('2026-03-01T09:00:05.400Z', { type: 'text-edited', payload: { dsl: 'slice "A"\n\ncmd:a' } }),
+      event('2026-03-01T09:00:06.000Z', { type: 'slice-selected', payload: { selectedSliceId: 'slice-a' } }),
+      event('2026-03-01T09:01:00.000Z', { type: 'node-moved', batchId: 'b', payload: { nodeKey: 'a', x: 1, y: 2 } }),
+      event('2026-03-01T09:01:00.000Z', { type: 'node-moved', batchId: 'b', payload: { nodeKey: 'b', x: 3, y: 4 } }),
+      event('2026-03-01T11:00:00.000Z', { type: 'layout-reset', payload: {} }),
+      event('2026-03-01T11:00:02.000Z', { type: 'node-moved', history: 'undo', batchId: 'u', payload: { nodeKey: 'a', x: 1, y: 2 } })
+    ];
+
+    const timeline = buildSliceTimeline(events);
+
+    expect(timeline.boundary).toBeNull();
+    expect(timeline.latestVersion).toBe(8);
+    expect(timeline.sessions.map((session) => session.entries.map((entry) => `${entry.version}:${entry.label}`))).toEqual([
+      ['1:Created slice', '3:Edited text', '6:Moved 2 nodes'],
+      ['7:Reset layout', '8:Undo']
+    ]);
+    expect(timeline.sessions[0].entries[1]).toMatchObject({ firstVersion: 2, eventCount: 2 });
+  });
+
+  it('collapses compacted events into a snapshot boundary', () => {
+    nextVersion = 1;
+    const events = [
+      event('2026-03-02T08:00:00.000Z', { type: 'slice-created', compacted: true, payload: { initialDsl: 'slice "A"\n\ncmd:a' } }),
+      event('2026-03-02T08:00:00.000Z', { type: 'node-moved', compacted: true, payload: { nodeKey: 'a', x: 5, y: 5 } }),
+      event('2026-03-02T08:05:00.000Z', { type: 'edge-moved', payload: { edgeKey: 'a->b#0', points: [{ x: 0, y: 0 }] } })
+    ];
+
+    const timeline = buildSliceTimeline(events);
+
+    expect(timeline.boundary).toEqual({ version: 2, at: '2026-03-02T08:00:00.000Z', eventCount: 2 });
+    expect(timeline.sessions[0].entries.map((entry) => entry.label)).toEqual(['Moved edge a->b#0']);
+    expect(projectSliceVersion(events, 2)).toEqual({
+      dsl: 'slice "A"\n\ncmd:a',
+      manualNodePositions: { a: { x: 5, y: 5 } },
+      manualEdgePoints: {}
+    });
+  });
+
+  it('restores an earlier version as one new batch of events', () => {
+    appendSliceEvent('slice-a', { type: 'slice-created', payload: { initialDsl: 'slice "A"\n\ncmd:a' } });
+    appendSliceEvent('slice-a', { type: 'node-moved', payload: { nodeKey: 'a', x: 10, y: 20 } });
+    appendSliceEvent('slice-a', { type: 'text-edited', payload: { dsl: 'slice "A"\n\ncmd:a\nevt:b' } });
+    appendSliceEvent('slice-a', { type: 'node-moved', payload: { nodeKey: 'a', x: 40, y: 20 } });
+
+    expect(restoreSliceVersion('slice-a', 2)).toEqual({
+      dsl: 'slice "A"\n\ncmd:a',
+      manualNodePositions: { a: { x: 10, y: 20 } },
+      manualEdgePoints: {}
+    });
+    expect(hydrateSliceProjection('slice-a').dsl).toBe('slice "A"\n\ncmd:a');
+
+    const appended = loadSliceEvents('slice-a').slice(4);
+    expect(appended.map((event) => event.type)).toEqual(['text-edited', 'node-moved']);
+    expect(new Set(appended.map((event) => event.batchId)).size).toBe(1);
+    expect(restoreSliceVersion('slice-a', 6)).toBeNull();
+  });
+});
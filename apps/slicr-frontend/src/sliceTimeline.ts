@@ -0,0 +1,147 @@
+import {
+  appendSliceEvent,
+  createSliceEventBatchId,
+  foldSliceEvents,
+  loadSliceEvents,
+  type SliceEvent,
+  type SliceHistoryDirection,
+  type SliceProjection
+} from './sliceEventStore';
+import { groupSliceEventUnits, planSliceHistoryEvents, TEXT_EDIT_MERGE_MS } from './sliceHistory';
+import { DEFAULT_PROJECT_ID } from './projectLibrary';
+
+const SESSION_GAP_MS = 30 * 60 * 1000;
+
+export type SliceTimelineEntry = {
+  firstVersion: number;
+  version: number;
+  at: string;
+  label: string;
+  eventCount: number;
+  history?: SliceHistoryDirection;
+};
+
+export type SliceTimelineSession = {
+  id: string;
+  startedAt: string;
+  endedAt: string;
+  entries: SliceTimelineEntry[];
+};
+
+export type SliceTimelineBoundary = {
+  version: number;
+  at: string;
+  eventCount: number;
+};
+
+export type SliceHistoryPreview = {
+  sliceId: string;
+  version: number;
+  projection: SliceProjection;
+};
+
+export type SliceTimeline = {
+  boundary: SliceTimelineBoundary | null;
+  sessions: SliceTimelineSession[];
+  latestVersion: number;
+};
+
+function describeUnit(unit: SliceEvent[]): string {
+  const direction = unit[0].history;
+  if (direction) {
+    return direction === 'undo' ? 'Undo' : 'Redo';
+  }
+  const types = new Set(unit.map((event) => event.type));
+  if (types.has('slice-created')) {
+    return 'Created slice';
+  }
+  if (types.has('text-edited')) {
+    return 'Edited text';
+  }
+  if (types.has('layout-reset')) {
+    return 'Reset layout';
+  }
+  const nodeKeys = unit.flatMap((event) => (event.type === 'node-moved' ? [event.payload.nodeKey] : []));
+  if (nodeKeys.length > 0) {
+    return nodeKeys.length === 1 ? `Moved ${nodeKeys[0]}` : `Moved ${nodeKeys.length} nodes`;
+  }
+  const edgeKeys = unit.flatMap((event) => (event.type === 'edge-moved' ? [event.payload.edgeKey] : []));
+  return edgeKeys.length === 1 ? `Moved edge ${edgeKeys[0]}` : `Moved ${edgeKeys.length} edges`;
+}
+
+function isMergeableTextEdit(unit: SliceEvent[]): boolean {
+  return unit.length === 1 && unit[0].type === 'text-edited' && !unit[0].batchId;
+}
+
+export function buildSliceTimeline(events: SliceEvent[]): SliceTimeline {
+  const units = groupSliceEventUnits(events)
+    .filter((unit) => unit.some((event) => event.type !== 'slice-selected'));
+
+  let boundary: SliceTimelineBoundary | null = null;
+  let compactedCount = 0;
+  while (units.length > 0 && units[0].every((event) => event.compacted)) {
+    const unit = units.shift()!;
+    const last = unit[unit.length - 1];
+    compactedCount += unit.length;
+    boundary = { version: last.version, at: last.at, eventCount: compactedCount };
+  }
+
+  const sessions: SliceTimelineSession[] = [];
+  let previousUnit: SliceEvent[] | null = null;
+  for (const unit of units) {
+    const first = unit[0];
+    const last = unit[unit.length - 1];
+    const session = sessions[sessions.length - 1];
+    const startsSession = !session || Date.parse(first.at) - Date.parse(session.endedAt) > SESSION_GAP_MS;
+    if (startsSession) {
+      sessions.push({ id: `session-${first.version}`, startedAt: first.at, endedAt: last.at, entries: [] });
+    }
+    const current = sessions[sessions.length - 1];
+    const previousEntry = current.entries[current.entries.length - 1];
+
+    const merges = previousEntry
+      && previousUnit
+      && isMergeableTextEdit(previousUnit)
+      && isMergeableTextEdit(unit)
+      && Date.parse(first.at) - Date.parse(previousEntry.at) <= TEXT_EDIT_MERGE_MS;
+    if (merges) {
+      previousEntry.version = last.version;
+      previousEntry.at = last.at;
+      previousEntry.eventCount += unit.length;
+    } else {
+      current.entries.push({
+        firstVersion: first.version,
+        version: last.version,
+        at: last.at,
+        label: describeUnit(unit),
+        eventCount: unit.length,
+        ...(first.history ? { history: first.history } : {})
+      });
+    }
+    current.endedAt = last.at;
+    previousUnit = unit;
+  }
+
+  const versions = events.map((event) => event.version);
+  return {
+    boundary,
+    sessions,
+    latestVersion: versions.length > 0 ? Math.max(...versions) : 0
+  };
+}
+
+export function projectSliceVersion(events: SliceEvent[], version: number): SliceProjection {
+  return foldSliceEvents(events.filter((event) => event.version <= version));
+}
+
+export function restoreSliceVersion(sliceId: string, version: number, projectId = DEFAULT_PROJECT_ID): SliceProjection | null {
+  const events = loadSliceEvents(sliceId, projectId);
+  const current = foldSliceEvents(events);
+  const planned = planSliceHistoryEvents(current, projectSliceVersion(events, version));
+  if (planned.length === 0) {
+    return null;
+  }
+  const batchId = createSliceEventBatchId();
+  const appended = planned.map((input) => appendSliceEvent(sliceId, { ...input, batchId }, projectId));
+  return foldSliceEvents(appended, current);
+}
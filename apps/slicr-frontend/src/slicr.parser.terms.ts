@@ -1,66 +1,74 @@
 // This file was generated by lezer-generator. You probably shouldn't edit it.
 export const
-  Program = 1,
-  Statement = 2,
-  SliceStatement = 3,
-  Identifier = 4,
-  slice = 5,
-  String = 6,
-  ScenarioStatement = 7,
-  scenarioType = 8,
-  GivenSectionStatement = 9,
-  givenType = 10,
-  Colon = 11,
-  WhenSectionStatement = 12,
-  whenType = 13,
-  ThenSectionStatement = 14,
-  thenType = 15,
-  NodeStatement = 16,
-  ArtifactRef = 17,
-  RmRef = 18,
-  rmType = 19,
-  RmName = 20,
-  Version = 21,
-  At = 22,
-  Number = 23,
-  UiRef = 24,
-  uiType = 25,
-  UiName = 26,
-  CmdRef = 27,
-  cmdType = 28,
-  CmdName = 29,
-  EvtRef = 30,
-  evtType = 31,
-  EvtName = 32,
-  ExcRef = 33,
-  excType = 34,
-  AutRef = 35,
-  autType = 36,
-  ExtRef = 37,
-  extType = 38,
-  GenericRef = 39,
-  EdgeStatement = 40,
-  IncomingClause = 41,
-  DependsArrow = 42,
-  Comma = 43,
-  OutgoingClause = 44,
-  ForwardArrow = 45,
-  BoundaryStatement = 46,
-  BoundaryMarker = 47,
-  StreamStatement = 48,
-  stream = 49,
-  DataStatement = 50,
-  data = 51,
-  JsonObject = 52,
-  BraceL = 53,
-  Property = 54,
-  Value = 55,
-  JsonArray = 56,
-  BracketL = 57,
-  BracketR = 58,
-  _true = 59,
-  _false = 60,
-  _null = 61,
-  BraceR = 62,
-  UsesStatement = 63,
-  uses = 64
+  LineComment = 1,
+  Program = 2,
+  Statement = 3,
+  SliceStatement = 4,
+  Identifier = 5,
+  slice = 6,
+  String = 7,
+  ScenarioStatement = 8,
+  scenarioType = 9,
+  GivenSectionStatement = 10,
+  givenType = 11,
+  Colon = 12,
+  WhenSectionStatement = 13,
+  whenType = 14,
+  ThenSectionStatement = 15,
+  thenType = 16,
+  NodeStatement = 17,
+  ArtifactRef = 18,
+  RmRef = 19,
+  rmType = 20,
+  RmName = 21,
+  Version = 22,
+  At = 23,
+  Number = 24,
+  UiRef = 25,
+  uiType = 26,
+  UiName = 27,
+  CmdRef = 28,
+  cmdType = 29,
+  CmdName = 30,
+  QryRef = 31,
+  qryType = 32,
+  QryName = 33,
+  EvtRef = 34,
+  evtType = 35,
+  EvtName = 36,
+  ExcRef = 37,
+  excType = 38,
+  AutRef = 39,
+  autType = 40,
+  ExtRef = 41,
+  extType = 42,
+  GenericRef = 43,
+  EdgeStatement = 44,
+  IncomingClause = 45,
+  DependsArrow = 46,
+  Comma = 47,
+  OutgoingClause = 48,
+  ForwardArrow = 49,
+  BoundaryStatement = 50,
+  BoundaryMarker = 51,
+  StreamStatement = 52,
+  stream = 53,
+  LaneStatement = 54,
+  lane = 55,
+  LanesStatement = 56,
+  lanes = 57,
+  DataStatement = 58,
+  data = 59,
+  JsonObject = 60,
+  BraceL = 61,
+  Property = 62,
+  Value = 63,
+  JsonArray = 64,
+  BracketL = 65,
+  BracketR = 66,
+  _true = 67,
+  _false = 68,
+  _null = 69,
+  BraceR = 70,
+  UsesStatement = 71,
+  uses = 72
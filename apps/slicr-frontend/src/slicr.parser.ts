@@ -1,18 +1,18 @@
 // This file was generated by lezer-generator. You probably shouldn't edit it.
 import {LRParser} from "@lezer/lr"
-const spec_Identifier = {__proto__:null,slice:10, scenario:16, given:20, when:26, then:30, rm:38, ui:50, cmd:56, evt:62, exc:68, aut:72, ext:76, stream:98, data:102, true:118, false:120, null:122, uses:128}
+const spec_Identifier = {__proto__:null,slice:12, scenario:18, given:22, when:28, then:32, rm:40, ui:52, cmd:58, qry:64, evt:70, exc:76, aut:80, ext:84, stream:106, lane:110, lanes:114, data:118, true:134, false:136, null:138, uses:144}
 export const parser = LRParser.deserialize({
   version: 14,
-  states: "-bQVQPOOO!gQPO'#DTOOQO'#Cm'#CmO$TQPO'#ClO%kQPO'#DVO%kQPO'#DYOOQO'#DU'#DUOOQO'#D['#D[OOQO'#C^'#C^OOQO'#Do'#DoQVQPOOO&VQPO'#C_O&[QPO'#CcO&aQPO'#CeO&fQPO'#ChO&kQPO'#CjO&pQPO'#CnO&uQPO'#CtO&zQPO'#CwO'PQPO'#CzO'UQPO'#C}O'ZQPO'#DPO'`QPO'#DRO'eQPO'#D^O'jQPO'#D`O'oQPO'#DmO'tQPO'#CqOOQO,59o,59oOOQO,59W,59WO'yQPO,59qO)aQPO,59tOOQO-E7m-E7mOOQO,58y,58yOOQO,58},58}OOQO,59P,59POOQO,59S,59SOOQO,59U,59UO*wQPO,59YO*|QPO,59`O+RQPO,59cO+WQPO,59fO+]QPO,59iO+bQPO,59kO+gQPO,59mO+lQPO,59xO+tQPO,59zOOQO,5:X,5:XOOQO,59],59]O%kQPO'#DpO-[QPO1G/]O.rQPO1G/`OOQO'#Cp'#CpO0YQPO1G.tOOQO'#Cv'#CvO1vQPO1G.zOOQO'#Cy'#CyO3dQPO1G.}OOQO'#C|'#C|O5QQPO1G/QO6nQPO1G/TO8[QPO1G/VO9xQPO1G/XOOQO1G/d1G/dO;fQPO'#DbOOQO1G/f1G/fOOQO,5:[,5:[OOQO-E7n-E7nOOQO7+$`7+$`OOQO7+$f7+$fOOQO7+$i7+$iOOQO7+$l7+$lOOQO7+$o7+$oOOQO7+$q7+$qOOQO7+$s7+$sO;qQPO'#DdOOQO,59|,59|O;vQPO,59|O<OQPO,5:OO<gQPO'#DrO<oQPO1G/hOOQO1G/h1G/hO<wQPO'#DfOOQO'#De'#DeOOQO1G/j1G/jOOQO,5:^,5:^OOQO-E7p-E7pOOQO7+%S7+%SOOQO,5:Q,5:QO=OQPO,5:QO<OQPO'#DqO=WQPO1G/lOOQO1G/l1G/lOOQO,5:],5:]OOQO-E7o-E7oOOQO7+%W7+%W",
-  stateData: "=d~O!iOS~OSPOTZOW[OY]O]^O__Oc`OiaOlbOocOrdOteOvfOzSO}TO!PVO!RgO!ThO!biO!jXO~OfjOSwXTwXUwXWwXYwX]wX_wXcwXiwXlwXowXrwXtwXvwXzwX}wX!PwX!RwX!TwX!bwX!gwX!jwX{wX~OUlOS`XT`XW`XY`X]`X_`Xc`Xi`Xl`Xo`Xr`Xt`Xv`Xz`X}`X!P`X!R`X!T`X!b`X!g`X!j`X~OSPOc`OiaOlbOocOrdOteOvfO~OUpO~OUqO~OZrO~OZsO~OZtO~OZuO~OZvO~OZwO~OZxO~OZyO~OZzO~OZ{O~OZ|O~OZ}O~OZ!OO~Og!PO~O{!QOSyaTyaWyaYya]ya_yacyaiyalyaoyaryatyavyazya}ya!Pya!Rya!Tya!bya!gya!jya~O{!QOS|aT|aW|aY|a]|a_|ac|ai|al|ao|ar|at|av|az|a}|a!P|a!R|a!T|a!b|a!g|a!j|a~OS!TO~OS!VO~OS!XO~OS!ZO~OS!]O~OS!^O~OS!_O~OS!`OU!`O~O!V!aOS!SaT!SaW!SaY!Sa]!Sa_!Sac!Sai!Sal!Sao!Sar!Sat!Sav!Saz!Sa}!Sa!P!Sa!R!Sa!T!Sa!b!Sa!g!Sa!j!Sa~O{!QOSyiTyiWyiYyi]yi_yicyiiyilyioyiryityivyizyi}yi!Pyi!Ryi!Tyi!byi!gyi!jyi~O{!QOS|iT|iW|iY|i]|i_|ic|ii|il|io|ir|it|iv|iz|i}|i!P|i!R|i!T|i!b|i!g|i!j|i~OfjOSbiTbiUbiWbiYbi]bi_bicbiibilbiobirbitbivbizbi}bi!Pbi!Rbi!Tbi!bbi!gbi!jbi{bi~OfjOShiThiUhiWhiYhi]hi_hichiihilhiohirhithivhizhi}hi!Phi!Rhi!Thi!bhi!ghi!jhi{hi~OfjOSkiTkiUkiWkiYki]ki_kickiikilkiokirkitkivkizki}ki!Pki!Rki!Tki!bki!gki!jki{ki~OfjOSniTniUniWniYni]ni_nicniinilnionirnitnivnizni}ni!Pni!Rni!Tni!bni!gni!jni{ni~OfjOSqiTqiUqiWqiYqi]qi_qicqiiqilqioqirqitqivqizqi}qi!Pqi!Rqi!Tqi!bqi!gqi!jqi{qi~OfjOSsiTsiUsiWsiYsi]si_sicsiisilsiosirsitsivsizsi}si!Psi!Rsi!Tsi!bsi!gsi!jsi{si~OfjOSuiTuiUuiWuiYui]ui_uicuiiuiluiouiruituivuizui}ui!Pui!Rui!Tui!bui!gui!jui{ui~OS!lOU!lO!`!mO~OZ!oO~O{!pO!`!rO~OU!tOg!tO!V!aO!Z!sO!]!tO!^!tO!_!tO~OS!lOU!lO~O{!pO!`!xO~O![!yO~P<OO{!{O![!}O~O{!{O![#QO~Oz!iS~",
-  goto: "%T!gPP!h!lPPP!lP!lPP!lP!lP!l!p!}P#U#XPP!}P#q!}P#t!}P#w!}P!}P!}P!}!l#zPP#zP!lP!lP!lP$OP$W$^$RPPPPPP!lP$g$m$w$}TXOYTWOYSROYQmSQnTR!c!QZQOSTY!QR!UuQkPQ!e!UQ!f!WQ!g!YQ!h![Q!i!]Q!j!^R!k!_R!WvR!YwR![xTUOYQ!b}V!t!o!s!{Q!n!aR!v!pQ!u!oQ!z!sR#O!{QYORoYQ!RmQ!SnT!d!R!SQ!|!zR#P!|Q!q!nR!w!q",
-  nodeNames: "⚠ Program Statement SliceStatement Identifier slice String ScenarioStatement scenarioType GivenSectionStatement givenType Colon WhenSectionStatement whenType ThenSectionStatement thenType NodeStatement ArtifactRef RmRef rmType RmName Version At Number UiRef uiType UiName CmdRef cmdType CmdName EvtRef evtType EvtName ExcRef excType AutRef autType ExtRef extType GenericRef EdgeStatement IncomingClause DependsArrow Comma OutgoingClause ForwardArrow BoundaryStatement BoundaryMarker StreamStatement stream DataStatement data JsonObject BraceL Property Value JsonArray BracketL BracketR true false null BraceR UsesStatement uses",
-  maxTerm: 72,
-  skippedNodes: [0],
-  repeatNodeCount: 4,
-  tokenData: "&z~RbXY!ZYZ!f]^!fpq!Zrs!q|}$_}!O$d!Q![$}![!]%h!^!_%m!b!c%x!c!}%}!}#O&f#P#Q&k#R#S%}#T#o%}#o#p&p#q#r&u~!`Q!i~XY!Zpq!Z~!kQ!j~YZ!f]^!f~!tVOr!qrs#Zs#O!q#O#P#`#P;'S!q;'S;=`$X<%lO!q~#`OU~~#cRO;'S!q;'S;=`#l;=`O!q~#oWOr!qrs#Zs#O!q#O#P#`#P;'S!q;'S;=`$X;=`<%l!q<%lO!q~$[P;=`<%l!q~$dO{~~$gQ}!O$m!`!a$x~$pP}!O$s~$xO!P~~$}O}~~%SQg~!O!P%Y!Q![$}~%]P!Q![%`~%ePg~!Q![%`~%mOZ~~%pP}!O%s~%xOz~~%}Of~~&SUS~st%}}!O%}!Q![%}!c!}%}#R#S%}#T#o%}~&kO!Z~~&pO![~~&uO!V~~&zO!`~",
+  states: "/`QYQPOOO!sQPO'#DXOOQO'#Cn'#CnO$jQPO'#CmO&ZQPO'#DZO&ZQPO'#D^OOQO'#DY'#DYOOQO'#D`'#D`OOQO'#C_'#C_OOQO'#Dw'#DwQYQPOOO&xQPO'#C`O&}QPO'#CdO'SQPO'#CfO'XQPO'#CiO'^QPO'#CkO'cQPO'#CoO'hQPO'#CuO'mQPO'#CxO'rQPO'#C{O'wQPO'#DOO'|QPO'#DRO(RQPO'#DTO(WQPO'#DVO(]QPO'#DbO(bQPO'#DdO(gQPO'#DfO(lQPO'#DhO(qQPO'#DuO(vQPO'#CrOOQO,59s,59sOOQO,59X,59XO({QPO,59uO*lQPO,59xOOQO-E7u-E7uOOQO,58z,58zOOQO,59O,59OOOQO,59Q,59QOOQO,59T,59TOOQO,59V,59VO,]QPO,59ZO,bQPO,59aO,gQPO,59dO,lQPO,59gO,qQPO,59jO,vQPO,59mO,{QPO,59oO-QQPO,59qO-VQPO,59|O-_QPO,5:OO-gQPO,5:QO-oQPO,5:SOOQO,5:a,5:aOOQO,59^,59^O&ZQPO'#DxO/`QPO1G/aO1PQPO1G/dOOQO'#Cq'#CqO2pQPO1G.uOOQO'#Cw'#CwO4gQPO1G.{OOQO'#Cz'#CzO6^QPO1G/OOOQO'#C}'#C}O8TQPO1G/ROOQO'#DQ'#DQO9zQPO1G/UO;qQPO1G/XO=hQPO1G/ZO?_QPO1G/]OOQO1G/h1G/hOOQO1G/j1G/jOAUQPO1G/lOBuQPO'#DjOOQO1G/n1G/nOOQO,5:d,5:dOOQO-E7v-E7vOOQO7+$a7+$aOOQO7+$g7+$gOOQO7+$j7+$jOOQO7+$m7+$mOOQO7+$p7+$pOOQO7+$s7+$sOOQO7+$u7+$uOOQO7+$w7+$wOCQQPO'#DyOCYQPO7+%WODyQPO'#DlOOQO,5:U,5:UOEOQPO,5:UOOQO,5:e,5:eOOQO-E7w-E7wOEWQPO,5:WOEoQPO'#D{OEwQPO1G/pOOQO1G/p1G/pOFPQPO'#DnOOQO'#Dm'#DmOOQO1G/r1G/rOOQO,5:g,5:gOOQO-E7y-E7yOOQO7+%[7+%[OOQO,5:Y,5:YOFWQPO,5:YOEWQPO'#DzOF`QPO1G/tOOQO1G/t1G/tOOQO,5:f,5:fOOQO-E7x-E7xOOQO7+%`7+%`",
+  stateData: "Fl~O!rOSPOS~OTPOUZOX[OZ]O^^O`_Od`OjaOmbOpcOsdOveOxfOzgO!OSO!RTO!TVO!VhO!XiO!ZjO!]kO!jlO!sXO~OgmOT{XU{XV{XX{XZ{X^{X`{Xd{Xj{Xm{Xp{Xs{Xv{Xx{Xz{X!O{X!R{X!T{X!V{X!X{X!Z{X!]{X!j{X!p{X!s{X!P{X~OVoOTaXUaXXaXZaX^aX`aXdaXjaXmaXpaXsaXvaXxaXzaX!OaX!RaX!TaX!VaX!XaX!ZaX!]aX!jaX!paX!saX~OTPOd`OjaOmbOpcOsdOveOxfOzgO~OVsO~OVtO~O[uO~O[vO~O[wO~O[xO~O[yO~O[zO~O[{O~O[|O~O[}O~O[!OO~O[!PO~O[!QO~O[!RO~O[!SO~O[!TO~O[!UO~Oh!VO~O!P!WOT}aU}aX}aZ}a^}a`}ad}aj}am}ap}as}av}ax}az}a!O}a!R}a!T}a!V}a!X}a!Z}a!]}a!j}a!p}a!s}a~O!P!WOT!QaU!QaX!QaZ!Qa^!Qa`!Qad!Qaj!Qam!Qap!Qas!Qav!Qax!Qaz!Qa!O!Qa!R!Qa!T!Qa!V!Qa!X!Qa!Z!Qa!]!Qa!j!Qa!p!Qa!s!Qa~OT!ZO~OT!]O~OT!_O~OT!aO~OT!cO~OT!eO~OT!fO~OT!gO~OT!hOV!hO~OT!iOV!iO~OT!jOV!jO~O!_!kOT![aU![aX![aZ![a^![a`![ad![aj![am![ap![as![av![ax![az![a!O![a!R![a!T![a!V![a!X![a!Z![a!]![a!j![a!p![a!s![a~O!P!WOT}iU}iX}iZ}i^}i`}id}ij}im}ip}is}iv}ix}iz}i!O}i!R}i!T}i!V}i!X}i!Z}i!]}i!j}i!p}i!s}i~O!P!WOT!QiU!QiX!QiZ!Qi^!Qi`!Qid!Qij!Qim!Qip!Qis!Qiv!Qix!Qiz!Qi!O!Qi!R!Qi!T!Qi!V!Qi!X!Qi!Z!Qi!]!Qi!j!Qi!p!Qi!s!Qi~OgmOTciUciVciXciZci^ci`cidcijcimcipciscivcixcizci!Oci!Rci!Tci!Vci!Xci!Zci!]ci!jci!pci!sci!Pci~OgmOTiiUiiViiXiiZii^ii`iidiijiimiipiisiiviixiizii!Oii!Rii!Tii!Vii!Xii!Zii!]ii!jii!pii!sii!Pii~OgmOTliUliVliXliZli^li`lidlijlimliplislivlixlizli!Oli!Rli!Tli!Vli!Xli!Zli!]li!jli!pli!sli!Pli~OgmOToiUoiVoiXoiZoi^oi`oidoijoimoipoisoivoixoizoi!Ooi!Roi!Toi!Voi!Xoi!Zoi!]oi!joi!poi!soi!Poi~OgmOTriUriVriXriZri^ri`ridrijrimriprisrivrixrizri!Ori!Rri!Tri!Vri!Xri!Zri!]ri!jri!pri!sri!Pri~OgmOTuiUuiVuiXuiZui^ui`uiduijuimuipuisuivuixuizui!Oui!Rui!Tui!Vui!Xui!Zui!]ui!jui!pui!sui!Pui~OgmOTwiUwiVwiXwiZwi^wi`widwijwimwipwiswivwixwizwi!Owi!Rwi!Twi!Vwi!Xwi!Zwi!]wi!jwi!pwi!swi!Pwi~OgmOTyiUyiVyiXyiZyi^yi`yidyijyimyipyisyivyixyizyi!Oyi!Ryi!Tyi!Vyi!Xyi!Zyi!]yi!jyi!pyi!syi!Pyi~O!P!wOT!YiU!YiX!YiZ!Yi^!Yi`!Yid!Yij!Yim!Yip!Yis!Yiv!Yix!Yiz!Yi!O!Yi!R!Yi!T!Yi!V!Yi!X!Yi!Z!Yi!]!Yi!j!Yi!p!Yi!s!Yi~OT!yOV!yO!h!zO~OT!|OV!|O~O!P!wOT!YqU!YqX!YqZ!Yq^!Yq`!Yqd!Yqj!Yqm!Yqp!Yqs!Yqv!Yqx!Yqz!Yq!O!Yq!R!Yq!T!Yq!V!Yq!X!Yq!Z!Yq!]!Yq!j!Yq!p!Yq!s!Yq~O[#OO~O!P#PO!h#RO~OV#TOh#TO!_!kO!c#SO!e#TO!f#TO!g#TO~OT!yOV!yO~O!P#PO!h#XO~O!d#YO~PEWO!P#[O!d#^O~O!P#[O!d#aO~O!O!rT~",
+  goto: "%j!pPPP!q!uPPP!uP!uPP!uP!uP!u!y#WP#_#bPP#WP#}#WP$Q#WP$T#WP$W#WP#WP#WP#W!u$ZPP$ZP!uP!uP!uP!uP!uP$_P$g$m$bPPPPPP!uP$v$|%W%^%dTXOYTWOYSROYQpSQqTR!m!WZQOSTY!WR![xQnPQ!o![Q!p!^Q!q!`Q!r!bQ!s!dQ!t!eQ!u!fR!v!gR!^yR!`zR!b{R!d|TUOYQ!l!TV#T#O#S#[Q!{!kR#V#PQ#U#OQ#Z#SR#_#[QYORrYQ!XpQ!YqT!n!X!YQ!x!jR!}!xQ#]#ZR#`#]Q#Q!{R#W#Q",
+  nodeNames: "⚠ LineComment Program Statement SliceStatement Identifier slice String ScenarioStatement scenarioType GivenSectionStatement givenType Colon WhenSectionStatement whenType ThenSectionStatement thenType NodeStatement ArtifactRef RmRef rmType RmName Version At Number UiRef uiType UiName CmdRef cmdType CmdName QryRef qryType QryName EvtRef evtType EvtName ExcRef excType AutRef autType ExtRef extType GenericRef EdgeStatement IncomingClause DependsArrow Comma OutgoingClause ForwardArrow BoundaryStatement BoundaryMarker StreamStatement stream LaneStatement lane LanesStatement lanes DataStatement data JsonObject BraceL Property Value JsonArray BracketL BracketR true false null BraceR UsesStatement uses",
+  maxTerm: 81,
+  skippedNodes: [0,1],
+  repeatNodeCount: 5,
+  tokenData: "'r~RdXY!aYZ!l]^!lpq!ars!wst$e|}%P}!O%U!P!Q%o!Q![%u![!]&`!^!_&e!b!c&p!c!}&u!}#O'^#P#Q'c#R#S&u#T#o&u#o#p'h#q#r'm~!fQ!r~XY!apq!a~!qQ!s~YZ!l]^!l~!zVOr!wrs#as#O!w#O#P#f#P;'S!w;'S;=`$_<%lO!w~#fOV~~#iRO;'S!w;'S;=`#r;=`O!w~#uWOr!wrs#as#O!w#O#P#f#P;'S!w;'S;=`$_;=`<%l!w<%lO!w~$bP;=`<%l!w~$jTP~OY$eZ]$e^;'S$e;'S;=`$y<%lO$e~$|P;=`<%l$e~%UO!P~~%XQ}!O%_!`!a%j~%bP}!O%e~%jO!T~~%oO!R~~%rP!P!Q$e~%zQh~!O!P&Q!Q![%u~&TP!Q![&W~&]Ph~!Q![&W~&eO[~~&hP}!O&k~&pO!O~~&uOg~~&zUT~st&u}!O&u!Q![&u!c!}&u#R#S&u#T#o&u~'cO!c~~'hO!d~~'mO!_~~'rO!h~",
   tokenizers: [0],
-  topRules: {"Program":[0,1]},
-  specialized: [{term: 4, get: (value: keyof typeof spec_Identifier) => spec_Identifier[value] || -1}],
-  tokenPrec: 1304
+  topRules: {"Program":[0,2]},
+  specialized: [{term: 5, get: (value: keyof typeof spec_Identifier) => spec_Identifier[value] || -1}],
+  tokenPrec: 1726
 })
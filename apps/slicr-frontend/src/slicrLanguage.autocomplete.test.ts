@@ -1,8 +1,11 @@
 import { EditorState } from '@codemirror/state';
 import { describe, expect, it } from 'vitest';
-import { slicr } from './slicrLanguage';
+import { setProjectNodeRefs, slicr } from './slicrLanguage';
 
-type CompletionResult = null | { from: number; options: Array<{ label: string; type?: string }> };
+type CompletionResult = null | {
+  from: number;
+  options: Array<{ label: string; type?: string; apply?: string; detail?: string }>;
+};
 
 function getAutocompleteSource(state: EditorState, pos: number) {
   const data = state.languageDataAt('autocomplete', pos);
@@ -81,4 +84,47 @@ cmd:place-order <- `;
     expect(byLabel.get('cmd:create-order')).toBe('cmd');
     expect(byLabel.get('rm:orders')).toBe('rm');
   });
+
+  it('annotates uses key completions with their source node and sample value', async () => {
+    const doc = `slice "Orders"
+
+evt:order-created
+data:
+  order:
+    total: 42
+
+cmd:ship-order
+<- evt:order-created
+uses:
+  or`;
+    const state = EditorState.create({ doc, extensions: [slicr()] });
+    const pos = doc.length;
+    const source = getAutocompleteSource(state, pos);
+
+    const result = source ? await source(makeContext(state, pos)) : null;
+    const total = result?.options.find((option) => option.label === 'order.total');
+
+    expect(total).toMatchObject({ apply: 'order.total', detail: 'evt:order-created = 42', type: 'property' });
+  });
+
+  it('offers project node refs on declaration lines, optionally with their data block', async () => {
+    const doc = `slice "Tickets"
+
+conc`;
+    const initial = EditorState.create({ doc, extensions: [slicr()] });
+    const state = initial.update({
+      effects: setProjectNodeRefs.of([
+        { ref: 'evt:concert-scheduled', sliceName: 'Planning', dataBlock: 'data:\n  id: 7' }
+      ])
+    }).state;
+    const source = getAutocompleteSource(state, doc.length);
+
+    const result = source ? await source(makeContext(state, doc.length)) : null;
+
+    expect(result?.from).toBe(doc.length - 'conc'.length);
+    expect(result?.options).toEqual([
+      { label: 'evt:concert-scheduled', detail: 'Planning', type: 'evt' },
+      { label: 'evt:concert-scheduled', detail: 'Planning · with data', apply: 'evt:concert-scheduled\ndata:\n  id: 7', type: 'evt' }
+    ]);
+  });
 });
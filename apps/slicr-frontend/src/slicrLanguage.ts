@@ -9,14 +9,38 @@ import {
   syntaxTree
 } from "@codemirror/language"
 import { autocompletion, startCompletion } from "@codemirror/autocomplete"
+import { EditorState, StateEffect, StateField } from "@codemirror/state"
 import { EditorView } from "@codemirror/view"
 import {styleTags, tags as t} from "@lezer/highlight"
 import {parser} from "./slicr.parser.js"
-import { getDependencySuggestions, getUsesKeySuggestions } from "./domain/dslAutocomplete"
+import {
+  getNodeRefSuggestions,
+  getUsesKeySuggestions,
+  getUsesPathSuggestions,
+  type NodeRefCompletionContext,
+  type NodeRefSuggestion,
+  type ProjectNodeRef,
+  type UsesKeySuggestion
+} from "./domain/dslAutocomplete"
+
+export const setProjectNodeRefs = StateEffect.define<ProjectNodeRef[]>()
+
+const projectNodeRefsField = StateField.define<ProjectNodeRef[]>({
+  create: () => [],
+  update: (value, transaction) => {
+    for (const effect of transaction.effects) {
+      if (effect.is(setProjectNodeRefs)) {
+        return effect.value
+      }
+    }
+    return value
+  }
+})
 
 type CompletionContextLike = {
-  state: { doc: { toString: () => string } }
+  state: EditorState
   pos: number
+  explicit?: boolean
   matchBefore: (pattern: RegExp) => { from: number; to: number; text: string } | null
 }
 
@@ -27,32 +51,61 @@ function slicrCompletionSource(context: CompletionContextLike) {
     return {
       from: usesSuggestions.from,
       filter: false,
-      options: usesSuggestions.suggestions.map((label) => ({
-        label,
-        type: 'property'
-      }))
+      options: usesSuggestions.details.map(toUsesCompletionOption)
+    }
+  }
+
+  const pathSuggestions = getUsesPathSuggestions(doc, context.pos, context.explicit ?? false)
+  if (pathSuggestions) {
+    return {
+      from: pathSuggestions.from,
+      filter: false,
+      options: pathSuggestions.suggestions.map(toUsesCompletionOption)
     }
   }
 
-  const suggestions = getDependencySuggestions(doc, context.pos)
-  if (suggestions.length === 0) {
+  const projectRefs = context.state.field(projectNodeRefsField, false) ?? []
+  const refSuggestions = getNodeRefSuggestions(doc, context.pos, projectRefs)
+  if (!refSuggestions) {
     return null
   }
 
-  const token = context.matchBefore(/[\w:@#-]*/)
-  const from = token ? token.from : context.pos
   return {
-    from,
-    options: suggestions.map((label) => ({
-      label,
-      type: completionTypeForLabel(label)
-    }))
+    from: refSuggestions.from,
+    filter: false,
+    options: refSuggestions.suggestions.flatMap((suggestion) => toNodeRefCompletionOptions(suggestion, refSuggestions.context))
   }
 }
 
+function toNodeRefCompletionOptions(suggestion: NodeRefSuggestion, context: NodeRefCompletionContext) {
+  const type = completionTypeForLabel(suggestion.ref)
+  const option = { label: suggestion.ref, detail: suggestion.sliceName ?? undefined, type }
+  if (context !== 'declaration' || !suggestion.dataBlock) {
+    return [option]
+  }
+  return [
+    option,
+    { label: suggestion.ref, detail: `${suggestion.sliceName} · with data`, apply: `${suggestion.ref}\n${suggestion.dataBlock}`, type }
+  ]
+}
+
+function toUsesCompletionOption(suggestion: UsesKeySuggestion) {
+  return {
+    label: suggestion.label,
+    apply: suggestion.apply,
+    detail: `${suggestion.sourceRef} = ${formatSampleValue(suggestion.sample)}`,
+    type: 'property'
+  }
+}
+
+function formatSampleValue(value: unknown) {
+  const text = JSON.stringify(value) ?? String(value)
+  return text.length > 40 ? `${text.slice(0, 39)}…` : text
+}
+
 function completionTypeForLabel(label: string) {
   const type = label.split(":", 1)[0]
-  if (type === "evt" || type === "cmd" || type === "rm" || type === "ui" || type === "exc" || type === "aut" || type === "ext") {
+  if (type === "evt" || type === "cmd" || type === "qry" || type === "rm" || type === "ui" || type === "exc" || type === "aut" || type === "ext") {
     return type
   }
   return "variable"
@@ -98,11 +151,13 @@ export const slicrHighlightStyle = HighlightStyle.define([
   { tag: t.bool, class: "dsl-tok-bool" },
   { tag: t.null, class: "dsl-tok-null" },
   { tag: t.propertyName, class: "dsl-tok-jsonKey" },
+  { tag: t.lineComment, class: "dsl-tok-comment" },
 
   // Specialized Types
   { tag: t.tagName, class: "dsl-tok-rmType" },
   { tag: t.modifier, class: "dsl-tok-uiType" },
   { tag: t.className, class: "dsl-tok-cmdType" },
+  { tag: t.annotation, class: "dsl-tok-qryType" },
   { tag: t.macroName, class: "dsl-tok-evtType" },
   { tag: t.invalid, class: "dsl-tok-excType" },
   { tag: t.labelName, class: "dsl-tok-autType" },
@@ -112,6 +167,7 @@ export const slicrHighlightStyle = HighlightStyle.define([
   { tag: t.inserted, class: "dsl-tok-rmName" },
   { tag: t.changed, class: "dsl-tok-uiName" },
   { tag: t.function(t.variableName), class: "dsl-tok-cmdName" },
+  { tag: t.deleted, class: "dsl-tok-qryName" },
   { tag: t.constant(t.variableName), class: "dsl-tok-evtName" },
   { tag: t.special(t.variableName), class: "dsl-tok-autName" }
 ])
@@ -124,9 +180,12 @@ export const slicrLanguage = LRLanguage.define({
         "data": t.keyword,
         "uses": t.keyword,
         "stream": t.keyword,
+        "lane": t.keyword,
+        "lanes": t.keyword,
         "rmType": t.tagName,
         "uiType": t.modifier,
         "cmdType": t.className,
+        "qryType": t.annotation,
         "evtType": t.macroName,
         "excType": t.invalid,
         "autType": t.labelName,
@@ -134,6 +193,7 @@ export const slicrLanguage = LRLanguage.define({
         "RmName/Identifier": t.inserted,
         "UiName/Identifier": t.changed,
         "CmdName/Identifier": t.function(t.variableName),
+        "QryName/Identifier": t.deleted,
         "EvtName/Identifier": t.constant(t.variableName),
         "AutRef/Identifier": t.special(t.variableName),
         "Identifier": t.variableName,
@@ -145,7 +205,8 @@ export const slicrLanguage = LRLanguage.define({
         "BraceL BraceR": t.bracket,
         "true false": t.bool,
         "null": t.null,
-        "Property/String Property/Identifier": t.propertyName
+        "Property/String Property/Identifier": t.propertyName,
+        "LineComment": t.lineComment
       }),
       foldNodeProp.add({
         JsonObject: foldInside
@@ -153,6 +214,7 @@ export const slicrLanguage = LRLanguage.define({
     ]
   }),
   languageData: {
+    commentTokens: { line: "#" },
     closeBrackets: { brackets: ["(", "[", "{", "'", '"'] },
     indentOnInput: /^\s*[}\]]$/,
     autocomplete: slicrCompletionSource
@@ -195,6 +257,7 @@ export function slicr() {
       })
     ]),
     syntaxHighlighting(slicrHighlightStyle),
+    projectNodeRefsField,
     triggerUsesCompletionOnDotDot,
     autocompletion({
       activateOnTyping: true,
@@ -0,0 +1,103 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { appendSliceEvent, loadSliceEvents } from '../sliceEventStore';
+import {
+  createCachedEventStorage,
+  getEventStorage,
+  installEventStorage,
+  readEventStorageEntries,
+  setEventStorage,
+  subscribeEventStorageFailures,
+  type EventStorageAdapter
+} from './eventStorage';
+
+function createMemoryAdapter(initial: Record<string, string> = {}) {
+  const files = new Map(Object.entries(initial));
+  const writes: string[] = [];
+  const adapter: EventStorageAdapter = {
+    load: async () => Object.fromEntries(files),
+    write: async (key, value) => {
+      writes.push(key);
+      files.set(key, value);
+    },
+    remove: async (key) => {
+      files.delete(key);
+    }
+  };
+  return { adapter, files, writes };
+}
+
+afterEach(() => {
+  setEventStorage(null);
+  localStorage.clear();
+});
+
+describe('eventStorage', () => {
+  it('talks to localStorage until another backend is installed', () => {
+    appendSliceEvent('slice-a', { type: 'slice-created', payload: { initialDsl: 'slice "A"\n' } });
+
+    expect(getEventStorage()).toBe(localStorage);
+    expect(localStorage.getItem('slicr.es.v1.stream.slice-a')).not.toBeNull();
+  });
+
+  it('serves installed backends from memory and writes them behind', async () => {
+    const { adapter, files } = createMemoryAdapter();
+    const storage = await installEventStorage(adapter);
+
+    appendSliceEvent('slice-a', { type: 'slice-created', payload: { initialDsl: 'slice "A"\n' } });
+    expect(loadSliceEvents('slice-a').map((event) => event.type)).toEqual(['slice-created']);
+    expect(localStorage.length).toBe(0);
+
+    await storage.flush();
+    expect(JSON.parse(files.get('slicr.es.v1.stream.slice-a') ?? '[]')).toHaveLength(1);
+  });
+
+  it('writes only the latest value of a key changed several times in a row', async () => {
+    const { adapter, files, writes } = createMemoryAdapter({ 'slicr.es.v1.stream.old': '[]' });
+    const storage = createCachedEventStorage(await adapter.load(), adapter);
+
+    storage.setItem('slicr.es.v1.stream.a', '[1]');
+    storage.setItem('slicr.es.v1.stream.a', '[1,2]');
+    storage.removeItem('slicr.es.v1.stream.old');
+    await storage.flush();
+
+    expect(writes).toEqual(['slicr.es.v1.stream.a']);
+    expect(Object.fromEntries(files)).toEqual({ 'slicr.es.v1.stream.a': '[1,2]' });
+    expect(readEventStorageEntries(storage)).toEqual({ 'slicr.es.v1.stream.a': '[1,2]' });
+  });
+
+  it('reports failed writes on the next flush', async () => {
+    const storage = createCachedEventStorage({}, {
+      load: async () => ({}),
+      write: async () => {
+        throw new Error('disk full');
+      },
+      remove: async () => {}
+    });
+
+    storage.setItem('slicr.es.v1.stream.a', '[]');
+
+    await expect(storage.flush()).rejects.toThrow('disk full');
+    await expect(storage.flush()).resolves.toBeUndefined();
+    expect(storage.getItem('slicr.es.v1.stream.a')).toBe('[]');
+  });
+
+  it('reports failed writes to subscribers as they happen', async () => {
+    const storage = createCachedEventStorage({}, {
+      load: async () => ({}),
+      write: async () => {
+        throw new Error('disk full');
+      },
+      remove: async () => {}
+    });
+    const onFailure = vi.fn();
+    const unsubscribe = subscribeEventStorageFailures(onFailure);
+
+    storage.setItem('slicr.es.v1.stream.a', '[]');
+    await storage.flush().catch(() => undefined);
+    unsubscribe();
+
+    expect(onFailure).toHaveBeenCalledWith(new Error('disk full'));
+  });
+});
@@ -0,0 +1,154 @@
+export const EVENT_STORAGE_KEY_PREFIX = 'slicr.es.v1.';
+// Older libraries kept slices and project indexes under these keys; the stores still read them through the port.
+const LEGACY_EVENT_STORAGE_KEY_PREFIX = 'slicr.es.v2.';
+const LEGACY_EVENT_STORAGE_KEYS = new Set(['slicr.slices', 'slicr.dsl', 'slicr.sliceLayout']);
+
+// The synchronous key/value port the event store, the libraries and compaction read and write through.
+export type EventStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem' | 'key' | 'length'>;
+
+// Durable backends are asynchronous; they are read once on install and then written behind a cache.
+export type EventStorageAdapter = {
+  load: () => Promise<Record<string, string>>;
+  write: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+};
+
+export type CachedEventStorage = EventStorage & {
+  flush: () => Promise<void>;
+  // Takes a value another tab already persisted, without writing it again.
+  applyRemote: (key: string, value: string | null) => void;
+};
+
+type EventStorageWriteListener = (key: string, value: string | null) => void;
+type EventStorageFailureListener = (error: unknown) => void;
+
+let activeStorage: EventStorage | null = null;
+const writeListeners = new Set<EventStorageWriteListener>();
+const failureListeners = new Set<EventStorageFailureListener>();
+
+// Without an installed backend the stores talk to localStorage directly, as they always have.
+export function getEventStorage(): EventStorage {
+  return activeStorage ?? globalThis.localStorage;
+}
+
+export function setEventStorage(storage: EventStorage | null): void {
+  activeStorage = storage;
+}
+
+export function isCachedEventStorage(storage: EventStorage): storage is CachedEventStorage {
+  return 'applyRemote' in storage;
+}
+
+// Cached backends announce their writes so other tabs can pick them up; localStorage has storage events for that.
+export function subscribeEventStorageWrites(listener: EventStorageWriteListener): () => void {
+  writeListeners.add(listener);
+  return () => {
+    writeListeners.delete(listener);
+  };
+}
+
+export function isEventStorageKey(key: string): boolean {
+  return key.startsWith(EVENT_STORAGE_KEY_PREFIX)
+    || key.startsWith(LEGACY_EVENT_STORAGE_KEY_PREFIX)
+    || LEGACY_EVENT_STORAGE_KEYS.has(key);
+}
+
+// Backend writes happen behind the cache, so their failures are reported here rather than to the caller.
+export function subscribeEventStorageFailures(listener: EventStorageFailureListener): () => void {
+  failureListeners.add(listener);
+  return () => {
+    failureListeners.delete(listener);
+  };
+}
+
+export function readEventStorageEntries(storage: EventStorage): Record<string, string> {
+  const entries: Record<string, string> = {};
+  for (let i = 0; i < storage.length; i += 1) {
+    const key = storage.key(i);
+    if (!key || !isEventStorageKey(key)) {
+      continue;
+    }
+    const value = storage.getItem(key);
+    if (value !== null) {
+      entries[key] = value;
+    }
+  }
+  return entries;
+}
+
+export function createCachedEventStorage(entries: Record<string, string>, adapter: EventStorageAdapter): CachedEventStorage {
+  const values = new Map(Object.entries(entries));
+  // Only the latest value per key is written, so a burst of appends to one stream costs one backend write.
+  const dirty = new Map<string, string | null>();
+  let writing: Promise<void> = Promise.resolve();
+  let failure: unknown = null;
+
+  const markDirty = (key: string, value: string | null) => {
+    const scheduled = dirty.size > 0;
+    dirty.set(key, value);
+    for (const listener of writeListeners) {
+      listener(key, value);
+    }
+    if (scheduled) {
+      return;
+    }
+    writing = writing.then(async () => {
+      const batch = [...dirty];
+      dirty.clear();
+      for (const [dirtyKey, dirtyValue] of batch) {
+        try {
+          if (dirtyValue === null) {
+            await adapter.remove(dirtyKey);
+          } else {
+            await adapter.write(dirtyKey, dirtyValue);
+          }
+        } catch (error) {
+          failure ??= error;
+          for (const listener of failureListeners) {
+            listener(error);
+          }
+        }
+      }
+    });
+  };
+
+  return {
+    get length() {
+      return values.size;
+    },
+    key: (index) => [...values.keys()][index] ?? null,
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      const text = String(value);
+      values.set(key, text);
+      markDirty(key, text);
+    },
+    removeItem: (key) => {
+      if (values.delete(key)) {
+        markDirty(key, null);
+      }
+    },
+    applyRemote: (key, value) => {
+      dirty.delete(key);
+      if (value === null) {
+        values.delete(key);
+      } else {
+        values.set(key, value);
+      }
+    },
+    flush: async () => {
+      await writing;
+      if (failure !== null) {
+        const error = failure;
+        failure = null;
+        throw error;
+      }
+    }
+  };
+}
+
+export async function installEventStorage(adapter: EventStorageAdapter): Promise<CachedEventStorage> {
+  const storage = createCachedEventStorage(await adapter.load(), adapter);
+  setEventStorage(storage);
+  return storage;
+}
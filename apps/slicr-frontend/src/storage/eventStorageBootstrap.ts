@@ -0,0 +1,15 @@
+import { getEventStorageBackendId, type EventStorageBackendId } from '../domain/runtimeFlags';
+import { installEventStorage, setEventStorage } from './eventStorage';
+import { createIndexedDbEventStorageAdapter } from './indexedDbEventStorage';
+
+export async function bootstrapEventStorage(backend: EventStorageBackendId = getEventStorageBackendId()): Promise<void> {
+  if (backend !== 'indexed-db' || !globalThis.indexedDB) {
+    return;
+  }
+  try {
+    await installEventStorage(createIndexedDbEventStorageAdapter());
+  } catch {
+    // Fall back to localStorage when the database cannot be opened.
+    setEventStorage(null);
+  }
+}
@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCachedEventStorage, setEventStorage, type CachedEventStorage } from './eventStorage';
+import { mergeEventStreamValues, startEventStorageSync } from './eventStorageSync';
+
+function streamEvent(id: string, version: number, second: number) {
+  return { id, version, at: `2026-01-01T00:00:0${second}.000Z`, type: 'node-moved' };
+}
+
+// Two tabs' BroadcastChannels: a message posted on one is delivered to the other.
+function createChannelPair() {
+  type Channel = { postMessage: (message: unknown) => void; close: () => void; onmessage: ((event: MessageEvent) => void) | null };
+  const channels: Channel[] = [];
+  const create = (): Channel => {
+    const channel: Channel = {
+      postMessage: (message) => {
+        for (const other of channels) {
+          if (other !== channel) {
+            other.onmessage?.({ data: message } as MessageEvent);
+          }
+        }
+      },
+      close: () => {},
+      onmessage: null
+    };
+    channels.push(channel);
+    return channel;
+  };
+  return { create };
+}
+
+function createTabStorage(entries: Record<string, string>): CachedEventStorage {
+  return createCachedEventStorage(entries, { load: async () => ({}), write: async () => {}, remove: async () => {} });
+}
+
+afterEach(() => {
+  setEventStorage(null);
+  localStorage.clear();
+});
+
+describe('eventStorageSync', () => {
+  it('keeps both tails of concurrently appended streams and converges on the same order', () => {
+    const head = streamEvent('base', 1, 0);
+    const mine = JSON.stringify([head, streamEvent('mine', 2, 2)]);
+    const theirs = JSON.stringify([head, streamEvent('theirs', 2, 1)]);
+
+    const merged = mergeEventStreamValues(mine, theirs);
+
+    expect(JSON.parse(merged).map((event: { id: string; version: number }) => `${event.id}@${event.version}`))
+      .toEqual(['base@1', 'theirs@2', 'mine@3']);
+    expect(mergeEventStreamValues(theirs, mine)).toBe(merged);
+    expect(mergeEventStreamValues(merged, theirs)).toBe(merged);
+    expect(mergeEventStreamValues(theirs, merged)).toBe(merged);
+  });
+
+  it('reports localStorage keys other tabs changed through storage events', () => {
+    const onChange = vi.fn();
+    const stop = startEventStorageSync(onChange, { createChannel: null });
+
+    window.dispatchEvent(new StorageEvent('storage', { key: 'slicr.es.v1.stream.slice-a', storageArea: localStorage }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'slicr.theme', storageArea: localStorage }));
+    stop();
+    window.dispatchEvent(new StorageEvent('storage', { key: 'slicr.es.v1.stream.slice-b', storageArea: localStorage }));
+
+    expect(onChange.mock.calls).toEqual([['slicr.es.v1.stream.slice-a']]);
+  });
+
+  it('merges writes of another tab into this tab\'s cached copy', () => {
+    const key = 'slicr.es.v1.stream.slice-a';
+    const head = JSON.stringify([streamEvent('base', 1, 0)]);
+    const pair = createChannelPair();
+    const otherTab = createTabStorage({ [key]: head });
+    const thisTab = createTabStorage({ [key]: head });
+    const onChange = vi.fn();
+
+    // Only one tab is active per module instance, so the other tab posts as if from a second window.
+    const otherChannel = pair.create();
+    const stop = startEventStorageSync(onChange, { target: new EventTarget() as Window, createChannel: pair.create });
+    setEventStorage(thisTab);
+    thisTab.setItem(key, JSON.stringify([streamEvent('base', 1, 0), streamEvent('mine', 2, 2)]));
+    otherTab.setItem(key, JSON.stringify([streamEvent('base', 1, 0), streamEvent('theirs', 2, 1)]));
+    otherChannel.postMessage({ key, value: otherTab.getItem(key) });
+    stop();
+
+    expect(onChange).toHaveBeenCalledWith(key);
+    expect(JSON.parse(thisTab.getItem(key) ?? '[]').map((event: { id: string }) => event.id)).toEqual(['base', 'theirs', 'mine']);
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  EVENT_STORAGE_KEY_PREFIX,
+  getEventStorage,
+  isCachedEventStorage,
+  subscribeEventStorageWrites
+} from './eventStorage';
+
+export const EVENT_STORAGE_CHANNEL_NAME = 'slicr.es.v1';
+
+type EventStorageChangeMessage = { key: string; value: string | null };
+
+type MessageChannelLike = {
+  postMessage: (message: EventStorageChangeMessage) => void;
+  close: () => void;
+  onmessage: ((event: MessageEvent) => void) | null;
+};
+
+type EventStorageSyncOptions = {
+  target?: Pick<Window, 'addEventListener' | 'removeEventListener'>;
+  createChannel?: ((name: string) => MessageChannelLike) | null;
+};
+
+type StreamRecord = Record<string, unknown> & { id: string; version: number; at: string };
+
+function parseStream(raw: string | null): StreamRecord[] | null {
+  try {
+    const parsed: unknown = raw === null ? null : JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return null;
+    }
+    return parsed.every((value) => value && typeof value === 'object' && typeof value.id === 'string'
+      && typeof value.version === 'number' && typeof value.at === 'string')
+      ? parsed as StreamRecord[]
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function compareRecords(a: StreamRecord, b: StreamRecord): number {
+  if (a.at !== b.at) {
+    return a.at < b.at ? -1 : 1;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// Two tabs that appended to the same stream from the same head keep both tails, ordered by time and renumbered.
+// Both tabs compute the same result from the same events, so they converge whichever message arrives first.
+export function mergeEventStreamValues(localRaw: string | null, remoteRaw: string): string {
+  const local = parseStream(localRaw);
+  const remote = parseStream(remoteRaw);
+  if (!local || !remote || remote.some((event) => event.compacted === true)) {
+    return remoteRaw;
+  }
+  let prefix = 0;
+  while (prefix < local.length && prefix < remote.length && local[prefix].id === remote[prefix].id) {
+    prefix += 1;
+  }
+  const remoteIds = new Set(remote.map((event) => event.id));
+  const localOnly = local.slice(prefix).filter((event) => !remoteIds.has(event.id));
+  if (localOnly.length === 0) {
+    return remoteRaw;
+  }
+
+  const baseVersion = prefix > 0 ? remote[prefix - 1].version : 0;
+  const tail = [...remote.slice(prefix), ...localOnly]
+    .sort(compareRecords)
+    .map((event, index) => ({ ...event, version: baseVersion + index + 1 }));
+  return JSON.stringify([...remote.slice(0, prefix), ...tail]);
+}
+
+function defaultCreateChannel(): ((name: string) => MessageChannelLike) | null {
+  return typeof BroadcastChannel === 'function' ? (name) => new BroadcastChannel(name) : null;
+}
+
+function isChangeMessage(value: unknown): value is EventStorageChangeMessage {
+  const maybe = value as Partial<EventStorageChangeMessage> | null;
+  return Boolean(maybe && typeof maybe.key === 'string' && (typeof maybe.value === 'string' || maybe.value === null));
+}
+
+// Reports event storage keys other tabs changed. localStorage raises storage events on its own; cached backends
+// keep a copy per tab, so their writes travel over a BroadcastChannel and are merged into this tab's copy.
+export function startEventStorageSync(onChange: (key: string) => void, options: EventStorageSyncOptions = {}): () => void {
+  const target = options.target ?? window;
+  const createChannel = options.createChannel === undefined ? defaultCreateChannel() : options.createChannel;
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key?.startsWith(EVENT_STORAGE_KEY_PREFIX) && event.storageArea === getEventStorage()) {
+      onChange(event.key);
+    }
+  };
+  target.addEventListener('storage', onStorage);
+
+  const channel = createChannel?.(EVENT_STORAGE_CHANNEL_NAME) ?? null;
+  const unsubscribeWrites = channel
+    ? subscribeEventStorageWrites((key, value) => channel.postMessage({ key, value }))
+    : () => {};
+  if (channel) {
+    channel.onmessage = (event) => {
+      const storage = getEventStorage();
+      if (!isChangeMessage(event.data) || !isCachedEventStorage(storage)) {
+        return;
+      }
+      const { key, value } = event.data;
+      const merged = value === null ? null : mergeEventStreamValues(storage.getItem(key), value);
+      storage.applyRemote(key, value);
+      if (merged !== value && merged !== null) {
+        storage.setItem(key, merged);
+        // Renumbering can move events across a snapshot, so the next load folds the stream instead.
+        storage.removeItem(key.replace('.stream.', '.snapshot.'));
+      }
+      onChange(key);
+    };
+  }
+
+  return () => {
+    target.removeEventListener('storage', onStorage);
+    unsubscribeWrites();
+    channel?.close();
+  };
+}
@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadProjectIndex } from '../projectLibrary';
+import { getEventStorage, setEventStorage } from './eventStorage';
+import {
+  createFileSystemEventStorageAdapter,
+  eventStorageFileName,
+  eventStorageKeyFromFileName,
+  openEventStorageFolder,
+  type EventStorageDirectoryHandle
+} from './fileSystemEventStorage';
+
+function createMemoryDirectory(initial: Record<string, string> = {}) {
+  const files = new Map(Object.entries(initial));
+  const directory: EventStorageDirectoryHandle = {
+    name: 'project',
+    values: async function* () {
+      yield { kind: 'directory' as const, name: '.git' };
+      for (const name of [...files.keys()]) {
+        yield { kind: 'file' as const, name };
+      }
+    },
+    getFileHandle: async (name, options) => {
+      if (!files.has(name) && !options?.create) {
+        throw new Error(`Missing ${name}`);
+      }
+      return {
+        getFile: async () => ({ text: async () => files.get(name) ?? '' }),
+        createWritable: async () => {
+          let text = '';
+          return {
+            write: async (data: string) => {
+              text += data;
+            },
+            close: async () => {
+              files.set(name, text);
+            }
+          };
+        }
+      };
+    },
+    removeEntry: async (name) => {
+      files.delete(name);
+    }
+  };
+  return { directory, files };
+}
+
+afterEach(() => {
+  setEventStorage(null);
+  localStorage.clear();
+});
+
+describe('fileSystemEventStorage', () => {
+  it('names one JSON file per stream and maps the names back to keys', () => {
+    expect(eventStorageFileName('slicr.es.v1.stream.app')).toBe('stream.app.json');
+    expect(eventStorageFileName('slicr.es.v1.snapshot.slice-a')).toBe('snapshot.slice-a.json');
+    expect(eventStorageKeyFromFileName('stream.slice-a.json')).toBe('slicr.es.v1.stream.slice-a');
+    expect(eventStorageKeyFromFileName('README.md')).toBeNull();
+    expect(eventStorageKeyFromFileName('.prettierrc.json')).toBeNull();
+  });
+
+  it('writes pretty-printed files and loads them back compact, skipping other files', async () => {
+    const { directory, files } = createMemoryDirectory({ 'notes.json': 'not json', 'README.md': '# Hotel' });
+    const adapter = createFileSystemEventStorageAdapter(directory);
+
+    await adapter.write('slicr.es.v1.stream.slice-a', '[{"version":1}]');
+
+    expect(files.get('stream.slice-a.json')).toBe('[\n  {\n    "version": 1\n  }\n]\n');
+    expect(await adapter.load()).toEqual({ 'slicr.es.v1.stream.slice-a': '[{"version":1}]' });
+
+    await adapter.remove('slicr.es.v1.stream.slice-a');
+    expect(files.has('stream.slice-a.json')).toBe(false);
+  });
+
+  it('seeds an empty folder with the current streams and then serves the project from it', async () => {
+    loadProjectIndex();
+    localStorage.setItem('slicr.theme', 'light');
+    const { directory, files } = createMemoryDirectory();
+
+    await openEventStorageFolder(directory, localStorage);
+
+    expect([...files.keys()]).toEqual(['stream.app.json']);
+    expect(getEventStorage()).not.toBe(localStorage);
+    expect(loadProjectIndex().projects.map((project) => project.name)).toEqual(['Default']);
+  });
+
+  it('opens a folder that already holds a project without copying the current one into it', async () => {
+    localStorage.setItem('slicr.es.v1.stream.slice-local', '[]');
+    const { directory, files } = createMemoryDirectory({ 'stream.slice-folder.json': '[]\n' });
+
+    const storage = await openEventStorageFolder(directory, localStorage);
+
+    expect(storage.getItem('slicr.es.v1.stream.slice-folder')).toBe('[]');
+    expect(storage.getItem('slicr.es.v1.stream.slice-local')).toBeNull();
+    expect([...files.keys()]).toEqual(['stream.slice-folder.json']);
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  EVENT_STORAGE_KEY_PREFIX,
+  installEventStorage,
+  readEventStorageEntries,
+  setEventStorage,
+  type CachedEventStorage,
+  type EventStorage,
+  type EventStorageAdapter
+} from './eventStorage';
+
+const FILE_EXTENSION = '.json';
+
+// The subset of the File System Access API the adapter needs, so tests can hand in an in-memory folder.
+export type EventStorageFileHandle = {
+  getFile: () => Promise<{ text: () => Promise<string> }>;
+  createWritable: () => Promise<{ write: (data: string) => Promise<void>; close: () => Promise<void> }>;
+};
+
+export type EventStorageDirectoryHandle = {
+  name: string;
+  values: () => AsyncIterable<{ kind: 'file' | 'directory'; name: string }>;
+  getFileHandle: (name: string, options?: { create?: boolean }) => Promise<EventStorageFileHandle>;
+  removeEntry: (name: string) => Promise<void>;
+};
+
+type DirectoryPicker = (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<EventStorageDirectoryHandle>;
+
+// `slicr.es.v1.stream.<sliceId>` is stored as `stream.<sliceId>.json`, one file per stream or snapshot.
+export function eventStorageFileName(key: string): string {
+  const name = key.startsWith(EVENT_STORAGE_KEY_PREFIX) ? key.slice(EVENT_STORAGE_KEY_PREFIX.length) : key;
+  return `${encodeURIComponent(name)}${FILE_EXTENSION}`;
+}
+
+export function eventStorageKeyFromFileName(fileName: string): string | null {
+  if (!fileName.endsWith(FILE_EXTENSION) || fileName.startsWith('.')) {
+    return null;
+  }
+  try {
+    const name = decodeURIComponent(fileName.slice(0, -FILE_EXTENSION.length));
+    return name.startsWith('slicr.') ? name : `${EVENT_STORAGE_KEY_PREFIX}${name}`;
+  } catch {
+    return null;
+  }
+}
+
+// Files are pretty-printed so streams diff line by line under git; the cache keeps the compact form.
+function toFileText(value: string): string {
+  try {
+    return `${JSON.stringify(JSON.parse(value), null, 2)}\n`;
+  } catch {
+    return value;
+  }
+}
+
+export function createFileSystemEventStorageAdapter(directory: EventStorageDirectoryHandle): EventStorageAdapter {
+  return {
+    load: async () => {
+      const entries: Record<string, string> = {};
+      for await (const entry of directory.values()) {
+        const key = entry.kind === 'file' ? eventStorageKeyFromFileName(entry.name) : null;
+        if (!key) {
+          continue;
+        }
+        try {
+          const text = await (await (await directory.getFileHandle(entry.name)).getFile()).text();
+          entries[key] = JSON.stringify(JSON.parse(text));
+        } catch {
+          // Skip files that are not readable JSON.
+        }
+      }
+      return entries;
+    },
+    write: async (key, value) => {
+      const writable = await (await directory.getFileHandle(eventStorageFileName(key), { create: true })).createWritable();
+      await writable.write(toFileText(value));
+      await writable.close();
+    },
+    remove: async (key) => {
+      try {
+        await directory.removeEntry(eventStorageFileName(key));
+      } catch {
+        // The file is already gone.
+      }
+    }
+  };
+}
+
+export function canOpenProjectFolder(): boolean {
+  return typeof (globalThis as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker === 'function';
+}
+
+// An empty folder is seeded with the current streams, so opening a fresh git checkout keeps the open projects.
+export async function openEventStorageFolder(
+  directory: EventStorageDirectoryHandle,
+  previous: EventStorage
+): Promise<CachedEventStorage> {
+  const seed = readEventStorageEntries(previous);
+  const storage = await installEventStorage(createFileSystemEventStorageAdapter(directory));
+  if (storage.length === 0) {
+    for (const [key, value] of Object.entries(seed)) {
+      storage.setItem(key, value);
+    }
+    try {
+      await storage.flush();
+    } catch (error) {
+      setEventStorage(previous);
+      throw error;
+    }
+  }
+  return storage;
+}
+
+// Folder access cannot be restored without a user gesture, so the folder is picked again in each session.
+export async function pickEventStorageFolder(): Promise<EventStorageDirectoryHandle | null> {
+  const picker = (globalThis as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+  if (!picker) {
+    return null;
+  }
+  try {
+    return await picker({ id: 'slicr-project', mode: 'readwrite' });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      // The user dismissed the picker.
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadSliceLibrary } from '../sliceLibrary';
+import { installEventStorage, setEventStorage } from './eventStorage';
+import { createIndexedDbEventStorageAdapter } from './indexedDbEventStorage';
+
+type FakeRequest = { result?: unknown; error: null; onsuccess?: () => void; onerror?: () => void; onupgradeneeded?: () => void };
+
+// Just enough of IndexedDB for the adapter: one database holding key/value object stores.
+function createFakeIndexedDb() {
+  const stores = new Map<string, Map<string, unknown>>();
+  let upgraded = false;
+
+  const settle = <T,>(request: FakeRequest, result: () => T) => {
+    request.result = result();
+    setTimeout(() => request.onsuccess?.(), 0);
+    return request;
+  };
+
+  const database = {
+    createObjectStore: (name: string) => {
+      stores.set(name, new Map());
+    },
+    transaction: () => {
+      const transaction = {
+        error: null,
+        oncomplete: undefined as (() => void) | undefined,
+        objectStore: (name: string) => {
+          const store = stores.get(name)!;
+          return {
+            get: (key: string) => settle({ error: null }, () => store.get(key)),
+            getAllKeys: () => settle({ error: null }, () => [...store.keys()]),
+            getAll: () => settle({ error: null }, () => [...store.values()]),
+            put: (value: unknown, key: string) => settle({ error: null }, () => store.set(key, value)),
+            delete: (key: string) => settle({ error: null }, () => store.delete(key))
+          };
+        }
+      };
+      setTimeout(() => transaction.oncomplete?.(), 0);
+      return transaction;
+    }
+  };
+
+  const factory = {
+    open: () => {
+      const request: FakeRequest = { error: null, result: database };
+      setTimeout(() => {
+        if (!upgraded) {
+          upgraded = true;
+          request.onupgradeneeded?.();
+        }
+        request.onsuccess?.();
+      }, 0);
+      return request;
+    }
+  } as unknown as IDBFactory;
+
+  return { factory, stores };
+}
+
+afterEach(() => {
+  setEventStorage(null);
+  localStorage.clear();
+});
+
+describe('indexedDbEventStorage', () => {
+  it('copies existing event streams from localStorage on first run and keeps them there', async () => {
+    localStorage.setItem('slicr.es.v1.stream.app', '[{"type":"project-created"}]');
+    localStorage.setItem('slicr.es.v1.stream.slice-a', '[]');
+    localStorage.setItem('slicr.theme', 'light');
+    const { factory, stores } = createFakeIndexedDb();
+
+    const entries = await createIndexedDbEventStorageAdapter({ factory }).load();
+
+    expect(entries).toEqual({
+      'slicr.es.v1.stream.app': '[{"type":"project-created"}]',
+      'slicr.es.v1.stream.slice-a': '[]'
+    });
+    expect(Object.fromEntries(stores.get('entries') ?? [])).toEqual(entries);
+    expect(localStorage.getItem('slicr.es.v1.stream.app')).toBe('[{"type":"project-created"}]');
+    expect(localStorage.getItem('slicr.es.v1.stream.slice-a')).toBe('[]');
+  });
+
+  it('copies the legacy library and project index keys the stores still read', async () => {
+    localStorage.setItem('slicr.dsl', 'slice "Legacy"\n\ncmd:legacy');
+    localStorage.setItem('slicr.sliceLayout', '{}');
+    localStorage.setItem('slicr.es.v2.projects.index', '{"projects":[]}');
+    localStorage.setItem('slicr.es.v2.project.p1.index', '{"slices":[]}');
+    localStorage.setItem('slicr.theme', 'light');
+    const { factory } = createFakeIndexedDb();
+
+    const storage = await installEventStorage(createIndexedDbEventStorageAdapter({ factory }));
+
+    expect(storage.getItem('slicr.es.v2.projects.index')).toBe('{"projects":[]}');
+    expect(loadSliceLibrary().slices.map((slice) => slice.dsl)).toEqual(['slice "Legacy"\n\ncmd:legacy']);
+    expect(localStorage.getItem('slicr.dsl')).toBe('slice "Legacy"\n\ncmd:legacy');
+  });
+
+  it('reads the database on later runs and leaves localStorage alone', async () => {
+    const { factory } = createFakeIndexedDb();
+    const adapter = createIndexedDbEventStorageAdapter({ factory });
+    await adapter.load();
+    await adapter.write('slicr.es.v1.stream.slice-b', '[1]');
+    localStorage.setItem('slicr.es.v1.stream.stale', '[]');
+
+    const entries = await createIndexedDbEventStorageAdapter({ factory }).load();
+
+    expect(entries).toEqual({ 'slicr.es.v1.stream.slice-b': '[1]' });
+    expect(localStorage.getItem('slicr.es.v1.stream.stale')).toBe('[]');
+
+    await adapter.remove('slicr.es.v1.stream.slice-b');
+    expect(await adapter.load()).toEqual({});
+  });
+});
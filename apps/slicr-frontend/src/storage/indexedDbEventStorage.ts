@@ -0,0 +1,99 @@
+import { readEventStorageEntries, type EventStorage, type EventStorageAdapter } from './eventStorage';
+
+export const EVENT_DATABASE_NAME = 'slicr';
+const ENTRY_STORE_NAME = 'entries';
+const META_STORE_NAME = 'meta';
+const MIGRATED_META_KEY = 'localStorageMigrated';
+
+type IndexedDbEventStorageOptions = {
+  factory?: IDBFactory;
+  databaseName?: string;
+  legacyStorage?: EventStorage | null;
+};
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(factory: IDBFactory, databaseName: string): Promise<IDBDatabase> {
+  const request = factory.open(databaseName, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(ENTRY_STORE_NAME);
+    request.result.createObjectStore(META_STORE_NAME);
+  };
+  return requestResult(request);
+}
+
+function defaultLegacyStorage(): EventStorage | null {
+  try {
+    return globalThis.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+export function createIndexedDbEventStorageAdapter(options: IndexedDbEventStorageOptions = {}): EventStorageAdapter {
+  const factory = options.factory ?? globalThis.indexedDB;
+  const databaseName = options.databaseName ?? EVENT_DATABASE_NAME;
+  const legacyStorage = options.legacyStorage === undefined ? defaultLegacyStorage() : options.legacyStorage;
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    database ??= openDatabase(factory, databaseName);
+    return database;
+  };
+
+  // On first run the streams localStorage holds are copied over in the same transaction that marks the copy done.
+  // localStorage keeps them, so switching the backend flag back still finds the data as it was before the copy.
+  const migrateLegacyEntries = async () => {
+    const db = await getDatabase();
+    const migrated = await requestResult(db.transaction(META_STORE_NAME, 'readonly').objectStore(META_STORE_NAME).get(MIGRATED_META_KEY));
+    if (migrated) {
+      return;
+    }
+    const entries = legacyStorage ? readEventStorageEntries(legacyStorage) : {};
+    const transaction = db.transaction([ENTRY_STORE_NAME, META_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(ENTRY_STORE_NAME);
+    for (const [key, value] of Object.entries(entries)) {
+      store.put(value, key);
+    }
+    transaction.objectStore(META_STORE_NAME).put(new Date().toISOString(), MIGRATED_META_KEY);
+    await transactionDone(transaction);
+  };
+
+  return {
+    load: async () => {
+      await migrateLegacyEntries();
+      const transaction = (await getDatabase()).transaction(ENTRY_STORE_NAME, 'readonly');
+      const store = transaction.objectStore(ENTRY_STORE_NAME);
+      const [keys, values] = await Promise.all([requestResult(store.getAllKeys()), requestResult(store.getAll())]);
+      const entries: Record<string, string> = {};
+      keys.forEach((key, index) => {
+        if (typeof key === 'string' && typeof values[index] === 'string') {
+          entries[key] = values[index];
+        }
+      });
+      return entries;
+    },
+    write: async (key, value) => {
+      const transaction = (await getDatabase()).transaction(ENTRY_STORE_NAME, 'readwrite');
+      transaction.objectStore(ENTRY_STORE_NAME).put(value, key);
+      await transactionDone(transaction);
+    },
+    remove: async (key) => {
+      const transaction = (await getDatabase()).transaction(ENTRY_STORE_NAME, 'readwrite');
+      transaction.objectStore(ENTRY_STORE_NAME).delete(key);
+      await transactionDone(transaction);
+    }
+  };
+}
@@ -3,14 +3,27 @@ import type { AppShellProps } from '../application/appViewModel';
 import { AppHeader } from './app-shell/AppHeader';
 import { CommandPalette } from './app-shell/CommandPalette';
 import { DiagramCanvas } from './app-shell/DiagramCanvas';
+import { HistoryPanel } from './app-shell/HistoryPanel';
+import { ProblemsPanel } from './app-shell/ProblemsPanel';
+import { ModelRulesDialog } from './app-shell/ModelRulesDialog';
 import { NodeAnalysisPanel } from './app-shell/NodeAnalysisPanel';
 import { NodeMeasureLayer } from './app-shell/NodeMeasureLayer';
 import { ProjectRail } from './app-shell/ProjectRail';
 import { ScenarioGroupMeasureLayer } from './app-shell/ScenarioGroupMeasureLayer';
 import { AddNodeDialog } from './app-shell/AddNodeDialog';
 import { ImportNodeDialog } from './app-shell/ImportNodeDialog';
+import { RenameNodeDialog } from './app-shell/RenameNodeDialog';
 import { CompactEventsDialog } from './app-shell/CompactEventsDialog';
+import { SliceConflictNotice } from './app-shell/SliceConflictNotice';
+import { StorageWriteNotice } from './app-shell/StorageWriteNotice';
+import { CollabSessionDialog } from './app-shell/CollabSessionDialog';
+import { CollabSessionStatus } from './app-shell/CollabSessionStatus';
 import { CreateSliceTemplateDialog } from './app-shell/CreateSliceTemplateDialog';
+import { ExportBundleDialog } from './app-shell/ExportBundleDialog';
+import { ImportBundleDialog } from './app-shell/ImportBundleDialog';
+import { CodeStubsDialog } from './app-shell/CodeStubsDialog';
+import { ScenarioTestsDialog } from './app-shell/ScenarioTestsDialog';
+import { ExportDiagramImageDialog } from './app-shell/ExportDiagramImageDialog';
 import { AnalysisProvider } from './app-shell/contexts/AnalysisContext';
 import { DiagramInteractionProvider } from './app-shell/contexts/DiagramInteractionContext';
 import { HeaderUiProvider } from './app-shell/contexts/HeaderUiContext';
@@ -24,7 +37,10 @@ export function AppShell(props: AppShellProps) {
     errorText,
     collapseAllDataRegions,
     collapseAllRegions,
-    expandAllRegions
+    expandAllRegions,
+    formatDocument,
+    formatOnSave,
+    toggleFormatOnSave
   } = editor;
   const overviewActive = header.diagramMode === 'overview';
 
@@ -62,6 +78,19 @@ export function AppShell(props: AppShellProps) {
               </svg>
               all
             </button>
+            <button type="button" className="panel-action" onClick={formatDocument} aria-label="Format document" title="Format document (Shift+Alt+F)">
+              format
+            </button>
+            <button
+              type="button"
+              className="panel-action"
+              onClick={toggleFormatOnSave}
+              aria-label="Format on save"
+              aria-pressed={formatOnSave}
+              title="Format on save (Ctrl/Cmd+S)"
+            >
+              on save
+            </button>
           </div>
           <div ref={editorMountRef} className="dsl-editor" />
           {errorText && <div className="error-bar">{errorText}</div>}
@@ -82,12 +111,17 @@ export function AppShell(props: AppShellProps) {
               canvasPanelRef: diagram.canvasPanelRef,
               beginCanvasPan: diagram.beginCanvasPan,
               beginNodeDrag: diagram.beginNodeDrag,
-              beginEdgeSegmentDrag: diagram.beginEdgeSegmentDrag
+              beginEdgeSegmentDrag: diagram.beginEdgeSegmentDrag,
+              marquee: diagram.marquee,
+              beginMarqueeSelection: diagram.beginMarqueeSelection,
+              remotePresence: diagram.remotePresence,
+              onWorldPointerMove: diagram.onWorldPointerMove
             },
             docsOpen: auxPanels.docsOpen,
             actions: {
               onNodeHoverRange: actions.onNodeHoverRange,
               onNodeSelect: actions.onNodeSelect,
+              onNodeToggleSelect: actions.onNodeToggleSelect,
               onNodeOpenInEditor: actions.onNodeOpenInEditor,
               onEdgeHover: actions.onEdgeHover,
               onToggleOverviewNodeDataVisibility: actions.onToggleOverviewNodeDataVisibility
@@ -118,11 +152,60 @@ export function AppShell(props: AppShellProps) {
         >
           <NodeAnalysisPanel />
         </AnalysisProvider>
+        {auxPanels.historyPanelOpen && diagram.diagramMode === 'slice' && (
+          <HistoryPanel
+            events={auxPanels.sliceHistoryEvents}
+            previewVersion={auxPanels.historyPreviewVersion}
+            onPreview={actions.onPreviewSliceVersion}
+            onRestore={actions.onRestoreSliceVersion}
+            onClose={actions.onCloseHistoryPanel}
+          />
+        )}
+        {auxPanels.problemsPanelOpen && (
+          <ProblemsPanel
+            groups={auxPanels.projectProblemGroups}
+            selectedSliceId={analysisPanel.selectedSliceId}
+            onJump={actions.onJumpToProblem}
+            onConfigureRules={actions.onOpenModelRulesDialog}
+            onClose={actions.onCloseProblemsPanel}
+          />
+        )}
+        {auxPanels.modelRulesDialogOpen && (
+          <ModelRulesDialog
+            settings={auxPanels.modelLintSettings}
+            onChange={actions.onSetModelLintRuleLevel}
+            onClose={actions.onCloseModelRulesDialog}
+          />
+        )}
 
-        <CommandPalette auxPanels={auxPanels} actions={actions} header={header} />
-        {auxPanels.compactEventsSummary ? (
-          <div className="compact-events-summary" role="status">{auxPanels.compactEventsSummary}</div>
+        <CommandPalette auxPanels={auxPanels} actions={actions} header={header} selectedNodeKeys={diagram.selectedNodeKeys} />
+        {auxPanels.statusMessage ? (
+          <div className="app-status-message" role="status">{auxPanels.statusMessage}</div>
         ) : null}
+        {auxPanels.sliceConflict ? (
+          <SliceConflictNotice
+            conflict={auxPanels.sliceConflict}
+            selectedSliceId={analysisPanel.selectedSliceId}
+            onRestore={(version) => {
+              actions.onRestoreSliceVersion(version);
+              actions.onDismissSliceConflict();
+            }}
+            onDismiss={actions.onDismissSliceConflict}
+          />
+        ) : null}
+        {auxPanels.storageWriteError ? (
+          <StorageWriteNotice error={auxPanels.storageWriteError} onDismiss={actions.onDismissStorageWriteError} />
+        ) : null}
+        {auxPanels.collabSession ? (
+          <CollabSessionStatus session={auxPanels.collabSession} onLeave={actions.onLeaveCollabSession} />
+        ) : null}
+        {auxPanels.collabDialogOpen && (
+          <CollabSessionDialog
+            sliceName={header.currentSliceName}
+            onCancel={actions.onCloseCollabDialog}
+            onJoin={actions.onJoinCollabSession}
+          />
+        )}
         {auxPanels.addNodeDialogOpen && (
           <AddNodeDialog
             parsed={diagram.parsed}
@@ -138,6 +221,15 @@ export function AppShell(props: AppShellProps) {
             onSubmit={actions.onCreateImportedNodeFromDialog}
           />
         )}
+        {auxPanels.renameNodeDialogOpen && (
+          <RenameNodeDialog
+            parsed={diagram.parsed}
+            slices={header.library.slices}
+            initialNodeKey={analysisPanel.selectedNode?.key ?? null}
+            onCancel={actions.onCloseRenameNodeDialog}
+            onRename={actions.onRenameNode}
+          />
+        )}
         {auxPanels.createSliceTemplateDialogOpen && (
           <CreateSliceTemplateDialog
             parsedSliceProjectionList={diagram.parsedSliceProjectionList}
@@ -152,6 +244,44 @@ export function AppShell(props: AppShellProps) {
             onCompact={actions.onRunEventCompaction}
           />
         )}
+        {auxPanels.exportBundleDialogOpen && (
+          <ExportBundleDialog
+            projectName={header.currentProjectName}
+            onCancel={actions.onCloseExportBundleDialog}
+            onExport={actions.onExportProjectBundle}
+          />
+        )}
+        {auxPanels.importBundleDialogOpen && (
+          <ImportBundleDialog
+            onCancel={actions.onCloseImportBundleDialog}
+            onImport={actions.onImportProjectBundle}
+          />
+        )}
+        {auxPanels.codeStubsDialogOpen && (
+          <CodeStubsDialog
+            parsed={diagram.parsed}
+            dsl={diagram.currentDsl}
+            onCancel={actions.onCloseCodeStubsDialog}
+          />
+        )}
+        {auxPanels.scenarioTestsDialogOpen && (
+          <ScenarioTestsDialog
+            parsed={diagram.parsed}
+            parsedSliceProjectionList={diagram.parsedSliceProjectionList}
+            projectName={header.currentProjectName}
+            onCancel={actions.onCloseScenarioTestsDialog}
+          />
+        )}
+        {auxPanels.exportImageDialogOpen && (
+          <ExportDiagramImageDialog
+            sceneModel={diagram.sceneModel}
+            diagramMode={diagram.diagramMode}
+            theme={header.theme}
+            name={overviewActive ? header.currentProjectName : diagram.parsed?.sliceName ?? ''}
+            hideData={overviewActive && diagram.overviewNodeDataVisible === false}
+            onCancel={actions.onCloseExportImageDialog}
+          />
+        )}
 
         {(auxPanels.hasOpenedDocs || auxPanels.docsOpen) && (
           <div className={`docs-panel-shell ${auxPanels.docsOpen ? '' : 'hidden'}`} aria-hidden={!auxPanels.docsOpen}>
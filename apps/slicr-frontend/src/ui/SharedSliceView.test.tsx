@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+
+import { act } from 'react';
+import ReactDOM from 'react-dom/client';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { appendProjectCreatedEvent, loadProjectIndex } from '../projectLibrary';
+import { loadSliceLibrary, saveSliceLibrary } from '../sliceLibrary';
+import { createSliceShareFragment } from '../sliceShareLink';
+import { SharedSliceView } from './SharedSliceView';
+
+let root: ReactDOM.Root | null = null;
+
+const SHARED_DSL = 'slice "Book Room"\n\ncmd:book-room -> evt:room-booked\n';
+
+async function renderView(fragment: string, onOpenApp = vi.fn()) {
+  const host = document.createElement('div');
+  document.body.appendChild(host);
+  root = ReactDOM.createRoot(host);
+  await act(async () => {
+    root?.render(<SharedSliceView fragment={fragment} onOpenApp={onOpenApp} />);
+  });
+  await act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+  return onOpenApp;
+}
+
+afterEach(() => {
+  if (root) {
+    act(() => {
+      root?.unmount();
+    });
+  }
+  root = null;
+  document.body.innerHTML = '';
+  localStorage.clear();
+});
+
+describe('SharedSliceView', () => {
+  it('shows a shared slice read-only without writing project storage', async () => {
+    const fragment = await createSliceShareFragment({ dsl: SHARED_DSL, manualNodePositions: {}, manualEdgePoints: {} });
+
+    await renderView(fragment);
+
+    expect(document.querySelector('.shared-slice__title')?.textContent).toBe('Book Room');
+    expect(document.querySelector('.shared-slice__dsl .cm-content')?.textContent).toContain('cmd:book-room -> evt:room-booked');
+    expect(document.querySelector('.shared-slice__dsl .cm-content')?.getAttribute('contenteditable')).toBe('false');
+    expect(Object.keys(localStorage).filter((key) => !key.startsWith('slicr.flag.'))).toEqual([]);
+  });
+
+  it('imports the slice into the chosen project and opens the app', async () => {
+    loadProjectIndex();
+    appendProjectCreatedEvent('p-1', 'Hotel');
+    saveSliceLibrary({ selectedSliceId: 'slice-a', slices: [{ id: 'slice-a', dsl: 'slice "Existing"\n' }] }, 'p-1');
+    const fragment = await createSliceShareFragment({ dsl: SHARED_DSL, manualNodePositions: {}, manualEdgePoints: {} });
+    const onOpenApp = await renderView(fragment);
+
+    act(() => {
+      [...document.querySelectorAll<HTMLButtonElement>('.shared-slice__actions button')]
+        .find((button) => button.textContent === 'Import into project...')
+        ?.click();
+    });
+    const select = document.querySelector<HTMLSelectElement>('.shared-slice__import select');
+    expect([...(select?.options ?? [])].map((option) => option.textContent)).toContain('Hotel');
+    act(() => {
+      select!.value = 'p-1';
+      select!.dispatchEvent(new Event('change', { bubbles: true }));
+    });
+    act(() => {
+      document.querySelector<HTMLButtonElement>('.shared-slice__import button[type="submit"]')?.click();
+    });
+
+    expect(onOpenApp).toHaveBeenCalledTimes(1);
+    expect(loadSliceLibrary(undefined, 'p-1').slices.map((slice) => slice.dsl)).toEqual(['slice "Existing"\n', SHARED_DSL]);
+  });
+
+  it('explains links that cannot be read', async () => {
+    await renderView('#share=broken');
+
+    expect(document.querySelector('.shared-slice__status[role="alert"] p')?.textContent).toBe('The shared link is damaged or incomplete.');
+  });
+});
@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { NODE_VERSION_SUFFIX, TYPE_LABEL } from '../application/appConstants';
+import { useDiagramViewState } from '../application/hooks/useDiagramViewState';
+import { getDiagramRenderer } from '../diagram/rendererRegistry';
+import { parseDsl } from '../domain/parseDsl';
+import { getDiagramEngineId, getDiagramRendererId } from '../domain/runtimeFlags';
+import { NODE_MEASURE_NODE_CLASS } from '../nodeMeasurement';
+import { loadProjectIndex, type Project } from '../projectLibrary';
+import { ReadOnlyDslEditor } from '../ReadOnlyDslEditor';
+import type { SliceProjection } from '../sliceEventStore';
+import { importSharedSlice, parseSliceShareFragment, type SliceShareParseResult } from '../sliceShareLink';
+import { DiagramCanvas } from './app-shell/DiagramCanvas';
+import { DiagramInteractionProvider } from './app-shell/contexts/DiagramInteractionContext';
+import { NodeMeasureLayer } from './app-shell/NodeMeasureLayer';
+import { ScenarioGroupMeasureLayer } from './app-shell/ScenarioGroupMeasureLayer';
+
+const SHARED_SLICE_ID = 'shared';
+const NO_NODE_KEYS: string[] = [];
+const noop = () => {};
+
+type SharedSliceViewProps = {
+  fragment: string;
+  onOpenApp: () => void;
+};
+
+function SharedSliceImport({ share, onImported }: { share: SliceProjection; onImported: () => void }) {
+  // The project index is only read once the visitor asks to import, so just viewing a link leaves storage alone.
+  const [projects, setProjects] = useState<Project[] | null>(null);
+  const [projectId, setProjectId] = useState('');
+
+  if (!projects) {
+    return (
+      <button
+        type="button"
+        className="panel-action"
+        onClick={() => {
+          const index = loadProjectIndex();
+          setProjects(index.projects);
+          setProjectId(index.selectedProjectId);
+        }}
+      >
+        Import into project...
+      </button>
+    );
+  }
+
+  return (
+    <form
+      className="shared-slice__import"
+      onSubmit={(event) => {
+        event.preventDefault();
+        importSharedSlice(share, projectId);
+        onImported();
+      }}
+    >
+      <label>
+        <span className="sr-only">Target project</span>
+        <select value={projectId} onChange={(event) => setProjectId(event.target.value)}>
+          {projects.map((project) => (
+            <option key={project.id} value={project.id}>{project.name}</option>
+          ))}
+        </select>
+      </label>
+      <button type="submit" className="panel-action">Import</button>
+    </form>
+  );
+}
+
+function SharedSlice({ share, onOpenApp }: { share: SliceProjection; onOpenApp: () => void }) {
+  const parsed = useMemo(() => parseDsl(share.dsl), [share.dsl]);
+  const [diagramRendererId] = useState(() => getDiagramRendererId(window.location.hostname));
+  const [diagramEngineId] = useState(() => getDiagramEngineId());
+  const [manualNodePositions, setManualNodePositions] = useState(share.manualNodePositions);
+  const [manualEdgePoints, setManualEdgePoints] = useState(share.manualEdgePoints);
+  const pendingFocusNodeKeyRef = useRef<string | null>(null);
+  const DiagramRenderer = useMemo(() => getDiagramRenderer(diagramRendererId), [diagramRendererId]);
+  const theme = document.documentElement.dataset.theme === 'light' ? 'light' : 'dark';
+
+  const diagram = useDiagramViewState({
+    diagramMode: 'slice',
+    overviewNodeDataVisible: true,
+    parsed,
+    parsedSliceProjectionList: [],
+    currentDsl: share.dsl,
+    theme,
+    diagramRendererId,
+    diagramEngineId,
+    selectedSliceId: SHARED_SLICE_ID,
+    dragAndDropEnabled: false,
+    manualNodePositions,
+    manualEdgePoints,
+    setManualNodePositions,
+    setManualEdgePoints,
+    hoveredEditorRange: null,
+    selectedNodeKey: null,
+    selectedNodeKeys: NO_NODE_KEYS,
+    onMarqueeSelect: noop,
+    hoveredEdgeKey: null,
+    hoveredTraceNodeKey: null,
+    focusRequestVersion: 0,
+    pendingFocusNodeKeyRef,
+    fallbackOverviewSceneModel: null
+  });
+
+  return (
+    <>
+      <header className="shared-slice__header">
+        <h1>Slicer</h1>
+        <span className="shared-slice__title">{parsed.sliceName}</span>
+        <span className="shared-slice__badge">Read-only</span>
+        <div className="shared-slice__actions">
+          <SharedSliceImport share={share} onImported={onOpenApp} />
+          <button type="button" className="panel-action" onClick={onOpenApp}>Open my projects</button>
+        </div>
+      </header>
+
+      <div className="main" data-layout-ready={diagram.layoutReady ? 'true' : 'false'} data-diagram-mode="slice">
+        <div className="editor-panel open shared-slice__dsl">
+          <ReadOnlyDslEditor className="doc-dsl" value={share.dsl} copyAriaLabel="Copy shared DSL" />
+        </div>
+
+        <DiagramInteractionProvider
+          value={{
+            diagram: {
+              diagramMode: 'slice',
+              DiagramRenderer,
+              rendererViewportKey: `${diagramRendererId}:${SHARED_SLICE_ID}`,
+              sceneModel: diagram.sceneModel,
+              overviewNodeDataVisible: true,
+              initialCamera: diagram.initialCamera,
+              dragTooltip: diagram.dragTooltip,
+              dragAndDropEnabled: false,
+              isPanning: diagram.isPanning,
+              canvasPanelRef: diagram.canvasPanelRef,
+              beginCanvasPan: diagram.beginCanvasPan,
+              beginNodeDrag: diagram.beginNodeDrag,
+              beginEdgeSegmentDrag: diagram.beginEdgeSegmentDrag,
+              marquee: diagram.marquee,
+              beginMarqueeSelection: diagram.beginMarqueeSelection
+            },
+            docsOpen: false,
+            actions: {
+              onNodeHoverRange: noop,
+              onNodeSelect: noop,
+              onNodeToggleSelect: noop,
+              onNodeOpenInEditor: noop,
+              onEdgeHover: noop,
+              onToggleOverviewNodeDataVisibility: noop
+            }
+          }}
+        >
+          <DiagramCanvas />
+        </DiagramInteractionProvider>
+      </div>
+
+      <NodeMeasureLayer
+        diagram={{ parsed, diagramMode: 'slice', overviewNodeDataVisible: true }}
+        constants={{ TYPE_LABEL, NODE_VERSION_SUFFIX, NODE_MEASURE_NODE_CLASS }}
+      />
+      <ScenarioGroupMeasureLayer scenarioGroups={diagram.measurementScenarioGroups} overviewNodeDataVisible />
+    </>
+  );
+}
+
+export function SharedSliceView({ fragment, onOpenApp }: SharedSliceViewProps) {
+  const [result, setResult] = useState<SliceShareParseResult | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    void parseSliceShareFragment(fragment).then((next) => {
+      if (active) {
+        setResult(next);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [fragment]);
+
+  if (!result) {
+    return <div className="shared-slice__status" role="status">Opening shared slice...</div>;
+  }
+  if (result.error !== null) {
+    return (
+      <div className="shared-slice__status" role="alert">
+        <p>{result.error}</p>
+        <button type="button" className="panel-action" onClick={onOpenApp}>Open my projects</button>
+      </div>
+    );
+  }
+  return <SharedSlice share={result.share} onOpenApp={onOpenApp} />;
+}
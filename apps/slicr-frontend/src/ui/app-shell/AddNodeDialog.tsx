@@ -29,6 +29,7 @@ const TYPE_OPTIONS: TypeOption[] = [
   { value: 'read-model', colorClass: 'type-read-model' },
   { value: 'ui', colorClass: 'type-ui' },
   { value: 'command', colorClass: 'type-command' },
+  { value: 'query', colorClass: 'type-query' },
   { value: 'exception', colorClass: 'type-exception' },
   { value: 'automation', colorClass: 'type-automation' },
   { value: 'external', colorClass: 'type-external' }
@@ -50,7 +51,7 @@ function syntaxHighlightDsl(dsl: string): string {
     .replace(/>/g, '&gt;');
   return escaped
     .replace(/"([^"\n]+)"/g, '<span class="dsl-string">"$1"</span>')
-    .replace(/\b(rm|ui|cmd|evt|exc|aut|ext):([a-zA-Z0-9_#@.-]+)\b/g, '<span class="dsl-ref">$1:$2</span>')
+    .replace(/\b(rm|ui|cmd|qry|evt|exc|aut|ext):([a-zA-Z0-9_#@.-]+)\b/g, '<span class="dsl-ref">$1:$2</span>')
     .replace(/(&lt;-|-&gt;)/g, '<span class="dsl-keyword">$1</span>')
     .replace(/\b(uses|data|collect)\b/g, '<span class="dsl-keyword">$1</span>');
 }
@@ -88,10 +89,11 @@ export function AddNodeDialog({ parsed, onCancel, onSubmit }: AddNodeDialogProps
         : typeInput === 'event' ? 'evt'
           : typeInput === 'read-model' ? 'rm'
             : typeInput === 'command' ? 'cmd'
-              : typeInput === 'exception' ? 'exc'
-                : typeInput === 'automation' ? 'aut'
-                  : typeInput === 'external' ? 'ext'
-                    : 'ui';
+              : typeInput === 'query' ? 'qry'
+                : typeInput === 'exception' ? 'exc'
+                  : typeInput === 'automation' ? 'aut'
+                    : typeInput === 'external' ? 'ext'
+                      : 'ui';
     const trimmed = name.trim();
     if (!trimmed) return null;
     return prefix ? `${prefix}:${trimmed}` : trimmed;
@@ -1,4 +1,5 @@
 import type { ThemeMode } from '../../application/appViewModel';
+import { DIAGRAM_ENGINE_LABELS, type DiagramEngineId } from '../../domain/diagramEngine';
 import { useHeaderUiContext } from './contexts/HeaderUiContext';
 
 function themeLabel(theme: ThemeMode): string {
@@ -14,6 +15,7 @@ export function AppHeader() {
     theme,
     docsOpen,
     showDevDiagramControls,
+    diagramEngineId,
     hasManualLayoutOverrides,
     sliceMenuOpen,
     mobileMenuOpen,
@@ -56,6 +58,10 @@ export function AppHeader() {
           <div className="legend-dot" style={{ borderColor: 'var(--cmd-border)', background: 'var(--cmd-bg)' }} />
           <span style={{ color: 'var(--cmd)' }}>command</span>
         </div>
+        <div className="legend-item">
+          <div className="legend-dot" style={{ borderColor: 'var(--qry-border)', background: 'var(--qry-bg)' }} />
+          <span style={{ color: 'var(--qry)' }}>query</span>
+        </div>
         <div className="legend-item">
           <div className="legend-dot" style={{ borderColor: 'var(--evt-border)', background: 'var(--evt-bg)' }} />
           <span style={{ color: 'var(--evt)' }}>event</span>
@@ -212,6 +218,18 @@ export function AppHeader() {
       </div>
       {showDevDiagramControls && (
         <>
+          <select
+            className="route-toggle desktop-only"
+            aria-label="Diagram engine"
+            title="Layout engine used for the diagram"
+            value={diagramEngineId ?? ''}
+            onChange={(event) => actions.onSelectDiagramEngine((event.target.value || null) as DiagramEngineId | null)}
+          >
+            <option value="">Default engine</option>
+            {(Object.keys(DIAGRAM_ENGINE_LABELS) as DiagramEngineId[]).map((engineId) => (
+              <option key={engineId} value={engineId}>{DIAGRAM_ENGINE_LABELS[engineId]}</option>
+            ))}
+          </select>
           <button
             type="button"
             className={`route-toggle desktop-only ${hasManualLayoutOverrides ? 'has-manual-layout-overrides' : ''}`}
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+
+import { act } from 'react';
+import ReactDOM from 'react-dom/client';
+import { afterEach, describe, expect, it } from 'vitest';
+import { parseDsl } from '../../domain/parseDsl';
+import { CodeStubsDialog } from './CodeStubsDialog';
+
+let root: ReactDOM.Root | null = null;
+
+function renderDialog(dsl: string) {
+  const host = document.createElement('div');
+  document.body.appendChild(host);
+  root = ReactDOM.createRoot(host);
+  act(() => {
+    root?.render(<CodeStubsDialog parsed={parseDsl(dsl)} dsl={dsl} onCancel={() => undefined} />);
+  });
+}
+
+afterEach(() => {
+  if (root) {
+    act(() => {
+      root?.unmount();
+    });
+  }
+  root = null;
+  document.body.innerHTML = '';
+});
+
+describe('CodeStubsDialog', () => {
+  it('previews the selected generated file', () => {
+    renderDialog('slice "Booking"\n\ncmd:book-room\ndata:\n  room: 101\n\nevt:room-booked\n<- cmd:book-room');
+
+    const files = [...document.querySelectorAll('.code-stubs-dialog__file')].map((button) => button.textContent);
+    expect(files).toEqual(['BookRoom.java', 'BookRoomController.java', 'RoomBooked.java']);
+    expect(document.querySelector('.code-stubs-dialog__preview')?.textContent).toContain('public record BookRoom(');
+
+    act(() => {
+      (document.querySelectorAll('.code-stubs-dialog__file')[2] as HTMLButtonElement).click();
+    });
+    expect(document.querySelector('.code-stubs-dialog__preview')?.textContent).toContain('package com.example.booking.events;');
+  });
+
+  it('uses the base package from the input', () => {
+    renderDialog('slice "Booking"\n\nevt:room-booked');
+
+    const input = document.querySelector('#code-stubs-package') as HTMLInputElement;
+    act(() => {
+      const setValue = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set;
+      setValue?.call(input, 'org.hotel');
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+    });
+
+    expect(document.querySelector('.code-stubs-dialog__preview')?.textContent).toContain('package org.hotel.events;');
+  });
+
+  it('explains when there is nothing to generate', () => {
+    renderDialog('slice "Empty"\n\nnote');
+
+    expect(document.querySelector('.add-node-dialog__empty')?.textContent).toContain('no cmd, evt, rm or ui nodes');
+  });
+});
@@ -0,0 +1,115 @@
+import { useMemo, useState } from 'react';
+import { downloadFile } from '../../application/downloadFile';
+import { defaultBasePackage, DEFAULT_CODE_STUB_TARGET_ID, generateCodeStubs, listCodeStubTargets } from '../../codegen/codeStubTargets';
+import { toKebabCase } from '../../codegen/codeStubTarget';
+import { createZipArchive } from '../../codegen/zipArchive';
+import type { Parsed } from '../../domain/types';
+import { DialogFrame } from './dialogs/DialogFrame';
+
+type CodeStubsDialogProps = {
+  parsed: Parsed | null;
+  dsl: string;
+  onCancel: () => void;
+};
+
+function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+export function CodeStubsDialog({ parsed, dsl, onCancel }: CodeStubsDialogProps) {
+  const targets = listCodeStubTargets();
+  const [targetId, setTargetId] = useState(DEFAULT_CODE_STUB_TARGET_ID);
+  const [basePackage, setBasePackage] = useState(() => defaultBasePackage(parsed?.sliceName ?? ''));
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  const files = useMemo(
+    () => (parsed ? generateCodeStubs(parsed, dsl, { targetId, basePackage }) : []),
+    [basePackage, dsl, parsed, targetId]
+  );
+  const selectedFile = files.find((file) => file.path === selectedPath) ?? files[0] ?? null;
+
+  const downloadAll = () => {
+    if (files.length === 0) {
+      return;
+    }
+    downloadFile(`${toKebabCase(parsed?.sliceName ?? '')}-${targetId}.zip`, createZipArchive(files), 'application/zip');
+  };
+
+  return (
+    <DialogFrame
+      backdropClassName="add-node-dialog-backdrop"
+      panelClassName="add-node-dialog code-stubs-dialog"
+      ariaLabel="Generate code stubs"
+      onCancel={onCancel}
+      onSubmitShortcut={downloadAll}
+    >
+      <h2>Generate Code Stubs</h2>
+      <div className="code-stubs-dialog__options">
+        <div className="add-node-dialog__field">
+          <label htmlFor="code-stubs-target">Target</label>
+          <select
+            id="code-stubs-target"
+            className="add-node-dialog__input"
+            value={targetId}
+            onChange={(event) => setTargetId(event.target.value)}
+          >
+            {targets.map((target) => (
+              <option key={target.id} value={target.id}>{target.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="add-node-dialog__field">
+          <label htmlFor="code-stubs-package">Base package</label>
+          <input
+            id="code-stubs-package"
+            className="add-node-dialog__input"
+            value={basePackage}
+            onChange={(event) => setBasePackage(event.target.value)}
+          />
+        </div>
+      </div>
+      {files.length === 0 ? (
+        <div className="add-node-dialog__empty">This slice has no cmd, evt, rm or ui nodes to generate code from.</div>
+      ) : (
+        <div className="code-stubs-dialog__content">
+          <div className="code-stubs-dialog__files" role="listbox" aria-label="Generated files">
+            {files.map((file) => (
+              <button
+                key={file.path}
+                type="button"
+                role="option"
+                aria-selected={file === selectedFile}
+                className={`code-stubs-dialog__file ${file === selectedFile ? 'active' : ''}`.trim()}
+                title={file.path}
+                onClick={() => setSelectedPath(file.path)}
+              >
+                {fileName(file.path)}
+              </button>
+            ))}
+          </div>
+          <pre className="add-node-dialog__preview code-stubs-dialog__preview" aria-label="File preview">
+            {selectedFile?.content}
+          </pre>
+        </div>
+      )}
+      <div className="project-modal-actions">
+        <button type="button" className="project-modal-button" onClick={onCancel}>Close</button>
+        <button
+          type="button"
+          className="project-modal-button"
+          disabled={!selectedFile}
+          onClick={() => {
+            if (selectedFile) {
+              downloadFile(fileName(selectedFile.path), selectedFile.content, 'text/plain');
+            }
+          }}
+        >
+          Download file
+        </button>
+        <button type="button" className="project-modal-button primary" disabled={files.length === 0} onClick={downloadAll}>
+          Download all (.zip)
+        </button>
+      </div>
+    </DialogFrame>
+  );
+}
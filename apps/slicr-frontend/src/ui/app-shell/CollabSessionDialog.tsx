@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { DialogFrame } from './dialogs/DialogFrame';
+import { loadCollabPreferences, saveCollabPreferences } from '../../collab/collabPreferences';
+import type { JoinCollabSessionArgs } from '../../application/hooks/useCollabSession';
+
+type CollabSessionDialogProps = {
+  sliceName: string;
+  onCancel: () => void;
+  onJoin: (args: JoinCollabSessionArgs) => void;
+};
+
+function defaultRoomName(sliceName: string): string {
+  return sliceName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'workshop';
+}
+
+export function CollabSessionDialog({ sliceName, onCancel, onJoin }: CollabSessionDialogProps) {
+  const [preferences] = useState(() => loadCollabPreferences());
+  const [relayUrl, setRelayUrl] = useState(preferences.relayUrl);
+  const [room, setRoom] = useState(() => defaultRoomName(sliceName));
+  const [name, setName] = useState(preferences.name);
+  const canJoin = relayUrl.trim() !== '' && room.trim() !== '';
+
+  const join = () => {
+    if (!canJoin) {
+      return;
+    }
+    saveCollabPreferences({ relayUrl: relayUrl.trim(), name: name.trim() });
+    onJoin({ relayUrl: relayUrl.trim(), room: room.trim(), name });
+  };
+
+  return (
+    <DialogFrame
+      backdropClassName="project-modal-backdrop"
+      panelClassName="project-modal collab-session-dialog"
+      ariaLabel="Join collaboration session"
+      onCancel={onCancel}
+      onSubmitShortcut={join}
+    >
+      <h2>Join Collaboration Session</h2>
+      <p>Edits {sliceName} together with everyone in the same room. If the room already has a slice, it replaces this one&apos;s text.</p>
+      <label htmlFor="collab-relay-url">Relay</label>
+      <input
+        id="collab-relay-url"
+        className="project-modal-input"
+        value={relayUrl}
+        onChange={(event) => setRelayUrl(event.target.value)}
+      />
+      <label htmlFor="collab-room">Room</label>
+      <input id="collab-room" className="project-modal-input" value={room} onChange={(event) => setRoom(event.target.value)} />
+      <label htmlFor="collab-name">Your name</label>
+      <input
+        id="collab-name"
+        className="project-modal-input"
+        value={name}
+        placeholder="Guest"
+        onChange={(event) => setName(event.target.value)}
+        autoFocus
+      />
+      <div className="project-modal-actions">
+        <button type="button" className="project-modal-button" onClick={onCancel}>Cancel</button>
+        <button type="button" className="project-modal-button primary" disabled={!canJoin} onClick={join}>Join</button>
+      </div>
+    </DialogFrame>
+  );
+}
@@ -0,0 +1,26 @@
+import type { CollabSessionNotice } from '../../application/appViewModel';
+
+type CollabSessionStatusProps = {
+  session: CollabSessionNotice;
+  onLeave: () => void;
+};
+
+export function CollabSessionStatus({ session, onLeave }: CollabSessionStatusProps) {
+  return (
+    <div className={`collab-session-status${session.error ? ' error' : ''}`} role="status">
+      <p>
+        {session.error
+          ? session.error
+          : <>Live in <strong>{session.room}</strong> with {session.sliceName}</>}
+      </p>
+      {session.participants.length > 0 ? (
+        <ul className="collab-session-status__participants" aria-label="Participants">
+          {session.participants.map((participant) => (
+            <li key={participant.clientId} style={{ borderColor: participant.color }}>{participant.name}</li>
+          ))}
+        </ul>
+      ) : null}
+      <button type="button" className="project-modal-button" onClick={onLeave}>Leave</button>
+    </div>
+  );
+}
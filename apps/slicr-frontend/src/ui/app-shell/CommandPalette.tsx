@@ -1,18 +1,36 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import type { ActionsSection, AuxPanelsSection, HeaderSection } from '../../application/appViewModel';
+import type { NodeAlignment, NodeDistribution } from '../../domain/nodeSelection';
+import { canOpenProjectFolder } from '../../storage/fileSystemEventStorage';
 
 type CommandPaletteProps = {
   auxPanels: AuxPanelsSection;
   actions: ActionsSection;
   header: HeaderSection;
+  selectedNodeKeys: string[];
 };
 
-export function CommandPalette({ auxPanels, actions, header }: CommandPaletteProps) {
+const ALIGN_COMMANDS: Array<{ alignment: NodeAlignment; label: string }> = [
+  { alignment: 'left', label: 'Left' },
+  { alignment: 'center', label: 'Center' },
+  { alignment: 'right', label: 'Right' },
+  { alignment: 'top', label: 'Top' },
+  { alignment: 'middle', label: 'Middle' },
+  { alignment: 'bottom', label: 'Bottom' }
+];
+
+const DISTRIBUTE_COMMANDS: Array<{ distribution: NodeDistribution; label: string }> = [
+  { distribution: 'horizontal', label: 'Horizontally' },
+  { distribution: 'vertical', label: 'Vertically' }
+];
+
+export function CommandPalette({ auxPanels, actions, header, selectedNodeKeys }: CommandPaletteProps) {
   const [query, setQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
   const paletteRef = useRef<HTMLDivElement>(null);
   const searchRef = useRef<HTMLInputElement>(null);
   const shouldSelectOnFocusRef = useRef(false);
+  const inCollabSession = auxPanels.collabSession !== null;
 
   const commands = useMemo(
     () => [
@@ -29,6 +47,36 @@ export function CommandPalette({ auxPanels, actions, header }: CommandPalettePro
             context: 'View | Project',
             run: actions.onHideProjectOverview
           },
+      {
+        id: 'undo',
+        label: 'Undo',
+        context: 'Slice | History',
+        run: actions.onUndo
+      },
+      {
+        id: 'redo',
+        label: 'Redo',
+        context: 'Slice | History',
+        run: actions.onRedo
+      },
+      {
+        id: 'show-slice-history',
+        label: 'Show Slice History...',
+        context: 'Slice | History',
+        run: actions.onOpenHistoryPanel
+      },
+      {
+        id: 'show-problems',
+        label: 'Show Problems...',
+        context: 'Window | Projects',
+        run: actions.onOpenProblemsPanel
+      },
+      {
+        id: 'configure-model-rules',
+        label: 'Configure Model Rules...',
+        context: 'Window | Projects',
+        run: actions.onOpenModelRulesDialog
+      },
       {
         id: 'add-node',
         label: 'Add Node...',
@@ -41,24 +89,111 @@ export function CommandPalette({ auxPanels, actions, header }: CommandPalettePro
         context: 'Slice | Modeling',
         run: actions.onOpenImportNodeDialog
       },
+      {
+        id: 'rename-node',
+        label: 'Rename Node...',
+        context: 'Slice | Modeling',
+        run: actions.onOpenRenameNodeDialog
+      },
       {
         id: 'apply-slice-template',
         label: 'Apply Slice Template...',
         context: 'Slice | Modeling',
         run: actions.onOpenCreateSliceTemplateDialog
       },
+      ...(selectedNodeKeys.length > 0
+        ? [{
+            id: 'delete-selected-nodes',
+            label: selectedNodeKeys.length > 1 ? `Delete ${selectedNodeKeys.length} Selected Nodes` : 'Delete Selected Node',
+            context: 'Slice | Modeling',
+            run: actions.onDeleteSelectedNodes
+          }]
+        : []),
+      ...(selectedNodeKeys.length > 1
+        ? ALIGN_COMMANDS.map(({ alignment, label }) => ({
+            id: `align-selected-nodes-${alignment}`,
+            label: `Align Selected Nodes ${label}`,
+            context: 'Slice | Layout',
+            run: () => actions.onAlignSelectedNodes(alignment)
+          }))
+        : []),
+      ...(selectedNodeKeys.length > 2
+        ? DISTRIBUTE_COMMANDS.map(({ distribution, label }) => ({
+            id: `distribute-selected-nodes-${distribution}`,
+            label: `Distribute Selected Nodes ${label}`,
+            context: 'Slice | Layout',
+            run: () => actions.onDistributeSelectedNodes(distribution)
+          }))
+        : []),
+      {
+        id: 'generate-code-stubs',
+        label: 'Generate Code Stubs...',
+        context: 'Slice | Export',
+        run: actions.onOpenCodeStubsDialog
+      },
+      {
+        id: 'generate-scenario-tests',
+        label: 'Generate Scenario Tests...',
+        context: 'Slice | Export',
+        run: actions.onOpenScenarioTestsDialog
+      },
+      {
+        id: 'copy-slice-share-link',
+        label: 'Copy Share Link',
+        context: 'Slice | Export',
+        run: actions.onCopySliceShareLink
+      },
+      {
+        id: 'export-diagram-image',
+        label: 'Export Diagram Image...',
+        context: 'View | Export',
+        run: actions.onOpenExportImageDialog
+      },
       {
         id: 'create-project',
         label: 'Create Project...',
         context: 'Window | Projects',
         run: actions.onOpenCreateProjectDialog
       },
+      {
+        id: 'export-project-bundle',
+        label: 'Export Project Bundle...',
+        context: 'Window | Projects',
+        run: actions.onOpenExportBundleDialog
+      },
+      {
+        id: 'import-project-bundle',
+        label: 'Import Project Bundle...',
+        context: 'Window | Projects',
+        run: actions.onOpenImportBundleDialog
+      },
       {
         id: 'compact-event-streams',
         label: 'Compact Event Streams...',
         context: 'Storage | Maintenance',
         run: actions.onOpenCompactEventsDialog
       },
+      inCollabSession
+        ? {
+            id: 'leave-collab-session',
+            label: 'Leave Collaboration Session',
+            context: 'Window | Collaboration',
+            run: actions.onLeaveCollabSession
+          }
+        : {
+            id: 'join-collab-session',
+            label: 'Join Collaboration Session...',
+            context: 'Window | Collaboration',
+            run: actions.onOpenCollabDialog
+          },
+      ...(canOpenProjectFolder()
+        ? [{
+            id: 'open-project-folder',
+            label: 'Open Project Folder...',
+            context: 'Storage | Maintenance',
+            run: actions.onOpenProjectFolder
+          }]
+        : []),
       ...header.projectIndex.projects
         .filter((project) => project.id !== header.selectedProjectId)
         .map((project) => ({
@@ -68,7 +203,7 @@ export function CommandPalette({ auxPanels, actions, header }: CommandPalettePro
           run: () => actions.onSwitchProject(project.id)
         }))
     ],
-    [actions, header.diagramMode, header.projectIndex.projects, header.selectedProjectId]
+    [actions, header.diagramMode, inCollabSession, header.projectIndex.projects, header.selectedProjectId, selectedNodeKeys]
   );
 
   const isFuzzyMatch = (queryText: string, targetText: string) => {
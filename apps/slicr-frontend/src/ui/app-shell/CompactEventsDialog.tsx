@@ -1,5 +1,6 @@
 import { DialogFrame } from './dialogs/DialogFrame';
 import { analyzeEventCompaction, type CompactionPlan } from '../../eventCompaction';
+import { getEventStorage } from '../../storage/eventStorage';
 
 type CompactEventsDialogProps = {
   onCancel: () => void;
@@ -7,7 +8,7 @@ type CompactEventsDialogProps = {
 };
 
 export function CompactEventsDialog({ onCancel, onCompact }: CompactEventsDialogProps) {
-  const preview = analyzeEventCompaction(localStorage);
+  const preview = analyzeEventCompaction(getEventStorage());
   return (
     <DialogFrame
       backdropClassName="project-modal-backdrop"
@@ -14,7 +14,7 @@ type CreateSliceTemplateDialogProps = {
 };
 
 type NodeDraft = {
-  type: 'ui' | 'cmd' | 'evt' | 'rm' | 'aut';
+  type: 'ui' | 'cmd' | 'qry' | 'evt' | 'rm' | 'aut';
   name: string;
   alias: string;
   aliasTouched: boolean;
@@ -50,12 +50,15 @@ describe('DiagramCanvas', () => {
               canvasPanelRef: { current: null },
               beginCanvasPan: vi.fn(),
               beginNodeDrag: vi.fn(),
-              beginEdgeSegmentDrag: vi.fn()
+              beginEdgeSegmentDrag: vi.fn(),
+              marquee: null,
+              beginMarqueeSelection: vi.fn()
             },
             docsOpen: false,
             actions: {
               onNodeHoverRange: vi.fn(),
               onNodeSelect: vi.fn(),
+              onNodeToggleSelect: vi.fn(),
               onNodeOpenInEditor: vi.fn(),
               onEdgeHover: vi.fn(),
               onToggleOverviewNodeDataVisibility: toggleOverviewNodeDataVisibility
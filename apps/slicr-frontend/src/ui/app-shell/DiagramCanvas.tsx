@@ -15,7 +15,11 @@ export function DiagramCanvas() {
     canvasPanelRef,
     beginCanvasPan,
     beginNodeDrag,
-    beginEdgeSegmentDrag
+    beginEdgeSegmentDrag,
+    marquee,
+    beginMarqueeSelection,
+    remotePresence,
+    onWorldPointerMove
   } = diagram;
 
   return (
@@ -32,8 +36,13 @@ export function DiagramCanvas() {
       beginCanvasPan={beginCanvasPan}
       beginNodeDrag={beginNodeDrag}
       beginEdgeSegmentDrag={beginEdgeSegmentDrag}
+      marquee={marquee}
+      beginMarqueeSelection={beginMarqueeSelection}
+      remotePresence={remotePresence}
+      onWorldPointerMove={onWorldPointerMove}
       onNodeHoverRange={actions.onNodeHoverRange}
       onNodeSelect={actions.onNodeSelect}
+      onNodeToggleSelect={actions.onNodeToggleSelect}
       onNodeOpenInEditor={actions.onNodeOpenInEditor}
       onEdgeHover={actions.onEdgeHover}
       onToggleOverviewNodeDataVisibility={actions.onToggleOverviewNodeDataVisibility}
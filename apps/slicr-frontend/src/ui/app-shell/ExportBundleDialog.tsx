@@ -0,0 +1,36 @@
+import { useState } from 'react';
+import { DialogFrame } from './dialogs/DialogFrame';
+
+type ExportBundleDialogProps = {
+  projectName: string;
+  onCancel: () => void;
+  onExport: (args: { includeHistory: boolean }) => void;
+};
+
+export function ExportBundleDialog({ projectName, onCancel, onExport }: ExportBundleDialogProps) {
+  const [includeHistory, setIncludeHistory] = useState(false);
+  return (
+    <DialogFrame
+      backdropClassName="project-modal-backdrop"
+      panelClassName="project-modal project-bundle-dialog"
+      ariaLabel="Export project bundle"
+      onCancel={onCancel}
+      onSubmitShortcut={() => onExport({ includeHistory })}
+    >
+      <h2>Export Project Bundle</h2>
+      <p>Exports the DSL and manual layout of every slice in {projectName} as a .slicr file.</p>
+      <label className="project-bundle-option">
+        <input
+          type="checkbox"
+          checked={includeHistory}
+          onChange={(event) => setIncludeHistory(event.target.checked)}
+        />
+        Include full event history
+      </label>
+      <div className="project-modal-actions">
+        <button type="button" className="project-modal-button" onClick={onCancel}>Cancel</button>
+        <button type="button" className="project-modal-button primary" onClick={() => onExport({ includeHistory })}>Export</button>
+      </div>
+    </DialogFrame>
+  );
+}
@@ -0,0 +1,102 @@
+// @vitest-environment jsdom
+
+import { act } from 'react';
+import ReactDOM from 'react-dom/client';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { DiagramSceneModel } from '../../diagram/rendererContract';
+import { ExportDiagramImageDialog } from './ExportDiagramImageDialog';
+
+const downloadFile = vi.hoisted(() => vi.fn());
+vi.mock('../../application/downloadFile', () => ({ downloadFile }));
+
+let root: ReactDOM.Root | null = null;
+
+const SCENE: DiagramSceneModel = {
+  nodes: [{
+    renderKey: 'room-booked',
+    key: 'room-booked',
+    node: { type: 'evt', name: 'room-booked', alias: null, stream: null, key: 'room-booked', data: null, srcRange: { from: 0, to: 1 } },
+    nodePrefix: 'evt',
+    className: '',
+    type: 'evt',
+    title: 'room-booked',
+    prefix: 'evt',
+    x: 0,
+    y: 0,
+    w: 180,
+    h: 60,
+    srcRange: { from: 0, to: 1 },
+    highlighted: false,
+    selected: false,
+    related: false
+  }],
+  edges: [],
+  crossSliceLinks: [],
+  sharedNodeAnchors: [],
+  lanes: [],
+  boundaries: [],
+  scenarios: [],
+  worldWidth: 200,
+  worldHeight: 80,
+  title: null,
+  sliceFrames: [],
+  viewport: null
+};
+
+function renderDialog(sceneModel: DiagramSceneModel | null, onCancel = () => undefined) {
+  const host = document.createElement('div');
+  document.body.appendChild(host);
+  root = ReactDOM.createRoot(host);
+  act(() => {
+    root?.render(
+      <ExportDiagramImageDialog
+        sceneModel={sceneModel}
+        diagramMode="slice"
+        theme="dark"
+        name="Room Booking"
+        hideData={false}
+        onCancel={onCancel}
+      />
+    );
+  });
+}
+
+afterEach(() => {
+  if (root) {
+    act(() => {
+      root?.unmount();
+    });
+  }
+  root = null;
+  document.body.innerHTML = '';
+  downloadFile.mockReset();
+});
+
+describe('ExportDiagramImageDialog', () => {
+  it('downloads the scene as an svg in the chosen theme', () => {
+    const onCancel = vi.fn();
+    renderDialog(SCENE, onCancel);
+
+    const themeSelect = document.querySelector('#diagram-image-theme') as HTMLSelectElement;
+    act(() => {
+      themeSelect.value = 'light';
+      themeSelect.dispatchEvent(new Event('change', { bubbles: true }));
+    });
+    expect(decodeURIComponent((document.querySelector('.diagram-image-dialog__preview img') as HTMLImageElement).src))
+      .toContain('data-theme="light"');
+
+    act(() => {
+      (document.querySelector('.project-modal-button.primary') as HTMLButtonElement).click();
+    });
+
+    expect(downloadFile).toHaveBeenCalledWith('room-booking.svg', expect.stringContaining('<svg'), 'image/svg+xml');
+    expect(onCancel).toHaveBeenCalled();
+  });
+
+  it('explains when there is no diagram to export', () => {
+    renderDialog(null);
+
+    expect(document.querySelector('.add-node-dialog__empty')?.textContent).toContain('no diagram to export');
+    expect((document.querySelector('.project-modal-button.primary') as HTMLButtonElement).disabled).toBe(true);
+  });
+});
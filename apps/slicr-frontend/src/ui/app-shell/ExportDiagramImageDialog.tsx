@@ -0,0 +1,138 @@
+import { useMemo, useState } from 'react';
+import type { DiagramMode, ThemeMode } from '../../application/appViewModel';
+import { downloadFile } from '../../application/downloadFile';
+import type { DiagramSceneModel } from '../../diagram/rendererContract';
+import {
+  diagramImageFileName,
+  exportSceneToSvg,
+  rasterizeSvgToPng,
+  svgDataUrl,
+  type DiagramImageFormat
+} from '../../diagram/sceneExport';
+import { DialogFrame } from './dialogs/DialogFrame';
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+type ExportDiagramImageDialogProps = {
+  sceneModel: DiagramSceneModel | null;
+  diagramMode: DiagramMode;
+  theme: ThemeMode;
+  name: string;
+  hideData: boolean;
+  onCancel: () => void;
+};
+
+export function ExportDiagramImageDialog({ sceneModel, diagramMode, theme, name, hideData, onCancel }: ExportDiagramImageDialogProps) {
+  const [format, setFormat] = useState<DiagramImageFormat>('svg');
+  const [scale, setScale] = useState(2);
+  const [imageTheme, setImageTheme] = useState<ThemeMode>(theme);
+  const [transparentBackground, setTransparentBackground] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const image = useMemo(
+    () => (sceneModel ? exportSceneToSvg(sceneModel, { theme: imageTheme, transparentBackground, hideData }) : null),
+    [hideData, imageTheme, sceneModel, transparentBackground]
+  );
+
+  const exportImage = () => {
+    if (!image) {
+      return;
+    }
+    const fileName = diagramImageFileName(name, diagramMode, format);
+    if (format === 'svg') {
+      downloadFile(fileName, image.markup, 'image/svg+xml');
+      onCancel();
+      return;
+    }
+    setError(null);
+    rasterizeSvgToPng(image, scale)
+      .then((blob) => {
+        downloadFile(fileName, blob, 'image/png');
+        onCancel();
+      })
+      .catch((rasterizeError: unknown) => {
+        setError(rasterizeError instanceof Error ? rasterizeError.message : 'PNG export failed.');
+      });
+  };
+
+  return (
+    <DialogFrame
+      backdropClassName="add-node-dialog-backdrop"
+      panelClassName="add-node-dialog diagram-image-dialog"
+      ariaLabel="Export diagram image"
+      onCancel={onCancel}
+      onSubmitShortcut={exportImage}
+    >
+      <h2>Export {diagramMode === 'overview' ? 'Overview' : 'Slice'} Image</h2>
+      <div className="diagram-image-dialog__options">
+        <div className="add-node-dialog__field">
+          <label htmlFor="diagram-image-format">Format</label>
+          <select
+            id="diagram-image-format"
+            className="add-node-dialog__input"
+            value={format}
+            onChange={(event) => setFormat(event.target.value as DiagramImageFormat)}
+          >
+            <option value="svg">SVG</option>
+            <option value="png">PNG</option>
+          </select>
+        </div>
+        <div className="add-node-dialog__field">
+          <label htmlFor="diagram-image-scale">Scale</label>
+          <select
+            id="diagram-image-scale"
+            className="add-node-dialog__input"
+            value={scale}
+            disabled={format !== 'png'}
+            onChange={(event) => setScale(Number(event.target.value))}
+          >
+            {PNG_SCALES.map((value) => (
+              <option key={value} value={value}>{value}x</option>
+            ))}
+          </select>
+        </div>
+        <div className="add-node-dialog__field">
+          <label htmlFor="diagram-image-theme">Theme</label>
+          <select
+            id="diagram-image-theme"
+            className="add-node-dialog__input"
+            value={imageTheme}
+            onChange={(event) => setImageTheme(event.target.value as ThemeMode)}
+          >
+            <option value="dark">Dark</option>
+            <option value="light">Light</option>
+          </select>
+        </div>
+      </div>
+      <label className="project-bundle-option">
+        <input
+          type="checkbox"
+          checked={transparentBackground}
+          onChange={(event) => setTransparentBackground(event.target.checked)}
+        />
+        Transparent background
+      </label>
+      {image ? (
+        <div className="add-node-dialog__preview diagram-image-dialog__preview">
+          <img src={svgDataUrl(image.markup)} alt="Diagram preview" />
+        </div>
+      ) : (
+        <div className="add-node-dialog__empty">There is no diagram to export yet.</div>
+      )}
+      {image && (
+        <p className="diagram-image-dialog__size">
+          {format === 'png'
+            ? `${Math.round(image.width * scale)} × ${Math.round(image.height * scale)} px`
+            : `${image.width} × ${image.height}`}
+        </p>
+      )}
+      {error && <p className="project-bundle-error" role="alert">{error}</p>}
+      <div className="project-modal-actions">
+        <button type="button" className="project-modal-button" onClick={onCancel}>Cancel</button>
+        <button type="button" className="project-modal-button primary" disabled={!image} onClick={exportImage}>
+          Export
+        </button>
+      </div>
+    </DialogFrame>
+  );
+}
@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+
+import { act } from 'react';
+import ReactDOM from 'react-dom/client';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SliceEvent } from '../../sliceEventStore';
+import { HistoryPanel } from './HistoryPanel';
+
+let root: ReactDOM.Root | null = null;
+
+const EVENTS = [
+  { id: 'e-1', sliceId: 'slice-a', version: 1, at: '2026-03-01T09:00:00.000Z', type: 'slice-created', payload: { initialDsl: 'slice "A"\n\ncmd:a' } },
+  { id: 'e-2', sliceId: 'slice-a', version: 2, at: '2026-03-01T09:00:10.000Z', type: 'text-edited', payload: { dsl: 'slice "A"\n\ncmd:a\nevt:b' } },
+  { id: 'e-3', sliceId: 'slice-a', version: 3, at: '2026-03-01T09:01:00.000Z', type: 'node-moved', payload: { nodeKey: 'a', x: 10, y: 20 } }
+] as SliceEvent[];
+
+function renderPanel(previewVersion: number | null, handlers: { onPreview?: () => void; onRestore?: () => void } = {}) {
+  const host = document.createElement('div');
+  document.body.appendChild(host);
+  root = ReactDOM.createRoot(host);
+  act(() => {
+    root?.render(
+      <HistoryPanel
+        events={EVENTS}
+        previewVersion={previewVersion}
+        onPreview={handlers.onPreview ?? (() => undefined)}
+        onRestore={handlers.onRestore ?? (() => undefined)}
+        onClose={() => undefined}
+      />
+    );
+  });
+}
+
+function entryLabels() {
+  return [...document.querySelectorAll('.history-panel__sessions .history-panel__label')].map((label) => label.textContent);
+}
+
+afterEach(() => {
+  if (root) {
+    act(() => {
+      root?.unmount();
+    });
+  }
+  root = null;
+  document.body.innerHTML = '';
+});
+
+describe('HistoryPanel', () => {
+  it('lists the newest changes first and previews a clicked version', () => {
+    const onPreview = vi.fn();
+    renderPanel(null, { onPreview });
+
+    expect(entryLabels()).toEqual(['Moved a', 'Edited text', 'Created slice']);
+    expect(document.querySelector('.history-panel__diff')).toBeNull();
+
+    const created = [...document.querySelectorAll('.history-panel__entry')].find((button) => button.textContent?.includes('Created slice'));
+    act(() => {
+      (created as HTMLButtonElement).click();
+    });
+    expect(onPreview).toHaveBeenCalledWith(1);
+  });
+
+  it('diffs the previewed version against the current text and restores it', () => {
+    const onRestore = vi.fn();
+    renderPanel(1, { onRestore });
+
+    const diffLines = [...document.querySelectorAll('.history-panel__diff-line')].map((line) => line.textContent);
+    expect(diffLines).toEqual(['  slice "A"', '  ', '  cmd:a', '+ evt:b']);
+
+    const restore = [...document.querySelectorAll('button')].find((button) => button.textContent === 'Restore this version');
+    act(() => {
+      (restore as HTMLButtonElement).click();
+    });
+    expect(onRestore).toHaveBeenCalledWith(1);
+  });
+});
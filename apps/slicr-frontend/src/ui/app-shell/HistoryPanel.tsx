@@ -0,0 +1,141 @@
+import { useMemo, useState } from 'react';
+import { diffLines } from '../../domain/textDiff';
+import type { SliceEvent } from '../../sliceEventStore';
+import { buildSliceTimeline, projectSliceVersion, type SliceTimelineEntry } from '../../sliceTimeline';
+
+type HistoryPanelProps = {
+  events: SliceEvent[];
+  previewVersion: number | null;
+  onPreview: (version: number | null) => void;
+  onRestore: (version: number) => void;
+  onClose: () => void;
+};
+
+function formatTime(at: string) {
+  return new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+function formatDate(at: string) {
+  return new Date(at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function HistoryPanel({ events, previewVersion, onPreview, onRestore, onClose }: HistoryPanelProps) {
+  const timeline = useMemo(() => buildSliceTimeline(events), [events]);
+  const { boundary } = timeline;
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+
+  const entries = useMemo(
+    () => timeline.sessions.flatMap((session) => session.entries),
+    [timeline]
+  );
+  const diff = useMemo(() => {
+    if (previewVersion === null) {
+      return [];
+    }
+    const before = projectSliceVersion(events, previewVersion).dsl;
+    const after = projectSliceVersion(events, compareVersion ?? timeline.latestVersion).dsl;
+    return diffLines(before, after);
+  }, [compareVersion, events, previewVersion, timeline.latestVersion]);
+  const changed = diff.some((line) => line.kind !== 'same');
+
+  const renderEntry = (entry: SliceTimelineEntry) => (
+    <li key={entry.version}>
+      <button
+        type="button"
+        className={`history-panel__entry ${previewVersion === entry.version ? 'active' : ''}`}
+        aria-pressed={previewVersion === entry.version}
+        onClick={() => onPreview(entry.version)}
+      >
+        <span className="history-panel__label">{entry.label}</span>
+        <span className="history-panel__meta">
+          {formatTime(entry.at)} · @{entry.version}
+        </span>
+      </button>
+    </li>
+  );
+
+  return (
+    <aside className="history-panel" aria-label="Slice History">
+      <div className="history-panel__header">
+        <h3>History</h3>
+        <button type="button" className="history-panel__close" aria-label="Close history" onClick={onClose}>
+          ×
+        </button>
+      </div>
+
+      <button
+        type="button"
+        className={`history-panel__entry ${previewVersion === null ? 'active' : ''}`}
+        aria-pressed={previewVersion === null}
+        onClick={() => onPreview(null)}
+      >
+        <span className="history-panel__label">Current</span>
+        <span className="history-panel__meta">@{timeline.latestVersion}</span>
+      </button>
+
+      {previewVersion !== null && (
+        <div className="history-panel__preview">
+          <div className="history-panel__preview-actions">
+            <button type="button" onClick={() => onPreview(null)}>
+              Back to current
+            </button>
+            <button type="button" onClick={() => onRestore(previewVersion)} disabled={previewVersion === timeline.latestVersion}>
+              Restore this version
+            </button>
+          </div>
+          <label className="history-panel__compare">
+            Compare @{previewVersion} with
+            <select
+              value={compareVersion ?? ''}
+              onChange={(event) => setCompareVersion(event.target.value === '' ? null : Number(event.target.value))}
+            >
+              <option value="">Current</option>
+              {entries.map((entry) => (
+                <option key={entry.version} value={entry.version}>
+                  @{entry.version} {entry.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {changed ? (
+            <pre className="history-panel__diff" aria-label="Version diff">
+              {diff.map((line, index) => (
+                <div key={index} className={`history-panel__diff-line ${line.kind}`}>
+                  {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          ) : (
+            <p className="history-panel__empty">No text changes.</p>
+          )}
+        </div>
+      )}
+
+      <div className="history-panel__sessions">
+        {[...timeline.sessions].reverse().map((session) => (
+          <section key={session.id} className="history-panel__session">
+            <h4>{formatDate(session.startedAt)}</h4>
+            <ol>{[...session.entries].reverse().map(renderEntry)}</ol>
+          </section>
+        ))}
+        {boundary && (
+          <button
+            type="button"
+            className={`history-panel__entry history-panel__boundary ${previewVersion === boundary.version ? 'active' : ''}`}
+            aria-pressed={previewVersion === boundary.version}
+            onClick={() => onPreview(boundary.version)}
+          >
+            <span className="history-panel__label">Compacted snapshot</span>
+            <span className="history-panel__meta">
+              {boundary.eventCount} events · @{boundary.version}
+            </span>
+          </button>
+        )}
+        {timeline.sessions.length === 0 && !boundary && (
+          <p className="history-panel__empty">No recorded changes.</p>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+
+import { act } from 'react';
+import ReactDOM from 'react-dom/client';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ProjectBundle } from '../../projectBundle';
+import { ImportBundleDialog } from './ImportBundleDialog';
+
+let root: ReactDOM.Root | null = null;
+let host: HTMLDivElement | null = null;
+
+function renderDialog(onImport: (bundle: ProjectBundle) => void = () => undefined) {
+  host = document.createElement('div');
+  document.body.appendChild(host);
+  root = ReactDOM.createRoot(host);
+
+  act(() => {
+    root?.render(<ImportBundleDialog onCancel={() => undefined} onImport={onImport} />);
+  });
+}
+
+async function chooseFile(contents: string) {
+  const input = document.querySelector('#project-bundle-file-input') as HTMLInputElement;
+  const file = new File([contents], 'hotel.slicr', { type: 'application/json' });
+  Object.defineProperty(input, 'files', { value: [file], configurable: true });
+  await act(async () => {
+    input.dispatchEvent(new Event('change', { bubbles: true }));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+}
+
+function importButton() {
+  return [...document.querySelectorAll('button')].find((button) => button.textContent === 'Import') as HTMLButtonElement;
+}
+
+afterEach(() => {
+  if (root) {
+    act(() => {
+      root?.unmount();
+    });
+  }
+  root = null;
+  host = null;
+  document.body.innerHTML = '';
+});
+
+describe('ImportBundleDialog', () => {
+  it('summarizes a valid bundle and imports it', async () => {
+    const onImport = vi.fn();
+    renderDialog(onImport);
+    expect(importButton().disabled).toBe(true);
+
+    await chooseFile(JSON.stringify({
+      format: 'slicr-bundle',
+      version: 1,
+      project: { id: 'p-1', name: 'Hotel' },
+      selectedSliceId: 's-1',
+      slices: [{ id: 's-1', dsl: 'slice "Book"', manualNodePositions: {}, manualEdgePoints: {} }]
+    }));
+
+    expect(document.querySelector('[role="status"]')?.textContent).toBe('Hotel: 1 slice');
+    act(() => {
+      importButton().click();
+    });
+    expect(onImport).toHaveBeenCalledWith(expect.objectContaining({ project: { id: 'p-1', name: 'Hotel' } }));
+  });
+
+  it('shows validation errors and keeps import disabled', async () => {
+    renderDialog();
+
+    await chooseFile('{"format":"slicr-bundle","version":7}');
+
+    expect(document.querySelector('[role="alert"]')?.textContent).toBe('Unsupported bundle version: 7.');
+    expect(importButton().disabled).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { parseProjectBundle, PROJECT_BUNDLE_FILE_EXTENSION, type ProjectBundle } from '../../projectBundle';
+import { DialogFrame } from './dialogs/DialogFrame';
+
+type ImportBundleDialogProps = {
+  onCancel: () => void;
+  onImport: (bundle: ProjectBundle) => void;
+};
+
+export function ImportBundleDialog({ onCancel, onImport }: ImportBundleDialogProps) {
+  const [bundle, setBundle] = useState<ProjectBundle | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = () => {
+    if (bundle) {
+      onImport(bundle);
+    }
+  };
+
+  return (
+    <DialogFrame
+      backdropClassName="project-modal-backdrop"
+      panelClassName="project-modal project-bundle-dialog"
+      ariaLabel="Import project bundle"
+      onCancel={onCancel}
+      onSubmitShortcut={submit}
+    >
+      <h2>Import Project Bundle</h2>
+      <label htmlFor="project-bundle-file-input">Bundle file</label>
+      <input
+        id="project-bundle-file-input"
+        type="file"
+        className="project-modal-input"
+        accept={`${PROJECT_BUNDLE_FILE_EXTENSION},application/json`}
+        onChange={async (event) => {
+          const file = event.target.files?.[0];
+          setBundle(null);
+          setError(null);
+          if (!file) {
+            return;
+          }
+          const result = parseProjectBundle(await file.text());
+          setBundle(result.bundle);
+          setError(result.error);
+        }}
+      />
+      {error ? <p className="project-bundle-error" role="alert">{error}</p> : null}
+      {bundle ? (
+        <p role="status">
+          {bundle.project.name}: {bundle.slices.length} {bundle.slices.length === 1 ? 'slice' : 'slices'}
+          {bundle.slices.some((slice) => slice.events) ? ', with event history' : ''}
+        </p>
+      ) : null}
+      <div className="project-modal-actions">
+        <button type="button" className="project-modal-button" onClick={onCancel}>Cancel</button>
+        <button type="button" className="project-modal-button primary" disabled={!bundle} onClick={submit}>Import</button>
+      </div>
+    </DialogFrame>
+  );
+}
@@ -0,0 +1,66 @@
+import { DOCUMENTATION_GROUPS } from '../../documentationCatalog';
+import {
+  MODEL_LINT_RULES,
+  resolveModelLintLevel,
+  type ModelLintLevel,
+  type ModelLintRuleId,
+  type ModelLintSettings
+} from '../../domain/modelLint';
+import { DialogFrame } from './dialogs/DialogFrame';
+
+const LEVEL_LABELS: Record<ModelLintLevel, string> = {
+  off: 'Off',
+  warning: 'Warning',
+  error: 'Error'
+};
+
+type ModelRulesDialogProps = {
+  settings: ModelLintSettings;
+  onChange: (ruleId: ModelLintRuleId, level: ModelLintLevel) => void;
+  onClose: () => void;
+};
+
+function ruleDescription(ruleId: ModelLintRuleId): string {
+  const group = DOCUMENTATION_GROUPS.find((candidate) => candidate.id === 'model-rules');
+  return group?.features.find((feature) => feature.id === ruleId)?.description ?? '';
+}
+
+export function ModelRulesDialog({ settings, onChange, onClose }: ModelRulesDialogProps) {
+  return (
+    <DialogFrame
+      backdropClassName="project-modal-backdrop"
+      panelClassName="project-modal model-rules-dialog"
+      ariaLabel="Configure model rules"
+      onCancel={onClose}
+      onSubmitShortcut={onClose}
+    >
+      <h2>Model Rules</h2>
+      <p>Changes apply to every slice in this project.</p>
+      <ul className="model-rules-dialog__rules">
+        {MODEL_LINT_RULES.map((rule) => (
+          <li key={rule.id} className="model-rules-dialog__rule">
+            <div>
+              <label htmlFor={`model-rule-${rule.id}`}>{rule.title}</label>
+              <p>{ruleDescription(rule.id)}</p>
+            </div>
+            <select
+              id={`model-rule-${rule.id}`}
+              className="project-modal-input"
+              value={resolveModelLintLevel(settings, rule)}
+              onChange={(event) => onChange(rule.id, event.target.value as ModelLintLevel)}
+            >
+              {(Object.keys(LEVEL_LABELS) as ModelLintLevel[]).map((level) => (
+                <option key={level} value={level}>
+                  {LEVEL_LABELS[level]}{level === rule.defaultLevel ? ' (default)' : ''}
+                </option>
+              ))}
+            </select>
+          </li>
+        ))}
+      </ul>
+      <div className="project-modal-actions">
+        <button type="button" className="project-modal-button primary" onClick={onClose}>Done</button>
+      </div>
+    </DialogFrame>
+  );
+}
@@ -1,6 +1,24 @@
 import { NodeCard } from '../../NodeCard';
+import type { DataTraceHop } from '../../domain/dataTrace';
+import type { DataDiffEntry } from '../../domain/nodeVersionHistory';
 import { useAnalysisContext } from './contexts/AnalysisContext';
 
+const DIFF_SIGN: Record<DataDiffEntry['kind'], string> = { added: '+', removed: '-', changed: '~' };
+
+function formatDiffValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function formatDiffEntry(entry: DataDiffEntry): string {
+  if (entry.kind === 'added') {
+    return `${entry.path}: ${formatDiffValue(entry.after)}`;
+  }
+  if (entry.kind === 'removed') {
+    return `${entry.path}: ${formatDiffValue(entry.before)}`;
+  }
+  return `${entry.path}: ${formatDiffValue(entry.before)} → ${formatDiffValue(entry.after)}`;
+}
+
 export function NodeAnalysisPanel() {
   const { analysisPanel, diagram, constants, actions } = useAnalysisContext();
   const {
@@ -18,6 +36,8 @@ export function NodeAnalysisPanel() {
     crossSliceUsageGroups,
     crossSliceDataEnabled,
     showDataTraceTab,
+    selectedNodeVersions,
+    showVersionsTab,
     crossSliceDataExpandedKeys,
     crossSliceTraceExpandedKeys,
     sourceOverrides
@@ -29,6 +49,39 @@ export function NodeAnalysisPanel() {
     return null;
   }
 
+  const renderTraceHop = (hop: DataTraceHop, key: string) => {
+    if (hop.sliceId && hop.sliceId !== selectedSliceId) {
+      const sliceId = hop.sliceId;
+      return (
+        <div key={key} className="cross-slice-trace-hop other-slice">
+          <span className="cross-slice-trace-hop-node">{hop.nodeKey}</span>
+          <span className="cross-slice-trace-hop-sep">.</span>
+          <span className="cross-slice-trace-hop-key">{hop.key}</span>
+          <button
+            type="button"
+            className="cross-slice-trace-hop-slice"
+            title={`Open ${hop.sliceName} slice`}
+            onClick={() => actions.onJumpToUsage(sliceId, hop.nodeKey)}
+          >
+            {hop.sliceName}
+          </button>
+        </div>
+      );
+    }
+    return (
+      <div
+        key={key}
+        className={`cross-slice-trace-hop ${parsed?.nodes.get(hop.nodeKey)?.type ?? 'generic'}`}
+        onMouseOver={() => actions.onTraceNodeHover(hop.nodeKey)}
+        onMouseOut={() => actions.onTraceNodeHover((current) => (current === hop.nodeKey ? null : current))}
+      >
+        <span className="cross-slice-trace-hop-node">{hop.nodeKey}</span>
+        <span className="cross-slice-trace-hop-sep">.</span>
+        <span className="cross-slice-trace-hop-key">{hop.key}</span>
+      </div>
+    );
+  };
+
   return (
     <aside className="cross-slice-usage-panel" aria-label="Cross-Slice Usage" style={{ overflowY: 'auto' }}>
       <div className="cross-slice-panel-tabs" role="tablist" aria-label="Node panel tabs">
@@ -63,6 +116,17 @@ export function NodeAnalysisPanel() {
             Data Trace
           </button>
         )}
+        {showVersionsTab && (
+          <button
+            type="button"
+            role="tab"
+            aria-selected={selectedNodePanelTab === 'versions'}
+            className={`cross-slice-panel-tab ${selectedNodePanelTab === 'versions' ? 'active' : ''}`}
+            onClick={() => actions.onSelectedNodePanelTabChange('versions')}
+          >
+            Versions
+          </button>
+        )}
       </div>
       <div className="cross-slice-panel-divider" aria-hidden="true" />
       <div className={`cross-slice-usage-node ${selectedNodeAnalysisHeader.type}`.trim()}>
@@ -188,31 +252,13 @@ export function NodeAnalysisPanel() {
                         {entries.length > 1 && <div className="cross-slice-trace-version">{entry.nodeKey}</div>}
                         <div className="cross-slice-trace-hops">
                           {!entry.result.contributors && entry.result.hops.map((hop, index) => (
-                            <div
-                              key={`${entry.nodeKey}:${hop.nodeKey}:${hop.key}:${index}`}
-                              className={`cross-slice-trace-hop ${parsed?.nodes.get(hop.nodeKey)?.type ?? 'generic'}`}
-                              onMouseOver={() => actions.onTraceNodeHover(hop.nodeKey)}
-                              onMouseOut={() => actions.onTraceNodeHover((current) => (current === hop.nodeKey ? null : current))}
-                            >
-                              <span className="cross-slice-trace-hop-node">{hop.nodeKey}</span>
-                              <span className="cross-slice-trace-hop-sep">.</span>
-                              <span className="cross-slice-trace-hop-key">{hop.key}</span>
-                            </div>
+                            renderTraceHop(hop, `${entry.nodeKey}:${hop.nodeKey}:${hop.key}:${index}`)
                           ))}
                           {entry.result.contributors?.map((contributor) => (
                             <div key={`${entry.nodeKey}:${contributor.label}`} className="cross-slice-trace-contributor">
                               <div className="cross-slice-trace-contributor-label">{contributor.label}</div>
                               {contributor.hops.map((hop, index) => (
-                                <div
-                                  key={`${entry.nodeKey}:${contributor.label}:${hop.nodeKey}:${hop.key}:${index}`}
-                                  className={`cross-slice-trace-hop ${parsed?.nodes.get(hop.nodeKey)?.type ?? 'generic'}`}
-                                  onMouseOver={() => actions.onTraceNodeHover(hop.nodeKey)}
-                                  onMouseOut={() => actions.onTraceNodeHover((current) => (current === hop.nodeKey ? null : current))}
-                                >
-                                  <span className="cross-slice-trace-hop-node">{hop.nodeKey}</span>
-                                  <span className="cross-slice-trace-hop-sep">.</span>
-                                  <span className="cross-slice-trace-hop-key">{hop.key}</span>
-                                </div>
+                                renderTraceHop(hop, `${entry.nodeKey}:${contributor.label}:${hop.nodeKey}:${hop.key}:${index}`)
                               ))}
                             </div>
                           ))}
@@ -254,6 +300,45 @@ export function NodeAnalysisPanel() {
           })}
         </div>
       )}
+      {showVersionsTab && selectedNodePanelTab === 'versions' && (
+        <ol className="node-versions-list" aria-label="Node versions">
+          {selectedNodeVersions.map((version, index) => (
+            <li key={version.version} className="node-version">
+              <div className="node-version-header">
+                <span className="node-version-ref">{version.ref}</span>
+                {version.occurrences.map((occurrence) => (
+                  <button
+                    key={`${occurrence.sliceId}:${occurrence.nodeKey}`}
+                    type="button"
+                    className={`node-version-slice ${occurrence.sliceId === selectedSliceId ? 'current' : ''}`.trim()}
+                    onClick={() => actions.onJumpToUsage(occurrence.sliceId, occurrence.nodeKey)}
+                  >
+                    {occurrence.sliceName}
+                  </button>
+                ))}
+              </div>
+              {index > 0 && (
+                <div className="node-version-events">
+                  {version.causedBy.length > 0 ? `after ${version.causedBy.join(', ')}` : 'no causing event'}
+                </div>
+              )}
+              {index === 0 ? (
+                <div className="node-version-empty">Initial version</div>
+              ) : version.diff.length === 0 ? (
+                <div className="node-version-empty">No data changes</div>
+              ) : (
+                <ul className="node-version-diff">
+                  {version.diff.map((entry) => (
+                    <li key={`${entry.kind}:${entry.path}`} className={`node-version-diff-entry ${entry.kind}`}>
+                      {DIFF_SIGN[entry.kind]} {formatDiffEntry(entry)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
     </aside>
   );
 }
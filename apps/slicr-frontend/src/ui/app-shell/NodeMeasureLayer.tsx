@@ -2,8 +2,8 @@ import type { ConstantsSection, DiagramSection } from '../../application/appView
 import { NodeCard } from '../../NodeCard';
 
 type NodeMeasureLayerProps = {
-  diagram: DiagramSection;
-  constants: ConstantsSection;
+  diagram: Pick<DiagramSection, 'parsed' | 'diagramMode' | 'overviewNodeDataVisible'>;
+  constants: Pick<ConstantsSection, 'TYPE_LABEL' | 'NODE_VERSION_SUFFIX' | 'NODE_MEASURE_NODE_CLASS'>;
 };
 
 export function NodeMeasureLayer({ diagram, constants }: NodeMeasureLayerProps) {
@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+
+import { act } from 'react';
+import ReactDOM from 'react-dom/client';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ProjectProblem, ProjectProblemGroup } from '../../domain/projectProblems';
+import { ProblemsPanel } from './ProblemsPanel';
+
+let root: ReactDOM.Root | null = null;
+
+const UNRESOLVED: ProjectProblem = {
+  code: 'parse',
+  severity: 'error',
+  sliceId: 'read',
+  nodeKey: null,
+  message: 'Unresolved dependency: refunded',
+  range: { from: 27, to: 37 },
+  line: 4
+};
+
+const UNPRODUCED: ProjectProblem = {
+  code: 'unproduced-event',
+  severity: 'warning',
+  sliceId: 'read',
+  nodeKey: 'refunds',
+  message: 'rm:refunds consumes evt:refunded, which no slice produces.',
+  range: { from: 40, to: 50 },
+  line: 6
+};
+
+const GROUPS: ProjectProblemGroup[] = [
+  { sliceId: 'read', sliceName: 'Read', errors: [UNRESOLVED], warnings: [UNPRODUCED] }
+];
+
+function renderPanel(groups: ProjectProblemGroup[], onJump = vi.fn(), onConfigureRules = vi.fn()) {
+  const host = document.createElement('div');
+  document.body.appendChild(host);
+  root = ReactDOM.createRoot(host);
+  act(() => {
+    root?.render(
+      <ProblemsPanel
+        groups={groups}
+        selectedSliceId="write"
+        onJump={onJump}
+        onConfigureRules={onConfigureRules}
+        onClose={() => undefined}
+      />
+    );
+  });
+  return onJump;
+}
+
+afterEach(() => {
+  if (root) {
+    act(() => {
+      root?.unmount();
+    });
+  }
+  root = null;
+  document.body.innerHTML = '';
+});
+
+describe('ProblemsPanel', () => {
+  it('lists problems per slice by severity and jumps to a clicked problem', () => {
+    const onJump = renderPanel(GROUPS);
+
+    expect(document.querySelector('.problems-panel__slice h4')?.textContent).toBe('Read');
+    expect([...document.querySelectorAll('.problems-panel__slice h5')].map((heading) => heading.textContent)).toEqual([
+      'Errors (1)',
+      'Warnings (1)'
+    ]);
+    const entries = [...document.querySelectorAll<HTMLButtonElement>('.problems-panel__entry')];
+    expect(entries.map((entry) => entry.className)).toEqual(['problems-panel__entry error', 'problems-panel__entry warning']);
+    expect(entries[1].textContent).toContain('unproduced-event · line 6');
+
+    act(() => {
+      entries[1].click();
+    });
+    expect(onJump).toHaveBeenCalledWith(UNPRODUCED);
+  });
+
+  it('opens the model rule settings', () => {
+    const onConfigureRules = vi.fn();
+    renderPanel(GROUPS, vi.fn(), onConfigureRules);
+
+    act(() => {
+      document.querySelector<HTMLButtonElement>('.problems-panel__rules')?.click();
+    });
+    expect(onConfigureRules).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows an empty state for a clean project', () => {
+    renderPanel([]);
+
+    expect(document.querySelector('.history-panel__empty')?.textContent).toBe('No problems in this project.');
+  });
+});
@@ -0,0 +1,63 @@
+import type { ProjectProblem, ProjectProblemGroup } from '../../domain/projectProblems';
+
+type ProblemsPanelProps = {
+  groups: ProjectProblemGroup[];
+  selectedSliceId: string;
+  onJump: (problem: ProjectProblem) => void;
+  onConfigureRules: () => void;
+  onClose: () => void;
+};
+
+export function ProblemsPanel({ groups, selectedSliceId, onJump, onConfigureRules, onClose }: ProblemsPanelProps) {
+  const renderProblems = (label: string, problems: ProjectProblem[]) => problems.length > 0 && (
+    <>
+      <h5>{label} ({problems.length})</h5>
+      <ol>
+        {problems.map((problem, index) => (
+          <li key={`${problem.code}-${problem.range.from}-${index}`}>
+            <button
+              type="button"
+              className={`problems-panel__entry ${problem.severity}`}
+              onClick={() => onJump(problem)}
+            >
+              <span className="problems-panel__message">{problem.message}</span>
+              <span className="problems-panel__meta">
+                {problem.code} · line {problem.line}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </>
+  );
+
+  return (
+    <aside className="history-panel problems-panel" aria-label="Project Problems">
+      <div className="history-panel__header">
+        <h3>Problems</h3>
+        <div className="problems-panel__actions">
+          <button type="button" className="problems-panel__rules" onClick={onConfigureRules}>
+            Rules
+          </button>
+          <button type="button" className="history-panel__close" aria-label="Close problems" onClick={onClose}>
+            ×
+          </button>
+        </div>
+      </div>
+
+      {groups.map((group) => (
+        <section
+          key={group.sliceId}
+          className={`problems-panel__slice ${group.sliceId === selectedSliceId ? 'active' : ''}`}
+        >
+          <h4>{group.sliceName || 'Untitled'}</h4>
+          {renderProblems('Errors', group.errors)}
+          {renderProblems('Warnings', group.warnings)}
+        </section>
+      ))}
+      {groups.length === 0 && (
+        <p className="history-panel__empty">No problems in this project.</p>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,123 @@
+import { useMemo, useState } from 'react';
+import type { CrossSliceDocument } from '../../domain/crossSliceUsage';
+import { toNodeAnalysisRefFromNode } from '../../domain/nodeAnalysisKey';
+import { planNodeRename, type NodeRenamePlan } from '../../domain/nodeRename';
+import { isTraceableNode } from '../../domain/nodeTracing';
+import { diffLines } from '../../domain/textDiff';
+import type { Parsed } from '../../domain/types';
+import { DialogFrame } from './dialogs/DialogFrame';
+
+function refName(ref: string): string {
+  return ref.slice(ref.indexOf(':') + 1);
+}
+
+type RenameNodeDialogProps = {
+  parsed: Parsed | null;
+  slices: CrossSliceDocument[];
+  initialNodeKey: string | null;
+  onCancel: () => void;
+  onRename: (plan: NodeRenamePlan) => void;
+};
+
+export function RenameNodeDialog({ parsed, slices, initialNodeKey, onCancel, onRename }: RenameNodeDialogProps) {
+  const nodeOptions = useMemo(() => {
+    const scenarioOnlyKeys = new Set(parsed?.scenarioOnlyNodeKeys ?? []);
+    const refs = [...(parsed?.nodes.values() ?? [])]
+      .filter((node) => isTraceableNode(node) && !scenarioOnlyKeys.has(node.key))
+      .map((node) => toNodeAnalysisRefFromNode(node));
+    return [...new Set(refs)];
+  }, [parsed]);
+  const initialNode = initialNodeKey ? parsed?.nodes.get(initialNodeKey) : undefined;
+  const [nodeRef, setNodeRef] = useState(() => (
+    initialNode && isTraceableNode(initialNode) ? toNodeAnalysisRefFromNode(initialNode) : nodeOptions[0] ?? ''
+  ));
+  const [newName, setNewName] = useState(() => refName(nodeRef));
+
+  const plan = useMemo(
+    () => (nodeRef ? planNodeRename(slices, nodeRef, newName) : null),
+    [newName, nodeRef, slices]
+  );
+  const canRename = Boolean(plan && !plan.error && plan.slices.length > 0);
+
+  const submitDialog = () => {
+    if (plan && canRename) {
+      onRename(plan);
+    }
+  };
+
+  return (
+    <DialogFrame
+      backdropClassName="add-node-dialog-backdrop"
+      panelClassName="add-node-dialog rename-node-dialog"
+      ariaLabel="Rename node"
+      onCancel={onCancel}
+      onSubmitShortcut={submitDialog}
+    >
+      <h2>Rename Node</h2>
+      <div className="code-stubs-dialog__options">
+        <div className="add-node-dialog__field">
+          <label htmlFor="rename-node-ref">Node</label>
+          <select
+            id="rename-node-ref"
+            className="add-node-dialog__input"
+            value={nodeRef}
+            onChange={(event) => {
+              setNodeRef(event.target.value);
+              setNewName(refName(event.target.value));
+            }}
+          >
+            {nodeOptions.map((ref) => (
+              <option key={ref} value={ref}>{ref}</option>
+            ))}
+          </select>
+        </div>
+        <div className="add-node-dialog__field">
+          <label htmlFor="rename-node-name">New name</label>
+          <input
+            id="rename-node-name"
+            className="add-node-dialog__input"
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            autoFocus
+          />
+        </div>
+      </div>
+
+      {plan?.error ? (
+        <div className="add-node-dialog__empty" role="alert">{plan.error}</div>
+      ) : plan && plan.slices.length > 0 ? (
+        <div className="rename-node-dialog__preview" aria-label="Rename preview">
+          {plan.slices.map((edit) => (
+            <section key={edit.sliceId} className="rename-node-dialog__slice">
+              <h3>
+                {edit.sliceName || 'Untitled'}
+                <span className="rename-node-dialog__count">
+                  {edit.occurrences} {edit.occurrences === 1 ? 'reference' : 'references'}
+                </span>
+              </h3>
+              <pre className="history-panel__diff">
+                {diffLines(edit.before, edit.after)
+                  .filter((line) => line.kind !== 'same')
+                  .map((line, index) => (
+                    <div key={index} className={`history-panel__diff-line ${line.kind}`}>
+                      {line.kind === 'added' ? '+ ' : '- '}
+                      {line.text}
+                    </div>
+                  ))}
+              </pre>
+            </section>
+          ))}
+        </div>
+      ) : (
+        <div className="add-node-dialog__empty">Enter a new name to preview the edits.</div>
+      )}
+
+      <div className="project-modal-actions">
+        <button type="button" className="project-modal-button" onClick={onCancel}>Cancel</button>
+        <button type="button" className="project-modal-button primary" disabled={!canRename} onClick={submitDialog}>
+          {plan && canRename ? `Rename in ${plan.slices.length} ${plan.slices.length === 1 ? 'slice' : 'slices'}` : 'Rename'}
+        </button>
+      </div>
+    </DialogFrame>
+  );
+}
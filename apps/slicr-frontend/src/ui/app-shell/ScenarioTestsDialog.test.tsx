@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+
+import { act } from 'react';
+import ReactDOM from 'react-dom/client';
+import { afterEach, describe, expect, it } from 'vitest';
+import { parseDsl } from '../../domain/parseDsl';
+import { ScenarioTestsDialog } from './ScenarioTestsDialog';
+
+let root: ReactDOM.Root | null = null;
+
+const BOOKING = `slice "Booking"
+
+scenario "books a room"
+given:
+  evt:room-released
+when:
+  cmd:book-room
+then:
+  evt:room-booked`;
+
+const CHECKOUT = `slice "Checkout"
+
+scenario "checks out"
+given:
+  evt:room-booked
+when:
+  cmd:check-out
+then:
+  evt:checked-out`;
+
+function renderDialog(current: string, projectSlices: string[]) {
+  const host = document.createElement('div');
+  document.body.appendChild(host);
+  root = ReactDOM.createRoot(host);
+  const list = projectSlices.map((dsl, index) => ({ id: `slice-${index}`, dsl, parsed: parseDsl(dsl) }));
+  act(() => {
+    root?.render(
+      <ScenarioTestsDialog
+        parsed={parseDsl(current)}
+        parsedSliceProjectionList={list}
+        projectName="Hotel"
+        onCancel={() => undefined}
+      />
+    );
+  });
+}
+
+function fileNames() {
+  return [...document.querySelectorAll('.code-stubs-dialog__file')].map((button) => button.textContent);
+}
+
+afterEach(() => {
+  if (root) {
+    act(() => {
+      root?.unmount();
+    });
+  }
+  root = null;
+  document.body.innerHTML = '';
+});
+
+describe('ScenarioTestsDialog', () => {
+  it('generates tests for the current slice and, on request, the whole project', () => {
+    renderDialog(BOOKING, [BOOKING, CHECKOUT]);
+
+    expect(fileNames()).toEqual(['books-a-room.json', 'booking.scenarios.test.ts']);
+    expect(document.querySelector('.code-stubs-dialog__preview')?.textContent).toContain('"scenario": "books a room"');
+
+    const scope = document.querySelector('#scenario-tests-scope') as HTMLSelectElement;
+    act(() => {
+      scope.value = 'project';
+      scope.dispatchEvent(new Event('change', { bubbles: true }));
+    });
+
+    expect(fileNames()).toEqual([
+      'books-a-room.json',
+      'booking.scenarios.test.ts',
+      'checks-out.json',
+      'checkout.scenarios.test.ts'
+    ]);
+  });
+
+  it('explains when the slice has no scenarios', () => {
+    renderDialog('slice "Empty"\n\ncmd:do-it', []);
+
+    expect(document.querySelector('.add-node-dialog__empty')?.textContent).toContain('no scenarios');
+  });
+});
@@ -0,0 +1,139 @@
+import { useMemo, useState } from 'react';
+import { downloadFile } from '../../application/downloadFile';
+import { toKebabCase } from '../../codegen/codeStubTarget';
+import { DEFAULT_SCENARIO_TEST_TARGET_ID, generateScenarioTests, listScenarioTestTargets } from '../../codegen/scenarioTestTargets';
+import { createZipArchive } from '../../codegen/zipArchive';
+import type { ParsedSliceProjection } from '../../domain/parsedSliceProjection';
+import type { Parsed } from '../../domain/types';
+import { DialogFrame } from './dialogs/DialogFrame';
+
+type ScenarioTestScope = 'slice' | 'project';
+
+type ScenarioTestsDialogProps = {
+  parsed: Parsed | null;
+  parsedSliceProjectionList: ParsedSliceProjection<Parsed>[];
+  projectName: string;
+  onCancel: () => void;
+};
+
+function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+export function ScenarioTestsDialog({ parsed, parsedSliceProjectionList, projectName, onCancel }: ScenarioTestsDialogProps) {
+  const targets = listScenarioTestTargets();
+  const [targetId, setTargetId] = useState(DEFAULT_SCENARIO_TEST_TARGET_ID);
+  const [scope, setScope] = useState<ScenarioTestScope>('slice');
+  const [basePackage, setBasePackage] = useState('');
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  const files = useMemo(() => {
+    const slices = scope === 'project'
+      ? parsedSliceProjectionList.map((entry) => entry.parsed)
+      : (parsed ? [parsed] : []);
+    return generateScenarioTests(slices, { targetId, basePackage });
+  }, [basePackage, parsed, parsedSliceProjectionList, scope, targetId]);
+  const selectedFile = files.find((file) => file.path === selectedPath) ?? files[0] ?? null;
+
+  const downloadAll = () => {
+    if (files.length === 0) {
+      return;
+    }
+    const name = scope === 'project' ? projectName : parsed?.sliceName ?? '';
+    downloadFile(`${toKebabCase(name)}-scenarios-${targetId}.zip`, createZipArchive(files), 'application/zip');
+  };
+
+  return (
+    <DialogFrame
+      backdropClassName="add-node-dialog-backdrop"
+      panelClassName="add-node-dialog code-stubs-dialog"
+      ariaLabel="Generate scenario tests"
+      onCancel={onCancel}
+      onSubmitShortcut={downloadAll}
+    >
+      <h2>Generate Scenario Tests</h2>
+      <div className="code-stubs-dialog__options scenario-tests-dialog__options">
+        <div className="add-node-dialog__field">
+          <label htmlFor="scenario-tests-target">Target</label>
+          <select
+            id="scenario-tests-target"
+            className="add-node-dialog__input"
+            value={targetId}
+            onChange={(event) => setTargetId(event.target.value)}
+          >
+            {targets.map((target) => (
+              <option key={target.id} value={target.id}>{target.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="add-node-dialog__field">
+          <label htmlFor="scenario-tests-scope">Scope</label>
+          <select
+            id="scenario-tests-scope"
+            className="add-node-dialog__input"
+            value={scope}
+            onChange={(event) => setScope(event.target.value as ScenarioTestScope)}
+          >
+            <option value="slice">Current slice</option>
+            <option value="project">Whole project</option>
+          </select>
+        </div>
+        <div className="add-node-dialog__field">
+          <label htmlFor="scenario-tests-package">Base package</label>
+          <input
+            id="scenario-tests-package"
+            className="add-node-dialog__input"
+            value={basePackage}
+            placeholder="com.example.<slice>"
+            disabled={targetId !== 'junit'}
+            onChange={(event) => setBasePackage(event.target.value)}
+          />
+        </div>
+      </div>
+      {files.length === 0 ? (
+        <div className="add-node-dialog__empty">
+          {scope === 'project' ? 'No slice in this project has scenarios yet.' : 'This slice has no scenarios yet.'}
+        </div>
+      ) : (
+        <div className="code-stubs-dialog__content">
+          <div className="code-stubs-dialog__files" role="listbox" aria-label="Generated files">
+            {files.map((file) => (
+              <button
+                key={file.path}
+                type="button"
+                role="option"
+                aria-selected={file === selectedFile}
+                className={`code-stubs-dialog__file ${file === selectedFile ? 'active' : ''}`.trim()}
+                title={file.path}
+                onClick={() => setSelectedPath(file.path)}
+              >
+                {fileName(file.path)}
+              </button>
+            ))}
+          </div>
+          <pre className="add-node-dialog__preview code-stubs-dialog__preview" aria-label="File preview">
+            {selectedFile?.content}
+          </pre>
+        </div>
+      )}
+      <div className="project-modal-actions">
+        <button type="button" className="project-modal-button" onClick={onCancel}>Close</button>
+        <button
+          type="button"
+          className="project-modal-button"
+          disabled={!selectedFile}
+          onClick={() => {
+            if (selectedFile) {
+              downloadFile(fileName(selectedFile.path), selectedFile.content, 'text/plain');
+            }
+          }}
+        >
+          Download file
+        </button>
+        <button type="button" className="project-modal-button primary" disabled={files.length === 0} onClick={downloadAll}>
+          Download all (.zip)
+        </button>
+      </div>
+    </DialogFrame>
+  );
+}
@@ -0,0 +1,55 @@
+// @vitest-environment jsdom
+
+import { act } from 'react';
+import ReactDOM from 'react-dom/client';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SliceConflictNotice } from './SliceConflictNotice';
+
+let root: ReactDOM.Root | null = null;
+
+const CONFLICT = { sliceId: 'book', sliceName: 'Book Room', localVersion: 4, remoteVersion: 3 };
+
+function renderNotice(selectedSliceId: string, onRestore = vi.fn()) {
+  const host = document.createElement('div');
+  document.body.appendChild(host);
+  root = ReactDOM.createRoot(host);
+  act(() => {
+    root?.render(<SliceConflictNotice conflict={CONFLICT} selectedSliceId={selectedSliceId} onRestore={onRestore} onDismiss={() => undefined} />);
+  });
+  return onRestore;
+}
+
+function buttonLabels() {
+  return [...document.querySelectorAll('.slice-conflict-notice button')].map((button) => button.textContent);
+}
+
+afterEach(() => {
+  if (root) {
+    act(() => {
+      root?.unmount();
+    });
+  }
+  root = null;
+  document.body.innerHTML = '';
+});
+
+describe('SliceConflictNotice', () => {
+  it('says which edit is shown and restores the other one', () => {
+    const onRestore = renderNotice('book');
+
+    expect(document.querySelector('[role="alert"] p')?.textContent)
+      .toBe('Book Room was edited in another tab at the same time. Showing yours (v4); v3 is kept in Versions.');
+    act(() => {
+      [...document.querySelectorAll<HTMLButtonElement>('.slice-conflict-notice button')]
+        .find((button) => button.textContent === 'Restore v3')
+        ?.click();
+    });
+    expect(onRestore).toHaveBeenCalledWith(3);
+  });
+
+  it('only offers a restore for the slice that is open', () => {
+    renderNotice('other');
+
+    expect(buttonLabels()).toEqual(['Dismiss']);
+  });
+});
@@ -0,0 +1,31 @@
+import type { SliceConflictNotice as SliceConflict } from '../../application/appViewModel';
+
+type SliceConflictNoticeProps = {
+  conflict: SliceConflict;
+  selectedSliceId: string;
+  onRestore: (version: number) => void;
+  onDismiss: () => void;
+};
+
+export function SliceConflictNotice({ conflict, selectedSliceId, onRestore, onDismiss }: SliceConflictNoticeProps) {
+  // The stream keeps both edits; the later one is projected and the other stays one restore away.
+  const shownVersion = Math.max(conflict.localVersion, conflict.remoteVersion);
+  const otherVersion = Math.min(conflict.localVersion, conflict.remoteVersion);
+  const shownSide = shownVersion === conflict.localVersion ? 'yours' : 'the other tab\'s';
+  return (
+    <div className="slice-conflict-notice" role="alert">
+      <p>
+        <strong>{conflict.sliceName}</strong> was edited in another tab at the same time.
+        {' '}Showing {shownSide} (v{shownVersion}); v{otherVersion} is kept in Versions.
+      </p>
+      <div className="slice-conflict-notice__actions">
+        {conflict.sliceId === selectedSliceId ? (
+          <button type="button" className="project-modal-button" onClick={() => onRestore(otherVersion)}>
+            Restore v{otherVersion}
+          </button>
+        ) : null}
+        <button type="button" className="project-modal-button" onClick={onDismiss}>Dismiss</button>
+      </div>
+    </div>
+  );
+}
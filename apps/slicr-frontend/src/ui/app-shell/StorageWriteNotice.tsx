@@ -0,0 +1,15 @@
+type StorageWriteNoticeProps = {
+  error: string;
+  onDismiss: () => void;
+};
+
+export function StorageWriteNotice({ error, onDismiss }: StorageWriteNoticeProps) {
+  return (
+    <div className="storage-write-notice" role="alert">
+      <p>{error}</p>
+      <div className="storage-write-notice__actions">
+        <button type="button" className="project-modal-button" onClick={onDismiss}>Dismiss</button>
+      </div>
+    </div>
+  );
+}
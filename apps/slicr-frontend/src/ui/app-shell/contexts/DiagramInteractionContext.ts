@@ -17,9 +17,13 @@ export type DiagramInteractionContextValue = {
     | 'beginCanvasPan'
     | 'beginNodeDrag'
     | 'beginEdgeSegmentDrag'
+    | 'marquee'
+    | 'beginMarqueeSelection'
+    | 'remotePresence'
+    | 'onWorldPointerMove'
   >;
   docsOpen: boolean;
-  actions: Pick<ActionsSection, 'onNodeHoverRange' | 'onNodeSelect' | 'onNodeOpenInEditor' | 'onEdgeHover' | 'onToggleOverviewNodeDataVisibility'>;
+  actions: Pick<ActionsSection, 'onNodeHoverRange' | 'onNodeSelect' | 'onNodeToggleSelect' | 'onNodeOpenInEditor' | 'onEdgeHover' | 'onToggleOverviewNodeDataVisibility'>;
 };
 
 const DiagramInteractionContext = createContext<DiagramInteractionContextValue | null>(null);
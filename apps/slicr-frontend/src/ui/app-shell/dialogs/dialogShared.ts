@@ -60,6 +60,7 @@ export function colorClassForNodeType(type: string): string {
   if (type === 'read-model' || type === 'rm') return 'type-read-model';
   if (type === 'ui') return 'type-ui';
   if (type === 'command' || type === 'cmd') return 'type-command';
+  if (type === 'query' || type === 'qry') return 'type-query';
   if (type === 'exception' || type === 'exc') return 'type-exception';
   if (type === 'automation' || type === 'aut') return 'type-automation';
   if (type === 'external' || type === 'ext') return 'type-external';
@@ -1,5 +1,6 @@
 import {Dispatch, PointerEvent as ReactPointerEvent, RefObject, SetStateAction, useRef, useState} from 'react';
 import type {DiagramPoint} from './domain/diagramRouting';
+import {moveAttachedEdgePoints, nodeKeysInRect, normalizeSelectionRect, type SelectionRect} from './domain/nodeSelection';
 import type {Parsed, Position} from './domain/types';
 
 const DRAG_GRID_SIZE = 5;
@@ -16,18 +17,27 @@ type RenderedEdgeRef = {
   geometry: { points?: DiagramPoint[] };
 };
 
+export type NodesDragCommit = {
+  nodes: Record<string, { x: number; y: number }>;
+  edges: Record<string, DiagramPoint[]>;
+};
+
 type UseDiagramInteractionsArgs = {
   interactionsEnabled: boolean;
   dragAndDropEnabled: boolean;
   displayedPos: Record<string, Position>;
   renderedEdges: RenderedEdgeRef[];
   manualEdgePoints: Record<string, DiagramPoint[]>;
+  selectedNodeKeys?: string[];
   setManualNodePositions: Dispatch<SetStateAction<Record<string, { x: number; y: number }>>>;
   setManualEdgePoints: Dispatch<SetStateAction<Record<string, DiagramPoint[]>>>;
-  onNodeDragCommit?: (nodeKey: string, point: { x: number; y: number }) => void;
+  onNodesDragCommit?: (commit: NodesDragCommit) => void;
   onEdgeDragCommit?: (edgeKey: string, points: DiagramPoint[]) => void;
+  onMarqueeSelect?: (nodeKeys: string[]) => void;
 };
 
+const MIN_MARQUEE_SIZE = 3;
+
 function snapToGrid(value: number): number {
   return Math.round(value / DRAG_GRID_SIZE) * DRAG_GRID_SIZE;
 }
@@ -38,21 +48,26 @@ export function useDiagramInteractions({
   displayedPos,
   renderedEdges,
   manualEdgePoints,
+  selectedNodeKeys = [],
   setManualNodePositions,
   setManualEdgePoints,
-  onNodeDragCommit,
-  onEdgeDragCommit
+  onNodesDragCommit,
+  onEdgeDragCommit,
+  onMarqueeSelect
 }: UseDiagramInteractionsArgs): {
   canvasPanelRef: RefObject<HTMLDivElement | null>;
   dragTooltip: DragTooltipState | null;
   isPanning: boolean;
+  marquee: SelectionRect | null;
   beginNodeDrag: (event: ReactPointerEvent, nodeKey: string) => void;
   beginEdgeSegmentDrag: (event: ReactPointerEvent, edgeKey: string, segmentIndex: number, points: DiagramPoint[]) => void;
   beginCanvasPan: (event: ReactPointerEvent<HTMLDivElement>) => void;
+  beginMarqueeSelection: (event: ReactPointerEvent, toWorldPoint: (clientX: number, clientY: number) => DiagramPoint) => void;
 } {
   const canvasPanelRef = useRef<HTMLDivElement | null>(null);
   const [dragTooltip, setDragTooltip] = useState<DragTooltipState | null>(null);
   const [isPanning, setIsPanning] = useState(false);
+  const [marquee, setMarquee] = useState<SelectionRect | null>(null);
 
   const beginNodeDrag = (event: ReactPointerEvent, nodeKey: string) => {
     if (!dragAndDropEnabled) {
@@ -69,27 +84,14 @@ export function useDiagramInteractions({
     if (!origin) {
       return;
     }
-    const overriddenEdges = renderedEdges
-      .map(({ edgeKey, edge }) => {
-        const points = manualEdgePoints[edgeKey];
-        if (!points || points.length < 2) {
-          return null;
-        }
-        const affectsSource = edge.from === nodeKey;
-        const affectsTarget = edge.to === nodeKey;
-        if (!affectsSource && !affectsTarget) {
-          return null;
-        }
-        return {
-          edgeKey,
-          points: points.map((point) => ({ ...point })),
-          affectsSource,
-          affectsTarget
-        };
-      })
-      .filter((value): value is { edgeKey: string; points: DiagramPoint[]; affectsSource: boolean; affectsTarget: boolean } => Boolean(value));
-    let latestNodePoint = { x: origin.x, y: origin.y };
-    const latestEdgePoints = new Map<string, DiagramPoint[]>();
+    const movingKeys = selectedNodeKeys.includes(nodeKey)
+      ? selectedNodeKeys.filter((key) => displayedPos[key])
+      : [nodeKey];
+    const origins = Object.fromEntries(movingKeys.map((key) => [key, { x: displayedPos[key].x, y: displayedPos[key].y }]));
+    const baseEdgePoints = Object.fromEntries(
+      Object.entries(manualEdgePoints).map(([edgeKey, points]) => [edgeKey, points.map((point) => ({ ...point }))])
+    );
+    let latest: NodesDragCommit = { nodes: origins, edges: {} };
     let moved = false;
 
     const onMove = (moveEvent: PointerEvent) => {
@@ -97,45 +99,27 @@ export function useDiagramInteractions({
       const dy = moveEvent.clientY - startY;
       const nextX = snapToGrid(origin.x + dx);
       const nextY = snapToGrid(origin.y + dy);
-      const snappedDx = nextX - origin.x;
-      const snappedDy = nextY - origin.y;
-      latestNodePoint = { x: nextX, y: nextY };
-      moved = moved || nextX !== origin.x || nextY !== origin.y;
-      setManualNodePositions((current) => ({
-        ...current,
-        [nodeKey]: {
-          x: nextX,
-          y: nextY
-        }
-      }));
+      const delta = { x: nextX - origin.x, y: nextY - origin.y };
+      moved = moved || delta.x !== 0 || delta.y !== 0;
+      const nodes = Object.fromEntries(
+        movingKeys.map((key) => [key, { x: origins[key].x + delta.x, y: origins[key].y + delta.y }])
+      );
+      const edges = moveAttachedEdgePoints(
+        renderedEdges,
+        baseEdgePoints,
+        Object.fromEntries(movingKeys.map((key) => [key, delta]))
+      );
+      latest = { nodes, edges };
+      setManualNodePositions((current) => ({ ...current, ...nodes }));
       setDragTooltip({
-        text: `${nodeKey}: (${Math.round(nextX)}, ${Math.round(nextY)})`,
+        text: movingKeys.length > 1
+          ? `${nodeKey} (+${movingKeys.length - 1}): (${Math.round(nextX)}, ${Math.round(nextY)})`
+          : `${nodeKey}: (${Math.round(nextX)}, ${Math.round(nextY)})`,
         clientX: moveEvent.clientX,
         clientY: moveEvent.clientY
       });
-      if (overriddenEdges.length > 0) {
-        setManualEdgePoints((current) => {
-          const next = { ...current };
-          for (const edge of overriddenEdges) {
-            const base = edge.points.map((point) => ({ ...point }));
-            const lastIndex = base.length - 1;
-            if (edge.affectsSource) {
-              base[0] = { x: base[0].x + snappedDx, y: base[0].y + snappedDy };
-              if (lastIndex >= 1) {
-                base[1] = { x: base[1].x + snappedDx, y: base[1].y };
-              }
-            }
-            if (edge.affectsTarget) {
-              base[lastIndex] = { x: base[lastIndex].x + snappedDx, y: base[lastIndex].y + snappedDy };
-              if (lastIndex - 1 >= 0) {
-                base[lastIndex - 1] = { x: base[lastIndex - 1].x + snappedDx, y: base[lastIndex - 1].y };
-              }
-            }
-            next[edge.edgeKey] = base;
-            latestEdgePoints.set(edge.edgeKey, base.map((point) => ({ ...point })));
-          }
-          return next;
-        });
+      if (Object.keys(edges).length > 0) {
+        setManualEdgePoints((current) => ({ ...current, ...edges }));
       }
     };
     const onUp = (upEvent: PointerEvent) => {
@@ -146,10 +130,13 @@ export function useDiagramInteractions({
       window.removeEventListener('pointerup', onUp);
       setDragTooltip(null);
       if (moved) {
-        onNodeDragCommit?.(nodeKey, latestNodePoint);
-        for (const [edgeKey, points] of latestEdgePoints.entries()) {
-          onEdgeDragCommit?.(edgeKey, points.map((point) => ({ ...point })));
-        }
+        onNodesDragCommit?.(latest);
+      }
+      if (moved && movingKeys.length > 1) {
+        // Keep the click that ends a group drag from collapsing the selection.
+        const suppressClick = (clickEvent: MouseEvent) => clickEvent.stopPropagation();
+        window.addEventListener('click', suppressClick, { capture: true, once: true });
+        window.setTimeout(() => window.removeEventListener('click', suppressClick, { capture: true }), 0);
       }
     };
 
@@ -266,12 +253,53 @@ export function useDiagramInteractions({
     window.addEventListener('pointerup', onUp);
   };
 
+  const beginMarqueeSelection = (
+    event: ReactPointerEvent,
+    toWorldPoint: (clientX: number, clientY: number) => DiagramPoint
+  ) => {
+    if (!interactionsEnabled || !onMarqueeSelect) {
+      return;
+    }
+    if (event.button !== 0) {
+      return;
+    }
+    const target = event.target;
+    if (target instanceof Element && (target.closest('.node') || target.closest('.edge-segment-handle'))) {
+      return;
+    }
+    event.preventDefault();
+    const pointerId = event.pointerId;
+    const start = toWorldPoint(event.clientX, event.clientY);
+    let rect = normalizeSelectionRect(start, start);
+
+    const onMove = (moveEvent: PointerEvent) => {
+      rect = normalizeSelectionRect(start, toWorldPoint(moveEvent.clientX, moveEvent.clientY));
+      setMarquee(rect);
+    };
+    const onUp = (upEvent: PointerEvent) => {
+      if (upEvent.pointerId !== pointerId) {
+        return;
+      }
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      setMarquee(null);
+      if (rect.width >= MIN_MARQUEE_SIZE || rect.height >= MIN_MARQUEE_SIZE) {
+        onMarqueeSelect(nodeKeysInRect(displayedPos, rect));
+      }
+    };
+
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  };
+
   return {
     canvasPanelRef,
     dragTooltip,
     isPanning,
+    marquee,
     beginNodeDrag,
     beginEdgeSegmentDrag,
-    beginCanvasPan
+    beginCanvasPan,
+    beginMarqueeSelection
   };
 }
@@ -1,9 +1,19 @@
 // @vitest-environment jsdom
 
 import { EditorSelection, EditorState } from '@codemirror/state';
+import { history, isolateHistory } from '@codemirror/commands';
 import { EditorView } from '@codemirror/view';
-import { afterEach, describe, expect, it } from 'vitest';
-import { indentCurrentLineByTwo, unindentCurrentLineByTwo } from './useDslEditor';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { appendSliceEvent, hydrateSliceProjection } from './sliceEventStore';
+import { recordEditorHistoryEdit, undoSliceEdit } from './sliceHistory';
+import {
+  defaultCreateEditorView,
+  formatEditorDocument,
+  indentCurrentLineByTwo,
+  runEditorHistoryCommand,
+  runEditorSaveCommand,
+  unindentCurrentLineByTwo
+} from './useDslEditor';
 
 let view: EditorView | null = null;
 
@@ -11,6 +21,7 @@ afterEach(() => {
   view?.destroy();
   view = null;
   document.body.innerHTML = '';
+  localStorage.clear();
 });
 
 function createView(doc: string, anchor: number) {
@@ -89,4 +100,73 @@ describe('dsl editor keymap commands', () => {
     expect(editor.state.doc.toString()).toBe('a\nb\nc');
   });
 
+  it('falls back to the slice history once the editor history is exhausted', () => {
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    view = new EditorView({ state: EditorState.create({ doc: 'a', extensions: [history()] }), parent: host });
+    view.dispatch({ changes: { from: 1, insert: 'b' } });
+    const onHistoryExhausted = vi.fn(() => true);
+
+    expect(runEditorHistoryCommand(view, 'undo', onHistoryExhausted)).toBe(true);
+    expect(view.state.doc.toString()).toBe('a');
+    expect(onHistoryExhausted).not.toHaveBeenCalled();
+
+    expect(runEditorHistoryCommand(view, 'undo', onHistoryExhausted)).toBe(true);
+    expect(onHistoryExhausted).toHaveBeenCalledWith('undo');
+  });
+
+  it('does not bring back text the editor undid once its history is exhausted', () => {
+    const sliceId = 'editor-history';
+    const initialDsl = 'slice "A"\n\ncmd:a';
+    appendSliceEvent(sliceId, { type: 'slice-created', payload: { initialDsl } });
+    appendSliceEvent(sliceId, { type: 'node-moved', payload: { nodeKey: 'a', x: 10, y: 20 } });
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    const editor = defaultCreateEditorView({
+      parent: host,
+      doc: initialDsl,
+      onDocChanged: (dsl, direction) => {
+        if (direction) {
+          recordEditorHistoryEdit(sliceId, dsl, direction);
+        } else {
+          appendSliceEvent(sliceId, { type: 'text-edited', payload: { dsl } });
+        }
+      }
+    }) as EditorView;
+    view = editor;
+    editor.dispatch({ changes: { from: editor.state.doc.length, insert: '\nevt:b' }, userEvent: 'input.type' });
+    editor.dispatch({
+      changes: { from: editor.state.doc.length, insert: '\nrm:c' },
+      userEvent: 'input.type',
+      annotations: isolateHistory.of('full')
+    });
+    const onHistoryExhausted = vi.fn(() => undoSliceEdit(sliceId) !== null);
+
+    expect(runEditorHistoryCommand(editor, 'undo', onHistoryExhausted)).toBe(true);
+    expect(runEditorHistoryCommand(editor, 'undo', onHistoryExhausted)).toBe(true);
+    expect(editor.state.doc.toString()).toBe(initialDsl);
+    expect(onHistoryExhausted).not.toHaveBeenCalled();
+
+    expect(runEditorHistoryCommand(editor, 'undo', onHistoryExhausted)).toBe(true);
+    expect(onHistoryExhausted).toHaveBeenCalledWith('undo');
+    expect(hydrateSliceProjection(sliceId)).toMatchObject({ dsl: initialDsl, manualNodePositions: {} });
+  });
+
+  it('formats the document in place and keeps the cursor before the changed span', () => {
+    const editor = createView('slice "Orders"\n\nrm:orders <- evt:created\n    stream: orders', 5);
+
+    expect(formatEditorDocument(editor)).toBe(true);
+    expect(editor.state.doc.toString()).toBe('slice "Orders"\n\nrm:orders\n<- evt:created\nstream: orders\n');
+    expect(editor.state.selection.main.head).toBe(5);
+  });
+
+  it('formats on save only when format on save is enabled', () => {
+    const editor = createView('slice "Orders"\nevt:created', 0);
+
+    expect(runEditorSaveCommand(editor, () => false)).toBe(true);
+    expect(editor.state.doc.toString()).toBe('slice "Orders"\nevt:created');
+
+    expect(runEditorSaveCommand(editor, () => true)).toBe(true);
+    expect(editor.state.doc.toString()).toBe('slice "Orders"\n\nevt:created\n');
+  });
 });
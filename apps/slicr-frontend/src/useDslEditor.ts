@@ -1,11 +1,13 @@
 import { Dispatch, RefObject, SetStateAction, useEffect, useRef } from 'react';
-import { EditorSelection, EditorState, Prec, Range as CMRange, RangeSet, RangeSetBuilder, StateEffect, StateField } from '@codemirror/state';
+import { ChangeSet, Compartment, EditorSelection, EditorState, Prec, Range as CMRange, RangeSet, RangeSetBuilder, StateEffect, StateField, Transaction } from '@codemirror/state';
 import { foldGutter, codeFolding, foldEffect, foldable, unfoldAll } from '@codemirror/language';
 import { EditorView, Decoration, DecorationSet, GutterMarker, gutterLineClass, keymap } from '@codemirror/view';
 import { acceptCompletion, completionStatus, currentCompletions, moveCompletionSelection, selectedCompletion, selectedCompletionIndex, setSelectedCompletion } from '@codemirror/autocomplete';
 import { history, undo, redo } from '@codemirror/commands';
-import { getDependencySuggestions } from './domain/dslAutocomplete';
-import { slicr } from './slicrLanguage';
+import { stripDslComment } from './domain/dslComments';
+import { formatDsl } from './domain/formatDsl';
+import { getDependencySuggestions, type ProjectNodeRef } from './domain/dslAutocomplete';
+import { setProjectNodeRefs, slicr } from './slicrLanguage';
 
 export type Range = { from: number; to: number };
 export type WarningLevel = 'warning' | 'error';
@@ -13,6 +15,13 @@ export type EditorWarning = { range: Range; message: string; level?: WarningLeve
 type LineWarningItem = { message: string; level: WarningLevel };
 type LineWarningInfo = { entries: LineWarningItem[]; level: WarningLevel };
 
+// A shared document the editor edits together with other participants.
+export type DslEditorCollab = {
+  getDoc: () => string;
+  applyLocalText: (changes: ChangeSet) => void;
+  subscribeRemoteText: (listener: (changes: ChangeSet) => void) => () => void;
+};
+
 function acceptActiveCompletion(view: EditorView): boolean {
   if (acceptCompletion(view)) {
     return true;
@@ -57,7 +66,7 @@ function acceptCompletionFallback(view: EditorView): boolean {
 
 export function getNewLineIndent(previousLineText: string): string {
   const baseIndent = previousLineText.match(/^\s*/)?.[0] ?? '';
-  if (previousLineText.trimEnd().endsWith(':')) {
+  if (stripDslComment(previousLineText).trimEnd().endsWith(':')) {
     return `${baseIndent}  `;
   }
   return baseIndent;
@@ -90,7 +99,10 @@ export function insertNewLineWithIndent(view: EditorView): boolean {
   return true;
 }
 
+const NO_PROJECT_NODE_REFS: ProjectNodeRef[] = [];
+
 const setHighlight = StateEffect.define<Range | null>();
+const collabCompartment = new Compartment();
 const setWarnings = StateEffect.define<EditorWarning[]>();
 
 function normalizeWarnings(warnings: EditorWarning[], docLength: number) {
@@ -354,10 +366,14 @@ export type EditorViewStub = {
 
 export type EditorViewLike = EditorView | EditorViewStub;
 
+export type EditorHistoryDirection = 'undo' | 'redo';
+
 type CreateEditorView = (args: {
   parent: HTMLDivElement;
   doc: string;
-  onDocChanged: (nextDoc: string) => void;
+  onDocChanged: (nextDoc: string, historyDirection?: EditorHistoryDirection) => void;
+  onHistoryExhausted?: (direction: EditorHistoryDirection) => boolean;
+  formatOnSave?: () => boolean;
 }) => EditorViewLike;
 
 function isEditorView(editorView: EditorViewLike | null): editorView is EditorView {
@@ -407,7 +423,45 @@ const createFoldMarker = (open: boolean) => {
   return marker;
 };
 
-export const defaultCreateEditorView: CreateEditorView = ({ parent, doc, onDocChanged }) => {
+export function runEditorHistoryCommand(
+  view: EditorView,
+  direction: EditorHistoryDirection,
+  onHistoryExhausted?: (direction: EditorHistoryDirection) => boolean
+): boolean {
+  const command = direction === 'undo' ? undo : redo;
+  return command(view) || (onHistoryExhausted?.(direction) ?? false);
+}
+
+// Replaces only the span that changed so the cursor and folds outside it stay put.
+export function formatEditorDocument(view: EditorView): boolean {
+  const current = view.state.doc.toString();
+  const formatted = formatDsl(current);
+  if (formatted === current) {
+    return true;
+  }
+
+  let from = 0;
+  while (from < current.length && from < formatted.length && current[from] === formatted[from]) {
+    from += 1;
+  }
+  let currentTo = current.length;
+  let formattedTo = formatted.length;
+  while (currentTo > from && formattedTo > from && current[currentTo - 1] === formatted[formattedTo - 1]) {
+    currentTo -= 1;
+    formattedTo -= 1;
+  }
+  view.dispatch({ changes: { from, to: currentTo, insert: formatted.slice(from, formattedTo) } });
+  return true;
+}
+
+export function runEditorSaveCommand(view: EditorView, formatOnSave?: () => boolean): boolean {
+  if (formatOnSave?.()) {
+    formatEditorDocument(view);
+  }
+  return true;
+}
+
+export const defaultCreateEditorView: CreateEditorView = ({ parent, doc, onDocChanged, onHistoryExhausted, formatOnSave }) => {
   let pinnedWarningLineFrom: number | null = null;
 
   return (new EditorView({
@@ -416,6 +470,7 @@ export const defaultCreateEditorView: CreateEditorView = ({ parent, doc, onDocCh
       extensions: [
         slicr(),
         history(),
+        collabCompartment.of([]),
         highlightField,
         warningGutterField,
         warningMessagesField,
@@ -531,9 +586,11 @@ export const defaultCreateEditorView: CreateEditorView = ({ parent, doc, onDocCh
         }),
         Prec.highest(
           keymap.of([
-            { key: 'Mod-z', run: undo, preventDefault: true },
-            { key: 'Mod-Shift-z', run: redo, preventDefault: true },
-            { key: 'Mod-y', run: redo, preventDefault: true }
+            { key: 'Mod-z', run: (view) => runEditorHistoryCommand(view, 'undo', onHistoryExhausted), preventDefault: true },
+            { key: 'Mod-Shift-z', run: (view) => runEditorHistoryCommand(view, 'redo', onHistoryExhausted), preventDefault: true },
+            { key: 'Mod-y', run: (view) => runEditorHistoryCommand(view, 'redo', onHistoryExhausted), preventDefault: true },
+            { key: 'Shift-Alt-f', run: formatEditorDocument, preventDefault: true },
+            { key: 'Mod-s', run: (view) => runEditorSaveCommand(view, formatOnSave), preventDefault: true }
           ])
         ),
         EditorView.lineWrapping,
@@ -691,6 +748,9 @@ export const defaultCreateEditorView: CreateEditorView = ({ parent, doc, onDocCh
           '.cm-completionIcon-cmd': {
             color: 'var(--command-color)'
           },
+          '.cm-completionIcon-qry': {
+            color: 'var(--query-color)'
+          },
           '.cm-completionIcon-rm': {
             color: 'var(--rm)'
           },
@@ -712,6 +772,9 @@ export const defaultCreateEditorView: CreateEditorView = ({ parent, doc, onDocCh
           '.cm-completionIcon-cmd + .cm-completionLabel': {
             color: 'var(--command-color)'
           },
+          '.cm-completionIcon-qry + .cm-completionLabel': {
+            color: 'var(--query-color)'
+          },
           '.cm-completionIcon-rm + .cm-completionLabel': {
             color: 'var(--rm)'
           },
@@ -743,7 +806,10 @@ export const defaultCreateEditorView: CreateEditorView = ({ parent, doc, onDocCh
           }
 
           const nextDoc = update.state.doc.toString();
-          onDocChanged(nextDoc);
+          const historyDirection = update.transactions.some((transaction) => transaction.isUserEvent('undo'))
+            ? 'undo'
+            : update.transactions.some((transaction) => transaction.isUserEvent('redo')) ? 'redo' : undefined;
+          onDocChanged(nextDoc, historyDirection);
         })
       ]
     }),
@@ -758,6 +824,11 @@ export function useDslEditor({
   editorMountRef,
   highlightRange,
   warnings = [],
+  projectNodeRefs = NO_PROJECT_NODE_REFS,
+  onHistoryExhausted,
+  onHistoryDocChanged,
+  formatOnSave = false,
+  collab = null,
   createEditorView = defaultCreateEditorView
 }: {
   dsl: string;
@@ -766,6 +837,11 @@ export function useDslEditor({
   editorMountRef: RefObject<HTMLDivElement | null>;
   highlightRange?: Range | null;
   warnings?: EditorWarning[];
+  projectNodeRefs?: ProjectNodeRef[];
+  onHistoryExhausted?: (direction: EditorHistoryDirection) => boolean;
+  onHistoryDocChanged?: (nextDoc: string, direction: EditorHistoryDirection) => void;
+  formatOnSave?: boolean;
+  collab?: DslEditorCollab | null;
   createEditorView?: CreateEditorView;
 }) {
   const editorViewRef = useRef<EditorViewLike | null>(null);
@@ -773,11 +849,27 @@ export function useDslEditor({
   const onDocChangedRef = useRef(onDslChange);
   const onRangeHoverRef = useRef(onRangeHover);
   const warningsRef = useRef(warnings);
+  const projectNodeRefsRef = useRef(projectNodeRefs);
+  const onHistoryExhaustedRef = useRef(onHistoryExhausted);
+  const onHistoryDocChangedRef = useRef(onHistoryDocChanged);
+  const formatOnSaveRef = useRef(formatOnSave);
 
   useEffect(() => {
     onDocChangedRef.current = onDslChange;
   }, [onDslChange]);
 
+  useEffect(() => {
+    onHistoryExhaustedRef.current = onHistoryExhausted;
+  }, [onHistoryExhausted]);
+
+  useEffect(() => {
+    onHistoryDocChangedRef.current = onHistoryDocChanged;
+  }, [onHistoryDocChanged]);
+
+  useEffect(() => {
+    formatOnSaveRef.current = formatOnSave;
+  }, [formatOnSave]);
+
   useEffect(() => {
     onRangeHoverRef.current = onRangeHover;
   }, [onRangeHover]);
@@ -786,6 +878,17 @@ export function useDslEditor({
     warningsRef.current = warnings;
   }, [warnings]);
 
+  useEffect(() => {
+    projectNodeRefsRef.current = projectNodeRefs;
+  }, [projectNodeRefs]);
+
+  const formatDocument = () => {
+    const editorView = editorViewRef.current;
+    if (isEditorView(editorView)) {
+      formatEditorDocument(editorView);
+    }
+  };
+
   const collapseAllDataRegions = () => {
     const editorView = editorViewRef.current as EditorView | null;
     if (!editorView) {
@@ -795,7 +898,7 @@ export function useDslEditor({
     const effects: StateEffect<unknown>[] = [];
     for (let lineNumber = 1; lineNumber <= editorView.state.doc.lines; lineNumber++) {
       const line = editorView.state.doc.line(lineNumber);
-      if (!/^\s*(data|uses|maps):\s*$/.test(line.text)) {
+      if (!/^\s*(data|uses|maps):\s*$/.test(stripDslComment(line.text))) {
         continue;
       }
 
@@ -937,6 +1040,17 @@ export function useDslEditor({
     });
   }, [warnings]);
 
+  useEffect(() => {
+    const editorView = editorViewRef.current;
+    if (!isEditorView(editorView)) {
+      return;
+    }
+
+    editorView.dispatch({
+      effects: setProjectNodeRefs.of(projectNodeRefs)
+    });
+  }, [projectNodeRefs]);
+
   useEffect(() => {
     if (!editorMountRef.current || editorViewRef.current) {
       return;
@@ -945,9 +1059,14 @@ export function useDslEditor({
     const editorView = createEditorView({
       parent: editorMountRef.current,
       doc: initialDslRef.current,
-      onDocChanged: (nextValue) => {
+      onDocChanged: (nextValue, historyDirection) => {
+        if (historyDirection) {
+          onHistoryDocChangedRef.current?.(nextValue, historyDirection);
+        }
         onDocChangedRef.current((current) => (current === nextValue ? current : nextValue));
-      }
+      },
+      onHistoryExhausted: (direction) => onHistoryExhaustedRef.current?.(direction) ?? false,
+      formatOnSave: () => formatOnSaveRef.current
     });
 
     if (onRangeHoverRef.current && isEditorView(editorView)) {
@@ -1037,7 +1156,7 @@ export function useDslEditor({
       editorView.contentDOM.addEventListener('keydown', onContentDomEnterKeyDown, { capture: true });
       window.addEventListener('keydown', onWindowKeyDown, { capture: true });
       editorView.dispatch({
-        effects: setWarnings.of(warningsRef.current)
+        effects: [setWarnings.of(warningsRef.current), setProjectNodeRefs.of(projectNodeRefsRef.current)]
       });
 
       return () => {
@@ -1058,6 +1177,40 @@ export function useDslEditor({
     };
   }, [createEditorView, editorMountRef]);
 
+  // Declared before the DSL sync below so switching away from a shared slice unbinds before its text is replaced.
+  useEffect(() => {
+    const editorView = editorViewRef.current;
+    if (!collab || !isEditorView(editorView)) {
+      return;
+    }
+
+    const applyRemote = (changes: ChangeSet) => {
+      editorView.dispatch({
+        changes,
+        annotations: [Transaction.remote.of(true), Transaction.addToHistory.of(false)]
+      });
+    };
+    const shared = collab.getDoc();
+    if (editorView.state.doc.toString() !== shared) {
+      applyRemote(ChangeSet.of({ from: 0, to: editorView.state.doc.length, insert: shared }, editorView.state.doc.length));
+    }
+    editorView.dispatch({
+      effects: collabCompartment.reconfigure(EditorView.updateListener.of((update) => {
+        for (const transaction of update.transactions) {
+          if (transaction.docChanged && !transaction.annotation(Transaction.remote)) {
+            collab.applyLocalText(transaction.changes);
+          }
+        }
+      }))
+    });
+    const unsubscribe = collab.subscribeRemoteText(applyRemote);
+
+    return () => {
+      unsubscribe();
+      editorView.dispatch({ effects: collabCompartment.reconfigure([]) });
+    };
+  }, [collab, createEditorView]);
+
   useEffect(() => {
     const editorView = editorViewRef.current;
     if (!editorView) {
@@ -1079,6 +1232,7 @@ export function useDslEditor({
     collapseAllRegions,
     expandAllRegions,
     focusRange,
+    formatDocument,
     hasFocusedCursor,
     insertAtCursorOrEnd
   };